@@ -21,6 +21,9 @@ const physicsValidator = v.object({
   velocityY: v.number(),
   bounce: v.number(),
   allowRotation: v.boolean(),
+  layerId: v.optional(v.string()),
+  collidesWith: v.optional(v.array(v.string())),
+  oneWay: v.optional(v.boolean()),
 });
 
 // Collider config validator
@@ -29,13 +32,16 @@ const colliderValidator = v.object({
     v.literal("none"),
     v.literal("box"),
     v.literal("circle"),
-    v.literal("capsule")
+    v.literal("capsule"),
+    v.literal("polygon")
   ),
   offsetX: v.number(),
   offsetY: v.number(),
   width: v.number(),
   height: v.number(),
   radius: v.number(),
+  vertices: v.optional(v.array(v.object({ x: v.number(), y: v.number() }))),
+  isSensor: v.optional(v.boolean()),
 });
 
 export default defineSchema({
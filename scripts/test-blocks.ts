@@ -75,6 +75,378 @@ const testCases: TestCase[] = [
     `,
     expectCodeContains: ["runtime.onKeyPressed(spriteId, 'SPACE'", 'sprite.setX(100)'],
   },
+  {
+    name: 'event_key_released (any key) with looks_show',
+    xml: `
+      <xml>
+        <block type="event_key_released">
+          <field name="KEY">ANY</field>
+          <statement name="NEXT">
+            <block type="looks_show"></block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["runtime.onKeyReleased(spriteId, 'ANY'", 'sprite.show()'],
+  },
+  {
+    name: 'loop yields and failing block tracking',
+    xml: `
+      <xml>
+        <block type="event_game_start" id="start">
+          <statement name="NEXT">
+            <block type="control_repeat_until" id="loop">
+              <value name="CONDITION"><block type="logic_boolean"><field name="BOOL">FALSE</field></block></value>
+              <statement name="DO">
+                <block type="looks_show" id="show"></block>
+              </statement>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      'await runtime.yield(sprite)',
+      "__block = 'show';",
+      'throw runtime.scriptError(e, __block)',
+    ],
+  },
+  {
+    name: 'looks_say_for_secs and looks_think',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="looks_say_for_secs">
+              <value name="MESSAGE"><block type="text"><field name="TEXT">Hello!</field></block></value>
+              <value name="SECONDS"><block type="math_number"><field name="NUM">2</field></block></value>
+              <next>
+                <block type="looks_think">
+                  <value name="MESSAGE"><block type="text"><field name="TEXT">Hmm...</field></block></value>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["await sprite.sayForSeconds('Hello!', 2)", "sprite.think('Hmm...')"],
+  },
+  {
+    name: 'sensing_ask_and_wait and sensing_answer',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="sensing_ask_and_wait">
+              <value name="QUESTION"><block type="text"><field name="TEXT">Name?</field></block></value>
+              <next>
+                <block type="looks_say">
+                  <value name="MESSAGE"><block type="sensing_answer"></block></value>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["await runtime.ask('Name?', sprite)", 'runtime.getAnswer()'],
+  },
+  {
+    name: 'text object blocks',
+    xml: `
+      <xml>
+        <block type="looks_set_text">
+          <value name="TEXT"><block type="text"><field name="TEXT">Score: </field></block></value>
+          <next>
+            <block type="looks_append_text">
+              <value name="TEXT"><block type="math_number"><field name="NUM">12</field></block></value>
+              <next>
+                <block type="looks_set_text_color"><field name="COLOR">#FFCC00</field></block>
+              </next>
+            </block>
+          </next>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["sprite.setText('Score: ')", 'sprite.appendText(12)', "sprite.setTextColor('#FFCC00')"],
+  },
+  {
+    name: 'backdrop blocks',
+    xml: `
+      <xml>
+        <block type="event_when_backdrop_switches">
+          <field name="BACKDROP">night</field>
+          <statement name="NEXT">
+            <block type="looks_say">
+              <value name="MESSAGE"><block type="looks_backdrop"><field name="PROPERTY">NAME</field></block></value>
+              <next>
+                <block type="looks_switch_backdrop">
+                  <value name="BACKDROP"><block type="text"><field name="TEXT">day</field></block></value>
+                  <next>
+                    <block type="looks_next_backdrop"></block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      "runtime.onBackdropSwitch(spriteId, 'night'",
+      'runtime.getBackdropName()',
+      "runtime.switchBackdrop('day')",
+      'runtime.nextBackdrop()',
+    ],
+  },
+  {
+    name: 'animation blocks',
+    xml: `
+      <xml>
+        <block type="event_when_animation_finishes">
+          <field name="ANIMATION">jump</field>
+          <statement name="NEXT">
+            <block type="looks_play_animation">
+              <value name="ANIMATION"><block type="text"><field name="TEXT">walk</field></block></value>
+              <next>
+                <block type="looks_stop_animation"></block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      "runtime.onAnimationFinish(spriteId, 'jump'",
+      "sprite.playAnimation('walk')",
+      'sprite.stopAnimation()',
+    ],
+  },
+  {
+    name: 'sound effect and music blocks',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="sound_set_effect">
+              <field name="EFFECT">PAN</field>
+              <value name="VALUE"><block type="math_number"><field name="NUM">50</field></block></value>
+              <next>
+                <block type="sound_change_effect">
+                  <field name="EFFECT">PITCH</field>
+                  <value name="DELTA"><block type="math_number"><field name="NUM">10</field></block></value>
+                  <next>
+                    <block type="sound_clear_effects">
+                      <next>
+                        <block type="sound_stop_music"></block>
+                      </next>
+                    </block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      "runtime.setSoundEffect(sprite, 'pan', 50)",
+      "runtime.changeSoundEffect(sprite, 'pitch', 10)",
+      'runtime.clearSoundEffects(sprite)',
+      'runtime.stopMusic()',
+    ],
+  },
+  {
+    name: 'pen blocks',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="pen_clear">
+              <next>
+                <block type="pen_set_color">
+                  <field name="COLOR">#FF0000</field>
+                  <next>
+                    <block type="pen_set_size">
+                      <value name="SIZE"><block type="math_number"><field name="NUM">5</field></block></value>
+                      <next>
+                        <block type="pen_down">
+                          <next>
+                            <block type="pen_change_size">
+                              <value name="DELTA"><block type="math_number"><field name="NUM">2</field></block></value>
+                              <next>
+                                <block type="pen_stamp">
+                                  <next>
+                                    <block type="pen_up"></block>
+                                  </next>
+                                </block>
+                              </next>
+                            </block>
+                          </next>
+                        </block>
+                      </next>
+                    </block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      'runtime.penClear()',
+      "sprite.setPenColor('#FF0000')",
+      'sprite.setPenSize(5)',
+      'sprite.penDown()',
+      'sprite.changePenSize(2)',
+      'sprite.stamp()',
+      'sprite.penUp()',
+    ],
+  },
+  {
+    name: 'music blocks',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="music_set_instrument">
+              <field name="INSTRUMENT">organ</field>
+              <next>
+                <block type="music_set_tempo">
+                  <value name="TEMPO"><block type="math_number"><field name="NUM">120</field></block></value>
+                  <next>
+                    <block type="music_play_note">
+                      <value name="NOTE"><block type="math_number"><field name="NUM">64</field></block></value>
+                      <value name="BEATS"><block type="math_number"><field name="NUM">0.5</field></block></value>
+                      <next>
+                        <block type="music_rest">
+                          <value name="BEATS"><block type="math_number"><field name="NUM">1</field></block></value>
+                          <next>
+                            <block type="music_play_drum">
+                              <field name="DRUM">snare</field>
+                              <value name="BEATS"><block type="math_number"><field name="NUM">0.25</field></block></value>
+                            </block>
+                          </next>
+                        </block>
+                      </next>
+                    </block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      "runtime.setInstrument(sprite, 'organ')",
+      'runtime.setTempo(120)',
+      'await runtime.playNote(sprite, 64, 0.5)',
+      'await runtime.rest(sprite, 1)',
+      "await runtime.playDrum(sprite, 'snare', 0.25)",
+    ],
+  },
+  {
+    name: 'physics joint blocks',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="physics_connect">
+              <field name="TARGET">obj2</field>
+              <field name="TYPE">rope</field>
+              <next>
+                <block type="physics_connect_spring">
+                  <field name="TARGET">obj2</field>
+                  <value name="STIFFNESS"><block type="math_number"><field name="NUM">0.2</field></block></value>
+                  <next>
+                    <block type="physics_disconnect">
+                      <field name="TARGET">obj2</field>
+                      <next>
+                        <block type="physics_disconnect_all"></block>
+                      </next>
+                    </block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      "runtime.connect(spriteId, 'obj2', 'rope')",
+      "runtime.connect(spriteId, 'obj2', 'spring', 0.2)",
+      "runtime.disconnect(spriteId, 'obj2')",
+      'runtime.disconnectAll(spriteId)',
+    ],
+  },
+  {
+    name: 'physics force and motion blocks',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="physics_apply_force">
+              <value name="FX"><block type="math_number"><field name="NUM">1</field></block></value>
+              <value name="FY"><block type="math_number"><field name="NUM">5</field></block></value>
+              <next>
+                <block type="physics_apply_impulse">
+                  <value name="IX"><block type="math_number"><field name="NUM">0</field></block></value>
+                  <value name="IY"><block type="math_number"><field name="NUM">20</field></block></value>
+                  <value name="PX"><block type="math_number"><field name="NUM">10</field></block></value>
+                  <value name="PY"><block type="math_number"><field name="NUM">0</field></block></value>
+                  <next>
+                    <block type="physics_set_mass">
+                      <field name="PROPERTY">density</field>
+                      <value name="VALUE"><block type="math_number"><field name="NUM">0.002</field></block></value>
+                      <next>
+                        <block type="looks_say">
+                          <value name="MESSAGE">
+                            <block type="physics_velocity">
+                              <field name="PROPERTY">y</field>
+                            </block>
+                          </value>
+                        </block>
+                      </next>
+                    </block>
+                  </next>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      'sprite.applyForce(1, 5)',
+      'sprite.applyImpulse(0, 20, 10, 0)',
+      'sprite.setDensity(0.002)',
+      'sprite.getVelocityY()',
+    ],
+  },
+  {
+    name: 'sensing_tile_at',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="looks_say">
+              <value name="MESSAGE">
+                <block type="sensing_tile_at">
+                  <value name="X"><block type="math_number"><field name="NUM">16</field></block></value>
+                  <value name="Y"><block type="math_number"><field name="NUM">48</field></block></value>
+                </block>
+              </value>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ['runtime.getTileAt(16, 48)'],
+  },
   {
     name: 'event_clicked with looks_hide',
     xml: `
@@ -105,7 +477,7 @@ const testCases: TestCase[] = [
         </block>
       </xml>
     `,
-    expectCodeContains: ['runtime.forever', 'sprite.moveSteps(5)'],
+    expectCodeContains: ['runtime.forever(spriteId, async function(sprite)', 'sprite.moveSteps(5)'],
   },
   // Motion blocks standalone
   {
@@ -187,7 +559,7 @@ const testCases: TestCase[] = [
         </block>
       </xml>
     `,
-    expectCodeContains: ['await runtime.wait(2)'],
+    expectCodeContains: ['await runtime.wait(2, sprite)'],
   },
   {
     name: 'control_repeat with nested block',
@@ -203,7 +575,7 @@ const testCases: TestCase[] = [
         </block>
       </xml>
     `,
-    expectCodeContains: ['for (let i = 0; i < 5; i++)', 'sprite.moveSteps(10)'],
+    expectCodeContains: ['for (let i = 0; i < 5; i++)', 'sprite.moveSteps(10)', 'await runtime.yield(sprite)'],
   },
   // Sensing blocks (reporters)
   {
@@ -261,6 +633,93 @@ const testCases: TestCase[] = [
     xml: `<xml><block type="looks_costume_number"></block></xml>`,
     expectCodeContains: ['sprite.getCostumeNumber()'],
   },
+  // Variable monitors
+  {
+    name: 'typed_variable_show and typed_variable_hide',
+    xml: `
+      <xml>
+        <block type="typed_variable_show">
+          <field name="VAR">var-1</field>
+          <next>
+            <block type="typed_variable_hide"><field name="VAR">var-1</field></block>
+          </next>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["runtime.showVariable('var-1', sprite.id)", "runtime.hideVariable('var-1')"],
+  },
+  // List blocks
+  {
+    name: 'list_add',
+    xml: `
+      <xml>
+        <block type="list_add">
+          <field name="LIST">list-1</field>
+          <value name="ITEM"><block type="text"><field name="TEXT">apple</field></block></value>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["runtime.addToList('list-1', 'apple', sprite.id)"],
+  },
+  {
+    name: 'list_item',
+    xml: `
+      <xml>
+        <block type="debug_console_log">
+          <value name="VALUE">
+            <block type="list_item">
+              <field name="LIST">list-1</field>
+              <value name="INDEX"><block type="math_number"><field name="NUM">2</field></block></value>
+            </block>
+          </value>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["runtime.getListItem('list-1', 2, sprite.id)"],
+  },
+  {
+    name: 'for each over a list',
+    xml: `
+      <xml>
+        <block type="control_for_each">
+          <value name="LIST"><block type="list_get"><field name="LIST">list-1</field></block></value>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: ["runtime.getList('list-1', sprite.id)", 'for (const __currentItem__ of'],
+  },
+  // Custom blocks
+  {
+    name: 'custom block definition and call',
+    xml: `
+      <xml>
+        <block type="custom_block_define">
+          <mutation procid="jump" name="jump"><param id="h" name="height" type="number"></param></mutation>
+          <statement name="NEXT">
+            <block type="motion_change_y">
+              <value name="VALUE">
+                <block type="custom_block_argument"><mutation procid="jump" paramid="h" name="height" type="number"></mutation></block>
+              </value>
+            </block>
+          </statement>
+        </block>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="custom_block_call">
+              <mutation procid="jump" name="jump"><param id="h" name="height" type="number"></param></mutation>
+              <value name="ARG_h"><block type="math_number"><field name="NUM">50</field></block></value>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    expectCodeContains: [
+      'async function __custom_jump(sprite, __arg_h)',
+      '__arg_h = Number(__arg_h) || 0;',
+      'sprite.changeY(__arg_h)',
+      'await __custom_jump(sprite, 50);',
+    ],
+  },
   // Combined test: full program
   {
     name: 'Full program: game start with multiple actions',
@@ -0,0 +1,351 @@
+/**
+ * Automated tests for editor helpers that don't need the stage or Blockly.
+ * Run with: npx tsx scripts/test-editor.ts
+ */
+
+import { SoundRecorder, setAudioCaptureSource } from '../src/utils/soundRecorder';
+import { beginHistoryGroup, endHistoryGroup, registerPendingEditFlush, useHistoryStore } from '../src/store/historyStore';
+import { useProjectStore } from '../src/store/projectStore';
+
+// --- Browser fakes ---
+// Just enough of MediaRecorder, AudioContext and FileReader for the recorder to run outside a browser
+
+class FakeTrack {
+  public stopped = false;
+  stop() { this.stopped = true; }
+}
+
+class FakeStream {
+  public tracks = [new FakeTrack(), new FakeTrack()];
+  getTracks() { return this.tracks; }
+}
+
+class FakeMediaRecorder {
+  static failNext = false; // Throw from the next constructor, like a browser that can't record the stream
+  public state: 'inactive' | 'recording' = 'inactive';
+  public mimeType = 'audio/webm';
+  public ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  public onstop: (() => void) | null = null;
+
+  constructor() {
+    if (FakeMediaRecorder.failNext) {
+      FakeMediaRecorder.failNext = false;
+      throw new Error('NotSupportedError');
+    }
+  }
+
+  start() { this.state = 'recording'; }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['fake audio']) });
+    this.onstop?.();
+  }
+}
+
+class FakeAudioContext {
+  static last: FakeAudioContext | null = null;
+  public closed = false;
+
+  constructor() { FakeAudioContext.last = this; }
+
+  // Every frame reads one sample at half volume
+  createAnalyser() {
+    return {
+      fftSize: 0,
+      getFloatTimeDomainData(samples: Float32Array) {
+        samples.fill(0);
+        samples[0] = -0.5;
+      },
+    };
+  }
+
+  createMediaStreamSource() { return { connect() {} }; }
+
+  close() {
+    this.closed = true;
+    return Promise.resolve();
+  }
+}
+
+class FakeFileReader {
+  public result: string | null = null;
+  public onload: (() => void) | null = null;
+  public onerror: ((error: unknown) => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${btoa(String.fromCharCode(...new Uint8Array(buffer)))}`;
+      this.onload?.();
+    }, error => this.onerror?.(error));
+  }
+}
+
+Object.assign(globalThis, {
+  MediaRecorder: FakeMediaRecorder,
+  AudioContext: FakeAudioContext,
+  FileReader: FakeFileReader,
+  // The level meter measures once when recording starts; later frames never come
+  requestAnimationFrame: () => 1,
+  cancelAnimationFrame: () => {},
+});
+
+function recordFromFakeStream(): FakeStream {
+  const stream = new FakeStream();
+  setAudioCaptureSource(() => Promise.resolve(stream as unknown as MediaStream));
+  return stream;
+}
+
+const allStopped = (stream: FakeStream) => stream.tracks.every(track => track.stopped);
+
+interface EditorTest {
+  name: string;
+  run: () => Promise<boolean>;
+}
+
+const soundRecorderTests: EditorTest[] = [
+  {
+    name: 'records from a fake capture stream',
+    run: async () => {
+      const stream = recordFromFakeStream();
+      const levels: number[] = [];
+      const recorder = await SoundRecorder.start(level => levels.push(level));
+      const recording = await recorder.stop();
+      console.log(`    levels=${JSON.stringify(levels)}, recording=${recording}`);
+      return levels[0] === 0.5 &&
+             recording === `data:audio/webm;base64,${btoa('fake audio')}` &&
+             allStopped(stream) &&
+             FakeAudioContext.last?.closed === true;
+    },
+  },
+  {
+    name: 'cancel releases the microphone',
+    run: async () => {
+      const stream = recordFromFakeStream();
+      const recorder = await SoundRecorder.start(() => {});
+      recorder.cancel();
+      return allStopped(stream) && FakeAudioContext.last?.closed === true;
+    },
+  },
+  {
+    name: 'failed recorder setup releases the microphone',
+    run: async () => {
+      const stream = recordFromFakeStream();
+      FakeMediaRecorder.failNext = true;
+      try {
+        await SoundRecorder.start(() => {});
+        return false;
+      } catch (error) {
+        console.log(`    start rejected: ${error}`);
+        return allStopped(stream);
+      }
+    },
+  },
+];
+
+// --- Undo History Tests ---
+// Edits go through the project store, which the history store records
+
+let now = 0; // Time seen by the history's merge window
+Date.now = () => now;
+
+// Start every test on a fresh project with one object, and an empty history
+function openTestProject(): { sceneId: string; objectId: string } {
+  const store = useProjectStore.getState();
+  store.newProject('Test');
+  const sceneId = useProjectStore.getState().project!.scenes[0].id;
+  const objectId = store.addObject(sceneId, 'Cat').id;
+  useHistoryStore.getState().clear();
+  now += 60_000;
+  return { sceneId, objectId };
+}
+
+const labels = () => useHistoryStore.getState().past.map(entry => entry.label);
+
+const getCat = (sceneId: string, objectId: string) => useProjectStore.getState().getObject(sceneId, objectId)!;
+
+const historyTests: EditorTest[] = [
+  {
+    name: 'steps are labelled after what changed',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const store = useProjectStore.getState();
+      const steps = [
+        () => store.updateObject(sceneId, objectId, { x: 10, y: 20 }),
+        () => store.updateObject(sceneId, objectId, { blocklyXml: '<xml></xml>' }),
+        () => store.updateObject(sceneId, objectId, { name: 'Dog' }),
+        () => store.addObject(sceneId, 'Bird'),
+        () => store.updateScene(sceneId, { name: 'Level 1' }),
+        () => store.updateProjectName('Game'),
+        () => store.removeObject(sceneId, objectId),
+      ];
+      for (const step of steps) {
+        step();
+        now += 5000;
+      }
+      console.log(`    ${JSON.stringify(labels())}`);
+      return JSON.stringify(labels()) === JSON.stringify([
+        'Move Cat', 'Edit Cat\'s code', 'Rename Dog', 'Add Bird', 'Rename scene Level 1', 'Rename project', 'Delete Dog',
+      ]);
+    },
+  },
+  {
+    name: 'changes that edit nothing are not recorded',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      useProjectStore.getState().updateObject(sceneId, objectId, { x: getCat(sceneId, objectId).x });
+      return labels().length === 0;
+    },
+  },
+  {
+    name: 'edits with the same label inside the merge window become one step',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const { updateObject } = useProjectStore.getState();
+      const startX = getCat(sceneId, objectId).x;
+      updateObject(sceneId, objectId, { x: 1 });
+      now += 500;
+      updateObject(sceneId, objectId, { x: 2 });
+      now += 500;
+      updateObject(sceneId, objectId, { x: 3 });
+      const mergedSteps = labels().length;
+      now += 1500;
+      updateObject(sceneId, objectId, { x: 4 });
+      const stepsAfterPause = labels().length;
+
+      useHistoryStore.getState().undo();
+      const xAfterFirstUndo = getCat(sceneId, objectId).x;
+      useHistoryStore.getState().undo();
+      console.log(`    steps=${mergedSteps} then ${stepsAfterPause}, x after undos=${xAfterFirstUndo}, ${getCat(sceneId, objectId).x}`);
+      return mergedSteps === 1 && stepsAfterPause === 2 && xAfterFirstUndo === 3 && getCat(sceneId, objectId).x === startX;
+    },
+  },
+  {
+    name: 'adding objects is never merged',
+    run: async () => {
+      const { sceneId } = openTestProject();
+      const { addObject } = useProjectStore.getState();
+      addObject(sceneId, 'Bird');
+      now += 100;
+      addObject(sceneId, 'Bird');
+      return labels().length === 2;
+    },
+  },
+  {
+    name: 'a group records every change as one step',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const { updateObject } = useProjectStore.getState();
+      const start = getCat(sceneId, objectId);
+      beginHistoryGroup();
+      updateObject(sceneId, objectId, { x: 50 });
+      now += 5000;
+      updateObject(sceneId, objectId, { rotation: 90 });
+      endHistoryGroup();
+      const steps = labels().length;
+      useHistoryStore.getState().undo();
+      const undone = getCat(sceneId, objectId);
+      return steps === 1 && undone.x === start.x && undone.rotation === start.rotation;
+    },
+  },
+  {
+    name: 'a group starts a new step even inside the merge window',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const { updateObject } = useProjectStore.getState();
+      updateObject(sceneId, objectId, { x: 1 });
+      now += 100;
+      beginHistoryGroup();
+      updateObject(sceneId, objectId, { x: 2 });
+      endHistoryGroup();
+      now += 100;
+      updateObject(sceneId, objectId, { x: 3 });
+      // The edit after the group merges into it again
+      return labels().length === 2;
+    },
+  },
+  {
+    name: 'undo saves pending edits first and undoes them',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const { updateObject } = useProjectStore.getState();
+      updateObject(sceneId, objectId, { x: 1 });
+      now += 5000;
+      let pending = true;
+      const unregister = registerPendingEditFlush(() => {
+        if (!pending) return;
+        pending = false;
+        updateObject(sceneId, objectId, { x: 2 });
+      });
+      useHistoryStore.getState().undo();
+      unregister();
+      const { past, future } = useHistoryStore.getState();
+      console.log(`    x=${getCat(sceneId, objectId).x}, past=${past.length}, future=${future.length}`);
+      return getCat(sceneId, objectId).x === 1 && past.length === 1 && future.length === 1;
+    },
+  },
+  {
+    name: 'a new edit clears redo',
+    run: async () => {
+      const { sceneId, objectId } = openTestProject();
+      const { updateObject } = useProjectStore.getState();
+      updateObject(sceneId, objectId, { x: 1 });
+      useHistoryStore.getState().undo();
+      const canRedo = useHistoryStore.getState().future.length === 1;
+      now += 5000;
+      updateObject(sceneId, objectId, { y: 1 });
+      return canRedo && useHistoryStore.getState().future.length === 0;
+    },
+  },
+];
+
+async function runTests(): Promise<void> {
+  let passed = 0;
+  let failed = 0;
+  const failures: string[] = [];
+
+  const groups: [string, EditorTest[]][] = [
+    ['Sound Recorder Tests', soundRecorderTests],
+    ['Undo History Tests', historyTests],
+  ];
+
+  for (const [title, tests] of groups) {
+    console.log(`=== ${title} ===\n`);
+
+    for (const test of tests) {
+      console.log(`Testing: ${test.name}`);
+
+      try {
+        if (await test.run()) {
+          console.log(`  Result: PASS\n`);
+          passed++;
+        } else {
+          console.log(`  Result: FAIL\n`);
+          failed++;
+          failures.push(test.name);
+        }
+      } catch (error) {
+        console.log(`  Result: ERROR - ${error}\n`);
+        failed++;
+        failures.push(`${test.name} (ERROR)`);
+      }
+    }
+  }
+  setAudioCaptureSource(null);
+
+  const total = passed + failed;
+  console.log('=== Summary ===');
+  console.log(`Passed: ${passed}/${total}`);
+  console.log(`Failed: ${failed}/${total}`);
+
+  if (failures.length > 0) {
+    console.log('\nFailed tests:');
+    failures.forEach(f => console.log(`  - ${f}`));
+    process.exit(1);
+  } else {
+    console.log('\nAll editor tests passed!');
+    process.exit(0);
+  }
+}
+
+runTests();
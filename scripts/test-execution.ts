@@ -10,6 +10,8 @@ import { javascriptGenerator } from 'blockly/javascript';
 // Import and run block registration
 import '../src/components/blockly/toolbox';
 import { registerCodeGenerators } from '../src/phaser/CodeGenerator';
+import { FRAME_BUDGET_MS, ThreadScheduler } from '../src/phaser/ThreadScheduler';
+import { MessageQueue } from '../src/phaser/MessageQueue';
 
 registerCodeGenerators();
 
@@ -58,6 +60,7 @@ class MockSprite {
 // Mock Runtime that tracks all registrations and calls
 class MockRuntime {
   public calls: { method: string; args: any[] }[] = [];
+  public sprite: MockSprite | null = null; // Passed to handlers, like the engine passes each script its sprite
   public registeredHandlers: {
     onStart: Function[];
     onKeyPressed: Map<string, Function[]>;
@@ -70,7 +73,7 @@ class MockRuntime {
     forever: [],
   };
 
-  private log(method: string, ...args: any[]) {
+  protected log(method: string, ...args: any[]) {
     this.calls.push({ method, args: args.filter(a => typeof a !== 'function') });
   }
 
@@ -116,6 +119,12 @@ class MockRuntime {
     return Promise.resolve();
   }
 
+  yield() {
+    return Promise.resolve();
+  }
+
+  scriptError(e: unknown) { return e; }
+
   stopAll() { this.log('stopAll'); }
   stopSprite(spriteId: string) { this.log('stopSprite', spriteId); }
   broadcast(message: string) { this.log('broadcast', message); }
@@ -168,7 +177,7 @@ class MockRuntime {
   async simulateStart() {
     console.log('  [Simulating game start...]');
     for (const handler of this.registeredHandlers.onStart) {
-      await handler();
+      await handler(this.sprite);
     }
   }
 
@@ -177,14 +186,14 @@ class MockRuntime {
     console.log(`  [Simulating key press: ${key}...]`);
     const handlers = this.registeredHandlers.onKeyPressed.get(key) || [];
     for (const handler of handlers) {
-      await handler();
+      await handler(this.sprite);
     }
   }
 
   // Simulate one frame of forever loop
   simulateForeverFrame() {
     for (const handler of this.registeredHandlers.forever) {
-      handler();
+      handler(this.sprite);
     }
   }
 }
@@ -420,7 +429,135 @@ const executionTests: ExecutionTest[] = [
   },
 ];
 
-function generateAndExecute(xml: string): { code: string; runtime: MockRuntime; sprite: MockSprite } {
+// Reporter blocks evaluated on their own and compared with the expected value
+interface OperatorTest {
+  name: string;
+  xml: string;
+  expected: unknown;
+}
+
+const operatorTests: OperatorTest[] = [
+  {
+    name: 'join text and a number',
+    xml: `<xml><block type="operator_join"><value name="A"><block type="text"><field name="TEXT">score: </field></block></value><value name="B"><block type="math_number"><field name="NUM">12</field></block></value></block></xml>`,
+    expected: 'score: 12',
+  },
+  {
+    name: 'letter of text',
+    xml: `<xml><block type="operator_letter_of"><value name="INDEX"><block type="math_number"><field name="NUM">2</field></block></value><value name="TEXT"><block type="text"><field name="TEXT">apple</field></block></value></block></xml>`,
+    expected: 'p',
+  },
+  {
+    name: 'letter past the end is empty',
+    xml: `<xml><block type="operator_letter_of"><value name="INDEX"><block type="math_number"><field name="NUM">9</field></block></value><value name="TEXT"><block type="text"><field name="TEXT">apple</field></block></value></block></xml>`,
+    expected: '',
+  },
+  {
+    name: 'letters 2 to 4 of text',
+    xml: `<xml><block type="operator_substring"><value name="FROM"><block type="math_number"><field name="NUM">2</field></block></value><value name="TO"><block type="math_number"><field name="NUM">4</field></block></value><value name="TEXT"><block type="text"><field name="TEXT">apple</field></block></value></block></xml>`,
+    expected: 'ppl',
+  },
+  {
+    name: 'letters clamp to the text',
+    xml: `<xml><block type="operator_substring"><value name="FROM"><block type="math_number"><field name="NUM">-3</field></block></value><value name="TO"><block type="math_number"><field name="NUM">99</field></block></value><value name="TEXT"><block type="text"><field name="TEXT">apple</field></block></value></block></xml>`,
+    expected: 'apple',
+  },
+  {
+    name: 'length of a number',
+    xml: `<xml><block type="operator_length"><value name="TEXT"><block type="math_number"><field name="NUM">1234</field></block></value></block></xml>`,
+    expected: 4,
+  },
+  {
+    name: 'contains ignores case',
+    xml: `<xml><block type="operator_contains"><value name="A"><block type="text"><field name="TEXT">Apple</field></block></value><value name="B"><block type="text"><field name="TEXT">aP</field></block></value></block></xml>`,
+    expected: true,
+  },
+  {
+    name: 'mod keeps the sign of the divisor',
+    xml: `<xml><block type="operator_mod"><value name="A"><block type="math_number"><field name="NUM">-7</field></block></value><value name="B"><block type="math_number"><field name="NUM">3</field></block></value></block></xml>`,
+    expected: 2,
+  },
+  {
+    name: 'mod coerces text to numbers',
+    xml: `<xml><block type="operator_mod"><value name="A"><block type="text"><field name="TEXT">10</field></block></value><value name="B"><block type="text"><field name="TEXT">4</field></block></value></block></xml>`,
+    expected: 2,
+  },
+  {
+    name: 'round',
+    xml: `<xml><block type="operator_round"><value name="NUM"><block type="math_number"><field name="NUM">2.5</field></block></value></block></xml>`,
+    expected: 3,
+  },
+  {
+    name: 'abs',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">abs</field><value name="NUM"><block type="math_number"><field name="NUM">-5</field></block></value></block></xml>`,
+    expected: 5,
+  },
+  {
+    name: 'floor',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">floor</field><value name="NUM"><block type="math_number"><field name="NUM">4.7</field></block></value></block></xml>`,
+    expected: 4,
+  },
+  {
+    name: 'sqrt',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">sqrt</field><value name="NUM"><block type="math_number"><field name="NUM">16</field></block></value></block></xml>`,
+    expected: 4,
+  },
+  {
+    name: 'sin uses degrees',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">sin</field><value name="NUM"><block type="math_number"><field name="NUM">180</field></block></value></block></xml>`,
+    expected: 0,
+  },
+  {
+    name: 'cos uses degrees',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">cos</field><value name="NUM"><block type="math_number"><field name="NUM">60</field></block></value></block></xml>`,
+    expected: 0.5,
+  },
+  {
+    name: 'tan of 90 is infinite',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">tan</field><value name="NUM"><block type="math_number"><field name="NUM">90</field></block></value></block></xml>`,
+    expected: Infinity,
+  },
+  {
+    name: '10 ^',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">pow10</field><value name="NUM"><block type="math_number"><field name="NUM">3</field></block></value></block></xml>`,
+    expected: 1000,
+  },
+  {
+    name: 'non-numeric text counts as 0',
+    xml: `<xml><block type="operator_mathop"><field name="OPERATOR">abs</field><value name="NUM"><block type="text"><field name="TEXT">banana</field></block></value></block></xml>`,
+    expected: 0,
+  },
+  {
+    name: 'min',
+    xml: `<xml><block type="operator_minmax"><field name="OPERATOR">min</field><value name="A"><block type="math_number"><field name="NUM">3</field></block></value><value name="B"><block type="math_number"><field name="NUM">-2</field></block></value></block></xml>`,
+    expected: -2,
+  },
+  {
+    name: 'max',
+    xml: `<xml><block type="operator_minmax"><field name="OPERATOR">max</field><value name="A"><block type="math_number"><field name="NUM">3</field></block></value><value name="B"><block type="math_number"><field name="NUM">-2</field></block></value></block></xml>`,
+    expected: 3,
+  },
+];
+
+function evaluateReporter(xml: string): { code: string; value: unknown } {
+  const workspace = new Blockly.Workspace();
+  Blockly.Xml.domToWorkspace(Blockly.utils.xml.textToDom(xml), workspace);
+
+  // init/finish pull in helper functions provided by operator generators
+  javascriptGenerator.init(workspace);
+  const [expression] = javascriptGenerator.blockToCode(workspace.getTopBlocks(false)[0]) as [string, number];
+  const code = javascriptGenerator.finish(`return ${expression};`);
+  workspace.dispose();
+
+  const value = new Function('runtime', 'spriteId', 'sprite', code)(new MockRuntime(), 'test-sprite', new MockSprite());
+  return { code, value };
+}
+
+function generateAndExecute<R extends MockRuntime = MockRuntime, S extends MockSprite = MockSprite>(
+  xml: string,
+  runtime: R = new MockRuntime() as R,
+  sprite: S = new MockSprite() as S
+): { code: string; runtime: R; sprite: S } {
   // Create workspace and load XML
   const workspace = new Blockly.Workspace();
   const dom = Blockly.utils.xml.textToDom(xml);
@@ -436,10 +573,8 @@ function generateAndExecute(xml: string): { code: string; runtime: MockRuntime;
 ${rawCode}
 })`;
 
-  // Create mocks
-  const runtime = new MockRuntime();
-  const sprite = new MockSprite();
   const spriteId = 'test-sprite';
+  runtime.sprite = sprite;
 
   // Execute the code (this registers handlers)
   try {
@@ -455,6 +590,314 @@ ${rawCode}
   return { code: rawCode, runtime, sprite };
 }
 
+// --- Scheduler Tests ---
+// Scripts run against the real thread scheduler, with frames stepped by hand
+
+const FRAME_MS = 20;
+
+// Let parked threads that were just resumed run until they park again
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+class ScheduledSprite extends MockSprite {
+  public id = 'test-sprite';
+  public stopped = false;
+  // Called whenever the sprite moves - tests use it to request redraws or pass time
+  public onChange: () => void = () => {};
+
+  changeX(value: number) { super.changeX(value); this.onChange(); }
+}
+
+// Runtime whose waits, loop yields, stops and broadcasts go through the real thread scheduler
+class SchedulerRuntime extends MockRuntime {
+  public sprite: ScheduledSprite | null = null;
+  public now = 0; // Wall clock (ms) seen by the frame budget
+  public keyChecks = 0;
+  public scheduler = new ThreadScheduler<ScheduledSprite>(sprite => !sprite.stopped, () => this.now);
+  public messages = new MessageQueue<ScheduledSprite>(this.scheduler);
+  public clones: ScheduledSprite[] = [];
+  private messageHandlers: Map<string, ((sprite: ScheduledSprite) => unknown)[]> = new Map();
+
+  wait(seconds: number, sprite?: ScheduledSprite) {
+    this.log('wait', seconds);
+    return this.scheduler.sleep(sprite, seconds * 1000);
+  }
+
+  yield(sprite?: ScheduledSprite) {
+    return this.scheduler.yield(sprite);
+  }
+
+  // Each check takes a millisecond, so a script polling keys would eventually spend the frame budget
+  isKeyPressed(key: string) {
+    this.keyChecks++;
+    this.now++;
+    return super.isKeyPressed(key);
+  }
+
+  stopSprite(spriteId: string) {
+    super.stopSprite(spriteId);
+    if (!this.sprite || spriteId !== this.sprite.id) return;
+    this.sprite.stopped = true;
+    this.scheduler.drop(this.sprite);
+  }
+
+  onMessage(spriteId: string, message: string, handler: (sprite: ScheduledSprite) => unknown) {
+    super.onMessage(spriteId, message, handler);
+    if (!this.messageHandlers.has(message)) this.messageHandlers.set(message, []);
+    this.messageHandlers.get(message)!.push(handler);
+  }
+
+  broadcastAndWait(message: string, sprite?: ScheduledSprite) {
+    super.broadcastAndWait(message);
+    return this.messages.broadcastAndWait(message, sprite);
+  }
+
+  // Clones share the sprite's scripts, so they receive its messages too
+  addClone(): ScheduledSprite {
+    const clone = new ScheduledSprite();
+    clone.id = `test-sprite-clone${this.clones.length + 1}`;
+    this.clones.push(clone);
+    return clone;
+  }
+
+  deleteSelf(spriteId: string) {
+    this.log('deleteSelf', spriteId);
+    const clone = this.clones.find(c => c.id === spriteId);
+    if (!clone) return;
+    clone.stopped = true;
+    this.scheduler.drop(clone);
+  }
+
+  // Start every "when game starts" script as its own thread, like the engine does
+  async startThreads() {
+    for (const handler of this.registeredHandlers.onStart) {
+      handler(this.sprite);
+    }
+    await settle();
+  }
+
+  // Each frame resumes parked threads, then delivers messages, like the engine's update()
+  async frames(count: number) {
+    for (let i = 0; i < count; i++) {
+      this.scheduler.tick(FRAME_MS);
+      this.messages.deliver(message => [this.sprite!, ...this.clones]
+        .filter(sprite => !sprite.stopped)
+        .flatMap(sprite => (this.messageHandlers.get(message) ?? []).map(handler => ({
+          owner: sprite,
+          start: () => Promise.resolve().then(() => handler(sprite)),
+        }))));
+      await settle();
+    }
+  }
+}
+
+interface SchedulerTest {
+  name: string;
+  xml: string;
+  run: (runtime: SchedulerRuntime, sprite: ScheduledSprite) => Promise<boolean>;
+}
+
+const repeatChangeX = (times: number, step: number) => `
+  <block type="control_repeat">
+    <value name="TIMES"><block type="math_number"><field name="NUM">${times}</field></block></value>
+    <statement name="DO">
+      <block type="motion_change_x">
+        <value name="VALUE"><block type="math_number"><field name="NUM">${step}</field></block></value>
+      </block>
+    </statement>
+  </block>`;
+
+const changeY = (step: number) => `
+  <block type="motion_change_y">
+    <value name="VALUE"><block type="math_number"><field name="NUM">${step}</field></block></value>
+  </block>`;
+
+const waitSeconds = (seconds: number, next = '') => `
+  <block type="control_wait">
+    <value name="SECONDS"><block type="math_number"><field name="NUM">${seconds}</field></block></value>
+    ${next && `<next>${next}</next>`}
+  </block>`;
+
+// Broadcasts "go" and waits, then moves down 100 - the sender's y shows when the wait is over
+const broadcastGoAndWait = `
+  <block type="event_game_start">
+    <statement name="NEXT">
+      <block type="control_broadcast_wait">
+        <field name="MESSAGE">go</field>
+        <next>${changeY(100)}</next>
+      </block>
+    </statement>
+  </block>`;
+
+const whenIReceiveGo = (script: string) => `
+  <block type="event_when_receive">
+    <field name="MESSAGE">go</field>
+    <statement name="NEXT">${script}</statement>
+  </block>`;
+
+const schedulerTests: SchedulerTest[] = [
+  {
+    name: 'repeat loop yields after every iteration that redraws',
+    xml: `<xml><block type="event_game_start"><statement name="NEXT">${repeatChangeX(3, 10)}</statement></block></xml>`,
+    run: async (runtime, sprite) => {
+      sprite.onChange = () => runtime.scheduler.requestRedraw();
+      await runtime.startThreads();
+      const afterStart = sprite.x;
+      await runtime.frames(1);
+      const afterFrame1 = sprite.x;
+      await runtime.frames(2);
+      console.log(`    x after start=${afterStart}, frame 1=${afterFrame1}, frame 3=${sprite.x}`);
+      return afterStart === 10 && afterFrame1 === 20 && sprite.x === 30 && runtime.scheduler.sleepingCount === 0;
+    },
+  },
+  {
+    name: 'repeat loop keeps going within a frame until the budget is spent',
+    xml: `<xml><block type="event_game_start"><statement name="NEXT">${repeatChangeX(10, 1)}</statement></block></xml>`,
+    run: async (runtime, sprite) => {
+      // Each iteration takes 5ms, so the budget runs out on the fourth yield of a frame
+      sprite.onChange = () => { runtime.now += 5; };
+      await runtime.startThreads();
+      const afterStart = sprite.x;
+      await runtime.frames(1);
+      console.log(`    x after start=${afterStart}, frame 1=${sprite.x} (budget ${FRAME_BUDGET_MS}ms)`);
+      return afterStart === 4 && sprite.x === 8;
+    },
+  },
+  {
+    name: 'wait resumes on the first frame after its time has passed',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="control_wait">
+              <value name="SECONDS"><block type="math_number"><field name="NUM">0.1</field></block></value>
+              <next>
+                <block type="motion_change_y">
+                  <value name="VALUE"><block type="math_number"><field name="NUM">10</field></block></value>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    run: async (runtime, sprite) => {
+      await runtime.startThreads();
+      await runtime.frames(4);
+      const afterFrame4 = sprite.y;
+      await runtime.frames(1);
+      console.log(`    y after frame 4=${afterFrame4}, frame 5=${sprite.y} (${FRAME_MS}ms frames)`);
+      return afterFrame4 === 0 && sprite.y === 10;
+    },
+  },
+  {
+    name: 'wait until checks its condition once per frame',
+    xml: `
+      <xml>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="control_wait_until">
+              <value name="CONDITION">
+                <block type="sensing_key_pressed"><field name="KEY">SPACE</field></block>
+              </value>
+              <next>
+                <block type="motion_change_y">
+                  <value name="VALUE"><block type="math_number"><field name="NUM">10</field></block></value>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    run: async (runtime, sprite) => {
+      await runtime.startThreads();
+      await runtime.frames(3);
+      const checksBeforePress = runtime.keyChecks;
+      runtime.mockKeyState('SPACE', true);
+      await runtime.frames(1);
+      console.log(`    checks before the key press=${checksBeforePress}, y=${sprite.y}`);
+      return checksBeforePress === 4 && sprite.y === 10;
+    },
+  },
+  {
+    name: 'stopping a sprite halts its parked threads',
+    xml: `
+      <xml>
+        <block type="event_game_start"><statement name="NEXT">${repeatChangeX(10, 10)}</statement></block>
+        <block type="event_game_start">
+          <statement name="NEXT">
+            <block type="control_wait">
+              <value name="SECONDS"><block type="math_number"><field name="NUM">0.05</field></block></value>
+              <next>
+                <block type="motion_change_y">
+                  <value name="VALUE"><block type="math_number"><field name="NUM">10</field></block></value>
+                </block>
+              </next>
+            </block>
+          </statement>
+        </block>
+      </xml>
+    `,
+    run: async (runtime, sprite) => {
+      sprite.onChange = () => runtime.scheduler.requestRedraw();
+      await runtime.startThreads();
+      const parked = runtime.scheduler.sleepingCount;
+      runtime.stopSprite(sprite.id);
+      const parkedAfterStop = runtime.scheduler.sleepingCount;
+      await runtime.frames(5);
+      console.log(`    parked before stop=${parked}, after stop=${parkedAfterStop}, x=${sprite.x}, y=${sprite.y}`);
+      return parked === 2 && parkedAfterStop === 0 && sprite.x === 10 && sprite.y === 0;
+    },
+  },
+  {
+    name: 'broadcast and wait resumes after every receiver has finished',
+    xml: `<xml>${broadcastGoAndWait}${whenIReceiveGo(waitSeconds(0.05, changeY(1)))}</xml>`,
+    run: async (runtime, sprite) => {
+      const clone = runtime.addClone();
+      await runtime.startThreads();
+      await runtime.frames(3);
+      const yWhileReceiving = sprite.y;
+      await runtime.frames(1);
+      const yAfterReceivers = sprite.y;
+      await runtime.frames(1);
+      console.log(`    sender y while receiving=${yWhileReceiving}, after=${yAfterReceivers}, then ${sprite.y}, clone y=${clone.y}`);
+      // Receivers finish on frame 4 and the sender resumes in the same frame, after their change y
+      return yWhileReceiving === 0 && clone.y === 1 && yAfterReceivers === 101 && sprite.y === 101;
+    },
+  },
+  {
+    name: 'broadcast and wait with no receivers resumes as soon as it is delivered',
+    xml: `<xml>${broadcastGoAndWait}</xml>`,
+    run: async (runtime, sprite) => {
+      await runtime.startThreads();
+      const yBeforeDelivery = sprite.y;
+      await runtime.frames(1);
+      console.log(`    y before delivery=${yBeforeDelivery}, after=${sprite.y}`);
+      return yBeforeDelivery === 0 && sprite.y === 100;
+    },
+  },
+  {
+    name: 'broadcast and wait resumes when a receiving clone deletes itself mid-script',
+    xml: `
+      <xml>
+        ${broadcastGoAndWait}
+        ${whenIReceiveGo(waitSeconds(0.05, changeY(1)))}
+        ${whenIReceiveGo('<block type="control_delete_clone"></block>')}
+      </xml>
+    `,
+    run: async (runtime, sprite) => {
+      // The clone deletes itself while its other receiver is parked in the wait, which halts it
+      const clone = runtime.addClone();
+      await runtime.startThreads();
+      await runtime.frames(1);
+      const cloneDeleted = clone.stopped;
+      await runtime.frames(4);
+      console.log(`    clone deleted=${cloneDeleted}, clone y=${clone.y}, sender y=${sprite.y}`);
+      return cloneDeleted && clone.y === 0 && sprite.y === 101;
+    },
+  },
+];
+
 async function runTests(): Promise<void> {
   console.log('=== Block Execution Tests ===\n');
 
@@ -501,9 +944,58 @@ async function runTests(): Promise<void> {
     }
   }
 
+  console.log('=== Operator Tests ===\n');
+
+  for (const test of operatorTests) {
+    console.log(`Testing: ${test.name}`);
+
+    try {
+      const { code, value } = evaluateReporter(test.xml);
+      if (Object.is(value, test.expected)) {
+        console.log(`  Result: PASS (${JSON.stringify(value)})\n`);
+        passed++;
+      } else {
+        console.log(`  Result: FAIL - expected ${JSON.stringify(test.expected)}, got ${JSON.stringify(value)}`);
+        code.split('\n').filter(l => l.trim()).forEach(l => console.log(`    ${l}`));
+        console.log('');
+        failed++;
+        failures.push(test.name);
+      }
+    } catch (error) {
+      console.log(`  Result: ERROR - ${error}\n`);
+      failed++;
+      failures.push(`${test.name} (ERROR)`);
+    }
+  }
+
+  console.log('=== Scheduler Tests ===\n');
+
+  for (const test of schedulerTests) {
+    console.log(`Testing: ${test.name}`);
+
+    try {
+      const { code, runtime, sprite } = generateAndExecute(test.xml, new SchedulerRuntime(), new ScheduledSprite());
+      if (await test.run(runtime, sprite)) {
+        console.log(`  Result: PASS\n`);
+        passed++;
+      } else {
+        console.log(`  Result: FAIL`);
+        code.split('\n').filter(l => l.trim()).forEach(l => console.log(`    ${l}`));
+        console.log('');
+        failed++;
+        failures.push(test.name);
+      }
+    } catch (error) {
+      console.log(`  Result: ERROR - ${error}\n`);
+      failed++;
+      failures.push(`${test.name} (ERROR)`);
+    }
+  }
+
+  const total = executionTests.length + operatorTests.length + schedulerTests.length;
   console.log('=== Summary ===');
-  console.log(`Passed: ${passed}/${executionTests.length}`);
-  console.log(`Failed: ${failed}/${executionTests.length}`);
+  console.log(`Passed: ${passed}/${total}`);
+  console.log(`Failed: ${failed}/${total}`);
 
   if (failures.length > 0) {
     console.log('\nFailed tests:');
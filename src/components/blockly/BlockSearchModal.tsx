@@ -24,10 +24,13 @@ const ALL_ITEMS: SearchItem[] = [
   // Events
   { id: 'event_game_start', type: 'block', blockType: 'event_game_start', label: 'When I start', category: 'Events', categoryColor: '#FFAB19' },
   { id: 'event_key_pressed', type: 'block', blockType: 'event_key_pressed', label: 'when key pressed', category: 'Events', categoryColor: '#FFAB19' },
+  { id: 'event_key_released', type: 'block', blockType: 'event_key_released', label: 'when key released', category: 'Events', categoryColor: '#FFAB19' },
   { id: 'event_clicked', type: 'block', blockType: 'event_clicked', label: 'when this clicked', category: 'Events', categoryColor: '#FFAB19' },
   { id: 'event_forever', type: 'block', blockType: 'event_forever', label: 'forever', category: 'Events', categoryColor: '#FFAB19' },
   { id: 'event_when_receive', type: 'block', blockType: 'event_when_receive', label: 'when I receive', category: 'Events', categoryColor: '#FFAB19' },
   { id: 'event_when_touching', type: 'block', blockType: 'event_when_touching', label: 'when touching', category: 'Events', categoryColor: '#FFAB19' },
+  { id: 'event_when_backdrop_switches', type: 'block', blockType: 'event_when_backdrop_switches', label: 'when backdrop switches to', category: 'Events', categoryColor: '#FFAB19' },
+  { id: 'event_when_animation_finishes', type: 'block', blockType: 'event_when_animation_finishes', label: 'when animation finishes', category: 'Events', categoryColor: '#FFAB19' },
 
   // Motion
   { id: 'motion_move_steps', type: 'block', blockType: 'motion_move_steps', label: 'move steps', category: 'Motion', categoryColor: '#4C97FF' },
@@ -42,6 +45,13 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'motion_my_y', type: 'block', blockType: 'motion_my_y', label: 'my y', category: 'Motion', categoryColor: '#4C97FF' },
 
   // Looks
+  { id: 'looks_say_for_secs', type: 'block', blockType: 'looks_say_for_secs', label: 'say for seconds', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_say', type: 'block', blockType: 'looks_say', label: 'say', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_think_for_secs', type: 'block', blockType: 'looks_think_for_secs', label: 'think for seconds', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_think', type: 'block', blockType: 'looks_think', label: 'think', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_set_text', type: 'block', blockType: 'looks_set_text', label: 'set text to', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_append_text', type: 'block', blockType: 'looks_append_text', label: 'add to end of text', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_set_text_color', type: 'block', blockType: 'looks_set_text_color', label: 'set text color', category: 'Looks', categoryColor: '#9966FF' },
   { id: 'looks_show', type: 'block', blockType: 'looks_show', label: 'show', category: 'Looks', categoryColor: '#9966FF' },
   { id: 'looks_hide', type: 'block', blockType: 'looks_hide', label: 'hide', category: 'Looks', categoryColor: '#9966FF' },
   { id: 'looks_set_size', type: 'block', blockType: 'looks_set_size', label: 'set size to', category: 'Looks', categoryColor: '#9966FF' },
@@ -52,6 +62,11 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'looks_next_costume', type: 'block', blockType: 'looks_next_costume', label: 'next costume', category: 'Looks', categoryColor: '#9966FF' },
   { id: 'looks_switch_costume', type: 'block', blockType: 'looks_switch_costume', label: 'switch costume to', category: 'Looks', categoryColor: '#9966FF' },
   { id: 'looks_costume_number', type: 'block', blockType: 'looks_costume_number', label: 'costume number', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_play_animation', type: 'block', blockType: 'looks_play_animation', label: 'play animation', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_stop_animation', type: 'block', blockType: 'looks_stop_animation', label: 'stop animation', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_switch_backdrop', type: 'block', blockType: 'looks_switch_backdrop', label: 'switch backdrop to', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_next_backdrop', type: 'block', blockType: 'looks_next_backdrop', label: 'next backdrop', category: 'Looks', categoryColor: '#9966FF' },
+  { id: 'looks_backdrop', type: 'block', blockType: 'looks_backdrop', label: 'backdrop number name', category: 'Looks', categoryColor: '#9966FF' },
 
   // Physics
   { id: 'physics_enable', type: 'block', blockType: 'physics_enable', label: 'enable physics', category: 'Physics', categoryColor: '#40BF4A' },
@@ -63,7 +78,17 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'physics_set_gravity', type: 'block', blockType: 'physics_set_gravity', label: 'set gravity to', category: 'Physics', categoryColor: '#40BF4A' },
   { id: 'physics_set_bounce', type: 'block', blockType: 'physics_set_bounce', label: 'set bounce to', category: 'Physics', categoryColor: '#40BF4A' },
   { id: 'physics_set_friction', type: 'block', blockType: 'physics_set_friction', label: 'set friction to', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_apply_force', type: 'block', blockType: 'physics_apply_force', label: 'push with force x y', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_apply_impulse', type: 'block', blockType: 'physics_apply_impulse', label: 'kick with impulse x y at x y', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_set_angular_velocity', type: 'block', blockType: 'physics_set_angular_velocity', label: 'set spin speed angular velocity', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_set_mass', type: 'block', blockType: 'physics_set_mass', label: 'set mass density to', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_set_air_drag', type: 'block', blockType: 'physics_set_air_drag', label: 'set air drag to', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_velocity', type: 'block', blockType: 'physics_velocity', label: 'speed velocity x y', category: 'Physics', categoryColor: '#40BF4A' },
   { id: 'physics_immovable', type: 'block', blockType: 'physics_immovable', label: 'make immovable', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_connect', type: 'block', blockType: 'physics_connect', label: 'connect me to with pin rope weld', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_connect_spring', type: 'block', blockType: 'physics_connect_spring', label: 'connect me to with spring stiffness', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_disconnect', type: 'block', blockType: 'physics_disconnect', label: 'disconnect me from', category: 'Physics', categoryColor: '#40BF4A' },
+  { id: 'physics_disconnect_all', type: 'block', blockType: 'physics_disconnect_all', label: 'disconnect me from everything', category: 'Physics', categoryColor: '#40BF4A' },
 
   // Control
   { id: 'control_wait', type: 'block', blockType: 'control_wait', label: 'wait seconds', category: 'Control', categoryColor: '#FFBF00' },
@@ -81,6 +106,8 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'control_broadcast_wait', type: 'block', blockType: 'control_broadcast_wait', label: 'broadcast and wait', category: 'Control', categoryColor: '#FFBF00' },
 
   // Sensing
+  { id: 'sensing_ask_and_wait', type: 'block', blockType: 'sensing_ask_and_wait', label: 'ask and wait', category: 'Sensing', categoryColor: '#5CB1D6' },
+  { id: 'sensing_answer', type: 'block', blockType: 'sensing_answer', label: 'answer', category: 'Sensing', categoryColor: '#5CB1D6' },
   { id: 'sensing_key_pressed', type: 'block', blockType: 'sensing_key_pressed', label: 'key pressed?', category: 'Sensing', categoryColor: '#5CB1D6' },
   { id: 'sensing_mouse_down', type: 'block', blockType: 'sensing_mouse_down', label: 'mouse down?', category: 'Sensing', categoryColor: '#5CB1D6' },
   { id: 'sensing_mouse_x', type: 'block', blockType: 'sensing_mouse_x', label: 'mouse x', category: 'Sensing', categoryColor: '#5CB1D6' },
@@ -92,12 +119,31 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'sensing_object_x', type: 'block', blockType: 'sensing_object_x', label: "object's x", category: 'Sensing', categoryColor: '#5CB1D6' },
   { id: 'sensing_object_y', type: 'block', blockType: 'sensing_object_y', label: "object's y", category: 'Sensing', categoryColor: '#5CB1D6' },
   { id: 'sensing_object_costume', type: 'block', blockType: 'sensing_object_costume', label: "object's costume #", category: 'Sensing', categoryColor: '#5CB1D6' },
+  { id: 'sensing_tile_at', type: 'block', blockType: 'sensing_tile_at', label: 'tile at x y', category: 'Sensing', categoryColor: '#5CB1D6' },
 
   // Camera
   { id: 'camera_follow_me', type: 'block', blockType: 'camera_follow_me', label: 'camera follow me', category: 'Camera', categoryColor: '#0fBDA8' },
   { id: 'camera_follow_object', type: 'block', blockType: 'camera_follow_object', label: 'camera follow object', category: 'Camera', categoryColor: '#0fBDA8' },
   { id: 'camera_stop_follow', type: 'block', blockType: 'camera_stop_follow', label: 'camera stop following', category: 'Camera', categoryColor: '#0fBDA8' },
 
+  // Music
+  { id: 'music_play_drum', type: 'block', blockType: 'music_play_drum', label: 'play drum for beats', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_rest', type: 'block', blockType: 'music_rest', label: 'rest for beats', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_play_note', type: 'block', blockType: 'music_play_note', label: 'play note for beats', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_set_instrument', type: 'block', blockType: 'music_set_instrument', label: 'set instrument', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_set_tempo', type: 'block', blockType: 'music_set_tempo', label: 'set tempo', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_change_tempo', type: 'block', blockType: 'music_change_tempo', label: 'change tempo', category: 'Music', categoryColor: '#D65CD6' },
+  { id: 'music_tempo', type: 'block', blockType: 'music_tempo', label: 'tempo', category: 'Music', categoryColor: '#D65CD6' },
+
+  // Pen
+  { id: 'pen_clear', type: 'block', blockType: 'pen_clear', label: 'erase all (pen)', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_stamp', type: 'block', blockType: 'pen_stamp', label: 'stamp', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_down', type: 'block', blockType: 'pen_down', label: 'pen down', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_up', type: 'block', blockType: 'pen_up', label: 'pen up', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_set_color', type: 'block', blockType: 'pen_set_color', label: 'set pen color', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_set_size', type: 'block', blockType: 'pen_set_size', label: 'set pen size', category: 'Pen', categoryColor: '#0FBD8C' },
+  { id: 'pen_change_size', type: 'block', blockType: 'pen_change_size', label: 'change pen size', category: 'Pen', categoryColor: '#0FBD8C' },
+
   // Operators
   { id: 'math_arithmetic', type: 'block', blockType: 'math_arithmetic', label: 'math + - * /', category: 'Operators', categoryColor: '#59C059' },
   { id: 'math_number', type: 'block', blockType: 'math_number', label: 'number', category: 'Operators', categoryColor: '#59C059' },
@@ -106,11 +152,32 @@ const ALL_ITEMS: SearchItem[] = [
   { id: 'logic_negate', type: 'block', blockType: 'logic_negate', label: 'not', category: 'Operators', categoryColor: '#59C059' },
   { id: 'logic_boolean', type: 'block', blockType: 'logic_boolean', label: 'true false', category: 'Operators', categoryColor: '#59C059' },
   { id: 'math_random_int', type: 'block', blockType: 'math_random_int', label: 'random number', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_mod', type: 'block', blockType: 'operator_mod', label: 'mod (remainder)', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_round', type: 'block', blockType: 'operator_round', label: 'round', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_mathop', type: 'block', blockType: 'operator_mathop', label: 'abs floor sqrt sin cos', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_minmax', type: 'block', blockType: 'operator_minmax', label: 'max min', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_join', type: 'block', blockType: 'operator_join', label: 'join text', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_letter_of', type: 'block', blockType: 'operator_letter_of', label: 'letter of', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_substring', type: 'block', blockType: 'operator_substring', label: 'letters to of (substring)', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_length', type: 'block', blockType: 'operator_length', label: 'length of', category: 'Operators', categoryColor: '#59C059' },
+  { id: 'operator_contains', type: 'block', blockType: 'operator_contains', label: 'contains', category: 'Operators', categoryColor: '#59C059' },
 
   // Variables
   { id: 'typed_variable_get', type: 'block', blockType: 'typed_variable_get', label: 'get variable', category: 'Variables', categoryColor: '#FF8C1A' },
   { id: 'typed_variable_set', type: 'block', blockType: 'typed_variable_set', label: 'set variable to', category: 'Variables', categoryColor: '#FF8C1A' },
   { id: 'typed_variable_change', type: 'block', blockType: 'typed_variable_change', label: 'change variable by', category: 'Variables', categoryColor: '#FF8C1A' },
+  { id: 'typed_variable_show', type: 'block', blockType: 'typed_variable_show', label: 'show variable', category: 'Variables', categoryColor: '#FF8C1A' },
+  { id: 'typed_variable_hide', type: 'block', blockType: 'typed_variable_hide', label: 'hide variable', category: 'Variables', categoryColor: '#FF8C1A' },
+  { id: 'list_get', type: 'block', blockType: 'list_get', label: 'list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_add', type: 'block', blockType: 'list_add', label: 'add to list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_insert', type: 'block', blockType: 'list_insert', label: 'insert at list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_delete', type: 'block', blockType: 'list_delete', label: 'delete item of list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_delete_all', type: 'block', blockType: 'list_delete_all', label: 'delete all of list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_replace', type: 'block', blockType: 'list_replace', label: 'replace item of list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_item', type: 'block', blockType: 'list_item', label: 'item of list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_length', type: 'block', blockType: 'list_length', label: 'length of list', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_contains', type: 'block', blockType: 'list_contains', label: 'list contains?', category: 'Variables', categoryColor: '#FF661A' },
+  { id: 'list_index_of', type: 'block', blockType: 'list_index_of', label: 'item # in list', category: 'Variables', categoryColor: '#FF661A' },
 
   // Debug
   { id: 'debug_console_log', type: 'block', blockType: 'debug_console_log', label: 'console log', category: 'Debug', categoryColor: '#888888' },
@@ -3,12 +3,21 @@ import * as Blockly from 'blockly';
 import { registerContinuousToolbox } from '@blockly/continuous-toolbox';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
-import { getToolboxConfig, registerTypedVariablesCategory, setAddVariableCallback } from './toolbox';
+import {
+  getToolboxConfig,
+  registerTypedVariablesCategory,
+  setAddVariableCallback,
+  registerMyBlocksCategory,
+  setCustomBlockCallbacks,
+  getCustomBlockSpecs,
+  createCustomBlockDefinition,
+  updateCustomBlockSpec,
+} from './toolbox';
 import { AddVariableDialog } from '@/components/dialogs/AddVariableDialog';
 import { VariableManagerDialog } from '@/components/dialogs/VariableManagerDialog';
+import { CustomBlockDialog } from '@/components/dialogs/CustomBlockDialog';
 import { BlockSearchModal } from './BlockSearchModal';
-import type { UndoRedoHandler } from '@/store/editorStore';
-import type { Variable } from '@/types';
+import type { CustomBlockSpec, Variable } from '@/types';
 
 // Register continuous toolbox plugin once at module load
 registerContinuousToolbox();
@@ -78,6 +87,13 @@ function registerCrossObjectCopyPaste() {
 // Register once at module load
 registerCrossObjectCopyPaste();
 
+// Undo and redo go through the project history (see historyStore), not the workspace's own stack
+for (const name of [Blockly.ShortcutItems.names.UNDO, Blockly.ShortcutItems.names.REDO]) {
+  if (Blockly.ShortcutRegistry.registry.getRegistry()[name]) {
+    Blockly.ShortcutRegistry.registry.unregister(name);
+  }
+}
+
 // Block types that have object reference dropdowns
 const OBJECT_REFERENCE_BLOCKS: Record<string, string> = {
   'sensing_touching': 'TARGET',
@@ -89,6 +105,9 @@ const OBJECT_REFERENCE_BLOCKS: Record<string, string> = {
   'event_when_touching': 'TARGET',
   'motion_attach_to_dropdown': 'TARGET',
   'motion_attach_dropdown_to_me': 'TARGET',
+  'physics_connect': 'TARGET',
+  'physics_connect_spring': 'TARGET',
+  'physics_disconnect': 'TARGET',
 };
 
 // Block types that have sound reference dropdowns
@@ -102,11 +121,27 @@ const VARIABLE_REFERENCE_BLOCKS: Record<string, string> = {
   'typed_variable_get': 'VAR',
   'typed_variable_set': 'VAR',
   'typed_variable_change': 'VAR',
+  'typed_variable_show': 'VAR',
+  'typed_variable_hide': 'VAR',
+  'list_get': 'LIST',
+  'list_add': 'LIST',
+  'list_insert': 'LIST',
+  'list_delete': 'LIST',
+  'list_delete_all': 'LIST',
+  'list_replace': 'LIST',
+  'list_item': 'LIST',
+  'list_length': 'LIST',
+  'list_contains': 'LIST',
+  'list_index_of': 'LIST',
 };
 
 // Special values that are always valid (not object IDs)
 const VALID_SPECIAL_VALUES = new Set(['EDGE', 'MOUSE', 'MY_CLONES', '']);
 
+// Warning IDs so reference checks and runtime errors don't clear each other's messages
+const REFERENCE_WARNING_ID = 'reference';
+const SCRIPT_ERROR_WARNING_ID = 'script-error';
+
 // Validate all blocks in workspace for broken references
 function validateBlockReferences(
   workspace: Blockly.WorkspaceSvg,
@@ -158,14 +193,14 @@ function validateBlockReferences(
 
     // Apply visual feedback
     if (hasError) {
-      block.setWarningText(errors.join('\n'));
+      block.setWarningText(errors.join('\n'), REFERENCE_WARNING_ID);
       // Store original color if not already stored
       if (!block.data) {
         block.data = block.getColour();
       }
       block.setColour('#CC0000'); // Red for error
     } else {
-      block.setWarningText(null);
+      block.setWarningText(null, REFERENCE_WARNING_ID);
       // Restore original color if it was stored
       if (block.data) {
         block.setColour(block.data);
@@ -181,22 +216,23 @@ export function BlocklyEditor() {
   const currentSceneIdRef = useRef<string | null>(null);
   const currentObjectIdRef = useRef<string | null>(null);
   const isLoadingRef = useRef(false);
+  const loadedXmlRef = useRef<string | null>(null); // Blocks last loaded or saved, to notice changes from undo
+  const loadedObjectKeyRef = useRef<string | null>(null);
   const [showAddVariableDialog, setShowAddVariableDialog] = useState(false);
   const [showVariableManager, setShowVariableManager] = useState(false);
   const [showBlockSearch, setShowBlockSearch] = useState(false);
+  // null = closed; spec is null when making a new custom block
+  const [customBlockDialog, setCustomBlockDialog] = useState<{ spec: CustomBlockSpec | null; otherNames: string[] } | null>(null);
 
-  const { selectedSceneId, selectedObjectId, registerCodeUndo } = useEditorStore();
+  const { selectedSceneId, selectedObjectId, scriptErrors, revealedErrorBlockId, clearRevealedErrorBlock } = useEditorStore();
   const { project, addGlobalVariable, addLocalVariable } = useProjectStore();
 
-  // Register undo/redo handler for keyboard shortcuts
-  useEffect(() => {
-    const handler: UndoRedoHandler = {
-      undo: () => workspaceRef.current?.undo(false),
-      redo: () => workspaceRef.current?.undo(true),
-    };
-    registerCodeUndo(handler);
-    return () => registerCodeUndo(null);
-  }, [registerCodeUndo]);
+  // Effective blocks of the selected object (from its component if it's an instance)
+  const selectedObject = project?.scenes.find(s => s.id === selectedSceneId)?.objects.find(o => o.id === selectedObjectId);
+  const selectedComponent = selectedObject?.componentId
+    ? (project?.components || []).find(c => c.id === selectedObject.componentId)
+    : undefined;
+  const selectedXml = selectedComponent ? selectedComponent.blocklyXml : selectedObject?.blocklyXml || '';
 
   // Keep refs in sync
   useEffect(() => {
@@ -287,6 +323,17 @@ export function BlocklyEditor() {
     // Set up callback for "Add Variable" button
     setAddVariableCallback(() => setShowAddVariableDialog(true));
 
+    // Register "My Blocks" category and custom block dialog callbacks
+    registerMyBlocksCategory(workspaceRef.current);
+    // Names of the other custom blocks on this object are passed along for duplicate checks
+    const getOtherCustomBlockNames = (procId?: string) => workspaceRef.current
+      ? getCustomBlockSpecs(workspaceRef.current).filter(spec => spec.procId !== procId).map(spec => spec.name)
+      : [];
+    setCustomBlockCallbacks(
+      () => setCustomBlockDialog({ spec: null, otherNames: getOtherCustomBlockNames() }),
+      (spec) => setCustomBlockDialog({ spec, otherNames: getOtherCustomBlockNames(spec.procId) })
+    );
+
     // Save on changes and validate references
     workspaceRef.current.addChangeListener((event) => {
       if (isLoadingRef.current) return;
@@ -310,6 +357,8 @@ export function BlocklyEditor() {
           ? ''
           : Blockly.Xml.domToText(Blockly.Xml.workspaceToDom(workspaceRef.current));
 
+        loadedXmlRef.current = xmlText;
+
         // If this is a component instance, update the component definition
         if (obj.componentId) {
           state.updateComponent(obj.componentId, { blocklyXml: xmlText });
@@ -358,9 +407,13 @@ export function BlocklyEditor() {
     };
   }, []);
 
-  // Load workspace when object ID changes (not when XML changes - we're the ones changing it)
+  // Load workspace when the object changes, or when its blocks change from outside the editor (undo/redo)
   useEffect(() => {
     if (!workspaceRef.current) return;
+    const objectKey = `${selectedSceneId}:${selectedObjectId}`;
+    if (objectKey === loadedObjectKeyRef.current && selectedXml === loadedXmlRef.current) return;
+    loadedObjectKeyRef.current = objectKey;
+    loadedXmlRef.current = selectedXml;
     isLoadingRef.current = true;
     workspaceRef.current.clear();
 
@@ -405,7 +458,36 @@ export function BlocklyEditor() {
     setTimeout(() => {
       isLoadingRef.current = false;
     }, 50);
-  }, [selectedObjectId, selectedSceneId]);
+  }, [selectedObjectId, selectedSceneId, selectedXml]);
+
+  // Show errors from the last play session as warnings on the blocks that failed
+  useEffect(() => {
+    const workspace = workspaceRef.current;
+    if (!workspace) return;
+    const state = useProjectStore.getState();
+    const scene = state.project?.scenes.find(s => s.id === selectedSceneId);
+    const obj = scene?.objects.find(o => o.id === selectedObjectId);
+    // Component instances share their blocks, so errors from any instance apply
+    const objectErrors = scriptErrors.filter(e =>
+      e.objectId === selectedObjectId || (!!obj?.componentId && e.componentId === obj.componentId)
+    );
+    for (const block of workspace.getAllBlocks(false)) {
+      const messages = objectErrors.filter(e => e.blockId === block.id).map(e => e.message);
+      block.setWarningText(messages.length > 0 ? messages.join('\n') : null, SCRIPT_ERROR_WARNING_ID);
+    }
+  }, [scriptErrors, selectedObjectId, selectedSceneId]);
+
+  // Scroll to a failing block picked in the debug panel
+  useEffect(() => {
+    const workspace = workspaceRef.current;
+    if (!workspace || !revealedErrorBlockId) return;
+    const block = workspace.getBlockById(revealedErrorBlockId);
+    if (block) {
+      workspace.centerOnBlock(block.id);
+      Blockly.common.setSelected(block);
+    }
+    clearRevealedErrorBlock();
+  }, [revealedErrorBlockId, selectedObjectId, selectedSceneId, clearRevealedErrorBlock]);
 
   // Get current object name for local variable option
   const currentObjectName = (() => {
@@ -426,9 +508,32 @@ export function BlocklyEditor() {
     }
   };
 
+  const handleSaveCustomBlock = (spec: CustomBlockSpec) => {
+    if (!workspaceRef.current) return;
+    if (customBlockDialog?.spec) {
+      updateCustomBlockSpec(workspaceRef.current, spec);
+    } else {
+      createCustomBlockDefinition(workspaceRef.current, spec);
+    }
+    // Refresh the toolbox to show the new or edited block
+    workspaceRef.current.refreshToolboxSelection();
+  };
+
   return (
     <>
       <div ref={containerRef} className="h-full w-full" />
+      {customBlockDialog && (
+        <CustomBlockDialog
+          key={customBlockDialog.spec?.procId ?? 'new'}
+          open
+          onOpenChange={(open) => {
+            if (!open) setCustomBlockDialog(null);
+          }}
+          onSave={handleSaveCustomBlock}
+          initialSpec={customBlockDialog.spec}
+          existingNames={customBlockDialog.otherNames}
+        />
+      )}
       <AddVariableDialog
         open={showAddVariableDialog}
         onOpenChange={setShowAddVariableDialog}
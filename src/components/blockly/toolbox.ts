@@ -1,12 +1,17 @@
 import * as Blockly from 'blockly';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
-import type { Variable, VariableType } from '@/types';
+import { getKeyDropdownOptions } from '@/phaser/keyboard';
+import { getDrumDropdownOptions, getInstrumentDropdownOptions } from '@/phaser/Synth';
+import { getSceneBackdrops } from '@/types';
+import type { CustomBlockArgument, CustomBlockParamType, CustomBlockSpec, Variable, VariableType } from '@/types';
 
 // Special value for "pick from stage" option
 const PICK_FROM_STAGE = '__PICK_FROM_STAGE__';
 // Prefix for "any component instance" option
 const COMPONENT_ANY_PREFIX = 'COMPONENT_ANY:';
+// Colour for custom blocks (procedures)
+const CUSTOM_BLOCK_COLOUR = '#FF6680';
 
 // Custom FieldDropdown that preserves unknown values (for object IDs that may not be loaded yet)
 class PreservingFieldDropdown extends Blockly.FieldDropdown {
@@ -102,6 +107,22 @@ class VariableFieldDropdown extends Blockly.FieldDropdown {
   }
 }
 
+// Custom FieldDropdown for names (like backdrops) that keeps names no longer listed, e.g. after a rename
+class NameFieldDropdown extends Blockly.FieldDropdown {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected override doClassValidation_(newValue?: any): string | null {
+    if (newValue === null || newValue === undefined) {
+      return null;
+    }
+    return String(newValue);
+  }
+
+  // The value is the name itself, so unknown values can still be shown
+  override getText(): string {
+    return this.getValue() ?? '';
+  }
+}
+
 // Store reference to the field being picked for (so callback can update it)
 let pendingPickerField: Blockly.FieldDropdown | null = null;
 
@@ -233,6 +254,19 @@ function getSoundDropdownOptions(): Array<[string, string]> {
   return sounds.map(sound => [sound.name, sound.id]);
 }
 
+// Dynamic dropdown generator for backdrop selection (from the current scene's backdrops)
+function getBackdropDropdownOptions(): Array<[string, string]> {
+  const project = useProjectStore.getState().project;
+  const selectedSceneId = useEditorStore.getState().selectedSceneId;
+  const scene = project?.scenes.find(s => s.id === selectedSceneId);
+  if (!scene) {
+    return [['backdrop1', 'backdrop1']];
+  }
+
+  // Backdrops are matched by name at runtime
+  return getSceneBackdrops(scene).map(backdrop => [backdrop.name, backdrop.name]);
+}
+
 // Dropdown with special options + objects
 function getTargetDropdownOptions(includeEdge: boolean = false, includeMouse: boolean = false, includeMyClones: boolean = false): () => Array<[string, string]> {
   return function() {
@@ -301,10 +335,13 @@ export function getToolboxConfig(): any {
         contents: [
           { kind: 'block', type: 'event_game_start' },
           { kind: 'block', type: 'event_key_pressed' },
+          { kind: 'block', type: 'event_key_released' },
           { kind: 'block', type: 'event_clicked' },
           { kind: 'block', type: 'event_forever' },
           { kind: 'block', type: 'event_when_receive' },
           { kind: 'block', type: 'event_when_touching' },
+          { kind: 'block', type: 'event_when_backdrop_switches' },
+          { kind: 'block', type: 'event_when_animation_finishes' },
         ],
       },
       {
@@ -401,6 +438,51 @@ export function getToolboxConfig(): any {
         name: 'Looks',
         colour: '#9966FF',
         contents: [
+          {
+            kind: 'block',
+            type: 'looks_say_for_secs',
+            inputs: {
+              MESSAGE: { shadow: { type: 'text', fields: { TEXT: 'Hello!' } } },
+              SECONDS: { shadow: { type: 'math_number', fields: { NUM: '2' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'looks_say',
+            inputs: {
+              MESSAGE: { shadow: { type: 'text', fields: { TEXT: 'Hello!' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'looks_think_for_secs',
+            inputs: {
+              MESSAGE: { shadow: { type: 'text', fields: { TEXT: 'Hmm...' } } },
+              SECONDS: { shadow: { type: 'math_number', fields: { NUM: '2' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'looks_think',
+            inputs: {
+              MESSAGE: { shadow: { type: 'text', fields: { TEXT: 'Hmm...' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'looks_set_text',
+            inputs: {
+              TEXT: { shadow: { type: 'text', fields: { TEXT: 'Score: 0' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'looks_append_text',
+            inputs: {
+              TEXT: { shadow: { type: 'text', fields: { TEXT: '!' } } }
+            }
+          },
+          { kind: 'block', type: 'looks_set_text_color' },
           { kind: 'block', type: 'looks_show' },
           { kind: 'block', type: 'looks_hide' },
           { kind: 'block', type: 'looks_next_costume' },
@@ -412,6 +494,23 @@ export function getToolboxConfig(): any {
             }
           },
           { kind: 'block', type: 'looks_costume_number' },
+          {
+            kind: 'block',
+            type: 'looks_play_animation',
+            inputs: {
+              ANIMATION: { shadow: { type: 'text', fields: { TEXT: 'animation1' } } }
+            }
+          },
+          { kind: 'block', type: 'looks_stop_animation' },
+          {
+            kind: 'block',
+            type: 'looks_switch_backdrop',
+            inputs: {
+              BACKDROP: { shadow: { type: 'text', fields: { TEXT: 'backdrop1' } } }
+            }
+          },
+          { kind: 'block', type: 'looks_next_backdrop' },
+          { kind: 'block', type: 'looks_backdrop' },
           {
             kind: 'block',
             type: 'looks_set_size',
@@ -488,6 +587,46 @@ export function getToolboxConfig(): any {
               FRICTION: { shadow: { type: 'math_number', fields: { NUM: '0.1' } } }
             }
           },
+          {
+            kind: 'block',
+            type: 'physics_apply_force',
+            inputs: {
+              FX: { shadow: { type: 'math_number', fields: { NUM: '0' } } },
+              FY: { shadow: { type: 'math_number', fields: { NUM: '5' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'physics_apply_impulse',
+            inputs: {
+              IX: { shadow: { type: 'math_number', fields: { NUM: '0' } } },
+              IY: { shadow: { type: 'math_number', fields: { NUM: '20' } } },
+              PX: { shadow: { type: 'math_number', fields: { NUM: '0' } } },
+              PY: { shadow: { type: 'math_number', fields: { NUM: '0' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'physics_set_angular_velocity',
+            inputs: {
+              VELOCITY: { shadow: { type: 'math_number', fields: { NUM: '5' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'physics_set_mass',
+            inputs: {
+              VALUE: { shadow: { type: 'math_number', fields: { NUM: '5' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'physics_set_air_drag',
+            inputs: {
+              DRAG: { shadow: { type: 'math_number', fields: { NUM: '0.05' } } }
+            }
+          },
+          { kind: 'block', type: 'physics_velocity' },
           { kind: 'block', type: 'physics_collide_bounds' },
           { kind: 'block', type: 'physics_immovable' },
           { kind: 'block', type: 'physics_ground_on' },
@@ -500,6 +639,16 @@ export function getToolboxConfig(): any {
             }
           },
           { kind: 'block', type: 'physics_set_ground_color' },
+          { kind: 'block', type: 'physics_connect' },
+          {
+            kind: 'block',
+            type: 'physics_connect_spring',
+            inputs: {
+              STIFFNESS: { shadow: { type: 'math_number', fields: { NUM: '0.05' } } }
+            }
+          },
+          { kind: 'block', type: 'physics_disconnect' },
+          { kind: 'block', type: 'physics_disconnect_all' },
         ],
       },
       {
@@ -546,6 +695,14 @@ export function getToolboxConfig(): any {
         name: 'Sensing',
         colour: '#5CB1D6',
         contents: [
+          {
+            kind: 'block',
+            type: 'sensing_ask_and_wait',
+            inputs: {
+              QUESTION: { shadow: { type: 'text', fields: { TEXT: "What's your name?" } } }
+            }
+          },
+          { kind: 'block', type: 'sensing_answer' },
           { kind: 'block', type: 'sensing_key_pressed' },
           { kind: 'block', type: 'sensing_mouse_down' },
           { kind: 'block', type: 'sensing_mouse_x' },
@@ -559,6 +716,14 @@ export function getToolboxConfig(): any {
           { kind: 'block', type: 'sensing_object_x' },
           { kind: 'block', type: 'sensing_object_y' },
           { kind: 'block', type: 'sensing_object_costume' },
+          {
+            kind: 'block',
+            type: 'sensing_tile_at',
+            inputs: {
+              X: { shadow: { type: 'math_number', fields: { NUM: 0 } } },
+              Y: { shadow: { type: 'math_number', fields: { NUM: 0 } } }
+            }
+          },
         ],
       },
       {
@@ -623,6 +788,8 @@ export function getToolboxConfig(): any {
           { kind: 'block', type: 'sound_play' },
           { kind: 'block', type: 'sound_play_until_done' },
           { kind: 'block', type: 'sound_stop_all' },
+          { kind: 'block', type: 'sound_play_music' },
+          { kind: 'block', type: 'sound_stop_music' },
           {
             kind: 'block',
             type: 'sound_set_volume',
@@ -637,6 +804,92 @@ export function getToolboxConfig(): any {
               DELTA: { shadow: { type: 'math_number', fields: { NUM: '-10' } } }
             }
           },
+          {
+            kind: 'block',
+            type: 'sound_set_effect',
+            inputs: {
+              VALUE: { shadow: { type: 'math_number', fields: { NUM: '100' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'sound_change_effect',
+            inputs: {
+              DELTA: { shadow: { type: 'math_number', fields: { NUM: '10' } } }
+            }
+          },
+          { kind: 'block', type: 'sound_clear_effects' },
+        ],
+      },
+      {
+        kind: 'category',
+        name: 'Music',
+        colour: '#D65CD6',
+        contents: [
+          {
+            kind: 'block',
+            type: 'music_play_drum',
+            inputs: {
+              BEATS: { shadow: { type: 'math_number', fields: { NUM: '0.25' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'music_rest',
+            inputs: {
+              BEATS: { shadow: { type: 'math_number', fields: { NUM: '0.25' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'music_play_note',
+            inputs: {
+              NOTE: { shadow: { type: 'math_number', fields: { NUM: '60' } } },
+              BEATS: { shadow: { type: 'math_number', fields: { NUM: '0.25' } } }
+            }
+          },
+          { kind: 'block', type: 'music_set_instrument' },
+          {
+            kind: 'block',
+            type: 'music_set_tempo',
+            inputs: {
+              TEMPO: { shadow: { type: 'math_number', fields: { NUM: '60' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'music_change_tempo',
+            inputs: {
+              DELTA: { shadow: { type: 'math_number', fields: { NUM: '20' } } }
+            }
+          },
+          { kind: 'block', type: 'music_tempo' },
+        ],
+      },
+      {
+        kind: 'category',
+        name: 'Pen',
+        colour: '#0FBD8C',
+        contents: [
+          { kind: 'block', type: 'pen_clear' },
+          { kind: 'block', type: 'pen_stamp' },
+          { kind: 'block', type: 'pen_down' },
+          { kind: 'block', type: 'pen_up' },
+          { kind: 'block', type: 'pen_set_color' },
+          {
+            kind: 'block',
+            type: 'pen_set_size',
+            inputs: {
+              SIZE: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'pen_change_size',
+            inputs: {
+              DELTA: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
+            }
+          },
         ],
       },
       {
@@ -670,6 +923,78 @@ export function getToolboxConfig(): any {
           },
           { kind: 'block', type: 'logic_operation' },
           { kind: 'block', type: 'logic_negate' },
+          {
+            kind: 'block',
+            type: 'operator_mod',
+            inputs: {
+              A: { shadow: { type: 'math_number', fields: { NUM: '10' } } },
+              B: { shadow: { type: 'math_number', fields: { NUM: '3' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_round',
+            inputs: {
+              NUM: { shadow: { type: 'math_number', fields: { NUM: '2.5' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_mathop',
+            fields: { OPERATOR: 'abs' },
+            inputs: {
+              NUM: { shadow: { type: 'math_number', fields: { NUM: '9' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_minmax',
+            fields: { OPERATOR: 'max' },
+            inputs: {
+              A: { shadow: { type: 'math_number', fields: { NUM: '1' } } },
+              B: { shadow: { type: 'math_number', fields: { NUM: '2' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_join',
+            inputs: {
+              A: { shadow: { type: 'text', fields: { TEXT: 'apple ' } } },
+              B: { shadow: { type: 'text', fields: { TEXT: 'banana' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_letter_of',
+            inputs: {
+              INDEX: { shadow: { type: 'math_number', fields: { NUM: '1' } } },
+              TEXT: { shadow: { type: 'text', fields: { TEXT: 'apple' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_substring',
+            inputs: {
+              FROM: { shadow: { type: 'math_number', fields: { NUM: '2' } } },
+              TO: { shadow: { type: 'math_number', fields: { NUM: '4' } } },
+              TEXT: { shadow: { type: 'text', fields: { TEXT: 'apple' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_length',
+            inputs: {
+              TEXT: { shadow: { type: 'text', fields: { TEXT: 'apple' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'operator_contains',
+            inputs: {
+              A: { shadow: { type: 'text', fields: { TEXT: 'apple' } } },
+              B: { shadow: { type: 'text', fields: { TEXT: 'a' } } }
+            }
+          },
         ],
       },
       {
@@ -695,11 +1020,75 @@ export function getToolboxConfig(): any {
               DELTA: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
             }
           },
+          { kind: 'block', type: 'typed_variable_show' },
+          { kind: 'block', type: 'typed_variable_hide' },
           { kind: 'sep', gap: '8' },
           { kind: 'label', text: 'Boolean Value' },
           { kind: 'block', type: 'logic_boolean' },
+          { kind: 'sep', gap: '16' },
+          { kind: 'label', text: 'Lists' },
+          { kind: 'block', type: 'list_get' },
+          {
+            kind: 'block',
+            type: 'list_add',
+            inputs: {
+              ITEM: { shadow: { type: 'text', fields: { TEXT: 'thing' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'list_insert',
+            inputs: {
+              ITEM: { shadow: { type: 'text', fields: { TEXT: 'thing' } } },
+              INDEX: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'list_replace',
+            inputs: {
+              INDEX: { shadow: { type: 'math_number', fields: { NUM: '1' } } },
+              ITEM: { shadow: { type: 'text', fields: { TEXT: 'thing' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'list_delete',
+            inputs: {
+              INDEX: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
+            }
+          },
+          { kind: 'block', type: 'list_delete_all' },
+          {
+            kind: 'block',
+            type: 'list_item',
+            inputs: {
+              INDEX: { shadow: { type: 'math_number', fields: { NUM: '1' } } }
+            }
+          },
+          {
+            kind: 'block',
+            type: 'list_index_of',
+            inputs: {
+              ITEM: { shadow: { type: 'text', fields: { TEXT: 'thing' } } }
+            }
+          },
+          { kind: 'block', type: 'list_length' },
+          {
+            kind: 'block',
+            type: 'list_contains',
+            inputs: {
+              ITEM: { shadow: { type: 'text', fields: { TEXT: 'thing' } } }
+            }
+          },
         ],
       },
+      {
+        kind: 'category',
+        name: 'My Blocks',
+        colour: CUSTOM_BLOCK_COLOUR,
+        custom: 'MY_BLOCKS',
+      },
       {
         kind: 'category',
         name: 'Debug',
@@ -729,17 +1118,7 @@ function registerCustomBlocks() {
     init: function() {
       this.appendDummyInput()
         .appendField('🔑 when')
-        .appendField(new Blockly.FieldDropdown([
-          ['space', 'SPACE'],
-          ['up arrow', 'UP'],
-          ['down arrow', 'DOWN'],
-          ['left arrow', 'LEFT'],
-          ['right arrow', 'RIGHT'],
-          ['w', 'W'],
-          ['a', 'A'],
-          ['s', 'S'],
-          ['d', 'D'],
-        ]), 'KEY')
+        .appendField(new Blockly.FieldDropdown(getKeyDropdownOptions()), 'KEY')
         .appendField('pressed');
       this.appendStatementInput('NEXT')
         .setCheck(null);
@@ -748,6 +1127,19 @@ function registerCustomBlocks() {
     }
   };
 
+  Blockly.Blocks['event_key_released'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('🔑 when')
+        .appendField(new Blockly.FieldDropdown(getKeyDropdownOptions()), 'KEY')
+        .appendField('released');
+      this.appendStatementInput('NEXT')
+        .setCheck(null);
+      this.setColour('#FFAB19');
+      this.setTooltip('Runs when a key is let go');
+    }
+  };
+
   Blockly.Blocks['event_clicked'] = {
     init: function() {
       this.appendDummyInput()
@@ -923,20 +1315,117 @@ function registerCustomBlocks() {
   };
 
   // Looks
-  Blockly.Blocks['looks_show'] = {
+  Blockly.Blocks['looks_say'] = {
     init: function() {
-      this.appendDummyInput()
-        .appendField('show');
+      this.appendValueInput('MESSAGE')
+        .appendField('say');
+      this.setInputsInline(true);
       this.setPreviousStatement(true, null);
       this.setNextStatement(true, null);
       this.setColour('#9966FF');
-      this.setTooltip('Show this object');
+      this.setTooltip('Show a speech bubble (say nothing to remove it)');
     }
   };
 
-  Blockly.Blocks['looks_hide'] = {
+  Blockly.Blocks['looks_say_for_secs'] = {
     init: function() {
-      this.appendDummyInput()
+      this.appendValueInput('MESSAGE')
+        .appendField('say');
+      this.appendValueInput('SECONDS')
+        .setCheck('Number')
+        .appendField('for');
+      this.appendDummyInput()
+        .appendField('seconds');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Show a speech bubble, wait, then remove it');
+    }
+  };
+
+  Blockly.Blocks['looks_think'] = {
+    init: function() {
+      this.appendValueInput('MESSAGE')
+        .appendField('think');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Show a thought bubble (think nothing to remove it)');
+    }
+  };
+
+  Blockly.Blocks['looks_think_for_secs'] = {
+    init: function() {
+      this.appendValueInput('MESSAGE')
+        .appendField('think');
+      this.appendValueInput('SECONDS')
+        .setCheck('Number')
+        .appendField('for');
+      this.appendDummyInput()
+        .appendField('seconds');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Show a thought bubble, wait, then remove it');
+    }
+  };
+
+  // Text object blocks
+  Blockly.Blocks['looks_set_text'] = {
+    init: function() {
+      this.appendValueInput('TEXT')
+        .appendField('set text to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Change what a text object says');
+    }
+  };
+
+  Blockly.Blocks['looks_append_text'] = {
+    init: function() {
+      this.appendValueInput('TEXT')
+        .appendField('add');
+      this.appendDummyInput()
+        .appendField('to end of text');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Join a value onto the end of a text object\'s text');
+    }
+  };
+
+  Blockly.Blocks['looks_set_text_color'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('set text color to')
+        .appendField(new Blockly.FieldTextInput('#FFFFFF'), 'COLOR');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Set the color of a text object (hex color like #FFCC00)');
+    }
+  };
+
+  Blockly.Blocks['looks_show'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('show');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Show this object');
+    }
+  };
+
+  Blockly.Blocks['looks_hide'] = {
+    init: function() {
+      this.appendDummyInput()
         .appendField('hide');
       this.setPreviousStatement(true, null);
       this.setNextStatement(true, null);
@@ -1007,6 +1496,70 @@ function registerCustomBlocks() {
     }
   };
 
+  // Animation blocks - animations are set up in the costume editor
+  Blockly.Blocks['looks_play_animation'] = {
+    init: function() {
+      this.appendValueInput('ANIMATION')
+        .setCheck('String')
+        .appendField('play animation');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Start playing one of this object\'s animations');
+    }
+  };
+
+  Blockly.Blocks['looks_stop_animation'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('stop animation');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Stop the animation on the frame it is showing');
+    }
+  };
+
+  // Backdrop blocks - backdrops belong to the scene, so every object sees the same one
+  Blockly.Blocks['looks_switch_backdrop'] = {
+    init: function() {
+      this.appendValueInput('BACKDROP')
+        .setCheck(['Number', 'String'])
+        .appendField('switch backdrop to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Switch the scene\'s backdrop by name or number');
+    }
+  };
+
+  Blockly.Blocks['looks_next_backdrop'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('next backdrop');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#9966FF');
+      this.setTooltip('Switch to the scene\'s next backdrop');
+    }
+  };
+
+  Blockly.Blocks['looks_backdrop'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('backdrop')
+        .appendField(new Blockly.FieldDropdown([
+          ['number', 'NUMBER'],
+          ['name', 'NAME'],
+        ]), 'PROPERTY');
+      this.setOutput(true, ['Number', 'String']);
+      this.setColour('#9966FF');
+      this.setTooltip('Number or name of the current backdrop');
+    }
+  };
+
   // Control
   Blockly.Blocks['control_wait'] = {
     init: function() {
@@ -1111,17 +1664,7 @@ function registerCustomBlocks() {
     init: function() {
       this.appendDummyInput()
         .appendField('key')
-        .appendField(new Blockly.FieldDropdown([
-          ['space', 'SPACE'],
-          ['up arrow', 'UP'],
-          ['down arrow', 'DOWN'],
-          ['left arrow', 'LEFT'],
-          ['right arrow', 'RIGHT'],
-          ['w', 'W'],
-          ['a', 'A'],
-          ['s', 'S'],
-          ['d', 'D'],
-        ]), 'KEY')
+        .appendField(new Blockly.FieldDropdown(getKeyDropdownOptions()), 'KEY')
         .appendField('pressed?');
       this.setOutput(true, 'Boolean');
       this.setColour('#5CB1D6');
@@ -1129,6 +1672,30 @@ function registerCustomBlocks() {
     }
   };
 
+  Blockly.Blocks['sensing_ask_and_wait'] = {
+    init: function() {
+      this.appendValueInput('QUESTION')
+        .appendField('ask');
+      this.appendDummyInput()
+        .appendField('and wait');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#5CB1D6');
+      this.setTooltip('Ask the player a question and wait until they type an answer');
+    }
+  };
+
+  Blockly.Blocks['sensing_answer'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('answer');
+      this.setOutput(true, 'String');
+      this.setColour('#5CB1D6');
+      this.setTooltip('The last answer typed for an "ask and wait" block');
+    }
+  };
+
   Blockly.Blocks['sensing_mouse_down'] = {
     init: function() {
       this.appendDummyInput()
@@ -1281,6 +1848,21 @@ function registerCustomBlocks() {
     }
   };
 
+  Blockly.Blocks['sensing_tile_at'] = {
+    init: function() {
+      this.appendValueInput('X')
+        .setCheck('Number')
+        .appendField('tile at x:');
+      this.appendValueInput('Y')
+        .setCheck('Number')
+        .appendField('y:');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#5CB1D6');
+      this.setTooltip("Number of the tilemap tile at this position (0 if there's no tile)");
+    }
+  };
+
   // Physics blocks
   Blockly.Blocks['physics_enable'] = {
     init: function() {
@@ -1395,6 +1977,104 @@ function registerCustomBlocks() {
     }
   };
 
+  Blockly.Blocks['physics_apply_force'] = {
+    init: function() {
+      this.appendValueInput('FX')
+        .setCheck('Number')
+        .appendField('push with force x:');
+      this.appendValueInput('FY')
+        .setCheck('Number')
+        .appendField('y:');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Push for one frame - use it in a forever loop for rockets and wind. Heavier objects speed up more slowly');
+    }
+  };
+
+  Blockly.Blocks['physics_apply_impulse'] = {
+    init: function() {
+      this.appendValueInput('IX')
+        .setCheck('Number')
+        .appendField('kick with impulse x:');
+      this.appendValueInput('IY')
+        .setCheck('Number')
+        .appendField('y:');
+      this.appendValueInput('PX')
+        .setCheck('Number')
+        .appendField('at x:');
+      this.appendValueInput('PY')
+        .setCheck('Number')
+        .appendField('y:');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Change speed at once, like a hit. "at" is measured from my center - kicking off-center also spins me if I rotate with physics');
+    }
+  };
+
+  Blockly.Blocks['physics_set_angular_velocity'] = {
+    init: function() {
+      this.appendValueInput('VELOCITY')
+        .setCheck('Number')
+        .appendField('set spin speed to');
+      this.appendDummyInput()
+        .appendField('degrees');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Set angular velocity in degrees per frame (positive spins clockwise). Needs "Rotate with Physics"');
+    }
+  };
+
+  Blockly.Blocks['physics_set_mass'] = {
+    init: function() {
+      this.appendValueInput('VALUE')
+        .setCheck('Number')
+        .appendField('set')
+        .appendField(new Blockly.FieldDropdown([
+          ['mass', 'mass'],
+          ['density', 'density'],
+        ]), 'PROPERTY')
+        .appendField('to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('How heavy I am. Density is weight per pixel, so bigger objects get heavier');
+    }
+  };
+
+  Blockly.Blocks['physics_set_air_drag'] = {
+    init: function() {
+      this.appendValueInput('DRAG')
+        .setCheck('Number')
+        .appendField('set air drag to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('How quickly I slow down while moving (0 = never, 1 = stop at once)');
+    }
+  };
+
+  Blockly.Blocks['physics_velocity'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField(new Blockly.FieldDropdown([
+          ['speed', 'speed'],
+          ['velocity x', 'x'],
+          ['velocity y', 'y'],
+        ]), 'PROPERTY');
+      this.setOutput(true, 'Number');
+      this.setColour('#40BF4A');
+      this.setTooltip('How fast I am moving, in pixels per frame');
+    }
+  };
+
   Blockly.Blocks['physics_collide_bounds'] = {
     init: function() {
       this.appendDummyInput()
@@ -1465,6 +2145,69 @@ function registerCustomBlocks() {
     }
   };
 
+  Blockly.Blocks['physics_connect'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('connect me to')
+        .appendField(new PreservingFieldDropdown(getObjectDropdownOptions), 'TARGET')
+        .appendField('with')
+        .appendField(new Blockly.FieldDropdown([
+          ['pin', 'pin'],
+          ['rope', 'rope'],
+          ['weld', 'weld'],
+        ]), 'TYPE');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Link to another physics object. Pin: swing around it. Rope: stay close to it. Weld: stick to it');
+      const targetField = this.getField('TARGET') as Blockly.FieldDropdown;
+      if (targetField) targetField.setValidator(createObjectPickerValidator(true));
+    }
+  };
+
+  Blockly.Blocks['physics_connect_spring'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('connect me to')
+        .appendField(new PreservingFieldDropdown(getObjectDropdownOptions), 'TARGET')
+        .appendField('with spring stiffness');
+      this.appendValueInput('STIFFNESS')
+        .setCheck('Number');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Link to another physics object with a bouncy spring (stiffness 0-1)');
+      const targetField = this.getField('TARGET') as Blockly.FieldDropdown;
+      if (targetField) targetField.setValidator(createObjectPickerValidator(true));
+    }
+  };
+
+  Blockly.Blocks['physics_disconnect'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('disconnect me from')
+        .appendField(new PreservingFieldDropdown(getObjectDropdownOptions), 'TARGET');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Remove the pins, ropes, springs and welds between this object and another');
+      const targetField = this.getField('TARGET') as Blockly.FieldDropdown;
+      if (targetField) targetField.setValidator(createObjectPickerValidator(true));
+    }
+  };
+
+  Blockly.Blocks['physics_disconnect_all'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('disconnect me from everything');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#40BF4A');
+      this.setTooltip('Remove all pins, ropes, springs and welds on this object');
+    }
+  };
+
   // Camera blocks
   Blockly.Blocks['camera_follow_me'] = {
     init: function() {
@@ -1633,7 +2376,7 @@ function registerCustomBlocks() {
       this.setPreviousStatement(true, null);
       this.setNextStatement(true, null);
       this.setColour('#CF63CF');
-      this.setTooltip('Stop all playing sounds');
+      this.setTooltip('Stop all playing sounds (the music keeps playing)');
     }
   };
 
@@ -1665,19 +2408,300 @@ function registerCustomBlocks() {
     }
   };
 
-  // Advanced events
-  Blockly.Blocks['event_when_receive'] = {
+  Blockly.Blocks['sound_play_music'] = {
     init: function() {
       this.appendDummyInput()
-        .appendField('when I receive')
-        .appendField(new Blockly.FieldTextInput('message1'), 'MESSAGE');
-      this.appendStatementInput('NEXT')
-        .setCheck(null);
-      this.setColour('#FFAB19');
+        .appendField('play music')
+        .appendField(new PreservingFieldDropdown(getSoundDropdownOptions), 'SOUND')
+        .appendField('on loop');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#CF63CF');
+      this.setTooltip('Loop a sound as background music - it keeps playing when the scene changes');
+    }
+  };
+
+  Blockly.Blocks['sound_stop_music'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('stop music');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#CF63CF');
+      this.setTooltip('Stop the background music');
+    }
+  };
+
+  Blockly.Blocks['sound_set_effect'] = {
+    init: function() {
+      this.appendValueInput('VALUE')
+        .setCheck('Number')
+        .appendField('set my sound')
+        .appendField(new Blockly.FieldDropdown([
+          ['pitch', 'PITCH'],
+          ['pan left/right', 'PAN'],
+          ['volume', 'VOLUME'],
+        ]), 'EFFECT')
+        .appendField('to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#CF63CF');
+      this.setTooltip('Change how this object sounds: pitch (10 = one note higher), pan (-100 left to 100 right) or volume (0-100)');
+    }
+  };
+
+  Blockly.Blocks['sound_change_effect'] = {
+    init: function() {
+      this.appendValueInput('DELTA')
+        .setCheck('Number')
+        .appendField('change my sound')
+        .appendField(new Blockly.FieldDropdown([
+          ['pitch', 'PITCH'],
+          ['pan left/right', 'PAN'],
+          ['volume', 'VOLUME'],
+        ]), 'EFFECT')
+        .appendField('by');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#CF63CF');
+      this.setTooltip('Change this object\'s pitch, pan or volume by an amount');
+    }
+  };
+
+  Blockly.Blocks['sound_clear_effects'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('clear sound effects');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#CF63CF');
+      this.setTooltip('Put this object\'s pitch, pan and volume back to normal');
+    }
+  };
+
+  // Music
+  Blockly.Blocks['music_play_drum'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('play drum')
+        .appendField(new Blockly.FieldDropdown(getDrumDropdownOptions), 'DRUM');
+      this.appendValueInput('BEATS')
+        .setCheck('Number')
+        .appendField('for');
+      this.appendDummyInput()
+        .appendField('beats');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Hit a drum, then wait for the beats');
+    }
+  };
+
+  Blockly.Blocks['music_rest'] = {
+    init: function() {
+      this.appendValueInput('BEATS')
+        .setCheck('Number')
+        .appendField('rest for');
+      this.appendDummyInput()
+        .appendField('beats');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Play nothing for the beats');
+    }
+  };
+
+  Blockly.Blocks['music_play_note'] = {
+    init: function() {
+      this.appendValueInput('NOTE')
+        .setCheck('Number')
+        .appendField('play note');
+      this.appendValueInput('BEATS')
+        .setCheck('Number')
+        .appendField('for');
+      this.appendDummyInput()
+        .appendField('beats');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Play a note with this object\'s instrument (60 is middle C, each step is one semitone)');
+    }
+  };
+
+  Blockly.Blocks['music_set_instrument'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('set instrument to')
+        .appendField(new Blockly.FieldDropdown(getInstrumentDropdownOptions), 'INSTRUMENT');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Choose the instrument this object plays notes with');
+    }
+  };
+
+  Blockly.Blocks['music_set_tempo'] = {
+    init: function() {
+      this.appendValueInput('TEMPO')
+        .setCheck('Number')
+        .appendField('set tempo to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Set how many beats play in a minute (20-500)');
+    }
+  };
+
+  Blockly.Blocks['music_change_tempo'] = {
+    init: function() {
+      this.appendValueInput('DELTA')
+        .setCheck('Number')
+        .appendField('change tempo by');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#D65CD6');
+      this.setTooltip('Make the music faster or slower');
+    }
+  };
+
+  Blockly.Blocks['music_tempo'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('tempo');
+      this.setOutput(true, 'Number');
+      this.setColour('#D65CD6');
+      this.setTooltip('Current tempo in beats per minute');
+    }
+  };
+
+  // Pen
+  Blockly.Blocks['pen_clear'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('erase all');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Erase everything drawn with the pen in this scene');
+    }
+  };
+
+  Blockly.Blocks['pen_stamp'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('stamp');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Print a copy of this object onto the drawing');
+    }
+  };
+
+  Blockly.Blocks['pen_down'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('pen down');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Start drawing a line wherever this object moves');
+    }
+  };
+
+  Blockly.Blocks['pen_up'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('pen up');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Stop drawing');
+    }
+  };
+
+  Blockly.Blocks['pen_set_color'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('set pen color to')
+        .appendField(new Blockly.FieldTextInput('#4C97FF'), 'COLOR');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Set the pen color (hex color like #FF0000)');
+    }
+  };
+
+  Blockly.Blocks['pen_set_size'] = {
+    init: function() {
+      this.appendValueInput('SIZE')
+        .setCheck('Number')
+        .appendField('set pen size to');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Set how thick the pen draws');
+    }
+  };
+
+  Blockly.Blocks['pen_change_size'] = {
+    init: function() {
+      this.appendValueInput('DELTA')
+        .setCheck('Number')
+        .appendField('change pen size by');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#0FBD8C');
+      this.setTooltip('Make the pen thicker or thinner');
+    }
+  };
+
+  // Advanced events
+  Blockly.Blocks['event_when_receive'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('when I receive')
+        .appendField(new Blockly.FieldTextInput('message1'), 'MESSAGE');
+      this.appendStatementInput('NEXT')
+        .setCheck(null);
+      this.setColour('#FFAB19');
       this.setTooltip('Runs when message is received');
     }
   };
 
+  Blockly.Blocks['event_when_backdrop_switches'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('when backdrop switches to')
+        .appendField(new NameFieldDropdown(getBackdropDropdownOptions), 'BACKDROP');
+      this.appendStatementInput('NEXT')
+        .setCheck(null);
+      this.setColour('#FFAB19');
+      this.setTooltip('Runs when the scene switches to this backdrop');
+    }
+  };
+
+  Blockly.Blocks['event_when_animation_finishes'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('when animation')
+        .appendField(new Blockly.FieldTextInput('animation1'), 'ANIMATION')
+        .appendField('finishes');
+      this.appendStatementInput('NEXT')
+        .setCheck(null);
+      this.setColour('#FFAB19');
+      this.setTooltip('Runs when this object\'s animation plays to the end (animations that loop never finish)');
+    }
+  };
+
   Blockly.Blocks['event_when_touching'] = {
     init: function() {
       this.appendDummyInput()
@@ -1780,7 +2804,7 @@ function registerCustomBlocks() {
       this.setPreviousStatement(true, null);
       this.setNextStatement(true, null);
       this.setColour('#FFBF00');
-      this.setTooltip('Send a message and wait');
+      this.setTooltip('Send a message and wait until every "when I receive" script has finished');
     }
   };
 
@@ -1960,6 +2984,139 @@ function registerCustomBlocks() {
     }
   };
 
+  // Operators - inputs are coerced like typed variables (numbers fall back to 0)
+  Blockly.Blocks['operator_join'] = {
+    init: function() {
+      this.appendValueInput('A')
+        .appendField('join');
+      this.appendValueInput('B');
+      this.setInputsInline(true);
+      this.setOutput(true, 'String');
+      this.setColour('#59C059');
+      this.setTooltip('Put two pieces of text together');
+    }
+  };
+
+  Blockly.Blocks['operator_letter_of'] = {
+    init: function() {
+      this.appendValueInput('INDEX')
+        .appendField('letter');
+      this.appendValueInput('TEXT')
+        .appendField('of');
+      this.setInputsInline(true);
+      this.setOutput(true, 'String');
+      this.setColour('#59C059');
+      this.setTooltip('The letter at a position in the text (1 is the first letter)');
+    }
+  };
+
+  Blockly.Blocks['operator_substring'] = {
+    init: function() {
+      this.appendValueInput('FROM')
+        .appendField('letters');
+      this.appendValueInput('TO')
+        .appendField('to');
+      this.appendValueInput('TEXT')
+        .appendField('of');
+      this.setInputsInline(true);
+      this.setOutput(true, 'String');
+      this.setColour('#59C059');
+      this.setTooltip('The letters between two positions in the text, including both ends');
+    }
+  };
+
+  Blockly.Blocks['operator_length'] = {
+    init: function() {
+      this.appendValueInput('TEXT')
+        .appendField('length of');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#59C059');
+      this.setTooltip('How many letters are in the text');
+    }
+  };
+
+  Blockly.Blocks['operator_contains'] = {
+    init: function() {
+      this.appendValueInput('A');
+      this.appendValueInput('B')
+        .appendField('contains');
+      this.appendDummyInput()
+        .appendField('?');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Boolean');
+      this.setColour('#59C059');
+      this.setTooltip('True if the second text appears in the first (upper and lower case match)');
+    }
+  };
+
+  Blockly.Blocks['operator_mod'] = {
+    init: function() {
+      this.appendValueInput('A');
+      this.appendValueInput('B')
+        .appendField('mod');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#59C059');
+      this.setTooltip('The remainder after dividing (has the same sign as the second number)');
+    }
+  };
+
+  Blockly.Blocks['operator_round'] = {
+    init: function() {
+      this.appendValueInput('NUM')
+        .appendField('round');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#59C059');
+      this.setTooltip('Round to the nearest whole number');
+    }
+  };
+
+  Blockly.Blocks['operator_mathop'] = {
+    init: function() {
+      this.appendValueInput('NUM')
+        .appendField(new Blockly.FieldDropdown([
+          ['abs', 'abs'],
+          ['floor', 'floor'],
+          ['ceiling', 'ceiling'],
+          ['sqrt', 'sqrt'],
+          ['sin', 'sin'],
+          ['cos', 'cos'],
+          ['tan', 'tan'],
+          ['asin', 'asin'],
+          ['acos', 'acos'],
+          ['atan', 'atan'],
+          ['ln', 'ln'],
+          ['log', 'log'],
+          ['e ^', 'exp'],
+          ['10 ^', 'pow10'],
+        ]), 'OPERATOR')
+        .appendField('of');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#59C059');
+      this.setTooltip('Math functions - angles are in degrees');
+    }
+  };
+
+  Blockly.Blocks['operator_minmax'] = {
+    init: function() {
+      this.appendValueInput('A')
+        .appendField(new Blockly.FieldDropdown([
+          ['max', 'max'],
+          ['min', 'min'],
+        ]), 'OPERATOR')
+        .appendField('of');
+      this.appendValueInput('B')
+        .appendField('and');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#59C059');
+      this.setTooltip('The bigger or smaller of two numbers');
+    }
+  };
+
   // === Typed Variable Blocks ===
 
   // Typed variable getter - shape depends on type (diamond for boolean, round for others)
@@ -2022,6 +3179,329 @@ function registerCustomBlocks() {
     }
   };
 
+  // Show or hide the variable's monitor on the stage
+  Blockly.Blocks['typed_variable_show'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('show variable')
+        .appendField(new VariableFieldDropdown(() => getVariableDropdownOptions()), 'VAR');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF8C1A');
+      this.setTooltip('Show the variable\'s monitor on the stage');
+    }
+  };
+
+  Blockly.Blocks['typed_variable_hide'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('hide variable')
+        .appendField(new VariableFieldDropdown(() => getVariableDropdownOptions()), 'VAR');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF8C1A');
+      this.setTooltip('Hide the variable\'s monitor from the stage');
+    }
+  };
+
+  // === List Blocks ===
+
+  // Whole list reporter - plugs into "for each"
+  Blockly.Blocks['list_get'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setOutput(true, 'Array');
+      this.setColour('#FF661A');
+      this.setTooltip('All items in a list. Use with "for each" to go through them.');
+    }
+  };
+
+  Blockly.Blocks['list_add'] = {
+    init: function() {
+      this.appendValueInput('ITEM')
+        .appendField('add');
+      this.appendDummyInput()
+        .appendField('to')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('Add an item to the end of a list');
+    }
+  };
+
+  Blockly.Blocks['list_insert'] = {
+    init: function() {
+      this.appendValueInput('ITEM')
+        .appendField('insert');
+      this.appendValueInput('INDEX')
+        .setCheck('Number')
+        .appendField('at');
+      this.appendDummyInput()
+        .appendField('of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('Insert an item at a position in a list (1 is the first item)');
+    }
+  };
+
+  Blockly.Blocks['list_delete'] = {
+    init: function() {
+      this.appendValueInput('INDEX')
+        .setCheck('Number')
+        .appendField('delete');
+      this.appendDummyInput()
+        .appendField('of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('Delete the item at a position in a list');
+    }
+  };
+
+  Blockly.Blocks['list_delete_all'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('delete all of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('Remove every item from a list');
+    }
+  };
+
+  Blockly.Blocks['list_replace'] = {
+    init: function() {
+      this.appendValueInput('INDEX')
+        .setCheck('Number')
+        .appendField('replace item');
+      this.appendDummyInput()
+        .appendField('of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.appendValueInput('ITEM')
+        .appendField('with');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('Replace the item at a position in a list');
+    }
+  };
+
+  Blockly.Blocks['list_item'] = {
+    init: function() {
+      this.appendValueInput('INDEX')
+        .setCheck('Number')
+        .appendField('item');
+      this.appendDummyInput()
+        .appendField('of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setInputsInline(true);
+      this.setOutput(true, null);
+      this.setColour('#FF661A');
+      this.setTooltip('The item at a position in a list (empty if there is no such item)');
+    }
+  };
+
+  Blockly.Blocks['list_length'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField('length of')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setOutput(true, 'Number');
+      this.setColour('#FF661A');
+      this.setTooltip('How many items are in a list');
+    }
+  };
+
+  Blockly.Blocks['list_contains'] = {
+    init: function() {
+      this.appendDummyInput()
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.appendValueInput('ITEM')
+        .appendField('contains');
+      this.appendDummyInput()
+        .appendField('?');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Boolean');
+      this.setColour('#FF661A');
+      this.setTooltip('True if the list has this item');
+    }
+  };
+
+  Blockly.Blocks['list_index_of'] = {
+    init: function() {
+      this.appendValueInput('ITEM')
+        .appendField('item # of');
+      this.appendDummyInput()
+        .appendField('in')
+        .appendField(new VariableFieldDropdown(() => getListDropdownOptions()), 'LIST');
+      this.setInputsInline(true);
+      this.setOutput(true, 'Number');
+      this.setColour('#FF661A');
+      this.setTooltip('The position of an item in a list (0 if it is not there)');
+    }
+  };
+
+  // === Custom Blocks (procedures) ===
+  // The spec (name + typed params) lives in the block mutation so it survives XML save/load
+
+  // Definition hat - compiles to an async function for this object
+  Blockly.Blocks['custom_block_define'] = {
+    init: function() {
+      this.spec_ = { procId: '', name: 'my block', params: [] } as CustomBlockSpec;
+      this.appendDummyInput('HEADER');
+      this.appendStatementInput('NEXT')
+        .setCheck(null);
+      this.setColour(CUSTOM_BLOCK_COLOUR);
+      this.setTooltip('Define what your custom block does');
+      this.updateShape_();
+    },
+    saveExtraState: function(): CustomBlockSpec {
+      return cloneCustomBlockSpec(this.spec_);
+    },
+    loadExtraState: function(state: CustomBlockSpec) {
+      this.spec_ = cloneCustomBlockSpec(state);
+      this.updateShape_();
+    },
+    mutationToDom: function(): Element {
+      return customBlockSpecToMutation(this.spec_);
+    },
+    domToMutation: function(xml: Element) {
+      this.spec_ = mutationToCustomBlockSpec(xml);
+      this.updateShape_();
+    },
+    updateShape_: function() {
+      const spec = this.spec_ as CustomBlockSpec;
+      if (this.getInput('HEADER')) this.removeInput('HEADER');
+      const header = this.appendDummyInput('HEADER')
+        .appendField('define')
+        .appendField(spec.name);
+      for (const param of spec.params) {
+        header.appendField(param.type === 'boolean' ? `<${param.name}>` : `(${param.name})`);
+      }
+      this.moveInputBefore('HEADER', 'NEXT');
+    },
+    customContextMenu: function(options: Array<Blockly.ContextMenuRegistry.ContextMenuOption | Blockly.ContextMenuRegistry.LegacyContextMenuOption>) {
+      if (this.isInFlyout) return;
+      options.push({
+        text: 'Edit custom block',
+        enabled: true,
+        callback: () => editCustomBlockCallback?.(cloneCustomBlockSpec(this.spec_)),
+      });
+    }
+  };
+
+  // Call block - waits for the custom block to finish
+  Blockly.Blocks['custom_block_call'] = {
+    init: function() {
+      this.spec_ = { procId: '', name: 'my block', params: [] } as CustomBlockSpec;
+      this.appendDummyInput('NAME');
+      this.setInputsInline(true);
+      this.setPreviousStatement(true, null);
+      this.setNextStatement(true, null);
+      this.setColour(CUSTOM_BLOCK_COLOUR);
+      this.setTooltip('Run a custom block and wait until it finishes');
+      this.updateShape_();
+    },
+    saveExtraState: function(): CustomBlockSpec {
+      return cloneCustomBlockSpec(this.spec_);
+    },
+    loadExtraState: function(state: CustomBlockSpec) {
+      this.spec_ = cloneCustomBlockSpec(state);
+      this.updateShape_();
+    },
+    mutationToDom: function(): Element {
+      return customBlockSpecToMutation(this.spec_);
+    },
+    domToMutation: function(xml: Element) {
+      this.spec_ = mutationToCustomBlockSpec(xml);
+      this.updateShape_();
+    },
+    updateShape_: function() {
+      const spec = this.spec_ as CustomBlockSpec;
+
+      // Keep blocks plugged into inputs that still exist after an edit
+      const savedConnections = new Map<string, Blockly.Connection>();
+      for (const input of [...this.inputList] as Blockly.Input[]) {
+        if (!input.name.startsWith('ARG_')) continue;
+        const target = input.connection?.targetBlock();
+        if (target && !target.isShadow() && target.outputConnection) {
+          savedConnections.set(input.name, target.outputConnection);
+        }
+        this.removeInput(input.name);
+      }
+
+      if (this.getInput('NAME')) this.removeInput('NAME');
+      this.appendDummyInput('NAME')
+        .appendField(spec.name);
+
+      for (const param of spec.params) {
+        const input: Blockly.Input = this.appendValueInput(`ARG_${param.id}`)
+          .setCheck(getCustomBlockParamCheck(param.type))
+          .appendField(param.name);
+        const saved = savedConnections.get(input.name);
+        if (saved) {
+          input.connection?.connect(saved);
+        } else {
+          const shadow = getCustomBlockParamShadow(param.type);
+          if (shadow) input.connection?.setShadowState(shadow);
+        }
+      }
+    }
+  };
+
+  // Parameter reporter - only has a value inside its own definition
+  Blockly.Blocks['custom_block_argument'] = {
+    init: function() {
+      this.arg_ = { procId: '', paramId: '', name: 'value', type: 'number' } as CustomBlockArgument;
+      this.appendDummyInput('NAME');
+      this.setOutput(true, 'Number');
+      this.setColour(CUSTOM_BLOCK_COLOUR);
+      this.setTooltip('The value given to this input. Use it inside the custom block definition.');
+      this.updateShape_();
+    },
+    saveExtraState: function(): CustomBlockArgument {
+      return { ...this.arg_ };
+    },
+    loadExtraState: function(state: CustomBlockArgument) {
+      this.arg_ = { ...state };
+      this.updateShape_();
+    },
+    mutationToDom: function(): Element {
+      const mutation = Blockly.utils.xml.createElement('mutation');
+      mutation.setAttribute('procid', this.arg_.procId);
+      mutation.setAttribute('paramid', this.arg_.paramId);
+      mutation.setAttribute('name', this.arg_.name);
+      mutation.setAttribute('type', this.arg_.type);
+      return mutation;
+    },
+    domToMutation: function(xml: Element) {
+      this.arg_ = {
+        procId: xml.getAttribute('procid') || '',
+        paramId: xml.getAttribute('paramid') || '',
+        name: xml.getAttribute('name') || '',
+        type: (xml.getAttribute('type') || 'number') as CustomBlockParamType,
+      };
+      this.updateShape_();
+    },
+    updateShape_: function() {
+      const arg = this.arg_ as CustomBlockArgument;
+      if (this.getInput('NAME')) this.removeInput('NAME');
+      this.appendDummyInput('NAME')
+        .appendField(arg.name);
+      this.setOutput(true, getCustomBlockParamCheck(arg.type));
+    }
+  };
+
   // Boolean literal block (for boolean variables)
   // Zelos renderer automatically uses hexagonal shape for Boolean output type
   Blockly.Blocks['logic_boolean'] = {
@@ -2076,9 +3556,9 @@ function getAllVariables(): Variable[] {
   return variables;
 }
 
-// Get dropdown options for all variables
+// Get dropdown options for all variables (lists have their own blocks)
 function getVariableDropdownOptions(): Array<[string, string]> {
-  const variables = getAllVariables();
+  const variables = getAllVariables().filter(v => v.type !== 'list');
   if (variables.length === 0) {
     return [['(no variables)', '']];
   }
@@ -2104,6 +3584,19 @@ function getNumericVariableDropdownOptions(): Array<[string, string]> {
   });
 }
 
+// Get dropdown options for list variables only
+function getListDropdownOptions(): Array<[string, string]> {
+  const variables = getAllVariables().filter(v => v.type === 'list');
+  if (variables.length === 0) {
+    return [['(no lists)', '']];
+  }
+
+  return variables.map(v => {
+    const scopePrefix = v.scope === 'local' ? '(local) ' : '';
+    return [`${scopePrefix}${getTypeIcon(v.type)} ${v.name}`, v.id];
+  });
+}
+
 // Get icon for variable type
 function getTypeIcon(type: VariableType): string {
   switch (type) {
@@ -2111,6 +3604,7 @@ function getTypeIcon(type: VariableType): string {
     case 'integer': return '#';
     case 'float': return '#.#';
     case 'boolean': return '◇';
+    case 'list': return '☰';
   }
 }
 
@@ -2183,12 +3677,15 @@ function checkTypeCompatibility(expectedType: VariableType, valueBlock: Blockly.
   switch (expectedType) {
     case 'string':
       return blockType === 'text' ||
+             blockType === 'sensing_answer' ||
              (blockType === 'typed_variable_get' && getVariableById(valueBlock.getFieldValue('VAR'))?.type === 'string');
     case 'integer':
     case 'float':
       return blockType === 'math_number' ||
              blockType === 'math_arithmetic' ||
              blockType === 'math_random_int' ||
+             blockType === 'list_length' ||
+             blockType === 'list_index_of' ||
              (blockType === 'typed_variable_get' && ['integer', 'float'].includes(getVariableById(valueBlock.getFieldValue('VAR'))?.type || ''));
     case 'boolean':
       return blockType === 'logic_boolean' ||
@@ -2199,11 +3696,166 @@ function checkTypeCompatibility(expectedType: VariableType, valueBlock: Blockly.
              blockType === 'sensing_mouse_down' ||
              blockType === 'sensing_touching' ||
              blockType === 'sensing_touching_ground' ||
+             blockType === 'list_contains' ||
              (blockType === 'typed_variable_get' && getVariableById(valueBlock.getFieldValue('VAR'))?.type === 'boolean');
   }
   return true; // Allow if we can't determine
 }
 
+// === Custom Block Helper Functions ===
+
+function cloneCustomBlockSpec(spec: CustomBlockSpec): CustomBlockSpec {
+  return { procId: spec.procId, name: spec.name, params: spec.params.map(p => ({ ...p })) };
+}
+
+function customBlockSpecToMutation(spec: CustomBlockSpec): Element {
+  const mutation = Blockly.utils.xml.createElement('mutation');
+  mutation.setAttribute('procid', spec.procId);
+  mutation.setAttribute('name', spec.name);
+  for (const param of spec.params) {
+    const paramEl = Blockly.utils.xml.createElement('param');
+    paramEl.setAttribute('id', param.id);
+    paramEl.setAttribute('name', param.name);
+    paramEl.setAttribute('type', param.type);
+    mutation.appendChild(paramEl);
+  }
+  return mutation;
+}
+
+function mutationToCustomBlockSpec(xml: Element): CustomBlockSpec {
+  const params = Array.from(xml.getElementsByTagName('param')).map(el => ({
+    id: el.getAttribute('id') || '',
+    name: el.getAttribute('name') || '',
+    type: (el.getAttribute('type') || 'number') as CustomBlockParamType,
+  }));
+  return {
+    procId: xml.getAttribute('procid') || '',
+    name: xml.getAttribute('name') || '',
+    params,
+  };
+}
+
+function getCustomBlockParamCheck(type: CustomBlockParamType): string {
+  switch (type) {
+    case 'number': return 'Number';
+    case 'text': return 'String';
+    case 'boolean': return 'Boolean';
+  }
+}
+
+function getCustomBlockParamShadow(type: CustomBlockParamType): Blockly.serialization.blocks.State | null {
+  switch (type) {
+    case 'number': return { type: 'math_number', fields: { NUM: 0 } };
+    case 'text': return { type: 'text', fields: { TEXT: '' } };
+    case 'boolean': return null;
+  }
+}
+
+// Get the specs of all custom blocks defined in a workspace, sorted by name
+export function getCustomBlockSpecs(workspace: Blockly.Workspace): CustomBlockSpec[] {
+  return workspace.getBlocksByType('custom_block_define', false)
+    .map(block => block.saveExtraState?.() as CustomBlockSpec)
+    .filter(spec => !!spec?.procId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Add a new definition hat to the visible area of the workspace
+export function createCustomBlockDefinition(workspace: Blockly.WorkspaceSvg, spec: CustomBlockSpec) {
+  const metrics = workspace.getMetrics();
+  Blockly.serialization.blocks.append({
+    type: 'custom_block_define',
+    extraState: cloneCustomBlockSpec(spec),
+    x: (metrics.viewLeft || 0) / workspace.scale + 40,
+    y: (metrics.viewTop || 0) / workspace.scale + 40,
+  }, workspace);
+}
+
+// Apply an edited spec to the definition, every call block and every parameter reporter
+export function updateCustomBlockSpec(workspace: Blockly.WorkspaceSvg, spec: CustomBlockSpec) {
+  const fireMutationChange = (block: Blockly.Block, oldMutation: string) => {
+    const newMutation = block.mutationToDom ? Blockly.Xml.domToText(block.mutationToDom()) : '';
+    Blockly.Events.fire(new Blockly.Events.BlockChange(block, 'mutation', null, oldMutation, newMutation));
+  };
+  const getMutationText = (block: Blockly.Block) =>
+    block.mutationToDom ? Blockly.Xml.domToText(block.mutationToDom()) : '';
+
+  Blockly.Events.setGroup(true);
+  try {
+    for (const type of ['custom_block_define', 'custom_block_call']) {
+      for (const block of workspace.getBlocksByType(type, false)) {
+        const state = block.saveExtraState?.() as CustomBlockSpec | undefined;
+        if (state?.procId !== spec.procId) continue;
+        const oldMutation = getMutationText(block);
+        block.loadExtraState?.(cloneCustomBlockSpec(spec));
+        fireMutationChange(block, oldMutation);
+      }
+    }
+
+    for (const block of workspace.getBlocksByType('custom_block_argument', false)) {
+      const state = block.saveExtraState?.() as CustomBlockArgument | undefined;
+      if (state?.procId !== spec.procId) continue;
+      const param = spec.params.find(p => p.id === state.paramId);
+      if (!param) {
+        // The parameter was removed
+        block.dispose(true);
+        continue;
+      }
+      const oldMutation = getMutationText(block);
+      block.loadExtraState?.({ ...state, name: param.name, type: param.type });
+      fireMutationChange(block, oldMutation);
+    }
+  } finally {
+    Blockly.Events.setGroup(false);
+  }
+}
+
+// Callbacks for custom block dialogs - set externally by BlocklyEditor
+let makeCustomBlockCallback: (() => void) | null = null;
+let editCustomBlockCallback: ((spec: CustomBlockSpec) => void) | null = null;
+
+export function setCustomBlockCallbacks(
+  onMake: (() => void) | null,
+  onEdit: ((spec: CustomBlockSpec) => void) | null
+) {
+  makeCustomBlockCallback = onMake;
+  editCustomBlockCallback = onEdit;
+}
+
+// Register the dynamic "My Blocks" category - lists the custom blocks defined in this workspace
+export function registerMyBlocksCategory(workspace: Blockly.WorkspaceSvg) {
+  workspace.registerButtonCallback('MAKE_CUSTOM_BLOCK', () => {
+    if (makeCustomBlockCallback) {
+      makeCustomBlockCallback();
+    }
+  });
+
+  workspace.registerToolboxCategoryCallback('MY_BLOCKS', (ws) => {
+    const contents: Blockly.utils.toolbox.FlyoutItemInfoArray = [
+      { kind: 'button', text: '+ Make a Block', callbackkey: 'MAKE_CUSTOM_BLOCK' },
+    ];
+
+    for (const spec of getCustomBlockSpecs(ws)) {
+      const inputs: Record<string, { shadow: Blockly.serialization.blocks.State }> = {};
+      for (const param of spec.params) {
+        const shadow = getCustomBlockParamShadow(param.type);
+        if (shadow) inputs[`ARG_${param.id}`] = { shadow };
+      }
+      contents.push({ kind: 'block', type: 'custom_block_call', extraState: spec, inputs });
+      for (const param of spec.params) {
+        const argState: CustomBlockArgument = {
+          procId: spec.procId,
+          paramId: param.id,
+          name: param.name,
+          type: param.type,
+        };
+        contents.push({ kind: 'block', type: 'custom_block_argument', extraState: argState });
+      }
+    }
+
+    return contents;
+  });
+}
+
 // Callback for "Add Variable" button - set externally by BlocklyEditor
 let addVariableCallback: (() => void) | null = null;
 
@@ -8,11 +8,11 @@ import { Checkbox } from '@/components/ui/checkbox';
 
 export function DebugPanel() {
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'code' | 'xml' | 'state' | 'runtime' | 'console'>('code');
+  const [activeTab, setActiveTab] = useState<'code' | 'xml' | 'state' | 'runtime' | 'console' | 'errors'>('code');
   const [, setLogRefresh] = useState(0);
 
   const { project } = useProjectStore();
-  const { selectedSceneId, selectedObjectId, isPlaying, showColliderOutlines, setShowColliderOutlines } = useEditorStore();
+  const { selectedSceneId, selectedObjectId, isPlaying, showColliderOutlines, setShowColliderOutlines, scriptErrors, revealScriptError } = useEditorStore();
 
   // Auto-refresh logs when playing
   useEffect(() => {
@@ -92,6 +92,9 @@ export function DebugPanel() {
           <TabButton active={activeTab === 'console'} onClick={() => setActiveTab('console')}>
             Console {userLogs.length > 0 && <span className="ml-1 px-1.5 py-0.5 text-xs bg-purple-600 rounded-full">{userLogs.length}</span>}
           </TabButton>
+          <TabButton active={activeTab === 'errors'} onClick={() => setActiveTab('errors')}>
+            Errors {scriptErrors.length > 0 && <span className="ml-1 px-1.5 py-0.5 text-xs bg-red-600 rounded-full">{scriptErrors.length}</span>}
+          </TabButton>
         </div>
         <button
           onClick={() => setIsOpen(false)}
@@ -212,6 +215,33 @@ export function DebugPanel() {
             )}
           </div>
         )}
+        {activeTab === 'errors' && (
+          <div className="space-y-2">
+            <span className="text-red-400 font-bold">Script Errors</span>
+            {scriptErrors.length === 0 ? (
+              <div className="text-gray-500">No errors. When a block goes wrong during play, it shows up here.</div>
+            ) : (
+              <div className="space-y-2">
+                {scriptErrors.map((error, i) => (
+                  <div key={i} className="p-2 bg-gray-800 rounded font-sans">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-yellow-400 font-bold">{error.objectName}</span>
+                      {error.blockId && (
+                        <button
+                          onClick={() => revealScriptError(error)}
+                          className="px-2 py-1 text-xs bg-gray-700 rounded hover:bg-gray-600"
+                        >
+                          Show Block
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-sm text-red-300 mt-1">{error.message}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
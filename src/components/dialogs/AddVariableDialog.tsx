@@ -9,7 +9,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import type { Variable, VariableType } from '@/types';
+import type { Variable, VariableType, VariableValue } from '@/types';
 
 interface AddVariableDialogProps {
   open: boolean;
@@ -23,14 +23,16 @@ const VARIABLE_TYPES: { value: VariableType; label: string; description: string
   { value: 'integer', label: 'Integer', description: 'Whole numbers (1, 2, 3...)' },
   { value: 'float', label: 'Decimal', description: 'Numbers with decimals (1.5, 3.14...)' },
   { value: 'boolean', label: 'Boolean', description: 'True or False' },
+  { value: 'list', label: 'List', description: 'Many items in order' },
 ];
 
-function getDefaultValue(type: VariableType): number | string | boolean {
+function getDefaultValue(type: VariableType): VariableValue {
   switch (type) {
     case 'string': return '';
     case 'integer': return 0;
     case 'float': return 0.0;
     case 'boolean': return false;
+    case 'list': return [];
   }
 }
 
@@ -0,0 +1,297 @@
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2, Upload, Loader2 } from 'lucide-react';
+import { useProjectStore } from '@/store/projectStore';
+import { processImage, cropImage } from '@/utils/imageProcessor';
+import { getSceneBackdrops } from '@/types';
+import type { BackgroundConfig, Costume, CostumeBounds, Scene } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface BackdropDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scene: Scene;
+}
+
+const BACKDROP_TYPES: { value: BackgroundConfig['type']; label: string }[] = [
+  { value: 'color', label: 'Color' },
+  { value: 'image', label: 'Image' },
+  { value: 'tiled', label: 'Tiled' },
+];
+
+// Backdrops can be bigger than costumes since they cover the whole stage
+const MAX_BACKDROP_SIZE = 2048;
+const DEFAULT_COLOR = '#87CEEB';
+const COSTUME_THUMB_SIZE = 40;
+
+type BoundedCostume = Costume & { bounds: CostumeBounds };
+
+// Zoom the costume's 1024x1024 canvas so its visible part fills the thumbnail
+function costumeThumbnailStyle({ assetId, bounds }: BoundedCostume): React.CSSProperties {
+  const scale = COSTUME_THUMB_SIZE / Math.max(bounds.width, bounds.height);
+  return {
+    backgroundImage: `url(${assetId})`,
+    backgroundPosition: `${-bounds.x * scale}px ${-bounds.y * scale}px`,
+    backgroundSize: `${1024 * scale}px`,
+    backgroundRepeat: 'no-repeat',
+  };
+}
+
+// Grid of the scene's painted costumes to pick a picture from
+export function CostumePicker({ scene, disabled, onPick }: {
+  scene: Scene;
+  disabled?: boolean;
+  onPick: (assetId: string, bounds: CostumeBounds) => void;
+}) {
+  const costumes = scene.objects.flatMap(o => o.costumes).filter((c): c is BoundedCostume => !!c.bounds);
+  if (costumes.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {costumes.map(costume => (
+        <button
+          key={costume.id}
+          onClick={() => onPick(costume.assetId, costume.bounds)}
+          disabled={disabled}
+          className="w-10 h-10 rounded border hover:border-primary bg-muted overflow-hidden"
+          title={costume.name}
+          style={costumeThumbnailStyle(costume)}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Small preview of a backdrop, used in the list and the stage toolbar
+export function BackdropThumbnail({ background, className }: { background: BackgroundConfig | null; className?: string }) {
+  if (!background || background.type === 'color') {
+    return <div className={className} style={{ backgroundColor: background?.value || DEFAULT_COLOR }} />;
+  }
+  return (
+    <div
+      className={className}
+      style={{
+        backgroundImage: background.value ? `url(${background.value})` : undefined,
+        backgroundSize: background.type === 'tiled' ? '50%' : 'cover',
+        backgroundPosition: 'center',
+        backgroundRepeat: background.type === 'tiled' ? 'repeat' : 'no-repeat',
+      }}
+    />
+  );
+}
+
+export function BackdropDialog({ open, onOpenChange, scene }: BackdropDialogProps) {
+  const { updateSceneBackground, addBackdrop, selectBackdrop, renameBackdrop, removeBackdrop } = useProjectStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const backdrops = getSceneBackdrops(scene);
+  const hasBackdropList = !!scene.backdrops && scene.backdrops.length > 0;
+  const current = backdrops.find(b => b.id === scene.backdropId) ?? backdrops[0];
+  const background = scene.background ?? current.background;
+  const scrollFactor = background.scrollFactor ?? { x: 1, y: 1 };
+
+  // Painted costumes from this scene's objects can be used as backdrops too
+  const hasCostumes = scene.objects.some(o => o.costumes.some(c => !!c.bounds));
+
+  const setBackground = (updates: Partial<BackgroundConfig>) => {
+    updateSceneBackground(scene.id, { ...background, ...updates });
+  };
+
+  const setType = (type: BackgroundConfig['type']) => {
+    if (type === background.type) return;
+    if (type === 'color') {
+      setBackground({ type, value: DEFAULT_COLOR });
+    } else {
+      // Image and tiled share the picture; a color has none to keep
+      setBackground({ type, value: background.type === 'color' ? '' : background.value });
+    }
+  };
+
+  const setScrollFactor = (axis: 'x' | 'y', text: string) => {
+    const value = Number(text);
+    if (text.trim() === '' || isNaN(value)) return;
+    setBackground({ scrollFactor: { ...scrollFactor, [axis]: Math.max(0, value) } });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsProcessing(true);
+    try {
+      setBackground({ value: await processImage(file, MAX_BACKDROP_SIZE) });
+    } catch (error) {
+      console.error('Failed to process backdrop image:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleUseCostume = async (assetId: string, bounds: CostumeBounds) => {
+    setIsProcessing(true);
+    try {
+      setBackground({ value: await cropImage(assetId, bounds) });
+    } catch (error) {
+      console.error('Failed to use costume as backdrop:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Backdrops</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-4 py-2">
+          {/* Backdrop list */}
+          <div className="w-32 shrink-0 space-y-2 max-h-[380px] overflow-y-auto">
+            {backdrops.map(backdrop => (
+              <div
+                key={backdrop.id}
+                onClick={() => hasBackdropList && selectBackdrop(scene.id, backdrop.id)}
+                className={cn(
+                  'group relative rounded-lg p-1 cursor-pointer transition-colors',
+                  backdrop.id === current.id ? 'ring-2 ring-primary bg-primary/5' : 'hover:bg-accent'
+                )}
+              >
+                <BackdropThumbnail background={backdrop.background} className="w-full aspect-[4/3] rounded border" />
+                <div className="text-xs truncate mt-1 px-0.5">{backdrop.name}</div>
+                {backdrops.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeBackdrop(scene.id, backdrop.id);
+                    }}
+                    className="absolute top-1.5 right-1.5 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 bg-white/80 text-red-500 hover:text-red-700 hover:bg-red-100"
+                    title="Delete backdrop"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => addBackdrop(scene.id)}>
+              <Plus className="w-3.5 h-3.5" /> Backdrop
+            </Button>
+          </div>
+
+          {/* Current backdrop */}
+          <div className="flex-1 min-w-0 space-y-4">
+            {hasBackdropList && (
+              <div className="space-y-2">
+                <Label htmlFor="backdrop-name">Name</Label>
+                <Input
+                  key={current.id}
+                  id="backdrop-name"
+                  defaultValue={current.name}
+                  onBlur={(e) => renameBackdrop(scene.id, current.id, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="h-8"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-1">
+              {BACKDROP_TYPES.map(t => (
+                <Button
+                  key={t.value}
+                  variant={background.type === t.value ? 'default' : 'outline'}
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => setType(t.value)}
+                >
+                  {t.label}
+                </Button>
+              ))}
+            </div>
+
+            {background.type === 'color' ? (
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={background.value}
+                  onChange={(e) => setBackground({ value: e.target.value })}
+                  className="w-12 h-9 rounded border cursor-pointer"
+                />
+                <span className="text-sm text-muted-foreground font-mono">{background.value}</span>
+              </div>
+            ) : (
+              <>
+                <BackdropThumbnail background={background} className="w-full aspect-[4/3] rounded-lg border bg-muted" />
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isProcessing}
+                  >
+                    {isProcessing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                    Upload image
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </div>
+                {hasCostumes && (
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">Or use a costume painted in this scene</div>
+                    <CostumePicker scene={scene} disabled={isProcessing} onPick={handleUseCostume} />
+                  </div>
+                )}
+
+                {/* Parallax */}
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">
+                    Scroll with camera (1 = moves with the world, 0 = stays still, in between = parallax)
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs">X</Label>
+                    <Input
+                      key={`x-${current.id}`}
+                      type="number"
+                      step={0.1}
+                      min={0}
+                      defaultValue={scrollFactor.x}
+                      onBlur={(e) => setScrollFactor('x', e.target.value)}
+                      className="h-7 w-20 text-xs"
+                    />
+                    <Label className="text-xs">Y</Label>
+                    <Input
+                      key={`y-${current.id}`}
+                      type="number"
+                      step={0.1}
+                      min={0}
+                      defaultValue={scrollFactor.y}
+                      onBlur={(e) => setScrollFactor('y', e.target.value)}
+                      className="h-7 w-20 text-xs"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Trash2 } from 'lucide-react';
+import type { CustomBlockParam, CustomBlockParamType, CustomBlockSpec } from '@/types';
+
+interface CustomBlockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (spec: CustomBlockSpec) => void;
+  initialSpec?: CustomBlockSpec | null; // If provided, edits an existing custom block
+  existingNames: string[]; // Names of other custom blocks on this object
+}
+
+const PARAM_TYPES: { value: CustomBlockParamType; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'text', label: 'Text' },
+  { value: 'boolean', label: 'Boolean' },
+];
+
+export function CustomBlockDialog({ open, onOpenChange, onSave, initialSpec, existingNames }: CustomBlockDialogProps) {
+  const [name, setName] = useState(initialSpec?.name ?? '');
+  const [params, setParams] = useState<CustomBlockParam[]>(initialSpec?.params.map(p => ({ ...p })) ?? []);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = !!initialSpec;
+
+  const addParam = (type: CustomBlockParamType) => {
+    const base = type === 'boolean' ? 'condition' : type;
+    let paramName = base;
+    let n = 2;
+    while (params.some(p => p.name === paramName)) {
+      paramName = `${base}${n++}`;
+    }
+    setParams([...params, { id: crypto.randomUUID(), name: paramName, type }]);
+    setError(null);
+  };
+
+  const updateParam = (id: string, updates: Partial<CustomBlockParam>) => {
+    setParams(params.map(p => (p.id === id ? { ...p, ...updates } : p)));
+    setError(null);
+  };
+
+  const removeParam = (id: string) => {
+    setParams(params.filter(p => p.id !== id));
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Please enter a block name');
+      return;
+    }
+    if (existingNames.includes(trimmedName)) {
+      setError('A custom block with this name already exists');
+      return;
+    }
+
+    const trimmedParams = params.map(p => ({ ...p, name: p.name.trim() }));
+    if (trimmedParams.some(p => !p.name)) {
+      setError('Every input needs a name');
+      return;
+    }
+    if (new Set(trimmedParams.map(p => p.name)).size !== trimmedParams.length) {
+      setError('Input names must be different from each other');
+      return;
+    }
+
+    onSave({
+      procId: initialSpec?.procId ?? crypto.randomUUID(),
+      name: trimmedName,
+      params: trimmedParams,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Block' : 'Make a Block'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Block Name */}
+          <div className="space-y-2">
+            <Label htmlFor="block-name">Block Name</Label>
+            <Input
+              id="block-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="jump"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+            />
+          </div>
+
+          {/* Inputs */}
+          <div className="space-y-2">
+            <Label>Inputs</Label>
+            {params.length === 0 ? (
+              <div className="text-sm text-gray-400 italic py-1">No inputs</div>
+            ) : (
+              <div className="space-y-2">
+                {params.map(param => (
+                  <div key={param.id} className="flex items-center gap-2">
+                    <Input
+                      value={param.name}
+                      onChange={(e) => updateParam(param.id, { name: e.target.value })}
+                      className="h-8 text-sm flex-1"
+                    />
+                    <div className="flex gap-1">
+                      {PARAM_TYPES.map(t => (
+                        <Button
+                          key={t.value}
+                          variant={param.type === t.value ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-8 px-2 text-xs"
+                          onClick={() => updateParam(param.id, { type: t.value })}
+                        >
+                          {t.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeParam(param.id)}
+                      className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-100"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              {PARAM_TYPES.map(t => (
+                <Button key={t.value} variant="outline" size="sm" className="flex-1" onClick={() => addParam(t.value)}>
+                  + {t.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>
+            {isEditing ? 'Save' : 'Make Block'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,10 +7,10 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Trash2, Pencil, Check, X } from 'lucide-react';
+import { Trash2, Pencil, Check, X, ListOrdered, Eye, EyeOff, RotateCcw } from 'lucide-react';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
-import type { Variable, VariableType } from '@/types';
+import type { ListItem, Variable, VariableMonitorMode, VariableType } from '@/types';
 
 interface VariableManagerDialogProps {
   open: boolean;
@@ -24,6 +24,7 @@ function getTypeIcon(type: VariableType): string {
     case 'integer': return '#';
     case 'float': return '#.#';
     case 'boolean': return '◇';
+    case 'list': return '☰';
   }
 }
 
@@ -33,14 +34,36 @@ function getTypeLabel(type: VariableType): string {
     case 'integer': return 'Integer';
     case 'float': return 'Decimal';
     case 'boolean': return 'Boolean';
+    case 'list': return 'List';
   }
 }
 
+// One item per line; numeric lines become numbers so math blocks work on them
+function parseListItems(text: string): ListItem[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => (!isNaN(Number(line)) ? Number(line) : line));
+}
+
+const MONITOR_MODES: { value: VariableMonitorMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'large', label: 'Large' },
+  { value: 'slider', label: 'Slider' },
+];
+
+function formatListItems(value: Variable['defaultValue']): string {
+  return Array.isArray(value) ? value.map(item => String(item)).join('\n') : '';
+}
+
 export function VariableManagerDialog({ open, onOpenChange, onAddNew }: VariableManagerDialogProps) {
-  const { project, removeGlobalVariable, removeLocalVariable, updateGlobalVariable, updateLocalVariable } = useProjectStore();
+  const { project, removeGlobalVariable, removeLocalVariable, updateGlobalVariable, updateLocalVariable, updateVariableMonitor } = useProjectStore();
   const { selectedSceneId, selectedObjectId } = useEditorStore();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
+  const [editingItemsId, setEditingItemsId] = useState<string | null>(null);
+  const [editItems, setEditItems] = useState('');
 
   // Get all variables
   const globalVariables = project?.globalVariables || [];
@@ -49,6 +72,7 @@ export function VariableManagerDialog({ open, onOpenChange, onAddNew }: Variable
   const scene = project?.scenes.find(s => s.id === selectedSceneId);
   const currentObject = scene?.objects.find(o => o.id === selectedObjectId);
   const localVariables = currentObject?.localVariables || [];
+  const monitors = scene?.monitors || [];
 
   const handleDeleteGlobal = (varId: string) => {
     if (confirm('Delete this variable? Any blocks using it will stop working.')) {
@@ -92,6 +116,39 @@ export function VariableManagerDialog({ open, onOpenChange, onAddNew }: Variable
     setEditName('');
   };
 
+  const startEditingItems = (variable: Variable) => {
+    setEditingItemsId(variable.id);
+    setEditItems(formatListItems(variable.defaultValue));
+  };
+
+  const saveItemsGlobal = (varId: string) => {
+    updateGlobalVariable(varId, { defaultValue: parseListItems(editItems) });
+    setEditingItemsId(null);
+    setEditItems('');
+  };
+
+  const saveItemsLocal = (varId: string) => {
+    if (selectedSceneId && selectedObjectId) {
+      updateLocalVariable(selectedSceneId, selectedObjectId, varId, { defaultValue: parseListItems(editItems) });
+    }
+    setEditingItemsId(null);
+    setEditItems('');
+  };
+
+  // Monitors belong to the selected scene; local ones remember which object they read from
+  const updateMonitor = (variable: Variable, updates: Parameters<typeof updateVariableMonitor>[2]) => {
+    if (!selectedSceneId) return;
+    const objectId = variable.scope === 'local' ? selectedObjectId ?? undefined : undefined;
+    updateVariableMonitor(selectedSceneId, variable.id, { objectId, ...updates });
+  };
+
+  const saveSliderRange = (variable: Variable, key: 'sliderMin' | 'sliderMax', text: string) => {
+    const value = Number(text);
+    if (text.trim() !== '' && !isNaN(value)) {
+      updateMonitor(variable, { [key]: value });
+    }
+  };
+
   const handleAddNew = () => {
     onOpenChange(false);
     onAddNew();
@@ -101,71 +158,175 @@ export function VariableManagerDialog({ open, onOpenChange, onAddNew }: Variable
     variable,
     onDelete,
     onSaveRename,
+    onSaveItems,
   }: {
     variable: Variable;
     onDelete: () => void;
     onSaveRename: (id: string) => void;
+    onSaveItems: (id: string) => void;
   }) => {
     const isEditing = editingId === variable.id;
+    const isEditingItems = editingItemsId === variable.id;
+    const itemCount = Array.isArray(variable.defaultValue) ? variable.defaultValue.length : 0;
+    const monitor = monitors.find(m => m.variableId === variable.id);
+    const isShown = !!monitor?.visible;
+    const isNumeric = variable.type === 'integer' || variable.type === 'float';
 
     return (
-      <div className="flex items-center justify-between py-2 px-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 group">
-        <div className="flex items-center gap-3 flex-1 min-w-0">
-          <span className="text-lg flex-shrink-0">{getTypeIcon(variable.type)}</span>
-          {isEditing ? (
-            <div className="flex items-center gap-2 flex-1">
-              <Input
-                value={editName}
-                onChange={(e) => setEditName(e.target.value)}
-                className="h-7 text-sm"
-                autoFocus
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') onSaveRename(variable.id);
-                  if (e.key === 'Escape') cancelEditing();
-                }}
-              />
+      <div>
+        <div className="flex items-center justify-between py-2 px-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 group">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <span className="text-lg flex-shrink-0">{getTypeIcon(variable.type)}</span>
+            {isEditing ? (
+              <div className="flex items-center gap-2 flex-1">
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="h-7 text-sm"
+                  autoFocus
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') onSaveRename(variable.id);
+                    if (e.key === 'Escape') cancelEditing();
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onSaveRename(variable.id)}
+                  className="h-7 w-7 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+                >
+                  <Check className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={cancelEditing}
+                  className="h-7 w-7 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="min-w-0">
+                <div className="font-medium truncate">{variable.name}</div>
+                <div className="text-xs text-gray-500">
+                  {getTypeLabel(variable.type)}
+                  {variable.type === 'list' && ` (${itemCount} ${itemCount === 1 ? 'item' : 'items'})`}
+                </div>
+              </div>
+            )}
+          </div>
+          {!isEditing && variable.type !== 'list' && scene && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateMonitor(variable, { visible: !isShown })}
+              className={`h-7 w-7 p-0 hover:bg-gray-100 ${isShown ? 'text-[#FF8C1A] hover:text-[#E67A0F]' : 'text-gray-400 hover:text-gray-600'}`}
+              title={isShown ? 'Hide on stage' : 'Show on stage'}
+            >
+              {isShown ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </Button>
+          )}
+          {!isEditing && variable.scope === 'global' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateGlobalVariable(variable.id, { resetOnSceneEnter: !variable.resetOnSceneEnter })}
+              className={`h-7 w-7 p-0 hover:bg-gray-100 ${variable.resetOnSceneEnter ? 'text-[#FF8C1A] hover:text-[#E67A0F]' : 'text-gray-400 hover:text-gray-600'}`}
+              title={variable.resetOnSceneEnter ? 'Resets when a scene starts' : 'Keeps its value between scenes'}
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {!isEditing && (
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+              {variable.type === 'list' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditingItems(variable)}
+                  className="h-7 w-7 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                  title="Edit starting items"
+                >
+                  <ListOrdered className="w-3.5 h-3.5" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => onSaveRename(variable.id)}
-                className="h-7 w-7 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
+                onClick={() => startEditing(variable)}
+                className="h-7 w-7 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
               >
-                <Check className="w-4 h-4" />
+                <Pencil className="w-3.5 h-3.5" />
               </Button>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={cancelEditing}
-                className="h-7 w-7 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+                onClick={onDelete}
+                className="h-7 w-7 p-0 text-red-500 hover:text-red-700 hover:bg-red-100"
               >
-                <X className="w-4 h-4" />
+                <Trash2 className="w-3.5 h-3.5" />
               </Button>
             </div>
-          ) : (
-            <div className="min-w-0">
-              <div className="font-medium truncate">{variable.name}</div>
-              <div className="text-xs text-gray-500">{getTypeLabel(variable.type)}</div>
-            </div>
           )}
         </div>
-        {!isEditing && (
-          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => startEditing(variable)}
-              className="h-7 w-7 p-0 text-gray-500 hover:text-gray-700 hover:bg-gray-100"
-            >
-              <Pencil className="w-3.5 h-3.5" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onDelete}
-              className="h-7 w-7 p-0 text-red-500 hover:text-red-700 hover:bg-red-100"
-            >
-              <Trash2 className="w-3.5 h-3.5" />
-            </Button>
+        {isShown && monitor && (
+          <div className="flex items-center gap-1 px-3 pb-2 pl-12">
+            {MONITOR_MODES.filter(m => m.value !== 'slider' || isNumeric).map(m => (
+              <Button
+                key={m.value}
+                variant={monitor.mode === m.value ? 'default' : 'outline'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => updateMonitor(variable, { mode: m.value })}
+              >
+                {m.label}
+              </Button>
+            ))}
+            {monitor.mode === 'slider' && isNumeric && (
+              <>
+                <Input
+                  type="number"
+                  defaultValue={monitor.sliderMin}
+                  onBlur={(e) => saveSliderRange(variable, 'sliderMin', e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="h-6 w-16 text-xs ml-2"
+                  title="Slider minimum"
+                />
+                <span className="text-xs text-gray-500">to</span>
+                <Input
+                  type="number"
+                  defaultValue={monitor.sliderMax}
+                  onBlur={(e) => saveSliderRange(variable, 'sliderMax', e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="h-6 w-16 text-xs"
+                  title="Slider maximum"
+                />
+              </>
+            )}
+          </div>
+        )}
+        {isEditingItems && (
+          <div className="px-3 pb-2 space-y-2">
+            <textarea
+              value={editItems}
+              onChange={(e) => setEditItems(e.target.value)}
+              className="w-full h-24 rounded-md border px-2 py-1 text-sm font-mono bg-transparent"
+              placeholder="One item per line"
+              autoFocus
+            />
+            <div className="flex justify-end gap-1">
+              <Button variant="outline" size="sm" onClick={() => setEditingItemsId(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => onSaveItems(variable.id)}>
+                Save Items
+              </Button>
+            </div>
           </div>
         )}
       </div>
@@ -193,6 +354,7 @@ export function VariableManagerDialog({ open, onOpenChange, onAddNew }: Variable
                     variable={v}
                     onDelete={() => handleDeleteGlobal(v.id)}
                     onSaveRename={saveRenameGlobal}
+                    onSaveItems={saveItemsGlobal}
                   />
                 ))}
               </div>
@@ -215,6 +377,7 @@ export function VariableManagerDialog({ open, onOpenChange, onAddNew }: Variable
                       variable={v}
                       onDelete={() => handleDeleteLocal(v.id)}
                       onSaveRename={saveRenameLocal}
+                      onSaveItems={saveItemsLocal}
                     />
                   ))}
                 </div>
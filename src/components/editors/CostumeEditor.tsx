@@ -1,38 +1,42 @@
 import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import { useProjectStore } from '@/store/projectStore';
-import { useEditorStore, type UndoRedoHandler } from '@/store/editorStore';
+import { useEditorStore } from '@/store/editorStore';
+import { beginHistoryGroup, endHistoryGroup, registerPendingEditFlush, useHistoryStore } from '@/store/historyStore';
 import { CostumeList } from './costume/CostumeList';
 import { CostumeCanvas, type CostumeCanvasHandle } from './costume/CostumeCanvas';
 import { CostumeToolbar, type DrawingTool } from './costume/CostumeToolbar';
+import { AnimationPanel } from './costume/AnimationPanel';
 import { getEffectiveObjectProps, createDefaultColliderConfig } from '@/types';
-import type { Costume, ColliderConfig } from '@/types';
+import type { Costume, CostumeAnimation, ColliderConfig, ColliderVertex } from '@/types';
+import { convexHull } from '@/utils/imageBounds';
+
+function getBoxVertices(collider: ColliderConfig): ColliderVertex[] {
+  const halfW = collider.width / 2;
+  const halfH = collider.height / 2;
+  return [
+    { x: -halfW, y: -halfH },
+    { x: halfW, y: -halfH },
+    { x: halfW, y: halfH },
+    { x: -halfW, y: halfH },
+  ];
+}
 
 export function CostumeEditor() {
   const canvasRef = useRef<CostumeCanvasHandle>(null);
   const { project, updateObject } = useProjectStore();
-  const { selectedSceneId, selectedObjectId, registerCostumeUndo } = useEditorStore();
-
-  // Register undo/redo handler for keyboard shortcuts
-  useEffect(() => {
-    const handler: UndoRedoHandler = {
-      undo: () => canvasRef.current?.undo(),
-      redo: () => canvasRef.current?.redo(),
-    };
-    registerCostumeUndo(handler);
-    return () => registerCostumeUndo(null);
-  }, [registerCostumeUndo]);
+  const { selectedSceneId, selectedObjectId } = useEditorStore();
 
   // Tool state
   const [activeTool, setActiveTool] = useState<DrawingTool>('brush');
   const [brushColor, setBrushColor] = useState('#000000');
   const [brushSize, setBrushSize] = useState(5);
 
-  // History state for UI
-  const [canUndo, setCanUndo] = useState(false);
-  const [canRedo, setCanRedo] = useState(false);
+  // Drawing is undone through the project history, like every other edit
+  const { past, future, undo, redo } = useHistoryStore();
 
   // Track current costume to detect changes
   const currentCostumeIdRef = useRef<string | null>(null);
+  const loadedAssetRef = useRef<string | null>(null); // Image on the canvas, to notice changes from undo
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const justSavedRef = useRef(false);
   const isLoadingRef = useRef(false);
@@ -49,6 +53,7 @@ export function CostumeEditor() {
   const costumes = useMemo(() => effectiveProps?.costumes || [], [effectiveProps]);
   const currentCostumeIndex = effectiveProps?.currentCostumeIndex ?? 0;
   const collider = effectiveProps?.collider ?? null;
+  const animations = useMemo(() => effectiveProps?.animations ?? [], [effectiveProps]);
 
   // Save canvas to current costume - reads fresh data from store at execution time
   const saveToCostume = useCallback(() => {
@@ -80,17 +85,16 @@ export function CostumeEditor() {
     const { dataUrl, bounds } = canvasRef.current.toDataURLWithBounds();
     if (!dataUrl) return;
 
-    justSavedRef.current = true;
+    // The canvas already shows this image, so the load effect leaves it alone
+    loadedAssetRef.current = dataUrl;
     const updatedCostumes = freshCostumes.map((c, i) =>
       i === freshCostumeIndex ? { ...c, assetId: dataUrl, bounds: bounds || undefined } : c
     );
 
+    // Each saved drawing change is its own undo step, even when strokes come quickly
+    beginHistoryGroup();
     updateObject(sceneId, objectId, { costumes: updatedCostumes });
-
-    // Clear the flag after a short delay
-    setTimeout(() => {
-      justSavedRef.current = false;
-    }, 100);
+    endHistoryGroup();
   }, [updateObject]);
 
   // Debounced save - stable function that doesn't need to change
@@ -98,9 +102,20 @@ export function CostumeEditor() {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
     }
-    saveTimeoutRef.current = setTimeout(saveToCostume, 300);
+    saveTimeoutRef.current = setTimeout(() => {
+      saveTimeoutRef.current = null;
+      saveToCostume();
+    }, 300);
   }, [saveToCostume]);
 
+  // Undo right after a stroke undoes that stroke, so save it first
+  useEffect(() => registerPendingEditFlush(() => {
+    if (!saveTimeoutRef.current) return;
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+    saveToCostume();
+  }), [saveToCostume]);
+
   // Load costume when selection changes
   useEffect(() => {
     if (!canvasRef.current || costumes.length === 0) return;
@@ -109,9 +124,10 @@ export function CostumeEditor() {
     const currentCostume = costumes[currentCostumeIndex];
     if (!currentCostume) return;
 
-    // Only reload if costume changed
-    if (currentCostumeIdRef.current !== currentCostume.id) {
+    // Only reload if the costume or its image changed
+    if (currentCostumeIdRef.current !== currentCostume.id || loadedAssetRef.current !== currentCostume.assetId) {
       currentCostumeIdRef.current = currentCostume.id;
+      loadedAssetRef.current = currentCostume.assetId;
       isLoadingRef.current = true;
       canvasRef.current.loadFromDataURL(currentCostume.assetId).then(() => {
         isLoadingRef.current = false;
@@ -128,15 +144,6 @@ export function CostumeEditor() {
     };
   }, []);
 
-  // Handle history changes
-  const handleHistoryChange = useCallback(() => {
-    if (canvasRef.current) {
-      setCanUndo(canvasRef.current.canUndo());
-      setCanRedo(canvasRef.current.canRedo());
-    }
-    debouncedSave();
-  }, [debouncedSave]);
-
   // Costume management handlers
   const handleSelectCostume = useCallback((index: number) => {
     if (!selectedSceneId || !selectedObjectId) return;
@@ -220,6 +227,14 @@ export function CostumeEditor() {
 
     if (type === 'none') {
       updateObject(selectedSceneId, selectedObjectId, { collider: null });
+    } else if (type === 'polygon' && !collider?.vertices) {
+      // Start from the drawing's outline, or the old collider's box if nothing is drawn yet
+      const base = collider ?? createDefaultColliderConfig(type);
+      const outline = canvasRef.current?.traceCollider() ?? null;
+      const newCollider: ColliderConfig = outline
+        ? { ...base, type, offsetX: 0, offsetY: 0, vertices: outline }
+        : { ...base, type, vertices: getBoxVertices(base) };
+      updateObject(selectedSceneId, selectedObjectId, { collider: newCollider });
     } else {
       // Create default collider config with the new type, preserving existing offset/dimensions if possible
       const newCollider: ColliderConfig = collider
@@ -233,6 +248,22 @@ export function CostumeEditor() {
     }, 100);
   }, [selectedSceneId, selectedObjectId, collider, updateObject]);
 
+  // Replace the polygon with the drawing's current outline, or its convex hull
+  const handleTraceCollider = useCallback((convex: boolean) => {
+    if (!selectedSceneId || !selectedObjectId || collider?.type !== 'polygon') return;
+
+    const outline = canvasRef.current?.traceCollider();
+    if (!outline) return;
+
+    justSavedRef.current = true;
+    updateObject(selectedSceneId, selectedObjectId, {
+      collider: { ...collider, offsetX: 0, offsetY: 0, vertices: convex ? convexHull(outline) : outline },
+    });
+    setTimeout(() => {
+      justSavedRef.current = false;
+    }, 100);
+  }, [selectedSceneId, selectedObjectId, collider, updateObject]);
+
   // Collider config change handler (for moving/resizing)
   const handleColliderChange = useCallback((newCollider: ColliderConfig) => {
     if (!selectedSceneId || !selectedObjectId) return;
@@ -244,14 +275,16 @@ export function CostumeEditor() {
     }, 100);
   }, [selectedSceneId, selectedObjectId, updateObject]);
 
-  // Undo/Redo handlers
-  const handleUndo = useCallback(() => {
-    canvasRef.current?.undo();
-  }, []);
+  // Animations don't change the drawing, so don't reload the canvas
+  const handleAnimationsChange = useCallback((updatedAnimations: CostumeAnimation[]) => {
+    if (!selectedSceneId || !selectedObjectId) return;
 
-  const handleRedo = useCallback(() => {
-    canvasRef.current?.redo();
-  }, []);
+    justSavedRef.current = true;
+    updateObject(selectedSceneId, selectedObjectId, { animations: updatedAnimations });
+    setTimeout(() => {
+      justSavedRef.current = false;
+    }, 100);
+  }, [selectedSceneId, selectedObjectId, updateObject]);
 
   if (!object) {
     return (
@@ -268,15 +301,16 @@ export function CostumeEditor() {
         activeTool={activeTool}
         brushColor={brushColor}
         brushSize={brushSize}
-        canUndo={canUndo}
-        canRedo={canRedo}
+        canUndo={past.length > 0}
+        canRedo={future.length > 0}
         colliderType={collider?.type ?? 'none'}
         onToolChange={setActiveTool}
         onColorChange={setBrushColor}
         onBrushSizeChange={setBrushSize}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
+        onUndo={undo}
+        onRedo={redo}
         onColliderTypeChange={handleColliderTypeChange}
+        onTraceCollider={handleTraceCollider}
       />
 
       {/* Main content */}
@@ -291,16 +325,23 @@ export function CostumeEditor() {
           onRenameCostume={handleRenameCostume}
         />
 
-        {/* Right: Canvas */}
+        {/* Center: Canvas */}
         <CostumeCanvas
           ref={canvasRef}
           activeTool={activeTool}
           brushColor={brushColor}
           brushSize={brushSize}
           collider={collider}
-          onHistoryChange={handleHistoryChange}
+          onDrawingChange={debouncedSave}
           onColliderChange={handleColliderChange}
         />
+
+        {/* Far right: Animations */}
+        <AnimationPanel
+          costumes={costumes}
+          animations={animations}
+          onChange={handleAnimationsChange}
+        />
       </div>
     </div>
   );
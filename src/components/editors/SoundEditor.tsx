@@ -128,6 +128,18 @@ export function SoundEditor() {
     [selectedSceneId, selectedObjectId, selectedSound, sounds, validSelectedIndex, updateObject]
   );
 
+  // Effects replace the audio (and sometimes the trim) of the selected sound
+  const handleSoundChange = useCallback(
+    (updates: Partial<Sound>) => {
+      if (!selectedSceneId || !selectedObjectId || !selectedSound) return;
+      const updatedSounds = sounds.map((s, i) =>
+        i === validSelectedIndex ? { ...s, ...updates } : s
+      );
+      updateObject(selectedSceneId, selectedObjectId, { sounds: updatedSounds });
+    },
+    [selectedSceneId, selectedObjectId, selectedSound, sounds, validSelectedIndex, updateObject]
+  );
+
   if (!object) {
     return (
       <div className="flex-1 flex items-center justify-center text-muted-foreground">
@@ -152,7 +164,7 @@ export function SoundEditor() {
       />
 
       {/* Right: Waveform Editor */}
-      <WaveformEditor sound={selectedSound} onTrimChange={handleTrimChange} />
+      <WaveformEditor sound={selectedSound} onTrimChange={handleTrimChange} onSoundChange={handleSoundChange} />
     </div>
   );
 }
@@ -0,0 +1,333 @@
+import { useEffect, useState, memo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Plus, X } from 'lucide-react';
+import type { Costume, CostumeAnimation, CostumeBounds } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface AnimationPanelProps {
+  costumes: Costume[];
+  animations: CostumeAnimation[];
+  onChange: (animations: CostumeAnimation[]) => void;
+}
+
+const PREVIEW_SIZE = 96;
+const COSTUME_CANVAS_SIZE = 1024;
+const DEFAULT_FPS = 8;
+
+// One preview frame: a region of a costume image
+interface PreviewFrame {
+  assetId: string;
+  region: CostumeBounds;
+}
+
+const FULL_CANVAS: CostumeBounds = { x: 0, y: 0, width: COSTUME_CANVAS_SIZE, height: COSTUME_CANVAS_SIZE };
+
+// Same frames the runtime plays - costume ranges share one region so the preview doesn't jump
+function getPreviewFrames(animation: CostumeAnimation, costumes: Costume[]): PreviewFrame[] {
+  if (animation.source === 'sheet') {
+    const costume = costumes.find(c => c.id === animation.sheetCostumeId);
+    const frameWidth = Math.floor(animation.frameWidth ?? 0);
+    const frameHeight = Math.floor(animation.frameHeight ?? 0);
+    if (!costume || frameWidth < 1 || frameHeight < 1) return [];
+
+    const area = costume.bounds ?? FULL_CANVAS;
+    const columns = Math.floor(area.width / frameWidth);
+    const rows = Math.floor(area.height / frameHeight);
+    const count = Math.min(columns * rows, animation.frameCount || columns * rows);
+    return Array.from({ length: count }, (_, i) => ({
+      assetId: costume.assetId,
+      region: {
+        x: area.x + (i % columns) * frameWidth,
+        y: area.y + Math.floor(i / columns) * frameHeight,
+        width: frameWidth,
+        height: frameHeight,
+      },
+    }));
+  }
+
+  const first = costumes.findIndex(c => c.id === animation.firstCostumeId);
+  const last = costumes.findIndex(c => c.id === animation.lastCostumeId);
+  if (first === -1 || last === -1) return [];
+  const range = first <= last ? costumes.slice(first, last + 1) : costumes.slice(last, first + 1).reverse();
+
+  const bounded = range.filter(c => c.bounds);
+  let region = FULL_CANVAS;
+  if (bounded.length > 0) {
+    const left = Math.min(...bounded.map(c => c.bounds!.x));
+    const top = Math.min(...bounded.map(c => c.bounds!.y));
+    const right = Math.max(...bounded.map(c => c.bounds!.x + c.bounds!.width));
+    const bottom = Math.max(...bounded.map(c => c.bounds!.y + c.bounds!.height));
+    region = { x: left, y: top, width: right - left, height: bottom - top };
+  }
+  return range.map(c => ({ assetId: c.assetId, region }));
+}
+
+// Play the frames in a loop the way the runtime would (ping-pong included)
+function AnimationPreview({ animation, costumes }: { animation: CostumeAnimation; costumes: Costume[] }) {
+  const frames = getPreviewFrames(animation, costumes);
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    if (frames.length < 2) return;
+    const interval = setInterval(() => setStep(s => s + 1), 1000 / Math.max(0.1, animation.fps || 1));
+    return () => clearInterval(interval);
+  }, [frames.length, animation.fps, animation.pingPong]);
+
+  if (frames.length === 0) {
+    return <div className="text-xs text-muted-foreground">No frames to play</div>;
+  }
+
+  const cycle = animation.pingPong && frames.length > 1 ? frames.length * 2 - 2 : frames.length;
+  const position = step % cycle;
+  const frame = frames[position < frames.length ? position : cycle - position];
+  const scale = PREVIEW_SIZE / Math.max(frame.region.width, frame.region.height);
+
+  return (
+    <div
+      className="rounded border bg-muted mx-auto"
+      style={{
+        width: PREVIEW_SIZE,
+        height: PREVIEW_SIZE,
+        backgroundImage: `url(${frame.assetId})`,
+        backgroundPosition: `${(PREVIEW_SIZE - frame.region.width * scale) / 2 - frame.region.x * scale}px ${(PREVIEW_SIZE - frame.region.height * scale) / 2 - frame.region.y * scale}px`,
+        backgroundSize: `${COSTUME_CANVAS_SIZE * scale}px`,
+        backgroundRepeat: 'no-repeat',
+        imageRendering: 'pixelated',
+      }}
+      title={`Frame ${frames.indexOf(frame) + 1} of ${frames.length}`}
+    />
+  );
+}
+
+/**
+ * Named animations for the costume editor. Each plays a range of costumes or one costume cut
+ * into sprite sheet frames, and can be started from code with "play animation".
+ */
+export const AnimationPanel = memo(({ costumes, animations, onChange }: AnimationPanelProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = animations.find(a => a.id === selectedId) ?? animations[0] ?? null;
+
+  const updateSelected = (updates: Partial<CostumeAnimation>) => {
+    if (!selected) return;
+    onChange(animations.map(a => (a.id === selected.id ? { ...a, ...updates } : a)));
+  };
+
+  const handleAdd = () => {
+    const animation: CostumeAnimation = {
+      id: crypto.randomUUID(),
+      name: `animation${animations.length + 1}`,
+      source: 'costumes',
+      firstCostumeId: costumes[0]?.id,
+      lastCostumeId: costumes[costumes.length - 1]?.id,
+      fps: DEFAULT_FPS,
+      loop: true,
+      pingPong: false,
+    };
+    onChange([...animations, animation]);
+    setSelectedId(animation.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(animations.filter(a => a.id !== id));
+  };
+
+  const setNumber = (key: 'fps' | 'frameWidth' | 'frameHeight' | 'frameCount', text: string, min: number) => {
+    const value = Number(text);
+    if (text.trim() === '' || isNaN(value)) return;
+    updateSelected({ [key]: Math.max(min, value) });
+  };
+
+  const setSource = (source: CostumeAnimation['source']) => {
+    if (!selected || source === selected.source) return;
+    if (source === 'sheet') {
+      const sheet = costumes.find(c => c.id === selected.firstCostumeId) ?? costumes[0];
+      updateSelected({ source, sheetCostumeId: sheet?.id, frameWidth: selected.frameWidth ?? 64, frameHeight: selected.frameHeight ?? 64 });
+    } else {
+      updateSelected({ source });
+    }
+  };
+
+  const costumeSelect = (value: string | undefined, onSelect: (id: string) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onSelect(e.target.value)}
+      className="flex-1 min-w-0 h-7 rounded border bg-transparent text-xs outline-none text-foreground cursor-pointer"
+    >
+      {costumes.map((c, i) => (
+        <option key={c.id} value={c.id}>{i + 1}. {c.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full w-56 border-l bg-muted/30">
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-2 border-b">
+        <span className="text-xs font-medium">Animations</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          onClick={handleAdd}
+          title="New animation"
+          disabled={costumes.length === 0}
+        >
+          <Plus className="size-3" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-3">
+        {animations.length === 0 ? (
+          <div className="text-xs text-muted-foreground text-center px-2 py-4">
+            Click + to animate a range of costumes or a sprite sheet
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {animations.map(animation => (
+              <div
+                key={animation.id}
+                onClick={() => setSelectedId(animation.id)}
+                className={cn(
+                  'group flex items-center justify-between rounded px-2 py-1 text-xs cursor-pointer',
+                  animation.id === selected?.id ? 'bg-primary/10 ring-1 ring-primary' : 'hover:bg-accent'
+                )}
+              >
+                <span className="truncate">{animation.name}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(animation.id);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  title="Delete animation"
+                >
+                  <X className="size-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-3 border-t pt-3">
+            <Input
+              key={selected.id}
+              defaultValue={selected.name}
+              onBlur={(e) => updateSelected({ name: e.target.value.trim() || selected.name })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              className="h-7 text-xs"
+            />
+
+            <div className="flex gap-1">
+              <Button
+                variant={selected.source === 'costumes' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setSource('costumes')}
+              >
+                Costumes
+              </Button>
+              <Button
+                variant={selected.source === 'sheet' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-7 text-xs"
+                onClick={() => setSource('sheet')}
+              >
+                Sprite sheet
+              </Button>
+            </div>
+
+            {selected.source === 'costumes' ? (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs w-8">From</Label>
+                  {costumeSelect(selected.firstCostumeId, id => updateSelected({ firstCostumeId: id }))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs w-8">To</Label>
+                  {costumeSelect(selected.lastCostumeId, id => updateSelected({ lastCostumeId: id }))}
+                </div>
+              </div>
+            ) : (
+              <div key={selected.id} className="space-y-1">
+                {costumeSelect(selected.sheetCostumeId, id => updateSelected({ sheetCostumeId: id }))}
+                <div className="flex items-center gap-1">
+                  <Label className="text-xs">Frame</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    defaultValue={selected.frameWidth}
+                    onBlur={(e) => setNumber('frameWidth', e.target.value, 1)}
+                    className="h-7 w-14 text-xs px-1"
+                    title="Frame width"
+                  />
+                  <span className="text-xs text-muted-foreground">x</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    defaultValue={selected.frameHeight}
+                    onBlur={(e) => setNumber('frameHeight', e.target.value, 1)}
+                    className="h-7 w-14 text-xs px-1"
+                    title="Frame height"
+                  />
+                </div>
+                <div className="flex items-center gap-1">
+                  <Label className="text-xs">Frames</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    defaultValue={selected.frameCount ?? 0}
+                    onBlur={(e) => setNumber('frameCount', e.target.value, 0)}
+                    className="h-7 w-14 text-xs px-1"
+                    title="0 uses every whole frame on the sheet"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-1">
+              <Label className="text-xs">Frames per second</Label>
+              <Input
+                key={`fps-${selected.id}`}
+                type="number"
+                min={0.1}
+                step={1}
+                defaultValue={selected.fps}
+                onBlur={(e) => setNumber('fps', e.target.value, 0.1)}
+                className="h-7 w-14 text-xs px-1"
+              />
+            </div>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="animation-loop"
+                  checked={selected.loop}
+                  onCheckedChange={(checked) => updateSelected({ loop: !!checked })}
+                />
+                <Label htmlFor="animation-loop" className="text-xs cursor-pointer">Loop</Label>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="animation-ping-pong"
+                  checked={selected.pingPong}
+                  onCheckedChange={(checked) => updateSelected({ pingPong: !!checked })}
+                />
+                <Label htmlFor="animation-ping-pong" className="text-xs cursor-pointer">Ping-pong</Label>
+              </div>
+            </div>
+
+            <AnimationPreview key={selected.id} animation={selected} costumes={costumes} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+AnimationPanel.displayName = 'AnimationPanel';
@@ -1,8 +1,8 @@
 import { useEffect, useRef, useCallback, forwardRef, useImperativeHandle, useState } from 'react';
 import { floodFill, hexToRgb } from '@/utils/floodFill';
-import { calculateBoundsFromCanvas } from '@/utils/imageBounds';
+import { calculateBoundsFromCanvas, traceOutlineFromImageData } from '@/utils/imageBounds';
 import type { DrawingTool } from './CostumeToolbar';
-import type { CostumeBounds, ColliderConfig } from '@/types';
+import type { CostumeBounds, ColliderConfig, ColliderVertex } from '@/types';
 
 const CANVAS_SIZE = 1024;
 const BASE_DISPLAY_SIZE = 480;
@@ -10,6 +10,20 @@ const MIN_ZOOM = 0.25;
 const MAX_ZOOM = 4;
 const ZOOM_STEP = 0.1;
 const HANDLE_SIZE = 16;
+const MIN_POLYGON_VERTICES = 3;
+
+// Even-odd test, so concave outlines work too
+function isInsidePolygon(x: number, y: number, vertices: ColliderVertex[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
 const ROTATION_HANDLE_OFFSET = 40;
 
 export interface CostumeCanvasHandle {
@@ -17,10 +31,8 @@ export interface CostumeCanvasHandle {
   toDataURLWithBounds: () => { dataUrl: string; bounds: CostumeBounds | null };
   loadFromDataURL: (dataUrl: string) => Promise<void>;
   clear: () => void;
-  undo: () => void;
-  redo: () => void;
-  canUndo: () => boolean;
-  canRedo: () => boolean;
+  // Outline of the drawing for a polygon collider, relative to the canvas center
+  traceCollider: () => ColliderVertex[] | null;
 }
 
 interface CostumeCanvasProps {
@@ -28,7 +40,7 @@ interface CostumeCanvasProps {
   brushColor: string;
   brushSize: number;
   collider: ColliderConfig | null;
-  onHistoryChange?: () => void;
+  onDrawingChange?: () => void; // After every finished edit - undo is handled by the project history
   onColliderChange?: (collider: ColliderConfig) => void;
 }
 
@@ -37,7 +49,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
   brushColor,
   brushSize,
   collider,
-  onHistoryChange,
+  onDrawingChange,
   onColliderChange,
 }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -72,19 +84,15 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
   const dragStartRef = useRef<{ x: number; y: number; selection: typeof floatingSelectionRef.current } | null>(null);
 
   // Collider drag state
-  const colliderDragModeRef = useRef<'none' | 'move' | 'resize-tl' | 'resize-tr' | 'resize-bl' | 'resize-br' | 'resize-l' | 'resize-r' | 'resize-t' | 'resize-b'>('none');
-  const colliderDragStartRef = useRef<{ x: number; y: number; collider: ColliderConfig } | null>(null);
+  const colliderDragModeRef = useRef<'none' | 'move' | 'vertex' | 'resize-tl' | 'resize-tr' | 'resize-bl' | 'resize-br' | 'resize-l' | 'resize-r' | 'resize-t' | 'resize-b'>('none');
+  const colliderDragStartRef = useRef<{ x: number; y: number; collider: ColliderConfig; vertexIndex?: number } | null>(null);
 
   // Shape drawing state
   const shapeStartRef = useRef<{ x: number; y: number } | null>(null);
 
-  // History
-  const historyRef = useRef<ImageData[]>([]);
-  const historyIndexRef = useRef(-1);
-
   // Stable callback refs
-  const onHistoryChangeRef = useRef(onHistoryChange);
-  onHistoryChangeRef.current = onHistoryChange;
+  const onDrawingChangeRef = useRef(onDrawingChange);
+  onDrawingChangeRef.current = onDrawingChange;
 
   const onColliderChangeRef = useRef(onColliderChange);
   onColliderChangeRef.current = onColliderChange;
@@ -150,6 +158,14 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
       colliderCtx.lineTo(centerX - halfW, centerY - halfH + radius);
       colliderCtx.arc(centerX - halfW + radius, centerY - halfH + radius, radius, Math.PI, Math.PI * 1.5);
       colliderCtx.stroke();
+    } else if (coll.type === 'polygon' && coll.vertices && coll.vertices.length > 0) {
+      colliderCtx.beginPath();
+      coll.vertices.forEach((v, i) => {
+        if (i === 0) colliderCtx.moveTo(centerX + v.x, centerY + v.y);
+        else colliderCtx.lineTo(centerX + v.x, centerY + v.y);
+      });
+      colliderCtx.closePath();
+      colliderCtx.stroke();
     }
 
     colliderCtx.setLineDash([]);
@@ -184,6 +200,22 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
           colliderCtx.fillRect(edge.x - HANDLE_SIZE / 2, edge.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
           colliderCtx.strokeRect(edge.x - HANDLE_SIZE / 2, edge.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
         });
+      } else if (coll.type === 'polygon' && coll.vertices) {
+        // Vertex handles, plus smaller midpoint handles that add a vertex when dragged
+        const vertices = coll.vertices;
+        vertices.forEach((v, i) => {
+          const next = vertices[(i + 1) % vertices.length];
+          const midX = centerX + (v.x + next.x) / 2;
+          const midY = centerY + (v.y + next.y) / 2;
+          colliderCtx.beginPath();
+          colliderCtx.arc(midX, midY, HANDLE_SIZE / 4, 0, Math.PI * 2);
+          colliderCtx.fill();
+          colliderCtx.stroke();
+        });
+        vertices.forEach(v => {
+          colliderCtx.fillRect(centerX + v.x - HANDLE_SIZE / 2, centerY + v.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+          colliderCtx.strokeRect(centerX + v.x - HANDLE_SIZE / 2, centerY + v.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        });
       } else if (coll.type === 'circle') {
         // 4 edge handles on the circle
         const edges = [
@@ -209,25 +241,9 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
     }
   }, []);
 
-  // Save current state to history
-  const saveHistory = useCallback(() => {
-    const ctx = ctxRef.current;
-    if (!ctx) return;
-
-    const imageData = ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-
-    // Remove any redo states
-    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
-    historyRef.current.push(imageData);
-    historyIndexRef.current = historyRef.current.length - 1;
-
-    // Limit history
-    if (historyRef.current.length > 50) {
-      historyRef.current.shift();
-      historyIndexRef.current--;
-    }
-
-    onHistoryChangeRef.current?.();
+  // Tell the editor an edit is finished so it can save the drawing
+  const notifyChange = useCallback(() => {
+    onDrawingChangeRef.current?.();
   }, []);
 
   // Commit floating selection back to canvas
@@ -266,8 +282,8 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
     dragModeRef.current = 'none';
     dragStartRef.current = null;
 
-    saveHistory();
-  }, [saveHistory]);
+    notifyChange();
+  }, [notifyChange]);
 
   // Draw floating selection on overlay with transform handles
   const drawFloatingSelection = useCallback(() => {
@@ -364,12 +380,6 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
 
     // Initialize with transparent background
     ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-
-    // Save initial state
-    const imageData = ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-    historyRef.current = [imageData];
-    historyIndexRef.current = 0;
-    onHistoryChangeRef.current?.();
   }, []);
 
   // Handle mouse events
@@ -493,6 +503,48 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         const centerX = CANVAS_SIZE / 2 + coll.offsetX;
         const centerY = CANVAS_SIZE / 2 + coll.offsetY;
 
+        if (coll.type === 'polygon') {
+          const vertices = coll.vertices ?? [];
+          const vertexIndex = vertices.findIndex(v => isNearPoint(pos.x, pos.y, centerX + v.x, centerY + v.y));
+          if (vertexIndex >= 0) {
+            // Double-click removes a vertex, keeping enough for a shape
+            if (e.detail >= 2) {
+              if (vertices.length > MIN_POLYGON_VERTICES) {
+                onColliderChangeRef.current?.({ ...coll, vertices: vertices.filter((_, i) => i !== vertexIndex) });
+              }
+              return;
+            }
+            colliderDragModeRef.current = 'vertex';
+            colliderDragStartRef.current = { x: pos.x, y: pos.y, collider: { ...coll }, vertexIndex };
+            return;
+          }
+
+          const edgeIndex = vertices.findIndex((v, i) => {
+            const next = vertices[(i + 1) % vertices.length];
+            return isNearPoint(pos.x, pos.y, centerX + (v.x + next.x) / 2, centerY + (v.y + next.y) / 2, HANDLE_SIZE / 2);
+          });
+          if (edgeIndex >= 0) {
+            const v = vertices[edgeIndex];
+            const next = vertices[(edgeIndex + 1) % vertices.length];
+            const withVertex = [
+              ...vertices.slice(0, edgeIndex + 1),
+              { x: (v.x + next.x) / 2, y: (v.y + next.y) / 2 },
+              ...vertices.slice(edgeIndex + 1),
+            ];
+            const newCollider = { ...coll, vertices: withVertex };
+            onColliderChangeRef.current?.(newCollider);
+            colliderDragModeRef.current = 'vertex';
+            colliderDragStartRef.current = { x: pos.x, y: pos.y, collider: newCollider, vertexIndex: edgeIndex + 1 };
+            return;
+          }
+
+          if (isInsidePolygon(pos.x - centerX, pos.y - centerY, vertices)) {
+            colliderDragModeRef.current = 'move';
+            colliderDragStartRef.current = { x: pos.x, y: pos.y, collider: { ...coll } };
+          }
+          return;
+        }
+
         // Get collider handle positions based on type
         const getColliderHandles = () => {
           if (coll.type === 'circle') {
@@ -590,7 +642,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         const fillColor = hexToRgb(brushColor);
         floodFill(imageData, Math.floor(pos.x), Math.floor(pos.y), fillColor, 32);
         ctx.putImageData(imageData, 0, 0);
-        saveHistory();
+        notifyChange();
         return;
       }
 
@@ -707,6 +759,10 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
           if (dragMode === 'move') {
             newCollider.offsetX = origColl.offsetX + dx;
             newCollider.offsetY = origColl.offsetY + dy;
+          } else if (dragMode === 'vertex') {
+            newCollider.vertices = origColl.vertices?.map((v, i) =>
+              i === dragStart.vertexIndex ? { x: v.x + dx, y: v.y + dy } : v
+            );
           } else if (origColl.type === 'circle') {
             // For circle, resize handles adjust radius
             const centerX = CANVAS_SIZE / 2 + origColl.offsetX;
@@ -844,9 +900,6 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
           overlayCtx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
 
           if (w >= 2 && h >= 2) {
-            // Save history BEFORE cutting - so undo restores the original state
-            saveHistory();
-
             // Cut pixels from main canvas
             const imageData = ctx.getImageData(x, y, w, h);
 
@@ -866,7 +919,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
             };
 
             drawFloatingSelection();
-            // Don't save history here - will save when committed
+            // Saved when the selection is committed
           }
           return;
         }
@@ -914,7 +967,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         }
 
         shapeStartRef.current = null;
-        saveHistory();
+        notifyChange();
         return;
       }
 
@@ -923,7 +976,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         isDrawingRef.current = false;
         lastPosRef.current = null;
         ctx.globalCompositeOperation = 'source-over';
-        saveHistory();
+        notifyChange();
       }
     };
 
@@ -932,7 +985,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         isDrawingRef.current = false;
         lastPosRef.current = null;
         ctx.globalCompositeOperation = 'source-over';
-        saveHistory();
+        notifyChange();
       }
     };
 
@@ -971,7 +1024,7 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         colliderCanvas.removeEventListener('mouseleave', handleMouseLeave);
       }
     };
-  }, [activeTool, brushColor, brushSize, getMousePos, saveHistory, commitSelection, drawFloatingSelection, drawCollider]);
+  }, [activeTool, brushColor, brushSize, getMousePos, notifyChange, commitSelection, drawFloatingSelection, drawCollider]);
 
   // Commit selection when tool changes away from select
   useEffect(() => {
@@ -1146,10 +1199,6 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
         }
       }
 
-      // Reset history
-      historyRef.current = [];
-      historyIndexRef.current = -1;
-      saveHistory();
     },
 
     clear: () => {
@@ -1160,32 +1209,17 @@ export const CostumeCanvas = forwardRef<CostumeCanvasHandle, CostumeCanvasProps>
       floatingSelectionRef.current = null;
       overlayCtx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
       ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
-      saveHistory();
-    },
-
-    undo: () => {
-      const ctx = ctxRef.current;
-      if (!ctx || historyIndexRef.current <= 0) return;
-
-      historyIndexRef.current--;
-      const imageData = historyRef.current[historyIndexRef.current];
-      ctx.putImageData(imageData, 0, 0);
-      onHistoryChangeRef.current?.();
+      notifyChange();
     },
 
-    redo: () => {
+    traceCollider: () => {
       const ctx = ctxRef.current;
-      if (!ctx || historyIndexRef.current >= historyRef.current.length - 1) return;
+      if (!ctx) return null;
 
-      historyIndexRef.current++;
-      const imageData = historyRef.current[historyIndexRef.current];
-      ctx.putImageData(imageData, 0, 0);
-      onHistoryChangeRef.current?.();
+      const outline = traceOutlineFromImageData(ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE));
+      return outline?.map(v => ({ x: v.x - CANVAS_SIZE / 2, y: v.y - CANVAS_SIZE / 2 })) ?? null;
     },
-
-    canUndo: () => historyIndexRef.current > 0,
-    canRedo: () => historyIndexRef.current < historyRef.current.length - 1,
-  }), [saveHistory, commitSelection]);
+  }), [notifyChange, commitSelection]);
 
   // Checkerboard pattern for transparency visualization
   const checkerboardStyle = {
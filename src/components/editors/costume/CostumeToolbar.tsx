@@ -20,6 +20,8 @@ import {
   Move,
   ChevronDown,
   Check,
+  ScanLine,
+  Hexagon,
 } from 'lucide-react';
 import Color from 'color';
 import type { ColliderConfig } from '@/types';
@@ -62,6 +64,7 @@ interface CostumeToolbarProps {
   onUndo: () => void;
   onRedo: () => void;
   onColliderTypeChange: (type: ColliderConfig['type']) => void;
+  onTraceCollider: (convex: boolean) => void;
 }
 
 const tools: { tool: DrawingTool; icon: React.ReactNode; label: string }[] = [
@@ -79,6 +82,7 @@ const colliderTypes: { value: ColliderConfig['type']; label: string }[] = [
   { value: 'box', label: 'Box' },
   { value: 'circle', label: 'Circle' },
   { value: 'capsule', label: 'Capsule' },
+  { value: 'polygon', label: 'Polygon' },
 ];
 
 export const CostumeToolbar = memo(({
@@ -94,6 +98,7 @@ export const CostumeToolbar = memo(({
   onUndo,
   onRedo,
   onColliderTypeChange,
+  onTraceCollider,
 }: CostumeToolbarProps) => {
   const [showColorPicker, setShowColorPicker] = useState(false);
   const colorPickerRef = useRef<HTMLDivElement>(null);
@@ -237,13 +242,41 @@ export const CostumeToolbar = memo(({
             size="sm"
             className="h-8 px-2 gap-1"
             onClick={() => onToolChange('collider')}
-            title="Edit Collider"
+            title={colliderType === 'polygon'
+              ? 'Edit Collider - drag points to move them, drag the dots between them to add points, double-click a point to remove it'
+              : 'Edit Collider'}
             style={activeTool === 'collider' ? { backgroundColor: '#22c55e', borderColor: '#22c55e' } : { borderColor: '#22c55e', color: '#22c55e' }}
           >
             <Move className="size-3" />
             <span className="text-xs">Edit</span>
           </Button>
         )}
+
+        {/* Polygon tracing */}
+        {colliderType === 'polygon' && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 px-2 gap-1"
+              onClick={() => onTraceCollider(false)}
+              title="Trace the collider around the drawing's outline"
+            >
+              <ScanLine className="size-3" />
+              <span className="text-xs">Trace</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 px-2 gap-1"
+              onClick={() => onTraceCollider(true)}
+              title="Trace a convex collider that wraps the drawing (smoother and faster)"
+            >
+              <Hexagon className="size-3" />
+              <span className="text-xs">Wrap</span>
+            </Button>
+          </>
+        )}
       </div>
     </div>
   );
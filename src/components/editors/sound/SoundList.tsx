@@ -1,14 +1,15 @@
-import { useRef, useState, memo } from 'react';
+import { useEffect, useRef, useState, memo } from 'react';
 import { useMutation } from 'convex/react';
 import { api } from '../../../../convex/_generated/api';
 import type { Id } from '../../../../convex/_generated/dataModel';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { X, Upload, Loader2, Library, Save, Volume2, Play, Square } from 'lucide-react';
+import { X, Upload, Loader2, Library, Save, Volume2, Play, Square, Mic } from 'lucide-react';
 import { uploadDataUrlToStorage } from '@/utils/convexHelpers';
 import { SoundLibraryBrowser } from '@/components/dialogs/SoundLibraryBrowser';
 import { compressAudio, getAudioDuration } from '@/utils/audioProcessor';
+import { SoundRecorder } from '@/utils/soundRecorder';
 import type { Sound } from '@/types';
 import { cn } from '@/lib/utils';
 
@@ -24,6 +25,8 @@ interface SoundListProps {
   onStopSound: () => void;
 }
 
+const MAX_RECORDING_SECONDS = 60;
+
 export const SoundList = memo(({
   sounds,
   selectedIndex,
@@ -39,6 +42,12 @@ export const SoundList = memo(({
   const [isProcessing, setIsProcessing] = useState(false);
   const [showLibrary, setShowLibrary] = useState(false);
   const [savingToLibrary, setSavingToLibrary] = useState<number | null>(null);
+  const recorderRef = useRef<SoundRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isStartingRecording, setIsStartingRecording] = useState(false); // Waiting for microphone permission
+  const [recordLevel, setRecordLevel] = useState(0);
+  const [recordSeconds, setRecordSeconds] = useState(0);
+  const [recordError, setRecordError] = useState<string | null>(null);
 
   const generateUploadUrl = useMutation(api.soundLibrary.generateUploadUrl);
   const createLibraryItem = useMutation(api.soundLibrary.create);
@@ -90,6 +99,69 @@ export const SoundList = memo(({
     }
   };
 
+  const handleStartRecording = async () => {
+    // A second click while the browser asks for the microphone would open a second recorder
+    if (isStartingRecording) return;
+    setRecordError(null);
+    setIsStartingRecording(true);
+    try {
+      recorderRef.current = await SoundRecorder.start(setRecordLevel);
+      setRecordSeconds(0);
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      setRecordError('Microphone not available');
+    } finally {
+      setIsStartingRecording(false);
+    }
+  };
+
+  // Compress like an uploaded file; the new sound is selected so it opens ready to trim
+  const handleStopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    setRecordLevel(0);
+    setIsProcessing(true);
+
+    try {
+      const recording = await recorder.stop();
+      const compressedDataUrl = await compressAudio(recording);
+      const duration = await getAudioDuration(compressedDataUrl);
+
+      const newSound: Sound = {
+        id: crypto.randomUUID(),
+        name: `recording${sounds.filter(s => s.name.startsWith('recording')).length + 1}`,
+        assetId: compressedDataUrl,
+        duration,
+      };
+      onAddSound(newSound);
+    } catch (error) {
+      console.error('Failed to process recording:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Count recording time and stop at the limit
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setRecordSeconds(s => s + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (isRecording && recordSeconds >= MAX_RECORDING_SECONDS) {
+      void handleStopRecording();
+    }
+  });
+
+  // Leaving the sound editor mid-recording throws the recording away
+  useEffect(() => {
+    return () => recorderRef.current?.cancel();
+  }, []);
+
   const handleLibrarySelect = async (data: { name: string; dataUrl: string }) => {
     const duration = await getAudioDuration(data.dataUrl);
     const newSound: Sound = {
@@ -145,7 +217,7 @@ export const SoundList = memo(({
             className="size-6"
             onClick={handleUploadClick}
             title="Import sound"
-            disabled={isProcessing}
+            disabled={isProcessing || isRecording}
           >
             {isProcessing ? (
               <Loader2 className="size-3 animate-spin" />
@@ -159,10 +231,20 @@ export const SoundList = memo(({
             className="size-6"
             onClick={() => setShowLibrary(true)}
             title="Browse library"
-            disabled={isProcessing}
+            disabled={isProcessing || isRecording}
           >
             <Library className="size-3" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('size-6', isRecording && 'text-red-500')}
+            onClick={isRecording ? handleStopRecording : handleStartRecording}
+            title={isRecording ? 'Stop recording' : 'Record sound'}
+            disabled={isProcessing || isStartingRecording}
+          >
+            {isRecording ? <Square className="size-3 fill-current" /> : <Mic className="size-3" />}
+          </Button>
         </div>
         <input
           ref={fileInputRef}
@@ -174,12 +256,37 @@ export const SoundList = memo(({
         />
       </div>
 
+      {/* Recording */}
+      {(isRecording || recordError) && (
+        <div className="px-2 py-2 border-b space-y-1.5">
+          {isRecording ? (
+            <>
+              <div className="flex items-center justify-between text-[10px]">
+                <span className="flex items-center gap-1 text-red-500">
+                  <span className="size-1.5 rounded-full bg-red-500 animate-pulse" />
+                  Recording
+                </span>
+                <span className="text-muted-foreground">{formatDuration(recordSeconds)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <div
+                  className={cn('h-full transition-[width] duration-75', recordLevel > 0.9 ? 'bg-red-500' : 'bg-green-500')}
+                  style={{ width: `${recordLevel * 100}%` }}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="text-[10px] text-destructive">{recordError}</div>
+          )}
+        </div>
+      )}
+
       {/* Sound List */}
       <div className="flex-1 overflow-y-auto p-2 space-y-2">
         {sounds.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-muted-foreground text-center px-2">
             <p className="text-xs">No sounds</p>
-            <p className="text-xs mt-1">Click upload to add</p>
+            <p className="text-xs mt-1">Upload or record to add</p>
           </div>
         ) : (
           sounds.map((sound, index) => (
@@ -1,15 +1,21 @@
 import { useRef, useState, useEffect, useCallback, memo } from 'react';
 import { Button } from '@/components/ui/button';
-import { Play, Square, SkipBack, Volume2, VolumeX } from 'lucide-react';
+import { Play, Square, SkipBack, Volume2, VolumeX, Undo2, Redo2, Loader2 } from 'lucide-react';
+import { applySoundEffect, LENGTH_CHANGING_EFFECTS, SOUND_EFFECTS } from '@/utils/soundEffects';
+import { beginHistoryGroup, endHistoryGroup, useHistoryStore } from '@/store/historyStore';
+import type { SoundEffectType, SoundRange } from '@/utils/soundEffects';
 import type { Sound } from '@/types';
 import { cn } from '@/lib/utils';
 
 interface WaveformEditorProps {
   sound: Sound | null;
   onTrimChange: (trimStart: number, trimEnd: number) => void;
+  onSoundChange: (updates: Partial<Sound>) => void;
 }
 
-export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps) => {
+const MIN_SELECTION = 0.02; // Seconds - shorter drags are clicks
+
+export const WaveformEditor = memo(({ sound, onTrimChange, onSoundChange }: WaveformEditorProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -26,7 +32,17 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
   // Trim state (in seconds)
   const [trimStart, setTrimStart] = useState(0);
   const [trimEnd, setTrimEnd] = useState(0);
-  const [isDragging, setIsDragging] = useState<'start' | 'end' | null>(null);
+  const [isDragging, setIsDragging] = useState<'start' | 'end' | 'select' | null>(null);
+
+  // Effects apply to the selection, or the whole sound when nothing is selected
+  const [selection, setSelection] = useState<{ soundId: string; range: SoundRange } | null>(null);
+  const selectAnchorRef = useRef(0);
+  const activeSelection = sound && selection?.soundId === sound.id ? selection.range : null;
+
+  // Effects are undone through the project history, like every other edit
+  const { past, future, undo, redo } = useHistoryStore();
+  const latest = past[past.length - 1];
+  const [isApplying, setIsApplying] = useState(false);
 
   // Refs to avoid stale closures in audio event handlers
   const trimStartRef = useRef(trimStart);
@@ -57,7 +73,8 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
     audioRef.current = audio;
 
     audio.onloadedmetadata = () => {
-      const audioDuration = audio.duration;
+      // Recorded and compressed WebM files don't store their length, so fall back to the cached one
+      const audioDuration = Number.isFinite(audio.duration) ? audio.duration : sound.duration ?? 0;
       console.log('[WaveformEditor] Audio loaded, duration:', audioDuration);
       setDuration(audioDuration);
       const startTime = sound.trimStart ?? 0;
@@ -185,6 +202,14 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
       ctx.fillRect(0, 0, trimStartX, canvas.height);
       ctx.fillRect(trimEndX, 0, canvas.width - trimEndX, canvas.height);
 
+      // Draw the selection effects will change
+      if (activeSelection) {
+        const selectionStartX = (activeSelection.start / duration) * canvas.width;
+        const selectionEndX = (activeSelection.end / duration) * canvas.width;
+        ctx.fillStyle = 'hsl(var(--primary) / 0.15)';
+        ctx.fillRect(selectionStartX, 0, selectionEndX - selectionStartX, canvas.height);
+      }
+
       // Draw waveform bars
       waveformData.forEach((value, index) => {
         const x = index * barWidth;
@@ -254,7 +279,7 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [waveformData, currentTime, duration, trimStart, trimEnd, isPlaying]);
+  }, [waveformData, currentTime, duration, trimStart, trimEnd, isPlaying, activeSelection]);
 
   // Handle mouse events for trimming and seeking
   const handleCanvasMouseDown = useCallback(
@@ -278,6 +303,11 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
       } else if (Math.abs(x - trimEndX) < 10) {
         setIsDragging('end');
       } else {
+        // Dragging from here selects a range; a plain click clears the selection
+        selectAnchorRef.current = clickTime;
+        setSelection(null);
+        setIsDragging('select');
+
         // Seek to position (only within trim region)
         const seekTime = Math.max(trimStart, Math.min(trimEnd, clickTime));
         console.log('[WaveformEditor] Seeking to:', seekTime, 'audioRef:', !!audioRef.current);
@@ -300,7 +330,11 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
       const x = e.clientX - rect.left;
       const newTime = Math.max(0, Math.min(duration, (x / rect.width) * duration));
 
-      if (isDragging === 'start') {
+      if (isDragging === 'select') {
+        const start = Math.min(selectAnchorRef.current, newTime);
+        const end = Math.max(selectAnchorRef.current, newTime);
+        setSelection(sound && end - start >= MIN_SELECTION ? { soundId: sound.id, range: { start, end } } : null);
+      } else if (isDragging === 'start') {
         const newStart = Math.min(newTime, trimEnd - 0.1); // Keep at least 0.1s
         setTrimStart(newStart);
       } else if (isDragging === 'end') {
@@ -308,11 +342,13 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
         setTrimEnd(newEnd);
       }
     },
-    [isDragging, duration, trimStart, trimEnd]
+    [isDragging, duration, trimStart, trimEnd, sound]
   );
 
   const handleCanvasMouseUp = useCallback(() => {
-    if (isDragging) {
+    if (isDragging === 'select') {
+      setIsDragging(null);
+    } else if (isDragging) {
       // Notify parent of trim change
       onTrimChange(trimStart, trimEnd);
       setIsDragging(null);
@@ -368,6 +404,39 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
     }
   };
 
+  const handleEffect = async (effect: SoundEffectType) => {
+    if (!sound || isApplying) return;
+
+    setIsApplying(true);
+    try {
+      const result = await applySoundEffect(sound.assetId, effect, activeSelection);
+      // Each effect is its own undo step, even right after a trim or another effect
+      beginHistoryGroup();
+      onSoundChange({
+        assetId: result.dataUrl,
+        duration: result.duration,
+        ...(LENGTH_CHANGING_EFFECTS.includes(effect) ? { trimStart: undefined, trimEnd: undefined } : {}),
+      });
+      endHistoryGroup();
+      setSelection(null);
+    } catch (error) {
+      console.error('Failed to apply sound effect:', effect, error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  // The selection may no longer fit the audio that comes back
+  const handleUndo = () => {
+    undo();
+    setSelection(null);
+  };
+
+  const handleRedo = () => {
+    redo();
+    setSelection(null);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -449,6 +518,57 @@ export const WaveformEditor = memo(({ sound, onTrimChange }: WaveformEditorProps
         </div>
       </div>
 
+      {/* Effects */}
+      <div className="mt-4 p-3 bg-muted/30 rounded-lg border">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-xs font-medium flex items-center gap-1.5">
+            Effects
+            {isApplying && <Loader2 className="size-3 animate-spin" />}
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-6"
+              onClick={handleUndo}
+              disabled={isApplying || !latest}
+              title={latest ? `Undo ${latest.label}` : 'Nothing to undo'}
+            >
+              <Undo2 className="size-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-6"
+              onClick={handleRedo}
+              disabled={isApplying || future.length === 0}
+              title={future.length > 0 ? `Redo ${future[0].label}` : 'Nothing to redo'}
+            >
+              <Redo2 className="size-3" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {SOUND_EFFECTS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => handleEffect(value)}
+              disabled={isApplying || duration === 0 || (value === 'delete' && !activeSelection)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-[10px] text-muted-foreground mt-2">
+          {activeSelection
+            ? `Effects change the selected part (${formatTime(activeSelection.start)} - ${formatTime(activeSelection.end)}).`
+            : 'Effects change the whole sound. Drag across the waveform to pick a part.'}
+        </p>
+      </div>
+
       {/* Trim info */}
       <div className="mt-4 p-3 bg-muted/30 rounded-lg border">
         <div className="text-xs font-medium mb-2">Trim Settings</div>
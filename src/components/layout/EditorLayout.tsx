@@ -8,6 +8,7 @@ import { ObjectPicker } from '../stage/ObjectPicker';
 import { ProjectDialog } from '../dialogs/ProjectDialog';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
+import { useHistoryStore } from '@/store/historyStore';
 import { loadProject } from '@/db/database';
 import { useCloudSync } from '@/hooks/useCloudSync';
 import { Button } from '@/components/ui/button';
@@ -20,7 +21,8 @@ export function EditorLayout() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const { project, openProject, saveCurrentProject } = useProjectStore();
-  const { isPlaying, showProjectDialog, setShowProjectDialog, selectScene, startPlaying, stopPlaying, undo, redo } = useEditorStore();
+  const { isPlaying, showProjectDialog, setShowProjectDialog, selectScene, startPlaying, stopPlaying } = useEditorStore();
+  const { undo, redo } = useHistoryStore();
   const [dividerPosition, setDividerPosition] = useState(70);
   const [hoveredPanel, setHoveredPanel] = useState<HoveredPanel>(null);
   const [fullscreenPanel, setFullscreenPanel] = useState<FullscreenPanel>(null);
@@ -123,15 +125,15 @@ export function EditorLayout() {
       return;
     }
 
-    // Undo: Cmd+Z or Ctrl+Z
-    if ((e.metaKey || e.ctrlKey) && e.key === 'z' && !e.shiftKey) {
+    // Undo: Cmd+Z or Ctrl+Z - text boxes keep their own undo while typing
+    if ((e.metaKey || e.ctrlKey) && e.key === 'z' && !e.shiftKey && !isTyping && !isPlaying) {
       e.preventDefault();
       undo();
       return;
     }
 
     // Redo: Cmd+Shift+Z or Ctrl+Shift+Z
-    if ((e.metaKey || e.ctrlKey) && e.key === 'z' && e.shiftKey) {
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z' && e.shiftKey && !isTyping && !isPlaying) {
       e.preventDefault();
       redo();
       return;
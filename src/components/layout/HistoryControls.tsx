@@ -0,0 +1,78 @@
+import { useHistoryStore } from '@/store/historyStore';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Undo, redo and the list of project changes - picking a step undoes or redoes up to it
+export function HistoryControls() {
+  const { past, future, undo, redo, jumpTo } = useHistoryStore();
+  const latest = past[past.length - 1];
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={undo}
+        disabled={!latest}
+        title={latest ? `Undo ${latest.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 className="size-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={redo}
+        disabled={future.length === 0}
+        title={future.length > 0 ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 className="size-4" />
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="History" disabled={past.length === 0 && future.length === 0}>
+            <History className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs">History</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {/* Newest at the top; undone steps are dimmed until they're redone or replaced */}
+          {[...future].reverse().map(entry => (
+            <DropdownMenuItem
+              key={entry.id}
+              onClick={() => jumpTo(entry.id)}
+              className="text-xs text-muted-foreground"
+            >
+              {entry.label}
+            </DropdownMenuItem>
+          ))}
+          {[...past].reverse().map(entry => (
+            <DropdownMenuItem
+              key={entry.id}
+              onClick={() => jumpTo(entry.id)}
+              className={cn('text-xs', entry === latest && 'bg-accent font-medium')}
+            >
+              {entry.label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem
+            onClick={() => jumpTo(null)}
+            className={cn('text-xs', !latest && 'bg-accent font-medium')}
+          >
+            Start
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { downloadProject } from '@/db/database';
 import { Button } from '@/components/ui/button';
 import { Play, Square, Upload, Save, Library, Sun, Moon } from 'lucide-react';
 import { MediaLibrary } from '@/components/library/MediaLibrary';
+import { HistoryControls } from './HistoryControls';
 
 export function Toolbar() {
   const navigate = useNavigate();
@@ -78,6 +79,8 @@ export function Toolbar() {
 
       {/* Right section - Actions */}
       <div className="flex items-center gap-2">
+        {project && <HistoryControls />}
+
         <Button
           variant="ghost"
           size="icon"
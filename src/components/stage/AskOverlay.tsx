@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Check } from 'lucide-react';
+import type { AskPrompt } from '@/phaser/RuntimeEngine';
+
+interface AskOverlayProps {
+  prompt: AskPrompt;
+}
+
+// Text box shown over the stage while a script waits on "ask and wait"
+export function AskOverlay({ prompt }: AskOverlayProps) {
+  const [answer, setAnswer] = useState('');
+
+  const submit = () => prompt.submit(answer);
+
+  return (
+    <div className="absolute left-4 right-4 bottom-4 z-10 rounded-xl border-2 border-[#5CB1D6] bg-white p-3 shadow-lg">
+      {prompt.question && (
+        <div className="mb-2 text-sm font-semibold text-gray-700">{prompt.question}</div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep typing away from the game and the editor's shortcuts
+            e.stopPropagation();
+            if (e.key === 'Enter') submit();
+          }}
+          onKeyUp={(e) => e.stopPropagation()}
+          className="h-9 text-gray-900"
+          autoFocus
+        />
+        <Button size="sm" className="h-9 w-9 p-0 rounded-full bg-[#5CB1D6] hover:bg-[#4A9FC4]" onClick={submit}>
+          <Check className="size-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
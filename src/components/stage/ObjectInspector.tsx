@@ -2,6 +2,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import Color from 'color';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
+import { beginHistoryGroup, endHistoryGroup } from '@/store/historyStore';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
@@ -11,9 +12,11 @@ import {
   ColorPickerSelection,
   ColorPickerHue,
 } from '@/components/ui/color-picker';
-import { RotateCw, FlipHorizontal, FlipVertical, Link, Unlink, Component } from 'lucide-react';
-import type { GameObject, Scene, GroundConfig, PhysicsConfig } from '@/types';
-import { createDefaultColliderConfig } from '@/types';
+import { RotateCw, FlipHorizontal, FlipVertical, Link, Unlink, Component, AlignLeft, AlignCenter, AlignRight, Plus, Trash2, Pencil } from 'lucide-react';
+import type { CollisionLayer, GameObject, Scene, GroundConfig, JointConfig, JointType, PhysicsConfig, TextAlign, TextConfig } from '@/types';
+import { MAX_COLLISION_LAYERS, createDefaultColliderConfig, createDefaultJointConfig, getCollisionLayers } from '@/types';
+import { TEXT_FONTS } from '@/phaser/TextObject';
+import { TilemapPanel } from './TilemapPanel';
 
 // Color swatch with popup picker
 interface ColorSwatchProps {
@@ -133,6 +136,8 @@ function ScrubInput({ label, value, onChange, step = 1, precision = 2, min, max,
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.altKey) {
       e.preventDefault();
+      // The whole drag is one undo step
+      beginHistoryGroup();
       setIsDragging(true);
       startXRef.current = e.clientX;
       startValueRef.current = value;
@@ -156,6 +161,7 @@ function ScrubInput({ label, value, onChange, step = 1, precision = 2, min, max,
 
     const handleMouseUp = () => {
       setIsDragging(false);
+      endHistoryGroup();
       document.body.style.cursor = '';
     };
 
@@ -212,31 +218,39 @@ function ScrubInput({ label, value, onChange, step = 1, precision = 2, min, max,
 
 export function ObjectInspector() {
   const { project, updateObject, updateScene } = useProjectStore();
-  const { selectedSceneId, selectedObjectId } = useEditorStore();
+  const { selectedSceneId, selectedObjectId, setTileTool } = useEditorStore();
   const [activeTab, setActiveTab] = useState<string>('object');
 
   const scene = project?.scenes.find(s => s.id === selectedSceneId);
   const object = scene?.objects.find(o => o.id === selectedObjectId);
 
+  // The stage paints tiles only while the Tiles tab is open
+  const changeTab = useCallback((tab: string) => {
+    setActiveTab(tab);
+    setTileTool(tab === 'tiles' ? 'paint' : null);
+  }, [setTileTool]);
+
   // Switch to object tab when an object is selected
   useEffect(() => {
     if (selectedObjectId) {
-      setActiveTab('object');
+      changeTab('object');
     }
-  }, [selectedObjectId]);
+  }, [selectedObjectId, changeTab]);
 
   return (
     <div className="bg-card border-t">
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+      <Tabs value={activeTab} onValueChange={changeTab} className="w-full">
         <TabsList variant="line" className="w-full justify-start px-4">
           <TabsTrigger value="object">Object</TabsTrigger>
           <TabsTrigger value="scene">Scene</TabsTrigger>
+          <TabsTrigger value="tiles">Tiles</TabsTrigger>
         </TabsList>
 
         <TabsContent value="object" className="px-4 py-3 mt-0">
           <ObjectProperties
             object={object}
             sceneId={selectedSceneId}
+            sceneObjects={scene?.objects ?? []}
             updateObject={updateObject}
           />
         </TabsContent>
@@ -246,6 +260,9 @@ export function ObjectInspector() {
             updateScene={updateScene}
           />
         </TabsContent>
+        <TabsContent value="tiles" className="px-4 py-3 mt-0">
+          <TilemapPanel scene={scene} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -254,10 +271,11 @@ export function ObjectInspector() {
 interface ObjectPropertiesProps {
   object: GameObject | undefined;
   sceneId: string | null;
+  sceneObjects: GameObject[];
   updateObject: (sceneId: string, objectId: string, updates: Partial<GameObject>) => void;
 }
 
-function ObjectProperties({ object, sceneId, updateObject }: ObjectPropertiesProps) {
+function ObjectProperties({ object, sceneId, sceneObjects, updateObject }: ObjectPropertiesProps) {
   const [linkScale, setLinkScale] = useState(true);
 
   if (!object || !sceneId) {
@@ -413,6 +431,11 @@ function ObjectProperties({ object, sceneId, updateObject }: ObjectPropertiesPro
         </div>
       </div>
 
+      {/* Text */}
+      {object.text && (
+        <TextProperties object={object} sceneId={sceneId} updateObject={updateObject} />
+      )}
+
       {/* Physics Toggle */}
       <PhysicsToggle object={object} sceneId={sceneId} updateObject={updateObject} />
 
@@ -420,6 +443,16 @@ function ObjectProperties({ object, sceneId, updateObject }: ObjectPropertiesPro
       {object.physics?.enabled && (
         <PhysicsProperties object={object} sceneId={sceneId} updateObject={updateObject} />
       )}
+
+      {/* Collision layers */}
+      {object.physics?.enabled && (
+        <CollisionProperties object={object} sceneId={sceneId} updateObject={updateObject} />
+      )}
+
+      {/* Joints */}
+      {object.physics?.enabled && (
+        <JointProperties object={object} sceneId={sceneId} sceneObjects={sceneObjects} updateObject={updateObject} />
+      )}
     </div>
   );
 }
@@ -501,6 +534,115 @@ interface FieldProps {
   updateObject: (sceneId: string, objectId: string, updates: Partial<GameObject>) => void;
 }
 
+const TEXT_ALIGNS: { value: TextAlign; label: string; icon: typeof AlignLeft }[] = [
+  { value: 'left', label: 'Align left', icon: AlignLeft },
+  { value: 'center', label: 'Align center', icon: AlignCenter },
+  { value: 'right', label: 'Align right', icon: AlignRight },
+];
+
+function TextProperties({ object, sceneId, updateObject }: FieldProps) {
+  const text = object.text!;
+
+  const updateText = (updates: Partial<TextConfig>) => {
+    updateObject(sceneId, object.id, {
+      text: { ...text, ...updates }
+    });
+  };
+
+  return (
+    <div className="space-y-4 pt-3 border-t">
+      {/* Content */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2">Text</div>
+        <textarea
+          value={text.content}
+          onChange={(e) => updateText({ content: e.target.value })}
+          rows={2}
+          className="w-full px-3 py-2 bg-muted/50 rounded-lg text-sm outline-none text-foreground resize-none"
+        />
+      </div>
+
+      {/* Font */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2">Font</div>
+        <div className="flex gap-2 items-center">
+          <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 rounded-lg flex-1 min-w-0">
+            <select
+              value={text.fontFamily}
+              onChange={(e) => updateText({ fontFamily: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm outline-none text-foreground cursor-pointer"
+              style={{ fontFamily: text.fontFamily }}
+            >
+              {TEXT_FONTS.map(font => (
+                <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+              ))}
+            </select>
+          </div>
+          <ColorSwatch
+            value={text.color}
+            onChange={(color) => updateText({ color })}
+          />
+        </div>
+      </div>
+
+      {/* Size and alignment */}
+      <div className="flex gap-2 items-center">
+        <ScrubInput
+          label="Size"
+          value={text.fontSize}
+          onChange={(fontSize) => updateText({ fontSize })}
+          precision={0}
+          min={4}
+          max={400}
+        />
+        {TEXT_ALIGNS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => updateText({ align: value })}
+            title={label}
+            className={text.align === value ? 'text-primary' : ''}
+          >
+            <Icon className="size-4" />
+          </Button>
+        ))}
+      </div>
+
+      {/* Outline */}
+      <div>
+        <div className="text-xs text-muted-foreground mb-2">Outline</div>
+        <div className="flex gap-2 items-center">
+          <ScrubInput
+            label="W"
+            value={text.outlineWidth}
+            onChange={(outlineWidth) => updateText({ outlineWidth })}
+            precision={0}
+            min={0}
+            max={40}
+          />
+          <ColorSwatch
+            value={text.outlineColor}
+            onChange={(outlineColor) => updateText({ outlineColor })}
+          />
+        </div>
+      </div>
+
+      {/* HUD */}
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="text-fixed-toggle"
+          checked={text.fixedToCamera}
+          onCheckedChange={(checked) => updateText({ fixedToCamera: !!checked })}
+        />
+        <Label htmlFor="text-fixed-toggle" className="text-xs text-muted-foreground cursor-pointer">
+          Stay on screen when the camera moves
+        </Label>
+      </div>
+    </div>
+  );
+}
+
 function PhysicsToggle({ object, sceneId, updateObject }: FieldProps) {
   const hasPhysics = object.physics?.enabled ?? false;
 
@@ -630,6 +772,258 @@ function PhysicsProperties({ object, sceneId, updateObject }: FieldProps) {
           Rotate with Physics
         </Label>
       </div>
+
+      {/* One-way platforms hold up objects landing on top and let them jump up through */}
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="one-way"
+          checked={physics.oneWay ?? false}
+          onCheckedChange={(checked) => updatePhysics({ oneWay: !!checked })}
+        />
+        <Label htmlFor="one-way" className="text-xs text-muted-foreground cursor-pointer">
+          One-way Platform (jump up through it)
+        </Label>
+      </div>
+    </div>
+  );
+}
+
+// Which collision layer the object is on, the layers it collides with, and trigger-only colliders
+function CollisionProperties({ object, sceneId, updateObject }: FieldProps) {
+  const { project, updateProjectSettings } = useProjectStore();
+  const [editingLayers, setEditingLayers] = useState(false);
+  if (!project) return null;
+
+  const physics = object.physics!;
+  const layers = getCollisionLayers(project.settings);
+  // Objects on a deleted layer are treated as being on the first one
+  const layerId = layers.some(l => l.id === physics.layerId) ? physics.layerId : layers[0].id;
+  const collidesWith = physics.collidesWith ?? layers.map(l => l.id);
+
+  const updatePhysics = (updates: Partial<PhysicsConfig>) => {
+    updateObject(sceneId, object.id, {
+      physics: { ...physics, ...updates }
+    });
+  };
+
+  const toggleCollidesWith = (id: string, checked: boolean) => {
+    const next = checked ? [...collidesWith, id] : collidesWith.filter(c => c !== id);
+    // Colliding with every layer is left open so layers added later are included
+    updatePhysics({ collidesWith: layers.every(l => next.includes(l.id)) ? undefined : next });
+  };
+
+  const updateLayers = (updated: CollisionLayer[]) => {
+    updateProjectSettings({ collisionLayers: updated });
+  };
+
+  const addLayer = () => {
+    updateLayers([...layers, { id: crypto.randomUUID(), name: `Layer ${layers.length + 1}` }]);
+  };
+
+  const setSensor = (isSensor: boolean) => {
+    updateObject(sceneId, object.id, {
+      collider: { ...(object.collider ?? createDefaultColliderConfig()), isSensor }
+    });
+  };
+
+  return (
+    <div className="space-y-2 mt-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">Collision Layer</div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => setEditingLayers(!editingLayers)}
+          className={editingLayers ? 'text-primary' : ''}
+          title="Edit the project's layers"
+        >
+          <Pencil className="size-4" />
+        </Button>
+      </div>
+
+      {editingLayers ? (
+        <div className="space-y-1">
+          {layers.map(layer => (
+            <div key={layer.id} className="flex items-center gap-2">
+              <input
+                value={layer.name}
+                onChange={(e) => updateLayers(layers.map(l => l.id === layer.id ? { ...l, name: e.target.value } : l))}
+                className="flex-1 min-w-0 px-3 py-1 bg-muted/50 rounded-lg text-sm outline-none text-foreground"
+              />
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => updateLayers(layers.filter(l => l.id !== layer.id))}
+                disabled={layers.length <= 1}
+                title="Delete layer"
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addLayer}
+            disabled={layers.length >= MAX_COLLISION_LAYERS}
+            className="w-full text-xs"
+          >
+            <Plus className="size-4" /> Add layer
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 rounded-lg">
+          <select
+            value={layerId}
+            onChange={(e) => updatePhysics({ layerId: e.target.value })}
+            className="flex-1 min-w-0 bg-transparent text-sm outline-none text-foreground cursor-pointer"
+          >
+            {layers.map(layer => (
+              <option key={layer.id} value={layer.id}>{layer.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {layers.length > 1 && (
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Collides With</div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {layers.map(layer => (
+              <div key={layer.id} className="flex items-center gap-1.5">
+                <Checkbox
+                  id={`collides-with-${layer.id}`}
+                  checked={collidesWith.includes(layer.id)}
+                  onCheckedChange={(checked) => toggleCollidesWith(layer.id, !!checked)}
+                />
+                <Label htmlFor={`collides-with-${layer.id}`} className="text-xs text-muted-foreground cursor-pointer">
+                  {layer.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            Two objects only bump into each other when both collide with the other's layer.
+          </div>
+        </div>
+      )}
+
+      {/* Sensors still fire "when touching" but nothing bumps into them */}
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="is-sensor"
+          checked={object.collider?.isSensor ?? false}
+          onCheckedChange={(checked) => setSensor(!!checked)}
+        />
+        <Label htmlFor="is-sensor" className="text-xs text-muted-foreground cursor-pointer">
+          Trigger only (detects touches, things pass through)
+        </Label>
+      </div>
+    </div>
+  );
+}
+
+const JOINT_TYPES: { value: JointType; label: string }[] = [
+  { value: 'pin', label: 'Pin' },
+  { value: 'rope', label: 'Rope' },
+  { value: 'spring', label: 'Spring' },
+  { value: 'weld', label: 'Weld' },
+];
+
+interface JointPropertiesProps extends FieldProps {
+  sceneObjects: GameObject[];
+}
+
+// Pins, ropes, springs and welds from this object to others, connected when the game starts
+function JointProperties({ object, sceneId, sceneObjects, updateObject }: JointPropertiesProps) {
+  const joints = object.joints ?? [];
+  const targets = sceneObjects.filter(o => o.id !== object.id);
+
+  const updateJoints = (updated: JointConfig[]) => {
+    updateObject(sceneId, object.id, { joints: updated });
+  };
+
+  const updateJoint = (jointId: string, updates: Partial<JointConfig>) => {
+    updateJoints(joints.map(j => j.id === jointId ? { ...j, ...updates } : j));
+  };
+
+  return (
+    <div className="space-y-2 mt-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">Joints</div>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => updateJoints([...joints, createDefaultJointConfig(targets[0].id)])}
+          disabled={targets.length === 0}
+          title="Connect to another object"
+        >
+          <Plus className="size-4" />
+        </Button>
+      </div>
+
+      {joints.map(joint => (
+        <div key={joint.id} className="space-y-2 px-3 py-2 bg-muted/50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <select
+              value={joint.type}
+              onChange={(e) => updateJoint(joint.id, { type: e.target.value as JointType })}
+              className="bg-transparent text-sm outline-none text-foreground cursor-pointer"
+            >
+              {JOINT_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-muted-foreground">to</span>
+            <select
+              value={joint.targetId}
+              onChange={(e) => updateJoint(joint.id, { targetId: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm outline-none text-foreground cursor-pointer"
+            >
+              {targets.map(target => (
+                <option key={target.id} value={target.id}>{target.name}</option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => updateJoints(joints.filter(j => j.id !== joint.id))}
+              title="Remove joint"
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+
+          {joint.type === 'spring' && (
+            <div className="flex gap-2">
+              <ScrubInput
+                label="Stiff"
+                value={joint.stiffness}
+                onChange={(stiffness) => updateJoint(joint.id, { stiffness })}
+                step={0.01}
+                precision={2}
+                min={0}
+                max={1}
+              />
+              <ScrubInput
+                label="Damp"
+                value={joint.damping}
+                onChange={(damping) => updateJoint(joint.id, { damping })}
+                step={0.01}
+                precision={2}
+                min={0}
+                max={1}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {joints.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          The other object needs physics too. Turn on Colliders in the debug panel to see joints while playing.
+        </div>
+      )}
     </div>
   );
 }
@@ -1,10 +1,21 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import Phaser from 'phaser';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
 import { RuntimeEngine, setCurrentRuntime, registerCodeGenerators, generateCodeForObject } from '@/phaser';
-import type { Scene as SceneData, GameObject, ComponentDefinition, Variable } from '@/types';
-import { getEffectiveObjectProps } from '@/types';
+import type { AskPrompt } from '@/phaser/RuntimeEngine';
+import { VariableMonitorView } from '@/phaser/VariableMonitor';
+import { BackdropView } from '@/phaser/Backdrop';
+import { TilemapView } from '@/phaser/Tilemap';
+import { SoundEngine } from '@/phaser/SoundEngine';
+import { createPolygonBody } from '@/phaser/PolygonCollider';
+import { getColliderOffset } from '@/phaser/ColliderOffset';
+import { TEXT_OBJECT_NAME, applyTextConfig, createTextVisual, getTextCenterOffset } from '@/phaser/TextObject';
+import type { Scene as SceneData, GameObject, ComponentDefinition, Variable, VariableValue, Project, CollisionLayer } from '@/types';
+import { getCollisionLayers, getEffectiveObjectProps, getSceneBackdrops } from '@/types';
+import { AskOverlay } from './AskOverlay';
+import { EMPTY_TILE, fillTileRect, floodFillTiles, getTileCell, setTile } from '@/utils/tilemap';
+import type { TileCell } from '@/utils/tilemap';
 
 // Register code generators once at module load
 registerCodeGenerators();
@@ -12,6 +23,18 @@ registerCodeGenerators();
 // Track runtimes for each scene (for pause/resume across scene switches)
 const sceneRuntimes: Map<string, RuntimeEngine> = new Map();
 
+// Global variable values shared by every scene's runtime for the current play session
+const sessionGlobalVariables: Map<string, VariableValue> = new Map();
+
+// Audio shared by every scene's runtime, so background music keeps playing across scene switches
+const sessionSoundEngine = new SoundEngine();
+
+// Big enough to cover any part of the world the editor camera can reach
+const TILE_PAINT_ZONE_SIZE = 200000;
+
+// Set by the mounted PhaserCanvas - runtimes call it to show or close the "ask" prompt
+let showAskPrompt: ((prompt: AskPrompt | null) => void) | null = null;
+
 // Coordinate transformation utilities
 // User space: (0,0) at center, +Y is up
 // Phaser space: (0,0) at top-left, +Y is down
@@ -39,9 +62,10 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
   const gameRef = useRef<Phaser.Game | null>(null);
   const runtimeRef = useRef<RuntimeEngine | null>(null);
   const creationIdRef = useRef(0); // Track which creation attempt is current
+  const [askPrompt, setAskPrompt] = useState<AskPrompt | null>(null);
 
   const { project, updateObject } = useProjectStore();
-  const { selectedSceneId, selectedObjectId, selectObject, selectScene, showColliderOutlines, viewMode } = useEditorStore();
+  const { selectedSceneId, selectedObjectId, selectObject, selectScene, showColliderOutlines, viewMode, tileTool } = useEditorStore();
 
   // Use refs for values accessed in Phaser callbacks to avoid stale closures
   const selectedSceneIdRef = useRef(selectedSceneId);
@@ -73,6 +97,14 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
     }
   }, [updateObject]);
 
+  // Receive "ask and wait" prompts from the running game
+  useEffect(() => {
+    showAskPrompt = setAskPrompt;
+    return () => {
+      showAskPrompt = null;
+    };
+  }, []);
+
   // Initialize Phaser
   useEffect(() => {
     if (!containerRef.current || !project) return;
@@ -148,6 +180,11 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
               staticLineColor: 0x00ff00,
               fillColor: 0x00ff00,
               staticFillColor: 0x00ff00,
+              showJoint: true,
+              jointColor: 0xfacc15,
+              pinColor: 0xfacc15,
+              springColor: 0xf472b6,
+              anchorColor: 0xffffff,
             } : false,
           },
         },
@@ -160,7 +197,7 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
             if (isPlaying) {
               // Collect all objects from all scenes for variable lookup
               const allObjects = project.scenes.flatMap(s => s.objects);
-              createPlayScene(this, selectedScene, project.scenes, project.components || [], runtimeRef, canvasWidth, canvasHeight, project.globalVariables, allObjects, selectedSceneId || undefined);
+              createPlayScene(this, selectedScene, project.scenes, project.components || [], runtimeRef, canvasWidth, canvasHeight, project.globalVariables, allObjects, getCollisionLayers(project.settings), selectedSceneId || undefined);
             } else {
               // Get current viewMode and cycleViewMode from store
               const { viewMode: currentViewMode, cycleViewMode: cycleFn } = useEditorStore.getState();
@@ -191,6 +228,7 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
                     this.scene.sleep(currentSceneKey);
                     this.scene.wake(targetSceneKey);
                     runtimeRef.current = existingRuntime;
+                    resetSceneEnterVariables(existingRuntime, project.globalVariables);
                     existingRuntime.resume();
                     setCurrentRuntime(existingRuntime);
                   } else {
@@ -217,6 +255,7 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
                         canvasHeight,
                         project.globalVariables,
                         project.scenes.flatMap(s => s.objects),
+                        getCollisionLayers(project.settings),
                         targetSceneData.id
                       ), true);
                     } else {
@@ -268,6 +307,8 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
         }
       }
       sceneRuntimes.clear();
+      sessionGlobalVariables.clear();
+      sessionSoundEngine.reset();
 
       if (runtimeRef.current) {
         runtimeRef.current.cleanup();
@@ -420,6 +461,13 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
         container.setRotation(Phaser.Math.DegToRad(obj.rotation));
         container.setVisible(obj.visible);
 
+        // Restyle text objects in place
+        const textVisual = container.getByName(TEXT_OBJECT_NAME) as Phaser.GameObjects.Text | null;
+        if (obj.text && textVisual) {
+          applyTextConfig(textVisual, obj.text);
+          fitContainerToText(phaserScene, container, textVisual);
+        }
+
         // Update costume if changed (use effective props for component instances)
         const costumes = effectiveProps.costumes || [];
         const currentCostumeIndex = effectiveProps.currentCostumeIndex ?? 0;
@@ -428,7 +476,7 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
         const storedAssetId = container.getData('assetId');
 
         // Check if costume ID or asset content changed
-        const costumeChanged = currentCostume && (
+        const costumeChanged = !obj.text && currentCostume && (
           currentCostume.id !== storedCostumeId ||
           currentCostume.assetId !== storedAssetId
         );
@@ -566,7 +614,8 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
       ? selectedScene.background.value
       : '#87CEEB';
 
-    phaserScene.cameras.main.setBackgroundColor(bgColorValue);
+    const backdropView = phaserScene.data.get('backdropView') as BackdropView | undefined;
+    backdropView?.show(selectedScene.background, bgColorValue);
 
     // Update bounds graphics color to contrast with new background
     const boundsGraphics = phaserScene.data.get('boundsGraphics') as Phaser.GameObjects.Graphics | undefined;
@@ -608,11 +657,41 @@ export function PhaserCanvas({ isPlaying }: PhaserCanvasProps) {
     }
   }, [selectedScene?.ground, isPlaying, project]);
 
+  // Redraw the tilemap and switch tile painting on or off (in editor mode only)
+  useEffect(() => {
+    if (!gameRef.current || isPlaying) return;
+
+    const phaserScene = gameRef.current.scene.getScene('GameScene') as Phaser.Scene;
+    if (!phaserScene?.sys.isActive()) return;
+
+    const tilemapView = phaserScene.data.get('tilemapView') as TilemapView | undefined;
+    tilemapView?.show(selectedScene?.tilemap ?? null);
+    tilemapView?.setGridVisible(!!tileTool);
+
+    const tilePaintZone = phaserScene.data.get('tilePaintZone') as Phaser.GameObjects.Zone | undefined;
+    if (tilePaintZone?.input) {
+      tilePaintZone.input.enabled = !!tileTool && !!selectedScene?.tilemap;
+    }
+  }, [selectedScene?.tilemap, tileTool, isPlaying]);
+
+  // Redraw variable monitors when they or their variables change (in editor mode only)
+  useEffect(() => {
+    if (!gameRef.current || isPlaying || !project) return;
+
+    const phaserScene = gameRef.current.scene.getScene('GameScene') as Phaser.Scene;
+    if (!phaserScene?.sys.isActive() || !selectedScene) return;
+
+    renderEditorMonitors(phaserScene, selectedScene, project);
+  }, [selectedScene, isPlaying, project]);
+
   return (
-    <div
-      ref={containerRef}
-      className={isPlaying ? "w-full h-full" : "w-full h-full min-h-[300px]"}
-    />
+    <div className="relative w-full h-full">
+      <div
+        ref={containerRef}
+        className={isPlaying ? "w-full h-full" : "w-full h-full min-h-[300px]"}
+      />
+      {isPlaying && askPrompt && <AskOverlay key={askPrompt.id} prompt={askPrompt} />}
+    </div>
   );
 }
 
@@ -635,9 +714,10 @@ function createEditorScene(
 
   const camera = scene.cameras.main;
 
-  // Set background color (same everywhere)
+  // Set background color (same everywhere) - image backdrops draw over it
   const bgColorValue = sceneData.background?.type === 'color' ? sceneData.background.value : '#2d2d44';
-  camera.setBackgroundColor(bgColorValue);
+  const backdropView = new BackdropView(scene, canvasWidth, canvasHeight);
+  backdropView.show(sceneData.background, bgColorValue);
 
   // Calculate if background is dark to choose contrasting border color
   const bgColor = Phaser.Display.Color.HexStringToColor(bgColorValue);
@@ -663,7 +743,20 @@ function createEditorScene(
     groundGraphics.fillRect(-groundWidth / 2, phaserGroundY, groundWidth, groundHeight);
   }
 
+  // Draw the tilemap and take stage clicks while a tile tool is active
+  const { tileTool } = useEditorStore.getState();
+  const tilemapView = new TilemapView(scene);
+  tilemapView.show(sceneData.tilemap ?? null);
+  tilemapView.setGridVisible(!!tileTool);
+  const tilePaintZone = createTilePaintZone(scene, sceneData.id, tilemapView);
+  if (tilePaintZone.input) {
+    tilePaintZone.input.enabled = !!tileTool && !!sceneData.tilemap;
+  }
+
   // Store references for dynamic updates
+  scene.data.set('backdropView', backdropView);
+  scene.data.set('tilemapView', tilemapView);
+  scene.data.set('tilePaintZone', tilePaintZone);
   scene.data.set('boundsGraphics', boundsGraphics);
   scene.data.set('groundGraphics', groundGraphics);
   scene.data.set('canvasWidth', canvasWidth);
@@ -849,6 +942,12 @@ function createEditorScene(
     });
   });
 
+  // Draw variable monitors on top of the stage
+  const project = useProjectStore.getState().project;
+  if (project) {
+    renderEditorMonitors(scene, sceneData, project);
+  }
+
   // Update selection visuals on scene update
   scene.events.on('update', () => {
     scene.children.each((child: Phaser.GameObjects.GameObject) => {
@@ -869,6 +968,152 @@ function createEditorScene(
   });
 }
 
+/**
+ * Draw the scene's visible variable monitors on the editor stage, replacing any drawn before.
+ * They show each variable's starting value and can be dragged to a new spot.
+ */
+function renderEditorMonitors(scene: Phaser.Scene, sceneData: SceneData, project: Project) {
+  const previous = scene.data.get('monitorViews') as VariableMonitorView[] | undefined;
+  previous?.forEach(view => view.destroy());
+
+  const allObjects = project.scenes.flatMap(s => s.objects);
+  const views: VariableMonitorView[] = [];
+
+  for (const monitor of sceneData.monitors || []) {
+    if (!monitor.visible) continue;
+
+    const variable = project.globalVariables.find(v => v.id === monitor.variableId)
+      ?? allObjects.flatMap(o => o.localVariables || []).find(v => v.id === monitor.variableId);
+    if (!variable || variable.type === 'list') continue;
+
+    const owner = monitor.objectId ? allObjects.find(o => o.id === monitor.objectId) : undefined;
+    const numeric = variable.type === 'integer' || variable.type === 'float';
+
+    const view = new VariableMonitorView(scene, {
+      label: owner ? `${owner.name}: ${variable.name}` : variable.name,
+      mode: monitor.mode === 'slider' && !numeric ? 'normal' : monitor.mode,
+      x: monitor.x,
+      y: monitor.y,
+      sliderMin: monitor.sliderMin,
+      sliderMax: monitor.sliderMax,
+      fixed: false,
+    });
+    view.setValue(variable.defaultValue);
+    view.enableDrag((x, y) => {
+      useProjectStore.getState().updateVariableMonitor(sceneData.id, monitor.variableId, { x, y });
+    });
+    views.push(view);
+  }
+
+  scene.data.set('monitorViews', views);
+}
+
+/**
+ * Cover the world with an input zone above every object so clicks paint tiles instead of
+ * selecting objects. Strokes and rectangles are previewed on the view and saved on release,
+ * so each one is a single store update.
+ */
+function createTilePaintZone(scene: Phaser.Scene, sceneId: string, tilemapView: TilemapView): Phaser.GameObjects.Zone {
+  const zone = scene.add.zone(0, 0, TILE_PAINT_ZONE_SIZE, TILE_PAINT_ZONE_SIZE);
+  zone.setDepth(Number.MAX_SAFE_INTEGER);
+  zone.setInteractive({ cursor: 'crosshair' });
+
+  let baseTiles: number[] | null = null; // Tiles when the stroke started
+  let strokeTiles: number[] | null = null;
+  let startCell: TileCell | null = null;
+  let lastCell: TileCell | null = null;
+
+  const getTilemap = () => {
+    const sceneData = useProjectStore.getState().project?.scenes.find(s => s.id === sceneId);
+    return sceneData?.tilemap ?? null;
+  };
+
+  const preview = (tiles: number[]) => {
+    const tilemap = getTilemap();
+    if (!tilemap) return;
+    strokeTiles = tiles;
+    tilemapView.show({ ...tilemap, tiles });
+  };
+
+  const save = (tiles: number[]) => {
+    const tilemap = getTilemap();
+    if (!tilemap || tiles === tilemap.tiles) return;
+    useProjectStore.getState().updateScene(sceneId, { tilemap: { ...tilemap, tiles } });
+  };
+
+  // Paint every cell between the last one and this one so fast strokes have no gaps
+  const paintLine = (from: TileCell, to: TileCell, tile: number) => {
+    const tilemap = getTilemap();
+    if (!tilemap || !strokeTiles) return;
+    const steps = Math.max(Math.abs(to.column - from.column), Math.abs(to.row - from.row));
+    let tiles = strokeTiles;
+    for (let i = 0; i <= steps; i++) {
+      const t = steps === 0 ? 0 : i / steps;
+      const cell = {
+        column: Math.round(from.column + (to.column - from.column) * t),
+        row: Math.round(from.row + (to.row - from.row) * t),
+      };
+      tiles = setTile(tiles, tilemap.columns, cell, tile);
+    }
+    if (tiles !== strokeTiles) preview(tiles);
+  };
+
+  const toolTile = () => {
+    const { tileTool, selectedTile } = useEditorStore.getState();
+    return tileTool === 'erase' ? EMPTY_TILE : selectedTile;
+  };
+
+  zone.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+    if (!pointer.leftButtonDown()) return;
+    const { tileTool } = useEditorStore.getState();
+    const tilemap = getTilemap();
+    if (!tileTool || !tilemap) return;
+    const cell = getTileCell(tilemap, pointer.worldX, pointer.worldY);
+    if (!cell) return;
+
+    if (tileTool === 'fill') {
+      save(floodFillTiles(tilemap.tiles, tilemap.columns, tilemap.rows, cell, toolTile()));
+      return;
+    }
+
+    baseTiles = tilemap.tiles;
+    strokeTiles = tilemap.tiles;
+    startCell = cell;
+    lastCell = cell;
+    if (tileTool === 'rect') {
+      preview(fillTileRect(baseTiles, tilemap.columns, cell, cell, toolTile()));
+    } else {
+      paintLine(cell, cell, toolTile());
+    }
+  });
+
+  zone.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+    const tilemap = getTilemap();
+    if (!baseTiles || !startCell || !lastCell || !tilemap) return;
+    const cell = getTileCell(tilemap, pointer.worldX, pointer.worldY);
+    if (!cell || (cell.column === lastCell.column && cell.row === lastCell.row)) return;
+
+    if (useEditorStore.getState().tileTool === 'rect') {
+      preview(fillTileRect(baseTiles, tilemap.columns, startCell, cell, toolTile()));
+    } else {
+      paintLine(lastCell, cell, toolTile());
+    }
+    lastCell = cell;
+  });
+
+  const endStroke = () => {
+    if (strokeTiles) save(strokeTiles);
+    baseTiles = null;
+    strokeTiles = null;
+    startCell = null;
+    lastCell = null;
+  };
+  scene.input.on('pointerup', endStroke);
+  scene.input.on('pointerupoutside', endStroke);
+
+  return zone;
+}
+
 /**
  * Create a Phaser scene config for dynamic scene addition
  */
@@ -881,6 +1126,7 @@ function createPlaySceneConfig(
   canvasHeight: number,
   globalVariables: Variable[],
   allObjects: GameObject[],
+  collisionLayers: CollisionLayer[],
   sceneId: string
 ): Phaser.Types.Scenes.CreateSceneFromObjectConfig {
   return {
@@ -895,6 +1141,7 @@ function createPlaySceneConfig(
         canvasHeight,
         globalVariables,
         allObjects,
+        collisionLayers,
         sceneId
       );
     },
@@ -923,6 +1170,7 @@ function createPlaySceneConfig(
               this.scene.sleep(currentSceneKey);
               this.scene.wake(targetSceneKey);
               runtimeRef.current = existingRuntime;
+              resetSceneEnterVariables(existingRuntime, globalVariables);
               existingRuntime.resume();
               setCurrentRuntime(existingRuntime);
             } else {
@@ -945,6 +1193,7 @@ function createPlaySceneConfig(
                   canvasHeight,
                   globalVariables,
                   allObjects,
+                  collisionLayers,
                   targetSceneData.id
                 ), true);
               } else {
@@ -958,6 +1207,11 @@ function createPlaySceneConfig(
   };
 }
 
+// Globals marked "reset on scene enter" go back to their defaults whenever a scene starts or resumes
+function resetSceneEnterVariables(runtime: RuntimeEngine, globalVariables: Variable[]) {
+  runtime.resetGlobalVariables(globalVariables.filter(v => v.resetOnSceneEnter).map(v => v.id));
+}
+
 /**
  * Create the play scene content (running game mode)
  */
@@ -971,13 +1225,9 @@ function createPlaySceneContent(
   canvasHeight: number,
   globalVariables: Variable[],
   allObjects: GameObject[],
+  collisionLayers: CollisionLayer[],
   sceneId: string
 ) {
-  // Set background
-  if (sceneData.background?.type === 'color') {
-    scene.cameras.main.setBackgroundColor(sceneData.background.value);
-  }
-
   // Create runtime engine with canvas dimensions for coordinate conversion
   const runtime = new RuntimeEngine(scene, canvasWidth, canvasHeight);
   runtimeRef.current = runtime;
@@ -986,6 +1236,26 @@ function createPlaySceneContent(
   // Store runtime for this scene (for pause/resume)
   sceneRuntimes.set(sceneId, runtime);
 
+  // Globals carry over from the previous scene
+  runtime.shareGlobalVariables(sessionGlobalVariables);
+  runtime.shareSoundEngine(sessionSoundEngine);
+  resetSceneEnterVariables(runtime, globalVariables);
+
+  // Backdrop the scene starts on, plus the ones blocks can switch to
+  runtime.setBackdrops(getSceneBackdrops(sceneData), sceneData.backdropId);
+
+  // Layers objects' collision filters are built from
+  runtime.setCollisionLayers(collisionLayers);
+
+  // Painted tiles, with static bodies for the solid ones
+  runtime.setTilemap(sceneData.tilemap ?? null);
+
+  // Questions from "ask and wait" are typed into an overlay on the stage
+  runtime.setAskHandler(prompt => showAskPrompt?.(prompt));
+
+  // Report script errors so the editor can point at the failing block
+  runtime.setScriptErrorHandler(report => useEditorStore.getState().reportScriptError({ ...report, sceneId }));
+
   // Set up variable lookup for typed variables
   runtime.setVariableLookup((varId: string) => {
     // Check global variables
@@ -1039,6 +1309,11 @@ function createPlaySceneContent(
     if (costumes.length > 0) {
       runtimeSprite.setCostumes(costumes, effectiveProps.currentCostumeIndex || 0);
     }
+    runtimeSprite.setAnimations(effectiveProps.animations);
+
+    if (obj.text) {
+      runtimeSprite.setTextConfig(obj.text);
+    }
 
     // Register sounds with runtime
     const sounds = effectiveProps.sounds || [];
@@ -1070,14 +1345,16 @@ function createPlaySceneContent(
         restitution: physics.bounce ?? 0,
         frictionAir: 0.01,
         friction: physics.friction ?? 0.1,
+        isSensor: collider?.isSensor ?? false,
+        collisionFilter: runtime.getCollisionFilter(physics),
       };
 
       let body: MatterJS.BodyType;
       const posX = container.x;
       const posY = container.y;
 
-      const colliderOffsetX = (collider?.offsetX ?? 0) * scaleX;
-      const colliderOffsetY = (collider?.offsetY ?? 0) * scaleY;
+      let colliderOffsetX = (collider?.offsetX ?? 0) * scaleX;
+      let colliderOffsetY = (collider?.offsetY ?? 0) * scaleY;
       const bodyX = posX + colliderOffsetX;
       const bodyY = posY + colliderOffsetY;
 
@@ -1107,6 +1384,17 @@ function createPlaySceneContent(
           });
           break;
         }
+        case 'polygon': {
+          const polygon = createPolygonBody(scene.matter, bodyX, bodyY, collider?.vertices, scaleX, scaleY, bodyOptions);
+          if (polygon) {
+            body = polygon.body;
+            colliderOffsetX += polygon.centerX;
+            colliderOffsetY += polygon.centerY;
+          } else {
+            body = scene.matter.add.rectangle(bodyX, bodyY, scaledDefaultWidth, scaledDefaultHeight, bodyOptions);
+          }
+          break;
+        }
         case 'box':
         default: {
           const baseWidth = collider?.width || defaultWidth;
@@ -1136,9 +1424,8 @@ function createPlaySceneContent(
 
       scene.matter.world.on('afterupdate', () => {
         if (body && container.active && !body.isStatic) {
-          const offsetX = container.getData('colliderOffsetX') ?? 0;
-          const offsetY = container.getData('colliderOffsetY') ?? 0;
-          container.setPosition(body.position.x - offsetX, body.position.y - offsetY);
+          const offset = getColliderOffset(container, body.angle);
+          container.setPosition(body.position.x - offset.x, body.position.y - offset.y);
           if (physics.allowRotation) {
             container.setRotation(body.angle);
           }
@@ -1191,6 +1478,16 @@ function createPlaySceneContent(
   // Set up physics colliders
   runtime.setupPhysicsColliders();
 
+  // Joints from the inspector, now that every body exists
+  for (const obj of sceneData.objects) {
+    for (const joint of obj.joints ?? []) {
+      runtime.connect(obj.id, joint.targetId, joint.type, joint.stiffness, joint.damping);
+    }
+  }
+
+  // Show the variable monitors saved with this scene
+  runtime.setMonitors(sceneData.monitors || []);
+
   // Start the runtime
   runtime.start();
 }
@@ -1208,6 +1505,7 @@ function createPlayScene(
   canvasHeight: number,
   globalVariables: Variable[],
   allObjects: GameObject[],
+  collisionLayers: CollisionLayer[],
   sceneId?: string
 ) {
   if (!sceneData) return;
@@ -1225,6 +1523,7 @@ function createPlayScene(
     canvasHeight,
     globalVariables,
     allObjects,
+    collisionLayers,
     effectiveSceneId
   );
 }
@@ -1559,6 +1858,16 @@ function createObjectVisual(
     }
   };
 
+  // Text objects draw their text instead of a costume
+  if (obj.text) {
+    const text = createTextVisual(scene, obj.text);
+    container.add(text);
+    if (selectionRect) container.sendToBack(selectionRect);
+    if (hitRect) container.bringToTop(hitRect);
+    fitContainerToText(scene, container, text);
+    return container;
+  }
+
   // Get current costume (use effective props for component instances)
   const effectiveProps = getEffectiveObjectProps(obj, components);
   const costumes = effectiveProps.costumes || [];
@@ -1617,6 +1926,37 @@ function createObjectVisual(
   return container;
 }
 
+/**
+ * Size a text object's container, hit area and selection box to its text
+ */
+function fitContainerToText(scene: Phaser.Scene, container: Phaser.GameObjects.Container, text: Phaser.GameObjects.Text) {
+  const w = Math.max(text.width, 32);
+  const h = Math.max(text.height, 32);
+  const offsetX = getTextCenterOffset(text);
+
+  container.setSize(w, h);
+
+  const hitRect = container.getByName('hitArea') as Phaser.GameObjects.Rectangle | null;
+  if (hitRect) {
+    hitRect.setSize(w, h);
+    hitRect.setPosition(offsetX, 0);
+    if (hitRect.input) {
+      hitRect.removeInteractive();
+      hitRect.setInteractive({ useHandCursor: true });
+      scene.input.setDraggable(hitRect);
+    }
+  }
+
+  const selRect = container.getByName('selection') as Phaser.GameObjects.Rectangle | null;
+  if (selRect) {
+    selRect.setSize(w + 8, h + 8);
+    selRect.setPosition(offsetX, 0);
+  }
+
+  const updateGizmo = container.getData('updateGizmoPositions') as (() => void) | undefined;
+  if (updateGizmo) updateGizmo();
+}
+
 /**
  * Generate a consistent color from an ID
  */
@@ -1,29 +1,19 @@
-import { useState, useRef } from 'react';
+import { useState } from 'react';
 import { useProjectStore } from '@/store/projectStore';
 import { useEditorStore } from '@/store/editorStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Plus, X } from 'lucide-react';
+import { BackdropDialog, BackdropThumbnail } from '@/components/dialogs/BackdropDialog';
 
 export function SceneTabs() {
   const { project, addScene, removeScene, updateScene } = useProjectStore();
   const { selectedSceneId, selectScene } = useEditorStore();
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
-  const colorInputRef = useRef<HTMLInputElement>(null);
+  const [showBackdrops, setShowBackdrops] = useState(false);
 
   const selectedScene = project?.scenes.find(s => s.id === selectedSceneId);
-  const currentBgColor = selectedScene?.background?.type === 'color'
-    ? selectedScene.background.value
-    : '#87CEEB';
-
-  const handleBgColorChange = (color: string) => {
-    if (selectedSceneId) {
-      updateScene(selectedSceneId, {
-        background: { type: 'color', value: color }
-      });
-    }
-  };
 
   if (!project) return null;
 
@@ -111,23 +101,20 @@ export function SceneTabs() {
       {/* Spacer */}
       <div className="flex-1" />
 
-      {/* Background color picker */}
-      <div className="flex items-center gap-2">
-        <span className="text-xs text-muted-foreground">BG:</span>
-        <button
-          onClick={() => colorInputRef.current?.click()}
-          className="w-7 h-7 rounded border-2 border-border hover:border-primary transition-colors cursor-pointer"
-          style={{ backgroundColor: currentBgColor }}
-          title="Change background color"
-        />
-        <input
-          ref={colorInputRef}
-          type="color"
-          value={currentBgColor}
-          onChange={(e) => handleBgColorChange(e.target.value)}
-          className="sr-only"
-        />
-      </div>
+      {/* Backdrop picker */}
+      {selectedScene && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">BG:</span>
+          <button
+            onClick={() => setShowBackdrops(true)}
+            className="rounded border-2 border-border hover:border-primary transition-colors cursor-pointer overflow-hidden"
+            title="Change backdrop"
+          >
+            <BackdropThumbnail background={selectedScene.background} className="w-7 h-7" />
+          </button>
+          <BackdropDialog open={showBackdrops} onOpenChange={setShowBackdrops} scene={selectedScene} />
+        </div>
+      )}
     </div>
   );
 }
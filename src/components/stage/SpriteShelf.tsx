@@ -31,20 +31,21 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Plus, Library, Pencil, Copy, Clipboard, Trash2, ChevronRight, Component, Unlink, Loader2 } from 'lucide-react';
-import type { GameObject, Costume, Sound, PhysicsConfig, ColliderConfig } from '@/types';
+import { Plus, Library, Pencil, Copy, Clipboard, Trash2, ChevronRight, Component, Unlink, Loader2, Type } from 'lucide-react';
+import type { GameObject, Costume, CostumeAnimation, Sound, PhysicsConfig, ColliderConfig } from '@/types';
 
 // Global clipboard for cross-scene object copying
 let objectClipboard: {
   name: string;
   costumes: Costume[];
   sounds: Sound[];
+  animations: CostumeAnimation[];
   blocklyXml: string;
   physics: PhysicsConfig | null;
   collider: ColliderConfig | null;
   localVariables: GameObject['localVariables'];
 } | null = null;
-import { getEffectiveObjectProps } from '@/types';
+import { getEffectiveObjectProps, createDefaultTextConfig } from '@/types';
 import { uploadDataUrlToStorage, generateThumbnail } from '@/utils/convexHelpers';
 
 interface SortableObjectItemProps {
@@ -118,7 +119,9 @@ function SortableObjectItem({
     >
       {/* Thumbnail - zoomed to bounds */}
       <div className="w-8 h-8 rounded flex items-center justify-center overflow-hidden shrink-0 bg-muted relative">
-        {effectiveCostumes && effectiveCostumes.length > 0 ? (() => {
+        {object.text ? (
+          <Type className="size-4" style={{ color: object.text.color }} />
+        ) : effectiveCostumes && effectiveCostumes.length > 0 ? (() => {
           const costume = effectiveCostumes[effectiveCostumeIndex];
           const bounds = costume?.bounds;
           if (bounds && bounds.width > 0 && bounds.height > 0) {
@@ -217,6 +220,18 @@ export function SpriteShelf() {
     selectObject(newObject.id);
   };
 
+  const handleAddText = () => {
+    if (!selectedSceneId) return;
+    const newObject = addObject(selectedSceneId, `Text ${selectedScene.objects.filter(o => o.text).length + 1}`);
+    // Text objects draw their text instead of a costume
+    updateObject(selectedSceneId, newObject.id, {
+      text: createDefaultTextConfig(),
+      costumes: [],
+      currentCostumeIndex: 0,
+    });
+    selectObject(newObject.id);
+  };
+
   const handleAddScene = () => {
     if (!project) return;
     const newName = `Scene ${project.scenes.length + 1}`;
@@ -268,6 +283,7 @@ export function SpriteShelf() {
       name: object.name,
       costumes: JSON.parse(JSON.stringify(effectiveProps.costumes)),
       sounds: JSON.parse(JSON.stringify(effectiveProps.sounds)),
+      animations: JSON.parse(JSON.stringify(effectiveProps.animations)),
       blocklyXml: effectiveProps.blocklyXml,
       physics: effectiveProps.physics ? JSON.parse(JSON.stringify(effectiveProps.physics)) : null,
       collider: effectiveProps.collider ? JSON.parse(JSON.stringify(effectiveProps.collider)) : null,
@@ -283,9 +299,19 @@ export function SpriteShelf() {
     const newObject = addObject(selectedSceneId, `${objectClipboard.name} (copy)`);
 
     // Generate new IDs for costumes and sounds
+    const costumeIds = new Map(objectClipboard.costumes.map(c => [c.id, crypto.randomUUID()]));
     const newCostumes = objectClipboard.costumes.map(c => ({
       ...c,
+      id: costumeIds.get(c.id)!,
+    }));
+    // Animations point at costumes, so follow them to their new IDs
+    const remapCostumeId = (id?: string) => (id ? costumeIds.get(id) ?? id : id);
+    const newAnimations = objectClipboard.animations.map(a => ({
+      ...a,
       id: crypto.randomUUID(),
+      firstCostumeId: remapCostumeId(a.firstCostumeId),
+      lastCostumeId: remapCostumeId(a.lastCostumeId),
+      sheetCostumeId: remapCostumeId(a.sheetCostumeId),
     }));
     const newSounds = objectClipboard.sounds.map(s => ({
       ...s,
@@ -299,6 +325,7 @@ export function SpriteShelf() {
     updateObject(selectedSceneId, newObject.id, {
       costumes: newCostumes,
       sounds: newSounds,
+      animations: newAnimations,
       blocklyXml: objectClipboard.blocklyXml,
       physics: objectClipboard.physics,
       collider: objectClipboard.collider,
@@ -528,6 +555,9 @@ export function SpriteShelf() {
           <Button size="icon-sm" variant="ghost" onClick={handleAddObject} title="Add Object">
             <Plus className="size-4" />
           </Button>
+          <Button size="icon-sm" variant="ghost" onClick={handleAddText} title="Add Text">
+            <Type className="size-4" />
+          </Button>
           <Button size="icon-sm" variant="ghost" onClick={() => setShowLibrary(true)} title="Object Library" disabled={savingToLibrary}>
             {savingToLibrary ? <Loader2 className="size-4 animate-spin" /> : <Library className="size-4" />}
           </Button>
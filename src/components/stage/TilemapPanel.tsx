@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { useProjectStore } from '@/store/projectStore';
+import { useEditorStore } from '@/store/editorStore';
+import type { TileTool } from '@/store/editorStore';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CostumePicker } from '@/components/dialogs/BackdropDialog';
+import { Paintbrush, Eraser, PaintBucket, Square, Trash2 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { cropImage } from '@/utils/imageProcessor';
+import { createTilemap, replaceTileset, resizeTilemap } from '@/utils/tilemap';
+import type { CostumeBounds, Scene, TilemapConfig } from '@/types';
+import { cn } from '@/lib/utils';
+
+const TILE_SIZES = [16, 32, 48, 64];
+const PALETTE_CELL_SIZE = 32;
+const MAX_MAP_SIZE = 500; // Columns or rows
+
+const TILE_TOOLS: { value: TileTool; label: string; icon: LucideIcon }[] = [
+  { value: 'paint', label: 'Paint', icon: Paintbrush },
+  { value: 'erase', label: 'Erase', icon: Eraser },
+  { value: 'fill', label: 'Fill', icon: PaintBucket },
+  { value: 'rect', label: 'Rectangle', icon: Square },
+];
+
+interface TilemapPanelProps {
+  scene: Scene | undefined;
+}
+
+// Show one tileset cell by shifting the whole tileset image behind a small box
+function tileStyle(tilemap: TilemapConfig, tile: number): React.CSSProperties {
+  const column = tile % tilemap.tilesetColumns;
+  const row = Math.floor(tile / tilemap.tilesetColumns);
+  return {
+    backgroundImage: `url(${tilemap.tileset})`,
+    backgroundPosition: `${-column * PALETTE_CELL_SIZE}px ${-row * PALETTE_CELL_SIZE}px`,
+    backgroundSize: `${tilemap.tilesetColumns * PALETTE_CELL_SIZE}px auto`,
+    backgroundRepeat: 'no-repeat',
+    imageRendering: 'pixelated',
+  };
+}
+
+/**
+ * Tile painting for the selected scene: pick a tileset, choose a tile and a tool, then
+ * paint on the stage. Tiles marked solid become static walls and floors when the game runs.
+ */
+export function TilemapPanel({ scene }: TilemapPanelProps) {
+  const { project, updateScene } = useProjectStore();
+  const { tileTool, setTileTool, selectedTile, setSelectedTile } = useEditorStore();
+  const [newTileSize, setNewTileSize] = useState(32);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  if (!scene || !project) {
+    return (
+      <div className="text-center text-muted-foreground text-sm py-4">
+        No scene selected
+      </div>
+    );
+  }
+
+  const tilemap = scene.tilemap ?? null;
+  const hasCostumes = scene.objects.some(o => o.costumes.some(c => !!c.bounds));
+
+  const updateTilemap = (updates: Partial<TilemapConfig>) => {
+    if (!tilemap) return;
+    updateScene(scene.id, { tilemap: { ...tilemap, ...updates } });
+  };
+
+  // Cut the costume's visible part into whole tiles; a new tileset keeps the painted map
+  const handleUseCostume = async (assetId: string, bounds: CostumeBounds) => {
+    const tileSize = tilemap?.tileSize ?? newTileSize;
+    const width = Math.max(1, Math.floor(bounds.width / tileSize)) * tileSize;
+    const height = Math.max(1, Math.floor(bounds.height / tileSize)) * tileSize;
+
+    setIsProcessing(true);
+    try {
+      const tileset = await cropImage(assetId, { ...bounds, width, height });
+      const created = createTilemap(tileset, width, height, tileSize, project.settings.canvasWidth, project.settings.canvasHeight);
+      if (tilemap) {
+        updateScene(scene.id, { tilemap: replaceTileset(tilemap, tileset, created.tilesetColumns, created.tileCount) });
+      } else {
+        updateScene(scene.id, { tilemap: created });
+        setTileTool('paint');
+      }
+      setSelectedTile(0);
+    } catch (error) {
+      console.error('Failed to use costume as tileset:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const setMapSize = (axis: 'columns' | 'rows', text: string) => {
+    if (!tilemap) return;
+    const value = Math.round(Number(text));
+    if (text.trim() === '' || isNaN(value)) return;
+    const size = Math.max(1, Math.min(MAX_MAP_SIZE, value));
+    if (size === tilemap[axis]) return;
+    updateScene(scene.id, {
+      tilemap: axis === 'columns'
+        ? resizeTilemap(tilemap, size, tilemap.rows)
+        : resizeTilemap(tilemap, tilemap.columns, size),
+    });
+  };
+
+  const toggleSolid = (solid: boolean) => {
+    if (!tilemap) return;
+    const others = tilemap.solidTiles.filter(tile => tile !== selectedTile);
+    updateTilemap({ solidTiles: solid ? [...others, selectedTile] : others });
+  };
+
+  const costumePicker = hasCostumes ? (
+    <CostumePicker scene={scene} disabled={isProcessing} onPick={handleUseCostume} />
+  ) : (
+    <div className="text-xs text-muted-foreground">
+      Paint a costume on any object in this scene first - its picture is cut into tiles.
+    </div>
+  );
+
+  if (!tilemap) {
+    return (
+      <div className="space-y-3">
+        <div className="text-xs text-muted-foreground">Tile size</div>
+        <div className="flex gap-1">
+          {TILE_SIZES.map(size => (
+            <Button
+              key={size}
+              variant={newTileSize === size ? 'default' : 'outline'}
+              size="sm"
+              className="flex-1"
+              onClick={() => setNewTileSize(size)}
+            >
+              {size}
+            </Button>
+          ))}
+        </div>
+        <div className="text-xs text-muted-foreground">Pick a costume to use as the tileset</div>
+        {costumePicker}
+      </div>
+    );
+  }
+
+  const isSolid = tilemap.solidTiles.includes(selectedTile);
+
+  return (
+    <div className="space-y-4">
+      {/* Tools */}
+      <div className="flex gap-1">
+        {TILE_TOOLS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant={tileTool === value ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setTileTool(value)}
+            title={label}
+          >
+            <Icon className="size-4" />
+          </Button>
+        ))}
+      </div>
+
+      {/* Tile palette */}
+      <div className="flex flex-wrap gap-1">
+        {Array.from({ length: tilemap.tileCount }, (_, tile) => (
+          <button
+            key={tile}
+            onClick={() => setSelectedTile(tile)}
+            className={cn(
+              'relative rounded-sm border bg-muted',
+              tile === selectedTile ? 'ring-2 ring-primary' : 'hover:border-primary'
+            )}
+            style={{ width: PALETTE_CELL_SIZE, height: PALETTE_CELL_SIZE, ...tileStyle(tilemap, tile) }}
+            title={`Tile ${tile + 1}${tilemap.solidTiles.includes(tile) ? ' (solid)' : ''}`}
+          >
+            {tilemap.solidTiles.includes(tile) && (
+              <span className="absolute bottom-0 right-0 w-2 h-2 rounded-full bg-green-500 border border-white" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="tile-solid-toggle"
+          checked={isSolid}
+          onCheckedChange={(checked) => toggleSolid(!!checked)}
+        />
+        <Label htmlFor="tile-solid-toggle" className="text-xs text-muted-foreground cursor-pointer">
+          Tile {selectedTile + 1} is solid (objects with physics can't pass through it)
+        </Label>
+      </div>
+
+      {/* Map size */}
+      <div className="flex items-center gap-2 border-t pt-3">
+        <Label className="text-xs text-muted-foreground">Columns</Label>
+        <Input
+          key={`columns-${tilemap.columns}`}
+          type="number"
+          min={1}
+          max={MAX_MAP_SIZE}
+          defaultValue={tilemap.columns}
+          onBlur={(e) => setMapSize('columns', e.target.value)}
+          className="h-7 w-20 text-xs"
+        />
+        <Label className="text-xs text-muted-foreground">Rows</Label>
+        <Input
+          key={`rows-${tilemap.rows}`}
+          type="number"
+          min={1}
+          max={MAX_MAP_SIZE}
+          defaultValue={tilemap.rows}
+          onBlur={(e) => setMapSize('rows', e.target.value)}
+          className="h-7 w-20 text-xs"
+        />
+      </div>
+
+      {/* Tileset */}
+      <div className="space-y-1 border-t pt-3">
+        <div className="text-xs text-muted-foreground">Change tileset ({tilemap.tileSize}px tiles)</div>
+        {costumePicker}
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-red-500 hover:text-red-700"
+        onClick={() => {
+          updateScene(scene.id, { tilemap: null });
+          setSelectedTile(0);
+        }}
+      >
+        <Trash2 className="size-3.5" /> Remove tilemap
+      </Button>
+    </div>
+  );
+}
@@ -331,8 +331,19 @@ export async function importProject(jsonString: string): Promise<Project> {
       obj.id = newObjId;
 
       // Generate new costume IDs
+      const costumeIdMap = new Map<string, string>();
       for (const costume of obj.costumes) {
-        costume.id = crypto.randomUUID();
+        const newCostumeId = crypto.randomUUID();
+        costumeIdMap.set(costume.id, newCostumeId);
+        costume.id = newCostumeId;
+      }
+
+      // Animations point at costumes, so follow them to their new IDs
+      const remapCostumeId = (id?: string) => (id ? costumeIdMap.get(id) ?? id : id);
+      for (const animation of obj.animations ?? []) {
+        animation.firstCostumeId = remapCostumeId(animation.firstCostumeId);
+        animation.lastCostumeId = remapCostumeId(animation.lastCostumeId);
+        animation.sheetCostumeId = remapCostumeId(animation.sheetCostumeId);
       }
 
       // Generate new sound IDs
@@ -341,6 +352,13 @@ export async function importProject(jsonString: string): Promise<Project> {
       }
     }
 
+    // Update joint targets once every object in the scene has its new ID
+    for (const obj of scene.objects) {
+      for (const joint of obj.joints ?? []) {
+        joint.targetId = objectIdMap.get(joint.targetId) ?? joint.targetId;
+      }
+    }
+
     // Update camera follow target reference
     if (scene.cameraConfig.followTarget && objectIdMap.has(scene.cameraConfig.followTarget)) {
       scene.cameraConfig.followTarget = objectIdMap.get(scene.cameraConfig.followTarget)!;
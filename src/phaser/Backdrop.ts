@@ -0,0 +1,138 @@
+import Phaser from 'phaser';
+import type { BackgroundConfig } from '../types';
+
+const BACKDROP_DEPTH = -100000; // Behind the ground and every sprite
+const TILE_MARGIN = 256; // Extra tiled area around the view so fast camera moves never show an edge
+
+let textureCounter = 0;
+
+/**
+ * Draws a scene backdrop: a flat camera color, an image covering the stage, or a repeating tile.
+ * The backdrop's scrollFactor gives parallax when the camera moves - 1 keeps it fixed to the world,
+ * 0 keeps it fixed on screen. Tiles are re-laid around the view each frame so they never run out.
+ */
+export class BackdropView {
+  private scene: Phaser.Scene;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private config: BackgroundConfig | null = null;
+  private image: Phaser.GameObjects.Image | null = null;
+  private tile: Phaser.GameObjects.TileSprite | null = null;
+  private textureKeys: Map<string, string> = new Map(); // Image data URL -> texture key
+
+  constructor(scene: Phaser.Scene, canvasWidth: number, canvasHeight: number) {
+    this.scene = scene;
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+    scene.events.on(Phaser.Scenes.Events.PRE_RENDER, this.handlePreRender, this);
+  }
+
+  // Colors fill the camera; images are drawn over the fallback color while they load
+  show(config: BackgroundConfig | null, fallbackColor: string): void {
+    this.config = config;
+    this.clearDisplay();
+
+    if (!config || config.type === 'color') {
+      this.scene.cameras.main.setBackgroundColor(config?.value || fallbackColor);
+      return;
+    }
+
+    this.scene.cameras.main.setBackgroundColor(fallbackColor);
+    if (!config.value) return;
+    this.loadTexture(config.value, (textureKey) => {
+      // Another backdrop may have been shown while this one loaded
+      if (this.config !== config) return;
+      this.createDisplay(config, textureKey);
+    });
+  }
+
+  destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.PRE_RENDER, this.handlePreRender, this);
+    this.clearDisplay();
+    for (const textureKey of this.textureKeys.values()) {
+      if (this.scene.textures.exists(textureKey)) {
+        this.scene.textures.remove(textureKey);
+      }
+    }
+    this.textureKeys.clear();
+  }
+
+  private loadTexture(dataUrl: string, onLoad: (textureKey: string) => void): void {
+    const existing = this.textureKeys.get(dataUrl);
+    if (existing && this.scene.textures.exists(existing)) {
+      onLoad(existing);
+      return;
+    }
+
+    const textureKey = `backdrop_${++textureCounter}`;
+    const img = new Image();
+    img.onload = () => {
+      if (!this.scene.sys.textures) return; // Scene was destroyed while loading
+      if (!this.scene.textures.exists(textureKey)) {
+        this.scene.textures.addImage(textureKey, img);
+      }
+      this.textureKeys.set(dataUrl, textureKey);
+      onLoad(textureKey);
+    };
+    img.src = dataUrl;
+  }
+
+  private createDisplay(config: BackgroundConfig, textureKey: string): void {
+    const scrollX = config.scrollFactor?.x ?? 1;
+    const scrollY = config.scrollFactor?.y ?? 1;
+
+    if (config.type === 'tiled') {
+      this.tile = this.scene.add.tileSprite(0, 0, 1, 1, textureKey);
+      this.tile.setOrigin(0, 0);
+      this.tile.setScrollFactor(scrollX, scrollY);
+      this.tile.setDepth(BACKDROP_DEPTH);
+      this.layoutTile();
+      return;
+    }
+
+    // Scale to cover the whole stage, keeping the image's shape
+    this.image = this.scene.add.image(this.canvasWidth / 2, this.canvasHeight / 2, textureKey);
+    const scale = Math.max(this.canvasWidth / this.image.width, this.canvasHeight / this.image.height);
+    this.image.setScale(scale);
+    this.image.setScrollFactor(scrollX, scrollY);
+    this.image.setDepth(BACKDROP_DEPTH);
+  }
+
+  private clearDisplay(): void {
+    this.image?.destroy();
+    this.image = null;
+    this.tile?.destroy();
+    this.tile = null;
+  }
+
+  private handlePreRender(): void {
+    this.layoutTile();
+  }
+
+  // Cover the camera view with the tile, snapping to whole tiles so the pattern stays put
+  private layoutTile(): void {
+    const tile = this.tile;
+    if (!tile) return;
+
+    const camera = this.scene.cameras.main;
+    const frame = tile.texture.getSourceImage();
+    const tileWidth = Math.max(1, frame.width);
+    const tileHeight = Math.max(1, frame.height);
+    const viewWidth = camera.width / camera.zoom;
+    const viewHeight = camera.height / camera.zoom;
+
+    // Where the view starts in this layer's space (zoom scales around the camera center)
+    const left = camera.scrollX * tile.scrollFactorX + (camera.width - viewWidth) / 2;
+    const top = camera.scrollY * tile.scrollFactorY + (camera.height - viewHeight) / 2;
+
+    const x = Math.floor((left - TILE_MARGIN) / tileWidth) * tileWidth;
+    const y = Math.floor((top - TILE_MARGIN) / tileHeight) * tileHeight;
+    tile.setPosition(x, y);
+
+    const width = Math.ceil(viewWidth + TILE_MARGIN * 2 + tileWidth);
+    const height = Math.ceil(viewHeight + TILE_MARGIN * 2 + tileHeight);
+    if (tile.width !== width || tile.height !== height) {
+      tile.setSize(width, height);
+    }
+  }
+}
@@ -1,39 +1,62 @@
 import * as Blockly from 'blockly';
 import { javascriptGenerator, Order } from 'blockly/javascript';
+import type { CustomBlockArgument, CustomBlockParamType, CustomBlockSpec } from '../types';
 
 /**
  * Register code generators for all custom blocks.
  * Generated code calls runtime.* methods.
  */
 export function registerCodeGenerators(): void {
+  // Each statement records its block ID so a runtime error can point at the block that failed.
+  // Loops can't freeze the game - every iteration ends in runtime.yield(), which time-slices them.
+  javascriptGenerator.STATEMENT_PREFIX = '__block = %1;\n';
+
   // --- Events ---
 
   // Event handlers receive sprite as parameter so they work correctly for clones
   javascriptGenerator.forBlock['event_game_start'] = function(block) {
     const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
-    return `runtime.onGameStart(spriteId, async function(sprite) {\n${nextCode}});\n`;
+    return `runtime.onGameStart(spriteId, async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   javascriptGenerator.forBlock['event_key_pressed'] = function(block) {
     const key = block.getFieldValue('KEY');
     const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
-    return `runtime.onKeyPressed(spriteId, '${key}', async function(sprite) {\n${nextCode}});\n`;
+    return `runtime.onKeyPressed(spriteId, '${key}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
+  };
+
+  javascriptGenerator.forBlock['event_key_released'] = function(block) {
+    const key = block.getFieldValue('KEY');
+    const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
+    return `runtime.onKeyReleased(spriteId, '${key}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   javascriptGenerator.forBlock['event_clicked'] = function(block) {
     const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
-    return `runtime.onClicked(spriteId, async function(sprite) {\n${nextCode}});\n`;
+    return `runtime.onClicked(spriteId, async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   javascriptGenerator.forBlock['event_forever'] = function(block) {
     const statements = javascriptGenerator.statementToCode(block, 'DO');
-    return `runtime.forever(spriteId, function(sprite) {\n${statements}});\n`;
+    return `runtime.forever(spriteId, async function(sprite) {\n${guardScript(block, statements)}});\n`;
+  };
+
+  javascriptGenerator.forBlock['event_when_backdrop_switches'] = function(block) {
+    const backdrop = block.getFieldValue('BACKDROP') || 'backdrop1';
+    const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
+    return `runtime.onBackdropSwitch(spriteId, '${backdrop}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
+  };
+
+  javascriptGenerator.forBlock['event_when_animation_finishes'] = function(block) {
+    const animation = block.getFieldValue('ANIMATION') || 'animation1';
+    const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
+    return `runtime.onAnimationFinish(spriteId, '${animation}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   javascriptGenerator.forBlock['event_when_touching'] = function(block) {
     const target = block.getFieldValue('TARGET');
     const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
-    return `runtime.onTouching(spriteId, '${target}', async function(sprite) {\n${nextCode}});\n`;
+    return `runtime.onTouching(spriteId, '${target}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   // --- Motion ---
@@ -133,6 +156,43 @@ export function registerCodeGenerators(): void {
 
   // --- Looks ---
 
+  javascriptGenerator.forBlock['looks_say'] = function(block) {
+    const message = javascriptGenerator.valueToCode(block, 'MESSAGE', Order.ATOMIC) || "''";
+    return `sprite.say(${message});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_say_for_secs'] = function(block) {
+    const message = javascriptGenerator.valueToCode(block, 'MESSAGE', Order.ATOMIC) || "''";
+    const seconds = javascriptGenerator.valueToCode(block, 'SECONDS', Order.ATOMIC) || '2';
+    return `await sprite.sayForSeconds(${message}, ${seconds});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_think'] = function(block) {
+    const message = javascriptGenerator.valueToCode(block, 'MESSAGE', Order.ATOMIC) || "''";
+    return `sprite.think(${message});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_think_for_secs'] = function(block) {
+    const message = javascriptGenerator.valueToCode(block, 'MESSAGE', Order.ATOMIC) || "''";
+    const seconds = javascriptGenerator.valueToCode(block, 'SECONDS', Order.ATOMIC) || '2';
+    return `await sprite.thinkForSeconds(${message}, ${seconds});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_set_text'] = function(block) {
+    const text = javascriptGenerator.valueToCode(block, 'TEXT', Order.ATOMIC) || "''";
+    return `sprite.setText(${text});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_append_text'] = function(block) {
+    const text = javascriptGenerator.valueToCode(block, 'TEXT', Order.ATOMIC) || "''";
+    return `sprite.appendText(${text});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_set_text_color'] = function(block) {
+    const color = block.getFieldValue('COLOR') || '#FFFFFF';
+    return `sprite.setTextColor('${color}');\n`;
+  };
+
   javascriptGenerator.forBlock['looks_show'] = function() {
     return 'sprite.show();\n';
   };
@@ -177,38 +237,63 @@ export function registerCodeGenerators(): void {
     return ['sprite.getCostumeNumber()', Order.FUNCTION_CALL];
   };
 
+  javascriptGenerator.forBlock['looks_play_animation'] = function(block) {
+    const animation = javascriptGenerator.valueToCode(block, 'ANIMATION', Order.ATOMIC) || "''";
+    return `sprite.playAnimation(${animation});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_stop_animation'] = function() {
+    return 'sprite.stopAnimation();\n';
+  };
+
+  javascriptGenerator.forBlock['looks_switch_backdrop'] = function(block) {
+    const backdrop = javascriptGenerator.valueToCode(block, 'BACKDROP', Order.ATOMIC) || '1';
+    return `runtime.switchBackdrop(${backdrop});\n`;
+  };
+
+  javascriptGenerator.forBlock['looks_next_backdrop'] = function() {
+    return 'runtime.nextBackdrop();\n';
+  };
+
+  javascriptGenerator.forBlock['looks_backdrop'] = function(block) {
+    const code = block.getFieldValue('PROPERTY') === 'NAME' ? 'runtime.getBackdropName()' : 'runtime.getBackdropNumber()';
+    return [code, Order.FUNCTION_CALL];
+  };
+
   // --- Control ---
 
   javascriptGenerator.forBlock['control_wait'] = function(block) {
     const seconds = javascriptGenerator.valueToCode(block, 'SECONDS', Order.ATOMIC) || '1';
-    return `await runtime.wait(${seconds});\n`;
+    return `await runtime.wait(${seconds}, sprite);\n`;
   };
 
+  // Loops yield to the scheduler at the end of every iteration, like Scratch
   javascriptGenerator.forBlock['control_repeat'] = function(block) {
     const times = javascriptGenerator.valueToCode(block, 'TIMES', Order.ATOMIC) || '10';
-    const statements = javascriptGenerator.statementToCode(block, 'DO');
-    return `for (let i = 0; i < ${times}; i++) {\n${statements}}\n`;
+    const branch = javascriptGenerator.statementToCode(block, 'DO');
+    return `for (let i = 0; i < ${times}; i++) {\n${branch}  await runtime.yield(sprite);\n}\n`;
   };
 
   javascriptGenerator.forBlock['control_repeat_until'] = function(block) {
     const condition = javascriptGenerator.valueToCode(block, 'CONDITION', Order.ATOMIC) || 'false';
-    const statements = javascriptGenerator.statementToCode(block, 'DO');
-    return `while (!(${condition})) {\n${statements}  await runtime.wait(0);\n}\n`;
+    const branch = javascriptGenerator.statementToCode(block, 'DO');
+    return `while (!(${condition})) {\n${branch}  await runtime.yield(sprite);\n}\n`;
   };
 
   javascriptGenerator.forBlock['control_for_each'] = function(block) {
     const list = javascriptGenerator.valueToCode(block, 'LIST', Order.ATOMIC) || '[]';
-    const statements = javascriptGenerator.statementToCode(block, 'DO');
-    return `for (const __currentItem__ of (${list} || [])) {\n${statements}}\n`;
+    const branch = javascriptGenerator.statementToCode(block, 'DO');
+    return `for (const __currentItem__ of (${list} || [])) {\n${branch}  await runtime.yield(sprite);\n}\n`;
   };
 
   javascriptGenerator.forBlock['control_current_item'] = function() {
     return ['__currentItem__', Order.ATOMIC];
   };
 
+  // Checks its condition once per frame, like Scratch, instead of polling through the frame budget
   javascriptGenerator.forBlock['control_wait_until'] = function(block) {
     const condition = javascriptGenerator.valueToCode(block, 'CONDITION', Order.ATOMIC) || 'false';
-    return `while (!(${condition})) { await runtime.wait(0); }\n`;
+    return `while (!(${condition})) {\n  await runtime.wait(0, sprite);\n}\n`;
   };
 
   javascriptGenerator.forBlock['control_stop'] = function(block) {
@@ -227,6 +312,15 @@ export function registerCodeGenerators(): void {
     return [`runtime.isKeyPressed('${key}')`, Order.FUNCTION_CALL];
   };
 
+  javascriptGenerator.forBlock['sensing_ask_and_wait'] = function(block) {
+    const question = javascriptGenerator.valueToCode(block, 'QUESTION', Order.ATOMIC) || "''";
+    return `await runtime.ask(${question}, sprite);\n`;
+  };
+
+  javascriptGenerator.forBlock['sensing_answer'] = function() {
+    return ['runtime.getAnswer()', Order.FUNCTION_CALL];
+  };
+
   javascriptGenerator.forBlock['sensing_mouse_down'] = function() {
     return ['runtime.isMouseDown()', Order.FUNCTION_CALL];
   };
@@ -284,6 +378,42 @@ export function registerCodeGenerators(): void {
     return `sprite.setFriction(${friction});\n`;
   };
 
+  javascriptGenerator.forBlock['physics_apply_force'] = function(block) {
+    const fx = javascriptGenerator.valueToCode(block, 'FX', Order.ATOMIC) || '0';
+    const fy = javascriptGenerator.valueToCode(block, 'FY', Order.ATOMIC) || '0';
+    return `sprite.applyForce(${fx}, ${fy});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_apply_impulse'] = function(block) {
+    const ix = javascriptGenerator.valueToCode(block, 'IX', Order.ATOMIC) || '0';
+    const iy = javascriptGenerator.valueToCode(block, 'IY', Order.ATOMIC) || '0';
+    const px = javascriptGenerator.valueToCode(block, 'PX', Order.ATOMIC) || '0';
+    const py = javascriptGenerator.valueToCode(block, 'PY', Order.ATOMIC) || '0';
+    return `sprite.applyImpulse(${ix}, ${iy}, ${px}, ${py});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_set_angular_velocity'] = function(block) {
+    const velocity = javascriptGenerator.valueToCode(block, 'VELOCITY', Order.ATOMIC) || '0';
+    return `sprite.setAngularVelocity(${velocity});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_set_mass'] = function(block) {
+    const value = javascriptGenerator.valueToCode(block, 'VALUE', Order.ATOMIC) || '1';
+    const method = block.getFieldValue('PROPERTY') === 'density' ? 'setDensity' : 'setMass';
+    return `sprite.${method}(${value});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_set_air_drag'] = function(block) {
+    const drag = javascriptGenerator.valueToCode(block, 'DRAG', Order.ATOMIC) || '0.01';
+    return `sprite.setAirDrag(${drag});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_velocity'] = function(block) {
+    const property = block.getFieldValue('PROPERTY');
+    const method = property === 'x' ? 'getVelocityX' : property === 'y' ? 'getVelocityY' : 'getSpeed';
+    return [`sprite.${method}()`, Order.FUNCTION_CALL];
+  };
+
   javascriptGenerator.forBlock['physics_collide_bounds'] = function(block) {
     const enabled = block.getFieldValue('ENABLED') === 'TRUE';
     return `sprite.setCollideWorldBounds(${enabled});\n`;
@@ -311,6 +441,27 @@ export function registerCodeGenerators(): void {
     return `runtime.setGroundColor('${color}');\n`;
   };
 
+  javascriptGenerator.forBlock['physics_connect'] = function(block) {
+    const target = block.getFieldValue('TARGET');
+    const type = block.getFieldValue('TYPE') || 'pin';
+    return `runtime.connect(spriteId, '${target}', '${type}');\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_connect_spring'] = function(block) {
+    const target = block.getFieldValue('TARGET');
+    const stiffness = javascriptGenerator.valueToCode(block, 'STIFFNESS', Order.ATOMIC) || '0.05';
+    return `runtime.connect(spriteId, '${target}', 'spring', ${stiffness});\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_disconnect'] = function(block) {
+    const target = block.getFieldValue('TARGET');
+    return `runtime.disconnect(spriteId, '${target}');\n`;
+  };
+
+  javascriptGenerator.forBlock['physics_disconnect_all'] = function() {
+    return 'runtime.disconnectAll(spriteId);\n';
+  };
+
   // --- Camera ---
 
   javascriptGenerator.forBlock['camera_follow_me'] = function() {
@@ -412,12 +563,18 @@ export function registerCodeGenerators(): void {
     return [`(${obj}?.getCostumeNumber() ?? 0)`, Order.FUNCTION_CALL];
   };
 
+  javascriptGenerator.forBlock['sensing_tile_at'] = function(block) {
+    const x = javascriptGenerator.valueToCode(block, 'X', Order.ATOMIC) || '0';
+    const y = javascriptGenerator.valueToCode(block, 'Y', Order.ATOMIC) || '0';
+    return [`runtime.getTileAt(${x}, ${y})`, Order.FUNCTION_CALL];
+  };
+
   // --- Messages ---
 
   javascriptGenerator.forBlock['event_when_receive'] = function(block) {
     const message = block.getFieldValue('MESSAGE') || 'message1';
     const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
-    return `runtime.onMessage(spriteId, '${message}', async function(sprite) {\n${nextCode}});\n`;
+    return `runtime.onMessage(spriteId, '${message}', async function(sprite) {\n${guardScript(block, nextCode)}});\n`;
   };
 
   javascriptGenerator.forBlock['control_broadcast'] = function(block) {
@@ -427,7 +584,7 @@ export function registerCodeGenerators(): void {
 
   javascriptGenerator.forBlock['control_broadcast_wait'] = function(block) {
     const message = block.getFieldValue('MESSAGE') || 'message1';
-    return `await runtime.broadcastAndWait('${message}');\n`;
+    return `await runtime.broadcastAndWait('${message}', sprite);\n`;
   };
 
   // --- Clone ---
@@ -468,18 +625,27 @@ export function registerCodeGenerators(): void {
 
   javascriptGenerator.forBlock['sound_play'] = function(block) {
     const sound = block.getFieldValue('SOUND') || 'pop';
-    return `runtime.playSound('${sound}');\n`;
+    return `runtime.playSound('${sound}', sprite);\n`;
   };
 
   javascriptGenerator.forBlock['sound_play_until_done'] = function(block) {
     const sound = block.getFieldValue('SOUND') || 'pop';
-    return `await runtime.playSoundUntilDone('${sound}');\n`;
+    return `await runtime.playSoundUntilDone('${sound}', sprite);\n`;
   };
 
   javascriptGenerator.forBlock['sound_stop_all'] = function() {
     return 'runtime.stopAllSounds();\n';
   };
 
+  javascriptGenerator.forBlock['sound_play_music'] = function(block) {
+    const sound = block.getFieldValue('SOUND') || 'pop';
+    return `runtime.playMusic('${sound}');\n`;
+  };
+
+  javascriptGenerator.forBlock['sound_stop_music'] = function() {
+    return 'runtime.stopMusic();\n';
+  };
+
   javascriptGenerator.forBlock['sound_set_volume'] = function(block) {
     const volume = javascriptGenerator.valueToCode(block, 'VOLUME', Order.ATOMIC) || '100';
     return `runtime.setVolume(${volume});\n`;
@@ -490,6 +656,193 @@ export function registerCodeGenerators(): void {
     return `runtime.changeVolume(${delta});\n`;
   };
 
+  // Effects belong to the object, so clones keep their own
+  javascriptGenerator.forBlock['sound_set_effect'] = function(block) {
+    const effect = (block.getFieldValue('EFFECT') || 'PITCH').toLowerCase();
+    const value = javascriptGenerator.valueToCode(block, 'VALUE', Order.ATOMIC) || '0';
+    return `runtime.setSoundEffect(sprite, '${effect}', ${value});\n`;
+  };
+
+  javascriptGenerator.forBlock['sound_change_effect'] = function(block) {
+    const effect = (block.getFieldValue('EFFECT') || 'PITCH').toLowerCase();
+    const delta = javascriptGenerator.valueToCode(block, 'DELTA', Order.ATOMIC) || '0';
+    return `runtime.changeSoundEffect(sprite, '${effect}', ${delta});\n`;
+  };
+
+  javascriptGenerator.forBlock['sound_clear_effects'] = function() {
+    return 'runtime.clearSoundEffects(sprite);\n';
+  };
+
+  // --- Music ---
+
+  javascriptGenerator.forBlock['music_play_drum'] = function(block) {
+    const drum = block.getFieldValue('DRUM') || 'kick';
+    const beats = javascriptGenerator.valueToCode(block, 'BEATS', Order.ATOMIC) || '0.25';
+    return `await runtime.playDrum(sprite, '${drum}', ${beats});\n`;
+  };
+
+  javascriptGenerator.forBlock['music_rest'] = function(block) {
+    const beats = javascriptGenerator.valueToCode(block, 'BEATS', Order.ATOMIC) || '0.25';
+    return `await runtime.rest(sprite, ${beats});\n`;
+  };
+
+  javascriptGenerator.forBlock['music_play_note'] = function(block) {
+    const note = javascriptGenerator.valueToCode(block, 'NOTE', Order.ATOMIC) || '60';
+    const beats = javascriptGenerator.valueToCode(block, 'BEATS', Order.ATOMIC) || '0.25';
+    return `await runtime.playNote(sprite, ${note}, ${beats});\n`;
+  };
+
+  javascriptGenerator.forBlock['music_set_instrument'] = function(block) {
+    const instrument = block.getFieldValue('INSTRUMENT') || 'piano';
+    return `runtime.setInstrument(sprite, '${instrument}');\n`;
+  };
+
+  javascriptGenerator.forBlock['music_set_tempo'] = function(block) {
+    const tempo = javascriptGenerator.valueToCode(block, 'TEMPO', Order.ATOMIC) || '60';
+    return `runtime.setTempo(${tempo});\n`;
+  };
+
+  javascriptGenerator.forBlock['music_change_tempo'] = function(block) {
+    const delta = javascriptGenerator.valueToCode(block, 'DELTA', Order.ATOMIC) || '20';
+    return `runtime.changeTempo(${delta});\n`;
+  };
+
+  javascriptGenerator.forBlock['music_tempo'] = function() {
+    return ['runtime.getTempo()', Order.FUNCTION_CALL];
+  };
+
+  // --- Pen ---
+
+  javascriptGenerator.forBlock['pen_clear'] = function() {
+    return 'runtime.penClear();\n';
+  };
+
+  javascriptGenerator.forBlock['pen_stamp'] = function() {
+    return 'sprite.stamp();\n';
+  };
+
+  javascriptGenerator.forBlock['pen_down'] = function() {
+    return 'sprite.penDown();\n';
+  };
+
+  javascriptGenerator.forBlock['pen_up'] = function() {
+    return 'sprite.penUp();\n';
+  };
+
+  javascriptGenerator.forBlock['pen_set_color'] = function(block) {
+    const color = block.getFieldValue('COLOR') || '#4C97FF';
+    return `sprite.setPenColor('${color}');\n`;
+  };
+
+  javascriptGenerator.forBlock['pen_set_size'] = function(block) {
+    const size = javascriptGenerator.valueToCode(block, 'SIZE', Order.ATOMIC) || '1';
+    return `sprite.setPenSize(${size});\n`;
+  };
+
+  javascriptGenerator.forBlock['pen_change_size'] = function(block) {
+    const delta = javascriptGenerator.valueToCode(block, 'DELTA', Order.ATOMIC) || '1';
+    return `sprite.changePenSize(${delta});\n`;
+  };
+
+  // --- Operators ---
+
+  javascriptGenerator.forBlock['operator_join'] = function(block) {
+    const a = operatorText(block, 'A');
+    const b = operatorText(block, 'B');
+    return [`${a} + ${b}`, Order.ADDITION];
+  };
+
+  javascriptGenerator.forBlock['operator_letter_of'] = function(block) {
+    const index = operatorNumber(block, 'INDEX');
+    const text = operatorText(block, 'TEXT');
+    return [`${text}.charAt(${index} - 1)`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_substring'] = function(block) {
+    const from = operatorNumber(block, 'FROM');
+    const to = operatorNumber(block, 'TO');
+    const text = operatorText(block, 'TEXT');
+    const fn = javascriptGenerator.provideFunction_('lettersOf', `
+function ${javascriptGenerator.FUNCTION_NAME_PLACEHOLDER_}(text, from, to) {
+  // 1-based and inclusive, clamped to the text
+  const start = Math.max(1, Math.round(from));
+  const end = Math.min(text.length, Math.round(to));
+  return start > end ? '' : text.slice(start - 1, end);
+}
+`);
+    return [`${fn}(${text}, ${from}, ${to})`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_length'] = function(block) {
+    const text = operatorText(block, 'TEXT');
+    return [`${text}.length`, Order.MEMBER];
+  };
+
+  javascriptGenerator.forBlock['operator_contains'] = function(block) {
+    const a = operatorText(block, 'A');
+    const b = operatorText(block, 'B');
+    return [`${a}.toLowerCase().includes(${b}.toLowerCase())`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_mod'] = function(block) {
+    const a = operatorNumber(block, 'A');
+    const b = operatorNumber(block, 'B');
+    const fn = javascriptGenerator.provideFunction_('mathMod', `
+function ${javascriptGenerator.FUNCTION_NAME_PLACEHOLDER_}(a, b) {
+  // Like Scratch, the result takes the sign of the divisor
+  const result = a % b;
+  return result !== 0 && (result < 0) !== (b < 0) ? result + b : result;
+}
+`);
+    return [`${fn}(${a}, ${b})`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_round'] = function(block) {
+    const num = operatorNumber(block, 'NUM');
+    return [`Math.round(${num})`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_mathop'] = function(block) {
+    const op = block.getFieldValue('OPERATOR') || 'abs';
+    const num = operatorNumber(block, 'NUM');
+    const fn = javascriptGenerator.provideFunction_('mathOp', `
+function ${javascriptGenerator.FUNCTION_NAME_PLACEHOLDER_}(op, n) {
+  // Trig works in degrees and is rounded so sin of 180 is exactly 0
+  const trig = (value) => Math.round(value * 1e10) / 1e10;
+  switch (op) {
+    case 'abs': return Math.abs(n);
+    case 'floor': return Math.floor(n);
+    case 'ceiling': return Math.ceil(n);
+    case 'sqrt': return Math.sqrt(n);
+    case 'sin': return trig(Math.sin(n * Math.PI / 180));
+    case 'cos': return trig(Math.cos(n * Math.PI / 180));
+    case 'tan': {
+      const angle = ((n % 360) + 360) % 360;
+      if (angle === 90) return Infinity;
+      if (angle === 270) return -Infinity;
+      return trig(Math.tan(angle * Math.PI / 180));
+    }
+    case 'asin': return Math.asin(n) * 180 / Math.PI;
+    case 'acos': return Math.acos(n) * 180 / Math.PI;
+    case 'atan': return Math.atan(n) * 180 / Math.PI;
+    case 'ln': return Math.log(n);
+    case 'log': return Math.log10(n);
+    case 'exp': return Math.exp(n);
+    case 'pow10': return Math.pow(10, n);
+  }
+  return 0;
+}
+`);
+    return [`${fn}('${op}', ${num})`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['operator_minmax'] = function(block) {
+    const op = block.getFieldValue('OPERATOR') === 'min' ? 'min' : 'max';
+    const a = operatorNumber(block, 'A');
+    const b = operatorNumber(block, 'B');
+    return [`Math.${op}(${a}, ${b})`, Order.FUNCTION_CALL];
+  };
+
   // --- Variable generators ---
   // Override the default variable getter/setter to use runtime
 
@@ -548,6 +901,158 @@ export function registerCodeGenerators(): void {
     return `runtime.changeTypedVariable('${varId}', ${delta}, sprite.id);\n`;
   };
 
+  javascriptGenerator.forBlock['typed_variable_show'] = function(block) {
+    const varId = block.getFieldValue('VAR') || '';
+    if (!varId) {
+      return '/* no variable selected */\n';
+    }
+    return `runtime.showVariable('${varId}', sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['typed_variable_hide'] = function(block) {
+    const varId = block.getFieldValue('VAR') || '';
+    if (!varId) {
+      return '/* no variable selected */\n';
+    }
+    return `runtime.hideVariable('${varId}');\n`;
+  };
+
+  // --- List generators ---
+  // Lists are referenced by variable ID like typed variables; indexes are 1-based
+
+  javascriptGenerator.forBlock['list_get'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return ['[] /* no list selected */', Order.ATOMIC];
+    }
+    return [`runtime.getList('${varId}', sprite.id)`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['list_add'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return '/* no list selected */\n';
+    }
+    const item = javascriptGenerator.valueToCode(block, 'ITEM', Order.ATOMIC) || "''";
+    return `runtime.addToList('${varId}', ${item}, sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['list_insert'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return '/* no list selected */\n';
+    }
+    const item = javascriptGenerator.valueToCode(block, 'ITEM', Order.ATOMIC) || "''";
+    const index = javascriptGenerator.valueToCode(block, 'INDEX', Order.ATOMIC) || '1';
+    return `runtime.insertInList('${varId}', ${index}, ${item}, sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['list_delete'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return '/* no list selected */\n';
+    }
+    const index = javascriptGenerator.valueToCode(block, 'INDEX', Order.ATOMIC) || '1';
+    return `runtime.deleteFromList('${varId}', ${index}, sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['list_delete_all'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return '/* no list selected */\n';
+    }
+    return `runtime.deleteAllOfList('${varId}', sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['list_replace'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return '/* no list selected */\n';
+    }
+    const index = javascriptGenerator.valueToCode(block, 'INDEX', Order.ATOMIC) || '1';
+    const item = javascriptGenerator.valueToCode(block, 'ITEM', Order.ATOMIC) || "''";
+    return `runtime.replaceInList('${varId}', ${index}, ${item}, sprite.id);\n`;
+  };
+
+  javascriptGenerator.forBlock['list_item'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return ["'' /* no list selected */", Order.ATOMIC];
+    }
+    const index = javascriptGenerator.valueToCode(block, 'INDEX', Order.ATOMIC) || '1';
+    return [`runtime.getListItem('${varId}', ${index}, sprite.id)`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['list_length'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return ['0 /* no list selected */', Order.ATOMIC];
+    }
+    return [`runtime.getListLength('${varId}', sprite.id)`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['list_contains'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return ['false /* no list selected */', Order.ATOMIC];
+    }
+    const item = javascriptGenerator.valueToCode(block, 'ITEM', Order.ATOMIC) || "''";
+    return [`runtime.listContains('${varId}', ${item}, sprite.id)`, Order.FUNCTION_CALL];
+  };
+
+  javascriptGenerator.forBlock['list_index_of'] = function(block) {
+    const varId = block.getFieldValue('LIST') || '';
+    if (!varId) {
+      return ['0 /* no list selected */', Order.ATOMIC];
+    }
+    const item = javascriptGenerator.valueToCode(block, 'ITEM', Order.ATOMIC) || "''";
+    return [`runtime.getListIndexOf('${varId}', ${item}, sprite.id)`, Order.FUNCTION_CALL];
+  };
+
+  // --- Custom block (procedure) generators ---
+  // A definition compiles to an async function declared inside the object's code wrapper,
+  // so custom blocks are scoped to the object (or component) that defines them.
+
+  javascriptGenerator.forBlock['custom_block_define'] = function(block) {
+    const spec = block.saveExtraState?.() as CustomBlockSpec | undefined;
+    if (!spec?.procId) return '';
+    const params = spec.params.map(p => `, ${customBlockArgName(p.id)}`).join('');
+    // Coerce arguments to the declared parameter types
+    const coercions = spec.params
+      .map(p => `  ${customBlockArgName(p.id)} = ${coerceCustomBlockArg(customBlockArgName(p.id), p.type)};\n`)
+      .join('');
+    const nextCode = javascriptGenerator.statementToCode(block, 'NEXT');
+    return `async function ${customBlockFunctionName(spec.procId)}(sprite${params}) {\n${coercions}${guardScript(block, nextCode)}}\n`;
+  };
+
+  javascriptGenerator.forBlock['custom_block_call'] = function(block) {
+    const spec = block.saveExtraState?.() as CustomBlockSpec | undefined;
+    // Use the definition's spec so arguments line up even if this block is stale
+    const definition = block.workspace.getBlocksByType('custom_block_define', false)
+      .map(b => b.saveExtraState?.() as CustomBlockSpec | undefined)
+      .find(s => s?.procId && s.procId === spec?.procId);
+    if (!definition) {
+      return '/* custom block not defined */\n';
+    }
+    const args = definition.params.map(p => {
+      const value = javascriptGenerator.valueToCode(block, `ARG_${p.id}`, Order.ATOMIC) || customBlockArgDefault(p.type);
+      return `, ${value}`;
+    }).join('');
+    return `await ${customBlockFunctionName(definition.procId)}(sprite${args});\n`;
+  };
+
+  javascriptGenerator.forBlock['custom_block_argument'] = function(block) {
+    const arg = block.saveExtraState?.() as CustomBlockArgument | undefined;
+    if (!arg) return ['0', Order.ATOMIC];
+    // Outside its own definition the parameter has no value
+    const root = block.getRootBlock();
+    const rootSpec = root.type === 'custom_block_define' ? root.saveExtraState?.() as CustomBlockSpec : null;
+    if (rootSpec?.procId !== arg.procId || !rootSpec.params.some(p => p.id === arg.paramId)) {
+      return [customBlockArgDefault(arg.type), Order.ATOMIC];
+    }
+    return [customBlockArgName(arg.paramId), Order.ATOMIC];
+  };
+
   // Boolean literal
   javascriptGenerator.forBlock['logic_boolean'] = function(block) {
     const value = block.getFieldValue('BOOL') === 'TRUE';
@@ -561,14 +1066,64 @@ export function registerCodeGenerators(): void {
   };
 }
 
+// Wrap a script body so errors thrown while it runs remember the last block that started
+function guardScript(block: Blockly.Block, body: string): string {
+  if (!body) return '';
+  const indent = javascriptGenerator.INDENT;
+  return `${indent}let __block = ${javascriptGenerator.injectId('%1', block)};\n`
+    + `${indent}try {\n${javascriptGenerator.prefixLines(body, indent)}${indent}} catch (e) {\n`
+    + `${indent}${indent}throw runtime.scriptError(e, __block);\n${indent}}\n`;
+}
+
+// Operator inputs coerce the same way typed variables do: numbers fall back to 0, text uses String()
+function operatorNumber(block: Blockly.Block, name: string): string {
+  const value = javascriptGenerator.valueToCode(block, name, Order.NONE) || '0';
+  return `(Number(${value}) || 0)`;
+}
+
+function operatorText(block: Blockly.Block, name: string): string {
+  const value = javascriptGenerator.valueToCode(block, name, Order.NONE) || "''";
+  return `String(${value})`;
+}
+
+// Identifiers for compiled custom blocks - IDs are sanitized to valid JS names
+function customBlockFunctionName(procId: string): string {
+  return `__custom_${procId.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function customBlockArgName(paramId: string): string {
+  return `__arg_${paramId.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function customBlockArgDefault(type: CustomBlockParamType): string {
+  switch (type) {
+    case 'number': return '0';
+    case 'text': return "''";
+    case 'boolean': return 'false';
+  }
+}
+
+function coerceCustomBlockArg(name: string, type: CustomBlockParamType): string {
+  switch (type) {
+    case 'number': return `Number(${name}) || 0`;
+    case 'text': return `String(${name} ?? '')`;
+    case 'boolean': return `Boolean(${name})`;
+  }
+}
+
 // Hat blocks (event blocks) that start code execution
+// Custom block definitions are included so their functions exist in the object's code
 const HAT_BLOCKS = [
   'event_game_start',
   'event_key_pressed',
+  'event_key_released',
   'event_clicked',
   'event_forever',
   'event_when_receive',
   'event_when_touching',
+  'event_when_backdrop_switches',
+  'event_when_animation_finishes',
+  'custom_block_define',
 ];
 
 /**
@@ -613,6 +1168,8 @@ export function generateCodeForObject(blocklyXml: string, objectId: string): str
     // Generate code only for hat blocks
     let code = '';
     for (const block of hatBlocks) {
+      // Hats sit outside the guarded script body, so they don't record themselves
+      block.suppressPrefixSuffix = true;
       try {
         const blockCode = javascriptGenerator.blockToCode(block);
         if (blockCode) {
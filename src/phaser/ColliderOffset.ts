@@ -0,0 +1,18 @@
+import Phaser from 'phaser';
+
+/**
+ * Collider offsets are stored on the container (colliderOffsetX/Y) relative to the unrotated
+ * object. Once the body turns, the offset turns with it, so it has to be rotated by the body's
+ * angle before moving between the object's position and the body's.
+ */
+
+export function getColliderOffset(container: Phaser.GameObjects.Container, angle: number): { x: number; y: number } {
+  const offsetX: number = container.getData('colliderOffsetX') ?? 0;
+  const offsetY: number = container.getData('colliderOffsetY') ?? 0;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: offsetX * cos - offsetY * sin,
+    y: offsetX * sin + offsetY * cos,
+  };
+}
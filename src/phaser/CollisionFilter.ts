@@ -0,0 +1,38 @@
+import type { CollisionLayer, PhysicsConfig } from '../types';
+import { DEFAULT_COLLISION_LAYER_ID } from '../types';
+
+/**
+ * Matter collision filters for collision layers. Each layer gets one category bit, in the
+ * order the project lists them; Matter only lets two bodies collide when each one's mask
+ * includes the other's category, so both objects have to collide with each other's layer.
+ */
+
+// Category of the ground and solid tiles - every object collides with them
+export const WORLD_CATEGORY = 1 << 30;
+
+export interface CollisionFilter {
+  category: number;
+  mask: number;
+}
+
+function getLayerBit(layers: CollisionLayer[], layerId: string | undefined): number {
+  const index = layers.findIndex(layer => layer.id === (layerId ?? DEFAULT_COLLISION_LAYER_ID));
+  // Objects left on a deleted layer fall back to the first one
+  return 1 << Math.max(0, index);
+}
+
+export function getCollisionFilter(layers: CollisionLayer[], physics: PhysicsConfig | null | undefined): CollisionFilter {
+  const category = getLayerBit(layers, physics?.layerId);
+  const collidesWith = physics?.collidesWith;
+  if (!collidesWith) {
+    return { category, mask: 0xFFFFFFFF };
+  }
+
+  let mask = WORLD_CATEGORY;
+  for (const layerId of collidesWith) {
+    if (layers.some(layer => layer.id === layerId)) {
+      mask |= getLayerBit(layers, layerId);
+    }
+  }
+  return { category, mask };
+}
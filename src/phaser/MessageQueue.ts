@@ -0,0 +1,62 @@
+import type { ThreadScheduler } from './ThreadScheduler';
+
+/**
+ * Broadcasts waiting to be delivered on the next update. broadcastAndWait waits on every
+ * receiving thread through the scheduler, so a receiver halted mid-script - its sprite stopped
+ * or deleted - counts as finished. Kept free of Phaser so it can be tested on its own.
+ */
+
+interface QueuedMessage {
+  message: string;
+  // Set by broadcastAndWait - called with the number of receiving scripts once they have all ended
+  onDone?: (receiverCount: number) => void;
+}
+
+// A script that receives a message, started when the message is delivered
+export interface MessageReceiver<Owner> {
+  owner: Owner;
+  start: () => Promise<void>;
+}
+
+export class MessageQueue<Owner> {
+  private queue: QueuedMessage[] = [];
+  private scheduler: ThreadScheduler<Owner>;
+
+  constructor(scheduler: ThreadScheduler<Owner>) {
+    this.scheduler = scheduler;
+  }
+
+  broadcast(message: string): void {
+    this.queue.push({ message });
+  }
+
+  /**
+   * Resolves with the number of scripts that received the message once they have all ended -
+   * with 0 right after delivery if nobody is listening. A sender that was stopped or deleted
+   * in the meantime stays halted.
+   */
+  broadcastAndWait(message: string, sender: Owner | null | undefined): Promise<number> {
+    return new Promise(resolve => {
+      this.queue.push({
+        message,
+        onDone: (receiverCount) => {
+          if (this.scheduler.isOwnerAlive(sender)) resolve(receiverCount);
+        },
+      });
+    });
+  }
+
+  // Start the receivers of every queued message
+  deliver(getReceivers: (message: string) => MessageReceiver<Owner>[]): void {
+    while (this.queue.length > 0) {
+      const { message, onDone } = this.queue.shift()!;
+      const running = getReceivers(message).map(({ owner, start }) => this.scheduler.track(owner, start()));
+      void Promise.all(running).then(() => onDone?.(running.length));
+    }
+  }
+
+  // Drop undelivered messages
+  clear(): void {
+    this.queue = [];
+  }
+}
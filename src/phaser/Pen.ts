@@ -0,0 +1,69 @@
+import Phaser from 'phaser';
+
+const PEN_DEPTH = -400; // In front of the backdrop, ground and tilemap, behind every sprite
+const PEN_MARGIN = 1; // Stage sizes of drawable world around the stage on each side
+
+export interface PenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A scene's pen drawing, kept in a render texture that lives in the world so drawings
+ * scroll with the camera. It covers the stage plus a margin around it; pen lines past
+ * the edge are clipped. Points are in Phaser world space.
+ */
+export class PenLayer {
+  private texture: Phaser.GameObjects.RenderTexture;
+  private brush: Phaser.GameObjects.Graphics;
+  private left: number;
+  private top: number;
+
+  constructor(scene: Phaser.Scene, canvasWidth: number, canvasHeight: number) {
+    this.left = -canvasWidth * PEN_MARGIN;
+    this.top = -canvasHeight * PEN_MARGIN;
+
+    const width = canvasWidth * (1 + PEN_MARGIN * 2);
+    const height = canvasHeight * (1 + PEN_MARGIN * 2);
+    this.texture = scene.add.renderTexture(this.left, this.top, width, height);
+    this.texture.setOrigin(0, 0);
+    this.texture.setDepth(PEN_DEPTH);
+
+    // Off the display list - only drawn into the texture
+    this.brush = scene.make.graphics({}, false);
+  }
+
+  // Round caps so joined lines and single dots look smooth, like Scratch's pen
+  drawLine(from: PenPoint, to: PenPoint, color: string, size: number): void {
+    const fill = Phaser.Display.Color.HexStringToColor(color);
+    const width = Math.max(1, size);
+    const x1 = from.x - this.left;
+    const y1 = from.y - this.top;
+    const x2 = to.x - this.left;
+    const y2 = to.y - this.top;
+
+    this.brush.clear();
+    this.brush.fillStyle(fill.color, 1);
+    this.brush.fillCircle(x1, y1, width / 2);
+    if (x1 !== x2 || y1 !== y2) {
+      this.brush.lineStyle(width, fill.color, 1);
+      this.brush.lineBetween(x1, y1, x2, y2);
+      this.brush.fillCircle(x2, y2, width / 2);
+    }
+    this.texture.draw(this.brush);
+  }
+
+  // Copy a sprite's current look (costume, rotation, size and transparency) into the drawing
+  stamp(container: Phaser.GameObjects.Container): void {
+    this.texture.draw(container, container.x - this.left, container.y - this.top);
+  }
+
+  clear(): void {
+    this.texture.clear();
+  }
+
+  destroy(): void {
+    this.brush.destroy();
+    this.texture.destroy();
+  }
+}
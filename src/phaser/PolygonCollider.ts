@@ -0,0 +1,54 @@
+import Phaser from 'phaser';
+import type { ColliderVertex } from '../types';
+
+/**
+ * Matter bodies for polygon colliders. Matter positions a body by its centre of mass, not by
+ * the point its vertices are relative to, so the centre is worked out here and returned
+ * alongside the body for the caller to add to the collider offset.
+ */
+
+// Area-weighted centre of a polygon, falling back to the average point for degenerate outlines
+function getCentroid(vertices: ColliderVertex[]): ColliderVertex {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-6) {
+    return {
+      x: vertices.reduce((sum, v) => sum + v.x, 0) / vertices.length,
+      y: vertices.reduce((sum, v) => sum + v.y, 0) / vertices.length,
+    };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/**
+ * Create a body from a polygon collider's outline. Concave outlines are split into convex parts.
+ * @param x - World position the vertices are relative to (object position plus collider offset)
+ * @returns The body and its centre relative to (x, y), or null if there aren't enough vertices
+ */
+export function createPolygonBody(
+  matter: Phaser.Physics.Matter.MatterPhysics,
+  x: number,
+  y: number,
+  vertices: ColliderVertex[] | undefined,
+  scaleX: number,
+  scaleY: number,
+  options: Phaser.Types.Physics.Matter.MatterBodyConfig
+): { body: MatterJS.BodyType; centerX: number; centerY: number } | null {
+  if (!vertices || vertices.length < 3) return null;
+
+  // Negative scale flips the outline along with the costume
+  const scaled = vertices.map(v => ({ x: v.x * scaleX, y: v.y * scaleY }));
+  const center = getCentroid(scaled);
+  const body = matter.add.fromVertices(x + center.x, y + center.y, [scaled], options);
+  return { body, centerX: center.x, centerY: center.y };
+}
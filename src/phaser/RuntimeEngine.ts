@@ -1,9 +1,21 @@
 import Phaser from 'phaser';
 import { RuntimeSprite } from './RuntimeSprite';
+import { ANY_KEY, keyNameFromCode } from './keyboard';
+import { VariableMonitorView } from './VariableMonitor';
+import { BackdropView } from './Backdrop';
+import { TilemapView } from './Tilemap';
+import { PenLayer } from './Pen';
+import { ThreadScheduler } from './ThreadScheduler';
+import { MessageQueue, type MessageReceiver } from './MessageQueue';
+import { getCollisionFilter, WORLD_CATEGORY, type CollisionFilter } from './CollisionFilter';
+import { SoundEngine, SoundMixer, type SoundDefinition, type SoundEffect } from './SoundEngine';
+import { DEFAULT_INSTRUMENT, isDrum, isInstrument, scheduleDrum, scheduleNote, type Instrument } from './Synth';
+import { EMPTY_TILE, getTile, getTileCell } from '../utils/tilemap';
+import type { Backdrop, CollisionLayer, JointType, ListItem, PhysicsConfig, TilemapConfig, VariableMonitor, VariableValue } from '../types';
+import { createDefaultVariableMonitor } from '../types';
 
 // Handlers receive sprite as parameter so they work correctly for clones
 type EventHandler = (sprite: RuntimeSprite) => void | Promise<void>;
-type ForeverHandler = (sprite: RuntimeSprite) => void;
 
 // Debug log that can be viewed in the debug panel
 export interface DebugLogEntry {
@@ -30,13 +42,96 @@ export function clearDebugLog() {
   runtimeDebugLog.length = 0;
 }
 
+// A script error reported to the editor so it can point at the block that failed
+export interface ScriptErrorReport {
+  objectId: string; // Original object (clones report their parent)
+  componentId: string | null; // Set when the blocks belong to a component
+  objectName: string;
+  blockId: string | null;
+  message: string; // Kid-friendly explanation
+}
+
+/**
+ * Error thrown out of a running script, tagged with the Blockly block that was running.
+ * `message` is written for kids; `detail` keeps the original error for the debug log.
+ */
+export class ScriptError extends Error {
+  readonly blockId: string | null;
+  readonly detail: string;
+
+  constructor(message: string, blockId: string | null, detail: string = message) {
+    super(message);
+    this.name = 'ScriptError';
+    this.blockId = blockId;
+    this.detail = detail;
+  }
+}
+
+// Question from an "ask and wait" block - the stage shows it as a text prompt
+export interface AskPrompt {
+  id: number; // New for every question shown, even when the text repeats
+  question: string; // Empty when the asking sprite shows the question in its speech bubble
+  submit: (answer: string) => void;
+}
+
+// Script parked on an "ask and wait" block
+interface PendingQuestion {
+  sprite: RuntimeSprite;
+  question: string;
+  inBubble: boolean;
+  resolve: () => void;
+}
+
+// Turn a JavaScript error into something a kid can act on
+function friendlyErrorMessage(error: unknown): string {
+  if (error instanceof RangeError && /call stack/i.test(error.message)) {
+    return 'This block keeps calling itself and never stops. Make sure your custom block has a way to finish.';
+  }
+  if (error instanceof TypeError) {
+    return 'This block tried to use something that isn\'t there anymore, like a deleted object or variable.';
+  }
+  return `Something went wrong in this block: ${error instanceof Error ? error.message : String(error)}`;
+}
+
 interface ObjectHandlers {
   onStart: EventHandler[];
   onKeyPressed: Map<string, EventHandler[]>;
+  onKeyReleased: Map<string, EventHandler[]>;
   onClick: EventHandler[];
   onTouching: Map<string, EventHandler[]>;
   onMessage: Map<string, EventHandler[]>;
-  forever: ForeverHandler[];
+  onBackdropSwitch: Map<string, EventHandler[]>;
+  onAnimationFinish: Map<string, EventHandler[]>;
+  forever: EventHandler[];
+}
+
+// Shown around image backdrops and while they load
+const BACKDROP_FALLBACK_COLOR = '#000000';
+
+// Same tempo limits as Scratch's music blocks (beats per minute)
+const MIN_TEMPO = 20;
+const MAX_TEMPO = 500;
+
+const ONE_WAY_TOLERANCE = 4; // Pixels a body can sink into a one-way platform and still land on it
+
+// Spring settings for joints made by blocks, which only set the stiffness
+const DEFAULT_SPRING_STIFFNESS = 0.05;
+const DEFAULT_SPRING_DAMPING = 0.05;
+// Welds pin two points this far apart (pixels) so the objects can't turn against each other
+const WELD_ARM = 20;
+
+// Matter constraints linking two sprites' bodies
+interface RuntimeJoint {
+  spriteId: string;
+  targetId: string;
+  type: JointType;
+  constraints: MatterJS.ConstraintType[];
+}
+
+// Monitor for one variable - the view is created the first time it is shown
+interface MonitorEntry {
+  config: VariableMonitor;
+  view: VariableMonitorView | null;
 }
 
 // Template for cloning - stores original object state
@@ -56,6 +151,7 @@ interface ObjectTemplate {
   visible: boolean;
   colliderConfig: import('../types').ColliderConfig | null;
   physicsConfig: import('../types').PhysicsConfig | null;
+  textConfig: import('../types').TextConfig | null;
   handlers: ObjectHandlers | null;
 }
 
@@ -66,16 +162,40 @@ interface ObjectTemplate {
 export class RuntimeEngine {
   public scene: Phaser.Scene;
   public sprites: Map<string, RuntimeSprite> = new Map();
-  public globalVariables: Map<string, number | string | boolean> = new Map();
-  public localVariables: Map<string, Map<string, number | string | boolean>> = new Map();
+  public globalVariables: Map<string, VariableValue> = new Map();
+  public localVariables: Map<string, Map<string, VariableValue>> = new Map();
+  private ownsGlobalVariables: boolean = true; // False once sharing the play session's store
 
   private handlers: Map<string, ObjectHandlers> = new Map();
   private templates: Map<string, ObjectTemplate> = new Map(); // Templates for cloning (persist after deletion)
-  private activeForeverLoops: Map<string, boolean> = new Map();
   private _isRunning: boolean = false;
-  private phaserKeys: Map<string, Phaser.Input.Keyboard.Key> = new Map();
+  // KeyboardEvent codes currently held down - kept per physical key because left and right
+  // shift (and the keypad and top row digits) share a key name
+  private pressedCodes: Set<string> = new Set();
   private cloneCounter: number = 0;
-  private messageQueue: string[] = [];
+
+  // Thread scheduler - only ticked while running, so waits stand still while paused
+  private scheduler = new ThreadScheduler<RuntimeSprite>(sprite => this.isThreadAlive(sprite));
+  private messageQueue = new MessageQueue<RuntimeSprite>(this.scheduler);
+  private _scriptErrorHandler: ((report: ScriptErrorReport) => void) | null = null;
+
+  // Ask and answer
+  private askQueue: PendingQuestion[] = []; // First entry is the question on screen
+  private _answer: string = '';
+  private askCounter: number = 0;
+  private _askHandler: ((prompt: AskPrompt | null) => void) | null = null;
+
+  // Variable monitors, keyed by variable ID
+  private monitors: Map<string, MonitorEntry> = new Map();
+
+  // Backdrops of this scene
+  private backdrops: Backdrop[] = [];
+  private backdropIndex: number = 0;
+  private backdropView: BackdropView | null = null;
+  private tilemap: TilemapConfig | null = null;
+  private tilemapView: TilemapView | null = null;
+  private penLayer: PenLayer | null = null; // Created by the first pen block
+  private collisionLayers: CollisionLayer[] = [];
 
   // Ground configuration
   private _groundEnabled: boolean = false;
@@ -120,7 +240,6 @@ export class RuntimeEngine {
   get canvasHeight(): number { return this._canvasHeight; }
 
   private setupInputListeners(): void {
-    // Create Phaser key objects for reliable key detection
     const keyboard = this.scene.input.keyboard;
     if (!keyboard) {
       debugLog('error', 'Keyboard input not available!');
@@ -129,51 +248,49 @@ export class RuntimeEngine {
 
     debugLog('info', 'Setting up keyboard input...');
 
-    // Register keys we care about
-    const keysToRegister = [
-      ['SPACE', Phaser.Input.Keyboard.KeyCodes.SPACE],
-      ['UP', Phaser.Input.Keyboard.KeyCodes.UP],
-      ['DOWN', Phaser.Input.Keyboard.KeyCodes.DOWN],
-      ['LEFT', Phaser.Input.Keyboard.KeyCodes.LEFT],
-      ['RIGHT', Phaser.Input.Keyboard.KeyCodes.RIGHT],
-      ['W', Phaser.Input.Keyboard.KeyCodes.W],
-      ['A', Phaser.Input.Keyboard.KeyCodes.A],
-      ['S', Phaser.Input.Keyboard.KeyCodes.S],
-      ['D', Phaser.Input.Keyboard.KeyCodes.D],
-    ] as const;
-
-    for (const [name, code] of keysToRegister) {
-      this.phaserKeys.set(name, keyboard.addKey(code));
-    }
-    debugLog('info', `Registered ${keysToRegister.length} keys: ${keysToRegister.map(k => k[0]).join(', ')}`);
-
-    // Listen for key down events for event_key_pressed blocks
+    // Stop the page from scrolling while playing
+    keyboard.addCapture('SPACE,UP,DOWN,LEFT,RIGHT');
+
+    // Track every key ourselves so any key works with "key pressed?" and key hats
+    // Keys typed into an "ask" prompt never reach scripts
     keyboard.on('keydown', (event: KeyboardEvent) => {
+      if (this.isAsking) return;
       const key = this.normalizeKey(event.code);
       debugLog('event', `Key down: ${event.code} -> ${key}`);
-      this.triggerKeyPressed(key);
+      this.pressedCodes.add(event.code);
+      this.triggerKeyEvent('pressed', key);
     });
 
     keyboard.on('keyup', (event: KeyboardEvent) => {
+      if (this.isAsking) return;
       const key = this.normalizeKey(event.code);
       debugLog('event', `Key up: ${event.code} -> ${key}`);
+      this.pressedCodes.delete(event.code);
+      // The key is only released once every physical key with its name is up
+      if (!this.isKeyDown(key)) {
+        this.triggerKeyEvent('released', key);
+      }
     });
+
+    // Keys released while the game is not focused never send keyup
+    this.scene.game.events.on(Phaser.Core.Events.BLUR, this.clearPressedKeys);
   }
 
+  private clearPressedKeys = (): void => {
+    this.pressedCodes.clear();
+  };
+
   private normalizeKey(code: string): string {
     // Map browser key codes to our key names
-    const mapping: Record<string, string> = {
-      'Space': 'SPACE',
-      'ArrowUp': 'UP',
-      'ArrowDown': 'DOWN',
-      'ArrowLeft': 'LEFT',
-      'ArrowRight': 'RIGHT',
-      'KeyW': 'W',
-      'KeyA': 'A',
-      'KeyS': 'S',
-      'KeyD': 'D',
-    };
-    return mapping[code] || code;
+    return keyNameFromCode(code);
+  }
+
+  private isKeyDown(key: string): boolean {
+    if (key === ANY_KEY) return this.pressedCodes.size > 0;
+    for (const code of this.pressedCodes) {
+      if (this.normalizeKey(code) === key) return true;
+    }
+    return false;
   }
 
   // --- Sprite Management ---
@@ -191,9 +308,12 @@ export class RuntimeEngine {
     this.handlers.set(id, {
       onStart: [],
       onKeyPressed: new Map(),
+      onKeyReleased: new Map(),
       onClick: [],
       onTouching: new Map(),
       onMessage: new Map(),
+      onBackdropSwitch: new Map(),
+      onAnimationFinish: new Map(),
       forever: [],
     });
     this.localVariables.set(id, new Map());
@@ -222,6 +342,7 @@ export class RuntimeEngine {
       visible: sprite.container.visible,
       colliderConfig: sprite.getColliderConfig(),
       physicsConfig: sprite.getPhysicsConfig(),
+      textConfig: sprite.getTextConfig(),
       handlers: null, // Handlers added later in updateTemplateHandlers
     });
 
@@ -238,9 +359,12 @@ export class RuntimeEngine {
       template.handlers = {
         onStart: [...handlers.onStart],
         onKeyPressed: new Map(handlers.onKeyPressed),
+        onKeyReleased: new Map(handlers.onKeyReleased),
         onClick: [...handlers.onClick],
         onTouching: new Map(handlers.onTouching),
         onMessage: new Map(handlers.onMessage),
+        onBackdropSwitch: new Map(handlers.onBackdropSwitch),
+        onAnimationFinish: new Map(handlers.onAnimationFinish),
         forever: [...handlers.forever],
       };
     }
@@ -281,6 +405,17 @@ export class RuntimeEngine {
     }
   }
 
+  onKeyReleased(spriteId: string, key: string, handler: EventHandler): void {
+    debugLog('info', `Registering onKeyReleased(${key}) for sprite ${spriteId}`);
+    const h = this.handlers.get(spriteId);
+    if (h) {
+      if (!h.onKeyReleased.has(key)) h.onKeyReleased.set(key, []);
+      h.onKeyReleased.get(key)!.push(handler);
+    } else {
+      debugLog('error', `No handlers found for sprite ${spriteId}`);
+    }
+  }
+
   onClicked(spriteId: string, handler: EventHandler): void {
     debugLog('info', `Registering onClicked for sprite ${spriteId}`);
     const h = this.handlers.get(spriteId);
@@ -293,7 +428,7 @@ export class RuntimeEngine {
         if (this._isRunning) {
           debugLog('event', `Click triggered on sprite ${spriteId}`);
           const currentSprite = this.sprites.get(spriteId);
-          if (currentSprite) handler(currentSprite);
+          if (currentSprite) this.startThread(currentSprite, handler, 'click handler');
         }
       });
     }
@@ -317,16 +452,35 @@ export class RuntimeEngine {
     }
   }
 
-  forever(spriteId: string, handler: ForeverHandler): void {
+  onBackdropSwitch(spriteId: string, backdropName: string, handler: EventHandler): void {
+    debugLog('info', `Registering onBackdropSwitch(${backdropName}) for sprite ${spriteId}`);
+    const h = this.handlers.get(spriteId);
+    if (h) {
+      if (!h.onBackdropSwitch.has(backdropName)) h.onBackdropSwitch.set(backdropName, []);
+      h.onBackdropSwitch.get(backdropName)!.push(handler);
+    }
+  }
+
+  onAnimationFinish(spriteId: string, animationName: string, handler: EventHandler): void {
+    debugLog('info', `Registering onAnimationFinish(${animationName}) for sprite ${spriteId}`);
+    const h = this.handlers.get(spriteId);
+    if (h) {
+      if (!h.onAnimationFinish.has(animationName)) h.onAnimationFinish.set(animationName, []);
+      h.onAnimationFinish.get(animationName)!.push(handler);
+    }
+  }
+
+  forever(spriteId: string, handler: EventHandler): void {
     debugLog('info', `Registering forever loop for sprite ${spriteId}`);
     const h = this.handlers.get(spriteId);
     if (h) {
       h.forever.push(handler);
       debugLog('info', `Forever loop count for ${spriteId}: ${h.forever.length}`);
-      // If game is already running (e.g., clone registering forever loop), activate immediately
-      if (this._isRunning) {
-        this.activeForeverLoops.set(spriteId, true);
-        debugLog('info', `Activated forever loop for ${spriteId} (runtime already running)`);
+      // If game is already running, start the loop right away
+      const sprite = this.sprites.get(spriteId);
+      if (this._isRunning && sprite) {
+        this.startForeverThread(sprite, handler);
+        debugLog('info', `Started forever loop for ${spriteId} (runtime already running)`);
       }
     } else {
       debugLog('error', `No handlers found for sprite ${spriteId}`);
@@ -336,73 +490,213 @@ export class RuntimeEngine {
 
   // --- Event Triggering ---
 
-  private triggerKeyPressed(key: string): void {
-    debugLog('event', `triggerKeyPressed(${key}) called, isRunning=${this._isRunning}`);
+  private triggerKeyEvent(kind: 'pressed' | 'released', key: string): void {
+    debugLog('event', `triggerKeyEvent(${kind}, ${key}) called, isRunning=${this._isRunning}`);
     if (!this._isRunning) {
-      debugLog('info', `Ignoring key press - runtime not running`);
+      debugLog('info', `Ignoring key ${kind} - runtime not running`);
       return;
     }
     for (const [spriteId, h] of this.handlers) {
       const sprite = this.sprites.get(spriteId);
       if (!sprite || sprite.isStopped()) continue;
-      const keyHandlers = h.onKeyPressed.get(key);
-      debugLog('info', `Checking handlers for sprite ${spriteId}: has ${key} handlers = ${!!keyHandlers}, count = ${keyHandlers?.length || 0}`);
-      if (keyHandlers) {
-        debugLog('event', `Executing ${keyHandlers.length} handler(s) for key ${key}`);
-        keyHandlers.forEach(handler => {
-          try {
-            handler(sprite);
-          } catch (e) {
-            debugLog('error', `Error in key handler: ${e}`);
-          }
-        });
+      const handlerMap = kind === 'pressed' ? h.onKeyPressed : h.onKeyReleased;
+      // "any key" hats fire for every key
+      const keyHandlers = [...(handlerMap.get(key) || []), ...(handlerMap.get(ANY_KEY) || [])];
+      if (keyHandlers.length > 0) {
+        debugLog('event', `Executing ${keyHandlers.length} handler(s) for key ${key} ${kind} on ${spriteId}`);
+        for (const handler of keyHandlers) {
+          this.startThread(sprite, handler, `key ${kind} handler`);
+        }
       }
     }
   }
 
-  async start(): Promise<void> {
+  // Only the sprite whose animation ended reacts
+  animationFinished(sprite: RuntimeSprite, animationName: string): void {
+    if (!this._isRunning || sprite.isStopped()) return;
+    const handlers = this.handlers.get(sprite.id)?.onAnimationFinish.get(animationName) ?? [];
+    for (const handler of handlers) {
+      this.startThread(sprite, handler, `"when animation ${animationName} finishes"`);
+    }
+  }
+
+  start(): void {
     debugLog('info', '=== Runtime starting ===');
     this._isRunning = true;
 
-    // Log registered handlers summary (before onStart)
+    // Log registered handlers summary
     for (const [spriteId, h] of this.handlers) {
       debugLog('info', `Sprite ${spriteId}: onStart=${h.onStart.length}, forever=${h.forever.length}, onKeyPressed=${h.onKeyPressed.size}`);
     }
 
-    // Execute all onStart handlers
-    // This is where forever loops get registered (inside onStart handlers)
-    for (const [spriteId, h] of this.handlers) {
-      const sprite = this.sprites.get(spriteId);
-      if (!sprite || sprite.isStopped()) continue;
-      for (const handler of h.onStart) {
-        try {
-          debugLog('event', `Executing onStart handler for ${spriteId}`);
-          await handler(sprite);
-        } catch (e) {
-          debugLog('error', `Error in onStart for ${spriteId}: ${e}`);
-          console.error(`Error in onStart for ${spriteId}:`, e);
-        }
-      }
-    }
-
-    // Update templates with handlers AFTER onStart handlers have run
-    // This ensures forever loops registered inside onStart are captured
+    // Capture handlers in templates so clones made by the scripts below get them
     for (const [spriteId, sprite] of this.sprites) {
       if (!sprite.isClone) {
         this.updateTemplateHandlers(spriteId);
       }
     }
 
-    // Start forever loops
+    // Every "when game starts" script and forever loop runs as its own thread
     for (const [spriteId, h] of this.handlers) {
-      if (h.forever.length > 0) {
-        this.activeForeverLoops.set(spriteId, true);
-        debugLog('info', `Activated forever loop for ${spriteId}`);
+      const sprite = this.sprites.get(spriteId);
+      if (!sprite || sprite.isStopped()) continue;
+      for (const handler of h.onStart) {
+        debugLog('event', `Starting onStart thread for ${spriteId}`);
+        this.startThread(sprite, handler, 'onStart');
+      }
+      for (const handler of h.forever) {
+        this.startForeverThread(sprite, handler);
       }
     }
     debugLog('info', '=== Runtime started ===');
   }
 
+  // --- Thread Scheduler ---
+  // Each script runs as its own thread (an async function). Threads give control back at loop
+  // boundaries via yield() and wait(); update() ticks the scheduler to resume them each frame.
+  // A thread whose sprite is stopped or deleted is never resumed, so stop really halts scripts.
+
+  /**
+   * Run a script as a new thread. Errors are logged instead of escaping into Phaser.
+   * The returned promise settles when the thread finishes (never, if it is halted).
+   */
+  private startThread(sprite: RuntimeSprite, handler: EventHandler, label: string): Promise<void> {
+    return Promise.resolve()
+      .then(() => handler(sprite))
+      .catch(e => this.reportScriptError(sprite, e, label));
+  }
+
+  // Forever hats run their body once per frame until the sprite stops
+  private startForeverThread(sprite: RuntimeSprite, handler: EventHandler): void {
+    this.startThread(sprite, async (s) => {
+      for (;;) {
+        await handler(s);
+        await this.scheduler.sleep(s, 0);
+      }
+    }, 'forever loop');
+  }
+
+  private isThreadAlive(sprite: RuntimeSprite | null | undefined): boolean {
+    if (!sprite) return true;
+    return !sprite.isStopped() && this.sprites.get(sprite.id) === sprite;
+  }
+
+  // Drop parked threads of a sprite that was stopped or removed
+  private dropThreads(sprite: RuntimeSprite): void {
+    this.scheduler.drop(sprite);
+
+    // Scripts waiting on a question are parked too
+    const wasAsking = this.askQueue[0]?.sprite === sprite;
+    this.askQueue = this.askQueue.filter(q => q.sprite !== sprite);
+    if (wasAsking) this.showNextQuestion();
+  }
+
+  /**
+   * Called by generated code at the end of every loop iteration.
+   * Keeps running in the current frame while nothing visible has changed and the frame
+   * budget lasts, otherwise parks the thread until the next frame so the stage can redraw.
+   */
+  yield(sprite?: RuntimeSprite): Promise<void> {
+    if (!this._isRunning) return this.scheduler.sleep(sprite, 0);
+    return this.scheduler.yield(sprite);
+  }
+
+  // Sprites call this when they change on screen, so looping scripts yield for a redraw
+  requestRedraw(): void {
+    this.scheduler.requestRedraw();
+  }
+
+  // --- Script Errors ---
+
+  setScriptErrorHandler(handler: ((report: ScriptErrorReport) => void) | null): void {
+    this._scriptErrorHandler = handler;
+  }
+
+  /**
+   * Called by generated code when a script throws. Tags the error with the block that was
+   * running - errors already tagged by an inner script (a custom block) keep their block.
+   */
+  scriptError(error: unknown, blockId: string | null): ScriptError {
+    if (error instanceof ScriptError) return error;
+    const detail = error instanceof Error ? error.message : String(error);
+    return new ScriptError(friendlyErrorMessage(error), blockId, detail);
+  }
+
+  // The failing thread has already ended - log it and tell the editor which block failed
+  private reportScriptError(sprite: RuntimeSprite, error: unknown, label: string): void {
+    const scriptError = this.scriptError(error, null);
+    const objectId = sprite.cloneParentId || sprite.id;
+    debugLog('error', `Error in ${label} for ${sprite.name}: ${scriptError.detail}`);
+    console.error(`Error in ${label} for ${sprite.id}:`, error);
+    this._scriptErrorHandler?.({
+      objectId,
+      componentId: sprite.componentId,
+      objectName: this.templates.get(objectId)?.name ?? sprite.name,
+      blockId: scriptError.blockId,
+      message: scriptError.message,
+    });
+  }
+
+  // --- Ask and Answer ---
+
+  setAskHandler(handler: ((prompt: AskPrompt | null) => void) | null): void {
+    this._askHandler = handler;
+  }
+
+  /**
+   * Ask the player a question and park the calling script until they answer.
+   * Other scripts keep running. Questions from several scripts are shown one at a time.
+   */
+  ask(question: unknown, sprite: RuntimeSprite): Promise<void> {
+    return new Promise(resolve => {
+      this.askQueue.push({ sprite, question: String(question ?? ''), inBubble: false, resolve });
+      if (this.askQueue.length === 1) this.showNextQuestion();
+    });
+  }
+
+  getAnswer(): string {
+    return this._answer;
+  }
+
+  get isAsking(): boolean {
+    return this.askQueue.length > 0;
+  }
+
+  private showNextQuestion(): void {
+    const keyboard = this.scene.input.keyboard;
+    const current = this.askQueue[0];
+    if (!current) {
+      keyboard?.enableGlobalCapture();
+      this._askHandler?.(null);
+      return;
+    }
+
+    // Let the prompt receive space and arrow keys, and forget keys held when it opened
+    keyboard?.disableGlobalCapture();
+    this.pressedCodes.clear();
+
+    // Like Scratch, a visible sprite asks in its speech bubble
+    current.inBubble = current.sprite.container.visible;
+    if (current.inBubble) current.sprite.say(current.question);
+
+    this._askHandler?.({
+      id: ++this.askCounter,
+      question: current.inBubble ? '' : current.question,
+      submit: (answer) => this.answerQuestion(current, answer),
+    });
+  }
+
+  private answerQuestion(pending: PendingQuestion, answer: string): void {
+    // Ignore a stale prompt (its script was stopped or it was already answered)
+    if (this.askQueue[0] !== pending) return;
+    this.askQueue.shift();
+    this._answer = answer;
+    debugLog('event', `${pending.sprite.name} got the answer "${answer}"`);
+    if (pending.inBubble) pending.sprite.clearBubble();
+    pending.resolve();
+    this.showNextQuestion();
+  }
+
   private frameCount = 0;
   update(): void {
     if (!this._isRunning) return;
@@ -411,36 +705,17 @@ export class RuntimeEngine {
 
     // Log every 60 frames (about once per second)
     if (this.frameCount % 60 === 0) {
-      debugLog('info', `Update frame ${this.frameCount}, active forever loops: ${this.activeForeverLoops.size}`);
+      debugLog('info', `Update frame ${this.frameCount}, sleeping threads: ${this.scheduler.sleepingCount}`);
 
       // Log key states
-      const keyStates: string[] = [];
-      for (const [key, phaserKey] of this.phaserKeys) {
-        if (phaserKey.isDown) {
-          keyStates.push(key);
-        }
-      }
+      const keyStates = Array.from(this.pressedCodes, code => this.normalizeKey(code));
       if (keyStates.length > 0) {
         debugLog('info', `Keys currently down: ${keyStates.join(', ')}`);
       }
     }
 
-    // Run forever loops - only for original sprites, not clones
-    // Clones inherit forever handlers but should run them with their own context
-    for (const [spriteId, h] of this.handlers) {
-      const sprite = this.sprites.get(spriteId);
-      if (!sprite || sprite.isStopped()) continue;
-      if (!this.activeForeverLoops.get(spriteId)) continue;
-
-      for (const handler of h.forever) {
-        try {
-          handler(sprite);
-        } catch (e) {
-          debugLog('error', `Error in forever loop for ${spriteId}: ${e}`);
-          console.error(`Error in forever loop for ${spriteId}:`, e);
-        }
-      }
-    }
+    // Resume threads that are waiting for this frame
+    this.scheduler.tick(this.scene.game.loop.delta);
 
     // Clear touching pairs from previous frame
     this._touchingPairs.clear();
@@ -450,10 +725,14 @@ export class RuntimeEngine {
     for (const sprite of this.sprites.values()) {
       // Clear ground touching flags - they will be set again by collision callbacks next physics step
       sprite.setTouchingGround(false);
+      // Glides and physics move sprites without motion blocks, so trail their pens here
+      sprite.updatePen();
     }
 
     // Process message queue
     this.processMessages();
+
+    this.updateMonitors();
   }
 
   /**
@@ -466,16 +745,18 @@ export class RuntimeEngine {
     // We just need to listen for collision events for "when touching" handlers
 
     // Helper to find sprite IDs from collision bodies
+    // Pairs hold the parts of compound (concave polygon) bodies, so match the part's parent too
     const findSpriteIds = (bodyA: MatterJS.BodyType, bodyB: MatterJS.BodyType) => {
       let spriteIdA: string | null = null;
       let spriteIdB: string | null = null;
 
       for (const sprite of this.sprites.values()) {
         const spriteBody = (sprite.container as unknown as { body?: MatterJS.BodyType }).body;
-        if (spriteBody === bodyA || spriteBody?.parent === bodyA) {
+        if (!spriteBody) continue;
+        if (spriteBody === bodyA || spriteBody === bodyA.parent) {
           spriteIdA = sprite.id;
         }
-        if (spriteBody === bodyB || spriteBody?.parent === bodyB) {
+        if (spriteBody === bodyB || spriteBody === bodyB.parent) {
           spriteIdB = sprite.id;
         }
       }
@@ -488,6 +769,7 @@ export class RuntimeEngine {
         const bodyA = pair.bodyA;
         const bodyB = pair.bodyB;
         const { spriteIdA, spriteIdB } = findSpriteIds(bodyA, bodyB);
+        this.checkOneWayPlatform(pair, spriteIdA, spriteIdB);
 
         // Handle sprite-to-sprite collision events
         if (spriteIdA && spriteIdB) {
@@ -495,6 +777,8 @@ export class RuntimeEngine {
         }
 
         // Also handle ground collision on start (first frame of contact)
+        // Sensors pass through the ground, so they never stand on it
+        if (pair.isSensor) continue;
         const isGroundA = bodyA === this._groundBody || bodyA.label === 'ground';
         const isGroundB = bodyB === this._groundBody || bodyB.label === 'ground';
         if (isGroundA || isGroundB) {
@@ -510,6 +794,7 @@ export class RuntimeEngine {
     // This is critical for ground detection - we need to know EVERY frame if touching ground
     this.scene.matter.world.on('collisionactive', (event: Phaser.Physics.Matter.Events.CollisionActiveEvent) => {
       for (const pair of event.pairs) {
+        if (pair.isSensor) continue;
         const bodyA = pair.bodyA;
         const bodyB = pair.bodyB;
 
@@ -528,6 +813,9 @@ export class RuntimeEngine {
       }
     });
 
+    // Ropes only pull, so they go slack while the objects are closer than the rope is long
+    this.scene.matter.world.on('beforeupdate', () => this.updateRopes());
+
     // Set up ground body if ground is enabled
     if (this._groundEnabled) {
       this.updateGroundBody();
@@ -536,6 +824,32 @@ export class RuntimeEngine {
     debugLog('info', `Physics colliders set up for ${sprites.length} sprites (Matter.js)`);
   }
 
+  /**
+   * Let a body through a one-way platform unless it's landing on top. Matter keeps a pair for
+   * as long as two bodies overlap, so making it a sensor here lets the body pass all the way
+   * through before the platform can catch it again.
+   */
+  private checkOneWayPlatform(pair: Phaser.Types.Physics.Matter.MatterCollisionPair, spriteIdA: string | null, spriteIdB: string | null): void {
+    if (pair.isSensor) return;
+    const isPlatformA = !!spriteIdA && !!this.sprites.get(spriteIdA)?.isOneWayPlatform();
+    const isPlatformB = !!spriteIdB && !!this.sprites.get(spriteIdB)?.isOneWayPlatform();
+    if (!isPlatformA && !isPlatformB) return;
+
+    // Only moving objects pass through - never the ground, tiles or static objects
+    const otherId = isPlatformA ? spriteIdB : spriteIdA;
+    const platform = isPlatformA ? pair.bodyA.parent : pair.bodyB.parent;
+    const other = isPlatformA ? pair.bodyB.parent : pair.bodyA.parent;
+    if (!otherId || other.isStatic || !other.vertices || !platform.vertices) return;
+
+    // Where the other body's bottom was before this step moved it. Vertices are used rather
+    // than bounds because Matter stretches bounds along the velocity
+    const previousBottom = Math.max(...other.vertices.map(v => v.y)) - other.velocity.y;
+    const platformTop = Math.min(...platform.vertices.map(v => v.y));
+    if (previousBottom > platformTop + ONE_WAY_TOLERANCE) {
+      pair.isSensor = true;
+    }
+  }
+
   private groundLogThrottle = 0;
   private handleGroundCollision(spriteId: string): void {
     const sprite = this.sprites.get(spriteId);
@@ -565,13 +879,13 @@ export class RuntimeEngine {
       // Direct handler for B
       const touchHandlersA = handlersA.onTouching.get(spriteIdB);
       if (touchHandlersA) {
-        touchHandlersA.forEach(handler => handler(spriteA));
+        touchHandlersA.forEach(handler => this.startThread(spriteA, handler, 'touching handler'));
       }
       // Component-any handler for B's component
       if (spriteB?.componentId) {
         const componentAnyHandlers = handlersA.onTouching.get(`COMPONENT_ANY:${spriteB.componentId}`);
         if (componentAnyHandlers) {
-          componentAnyHandlers.forEach(handler => handler(spriteA));
+          componentAnyHandlers.forEach(handler => this.startThread(spriteA, handler, 'touching handler'));
         }
       }
     }
@@ -582,44 +896,55 @@ export class RuntimeEngine {
       // Direct handler for A
       const touchHandlersB = handlersB.onTouching.get(spriteIdA);
       if (touchHandlersB) {
-        touchHandlersB.forEach(handler => handler(spriteB));
+        touchHandlersB.forEach(handler => this.startThread(spriteB, handler, 'touching handler'));
       }
       // Component-any handler for A's component
       if (spriteA?.componentId) {
         const componentAnyHandlers = handlersB.onTouching.get(`COMPONENT_ANY:${spriteA.componentId}`);
         if (componentAnyHandlers) {
-          componentAnyHandlers.forEach(handler => handler(spriteB));
+          componentAnyHandlers.forEach(handler => this.startThread(spriteB, handler, 'touching handler'));
         }
       }
     }
   }
 
   private processMessages(): void {
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift()!;
+    this.messageQueue.deliver(message => {
+      const receivers: MessageReceiver<RuntimeSprite>[] = [];
+
+      // Handlers map includes clones, so they receive the message too
       for (const [spriteId, h] of this.handlers) {
         const sprite = this.sprites.get(spriteId);
         if (!sprite || sprite.isStopped()) continue;
-        const msgHandlers = h.onMessage.get(message);
-        if (msgHandlers) {
-          msgHandlers.forEach(handler => handler(sprite));
+        for (const handler of h.onMessage.get(message) ?? []) {
+          receivers.push({
+            owner: sprite,
+            start: () => this.startThread(sprite, handler, `"when I receive ${message}"`),
+          });
         }
       }
-    }
+      return receivers;
+    });
   }
 
   // --- Actions ---
 
   broadcast(message: string): void {
-    this.messageQueue.push(message);
+    this.messageQueue.broadcast(message);
   }
 
-  broadcastAndWait(message: string): Promise<void> {
-    return new Promise(resolve => {
-      this.broadcast(message);
-      // Simple implementation - just wait a tick
-      setTimeout(resolve, 16);
-    });
+  /**
+   * Broadcast a message and wait until every receiving script (including clones) has ended -
+   * finished, failed, or halted because its sprite was stopped or deleted.
+   * Messages are delivered on the next update. Resolves with the number of scripts that
+   * received the message - if nobody is listening it resolves with 0 right after delivery.
+   */
+  async broadcastAndWait(message: string, sprite?: RuntimeSprite): Promise<number> {
+    const receiverCount = await this.messageQueue.broadcastAndWait(message, sprite);
+    if (receiverCount === 0) {
+      debugLog('event', `broadcastAndWait("${message}"): nobody is listening`);
+    }
+    return receiverCount;
   }
 
   consoleLog(value: unknown): void {
@@ -667,10 +992,15 @@ export class RuntimeEngine {
 
   stopAll(): void {
     this._isRunning = false;
-    this.activeForeverLoops.clear();
     for (const sprite of this.sprites.values()) {
       sprite.stop();
     }
+    // Parked threads are never resumed
+    this.scheduler.clear();
+    if (this.isAsking) {
+      this.askQueue = [];
+      this.showNextQuestion();
+    }
   }
 
   /**
@@ -682,7 +1012,8 @@ export class RuntimeEngine {
 
     // Stop all sounds before destroying
     try {
-      this.stopAllSounds();
+      this.sounds.destroy();
+      if (this.ownsSoundEngine) this.soundEngine.close();
       // Also stop sound manager to prevent AudioContext errors
       if (this.scene?.sound) {
         this.scene.sound.stopAll();
@@ -696,17 +1027,36 @@ export class RuntimeEngine {
     const keyboard = this.scene.input.keyboard;
     if (keyboard) {
       keyboard.removeAllListeners();
-      // Remove all registered keys
-      for (const key of this.phaserKeys.values()) {
-        keyboard.removeKey(key);
-      }
-      this.phaserKeys.clear();
+      keyboard.clearCaptures();
     }
+    this.scene.game?.events.off(Phaser.Core.Events.BLUR, this.clearPressedKeys);
+    this.pressedCodes.clear();
+
+    // Drop undelivered messages
+    this.messageQueue.clear();
+
+    for (const { view } of this.monitors.values()) {
+      view?.destroy();
+    }
+    this.monitors.clear();
+
+    this.backdropView?.destroy();
+    this.backdropView = null;
+    this.tilemapView?.destroy();
+    this.tilemapView = null;
+    this.penLayer?.destroy();
+    this.penLayer = null;
+
+    // Joints go with the physics world
+    this.joints = [];
 
     // Clear all handlers
     this.handlers.clear();
     this.sprites.clear();
-    this.globalVariables.clear();
+    // A shared store outlives this scene - the play session clears it
+    if (this.ownsGlobalVariables) {
+      this.globalVariables.clear();
+    }
     this.localVariables.clear();
 
     debugLog('info', 'RuntimeEngine cleanup complete');
@@ -714,27 +1064,24 @@ export class RuntimeEngine {
 
   stopSprite(spriteId: string): void {
     const sprite = this.sprites.get(spriteId);
-    if (sprite) sprite.stop();
-    this.activeForeverLoops.set(spriteId, false);
+    if (sprite) {
+      sprite.stop();
+      this.dropThreads(sprite);
+    }
   }
 
   // --- Input Queries ---
 
   private lastKeyCheckLog = 0;
   isKeyPressed(key: string): boolean {
-    const phaserKey = this.phaserKeys.get(key);
-    if (phaserKey) {
-      const isDown = phaserKey.isDown;
-      // Log only once per second to avoid spam
-      const now = Date.now();
-      if (isDown && now - this.lastKeyCheckLog > 1000) {
-        debugLog('action', `isKeyPressed(${key}) = ${isDown}`);
-        this.lastKeyCheckLog = now;
-      }
-      return isDown;
+    const isDown = this.isKeyDown(key);
+    // Log only once per second to avoid spam
+    const now = Date.now();
+    if (isDown && now - this.lastKeyCheckLog > 1000) {
+      debugLog('action', `isKeyPressed(${key}) = ${isDown}`);
+      this.lastKeyCheckLog = now;
     }
-    debugLog('error', `isKeyPressed: Unknown key "${key}"`);
-    return false;
+    return isDown;
   }
 
   isMouseDown(): boolean {
@@ -753,7 +1100,20 @@ export class RuntimeEngine {
 
   // --- Variables ---
 
-  getVariable(name: string, spriteId?: string): number | string | boolean {
+  // Every scene's runtime reads and writes the same globals for the whole play session
+  shareGlobalVariables(store: Map<string, VariableValue>): void {
+    this.globalVariables = store;
+    this.ownsGlobalVariables = false;
+  }
+
+  // Forget the current values so the variables read as their defaults again
+  resetGlobalVariables(varIds: string[]): void {
+    for (const varId of varIds) {
+      this.globalVariables.delete(varId);
+    }
+  }
+
+  getVariable(name: string, spriteId?: string): VariableValue {
     if (spriteId) {
       const localVars = this.localVariables.get(spriteId);
       if (localVars?.has(name)) return localVars.get(name)!;
@@ -788,7 +1148,7 @@ export class RuntimeEngine {
     this._variableLookup = lookup;
   }
 
-  getTypedVariable(varId: string, spriteId?: string): number | string | boolean {
+  getTypedVariable(varId: string, spriteId?: string): VariableValue {
     const varDef = this._variableLookup?.(varId);
     if (!varDef) {
       debugLog('error', `Unknown variable ID: ${varId}`);
@@ -800,17 +1160,17 @@ export class RuntimeEngine {
       const localVars = this.localVariables.get(spriteId);
       if (localVars?.has(varId)) return localVars.get(varId)!;
       // Return default value if not set
-      return varDef.defaultValue as number | string | boolean;
+      return varDef.defaultValue as VariableValue;
     }
 
     // Global variable
     if (this.globalVariables.has(varId)) {
       return this.globalVariables.get(varId)!;
     }
-    return varDef.defaultValue as number | string | boolean;
+    return varDef.defaultValue as VariableValue;
   }
 
-  setTypedVariable(varId: string, value: number | string | boolean, spriteId?: string): void {
+  setTypedVariable(varId: string, value: VariableValue, spriteId?: string): void {
     const varDef = this._variableLookup?.(varId);
     if (!varDef) {
       debugLog('error', `Unknown variable ID: ${varId}`);
@@ -818,7 +1178,7 @@ export class RuntimeEngine {
     }
 
     // Type coercion based on variable type
-    let coercedValue: number | string | boolean = value;
+    let coercedValue: VariableValue = value;
     switch (varDef.type) {
       case 'integer':
         coercedValue = Math.floor(Number(value)) || 0;
@@ -832,6 +1192,9 @@ export class RuntimeEngine {
       case 'boolean':
         coercedValue = Boolean(value);
         break;
+      case 'list':
+        coercedValue = Array.isArray(value) ? [...value] : [];
+        break;
     }
 
     if (varDef.scope === 'local' && spriteId) {
@@ -853,6 +1216,327 @@ export class RuntimeEngine {
     }
   }
 
+  // --- Lists ---
+  // Lists live in the same variable stores as typed variables. Indexes are 1-based like Scratch.
+
+  // Get the live array for a list variable, seeding it from the default on first use
+  private getListStorage(varId: string, spriteId?: string): ListItem[] | null {
+    const varDef = this._variableLookup?.(varId);
+    if (!varDef) {
+      debugLog('error', `Unknown variable ID: ${varId}`);
+      return null;
+    }
+    if (varDef.type !== 'list') {
+      debugLog('error', `Variable "${varDef.name}" is not a list`);
+      return null;
+    }
+
+    let store = this.globalVariables;
+    if (varDef.scope === 'local' && spriteId) {
+      let localVars = this.localVariables.get(spriteId);
+      if (!localVars) {
+        localVars = new Map();
+        this.localVariables.set(spriteId, localVars);
+      }
+      store = localVars;
+    }
+
+    const existing = store.get(varId);
+    if (Array.isArray(existing)) return existing;
+
+    // Copy the default so the project data is never mutated
+    const list = Array.isArray(varDef.defaultValue) ? [...(varDef.defaultValue as ListItem[])] : [];
+    store.set(varId, list);
+    return list;
+  }
+
+  private toListItem(value: unknown): ListItem {
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    return String(value ?? '');
+  }
+
+  // Convert a 1-based index to a 0-based one, or -1 if out of range
+  private toListIndex(list: ListItem[], index: unknown, allowEnd = false): number {
+    const i = Math.floor(Number(index)) - 1;
+    const max = allowEnd ? list.length : list.length - 1;
+    if (isNaN(i) || i < 0 || i > max) return -1;
+    return i;
+  }
+
+  // Case-insensitive match, so "5" finds 5 and "apple" finds "Apple"
+  private listItemsMatch(a: ListItem, b: unknown): boolean {
+    return String(a).toLowerCase() === String(b).toLowerCase();
+  }
+
+  getList(varId: string, spriteId?: string): ListItem[] {
+    // Return a snapshot so "for each" is not affected by changes inside the loop
+    return [...(this.getListStorage(varId, spriteId) ?? [])];
+  }
+
+  addToList(varId: string, item: unknown, spriteId?: string): void {
+    this.getListStorage(varId, spriteId)?.push(this.toListItem(item));
+  }
+
+  insertInList(varId: string, index: unknown, item: unknown, spriteId?: string): void {
+    const list = this.getListStorage(varId, spriteId);
+    if (!list) return;
+    const i = this.toListIndex(list, index, true);
+    if (i === -1) return;
+    list.splice(i, 0, this.toListItem(item));
+  }
+
+  deleteFromList(varId: string, index: unknown, spriteId?: string): void {
+    const list = this.getListStorage(varId, spriteId);
+    if (!list) return;
+    const i = this.toListIndex(list, index);
+    if (i === -1) return;
+    list.splice(i, 1);
+  }
+
+  deleteAllOfList(varId: string, spriteId?: string): void {
+    const list = this.getListStorage(varId, spriteId);
+    if (list) list.length = 0;
+  }
+
+  replaceInList(varId: string, index: unknown, item: unknown, spriteId?: string): void {
+    const list = this.getListStorage(varId, spriteId);
+    if (!list) return;
+    const i = this.toListIndex(list, index);
+    if (i === -1) return;
+    list[i] = this.toListItem(item);
+  }
+
+  getListItem(varId: string, index: unknown, spriteId?: string): ListItem {
+    const list = this.getListStorage(varId, spriteId);
+    if (!list) return '';
+    const i = this.toListIndex(list, index);
+    return i === -1 ? '' : list[i];
+  }
+
+  getListLength(varId: string, spriteId?: string): number {
+    return this.getListStorage(varId, spriteId)?.length ?? 0;
+  }
+
+  listContains(varId: string, item: unknown, spriteId?: string): boolean {
+    const list = this.getListStorage(varId, spriteId);
+    return !!list && list.some(entry => this.listItemsMatch(entry, item));
+  }
+
+  getListIndexOf(varId: string, item: unknown, spriteId?: string): number {
+    const list = this.getListStorage(varId, spriteId);
+    if (!list) return 0;
+    return list.findIndex(entry => this.listItemsMatch(entry, item)) + 1;
+  }
+
+  // --- Backdrops ---
+
+  // Load the scene's backdrops and show the one it starts on
+  setBackdrops(backdrops: Backdrop[], currentId?: string): void {
+    this.backdrops = backdrops;
+    this.backdropIndex = Math.max(0, backdrops.findIndex(b => b.id === currentId));
+    if (!this.backdropView) {
+      this.backdropView = new BackdropView(this.scene, this._canvasWidth, this._canvasHeight);
+    }
+    this.backdropView.show(this.backdrops[this.backdropIndex]?.background ?? null, BACKDROP_FALLBACK_COLOR);
+  }
+
+  // Switch by name or 1-based number, like costumes
+  switchBackdrop(backdropRef: number | string): void {
+    if (this.backdrops.length === 0) return;
+
+    let index = typeof backdropRef === 'string'
+      ? this.backdrops.findIndex(b => b.name === backdropRef)
+      : -1;
+    // Numbers typed into the text slot still pick by position
+    if (index === -1 && String(backdropRef).trim() !== '' && !isNaN(Number(backdropRef))) {
+      index = Math.max(0, Math.min(this.backdrops.length - 1, Math.round(Number(backdropRef)) - 1));
+    }
+    if (index === -1) {
+      debugLog('error', `switchBackdrop: no backdrop named "${backdropRef}"`);
+      return;
+    }
+    this.setBackdropIndex(index);
+  }
+
+  nextBackdrop(): void {
+    if (this.backdrops.length === 0) return;
+    this.setBackdropIndex((this.backdropIndex + 1) % this.backdrops.length);
+  }
+
+  getBackdropNumber(): number {
+    return this.backdropIndex + 1; // 1-based
+  }
+
+  getBackdropName(): string {
+    return this.backdrops[this.backdropIndex]?.name ?? '';
+  }
+
+  // Show the backdrop and start every "when backdrop switches to" script for it
+  private setBackdropIndex(index: number): void {
+    this.backdropIndex = index;
+    const backdrop = this.backdrops[index];
+    this.backdropView?.show(backdrop.background, BACKDROP_FALLBACK_COLOR);
+    this.requestRedraw();
+    debugLog('action', `switchBackdrop -> ${backdrop.name}`);
+
+    // Handlers map includes clones, so they react too
+    for (const [spriteId, h] of this.handlers) {
+      const sprite = this.sprites.get(spriteId);
+      if (!sprite || sprite.isStopped()) continue;
+      for (const handler of h.onBackdropSwitch.get(backdrop.name) ?? []) {
+        this.startThread(sprite, handler, `"when backdrop switches to ${backdrop.name}"`);
+      }
+    }
+  }
+
+  // --- Collision layers ---
+
+  // The project's collision layers, in the order their category bits are given out
+  setCollisionLayers(layers: CollisionLayer[]): void {
+    this.collisionLayers = layers;
+  }
+
+  // Matter collision filter for an object's layer settings
+  getCollisionFilter(physics: PhysicsConfig | null | undefined): CollisionFilter {
+    return getCollisionFilter(this.collisionLayers, physics);
+  }
+
+  // --- Tilemap ---
+
+  // Draw the scene's tilemap and give its solid tiles static bodies
+  setTilemap(tilemap: TilemapConfig | null): void {
+    this.tilemap = tilemap;
+    if (!this.tilemapView) {
+      this.tilemapView = new TilemapView(this.scene, { physics: true });
+    }
+    this.tilemapView.show(tilemap);
+  }
+
+  // 1-based tileset number at a stage point, or 0 for an empty cell or outside the map
+  getTileAt(x: number, y: number): number {
+    if (!this.tilemap) return 0;
+    const phaser = this.userToPhaser(Number(x) || 0, Number(y) || 0);
+    const cell = getTileCell(this.tilemap, phaser.x, phaser.y);
+    if (!cell) return 0;
+    const tile = getTile(this.tilemap, cell);
+    return tile === EMPTY_TILE ? 0 : tile + 1;
+  }
+
+  // --- Pen ---
+
+  private getPenLayer(): PenLayer {
+    if (!this.penLayer) {
+      this.penLayer = new PenLayer(this.scene, this._canvasWidth, this._canvasHeight);
+    }
+    return this.penLayer;
+  }
+
+  // Draw from one stage point to another; the same point draws a dot
+  penLine(fromX: number, fromY: number, toX: number, toY: number, color: string, size: number): void {
+    this.getPenLayer().drawLine(this.userToPhaser(fromX, fromY), this.userToPhaser(toX, toY), color, size);
+    this.requestRedraw();
+  }
+
+  penStamp(sprite: RuntimeSprite): void {
+    this.getPenLayer().stamp(sprite.container);
+    this.requestRedraw();
+  }
+
+  penClear(): void {
+    this.penLayer?.clear();
+    this.requestRedraw();
+  }
+
+  // --- Variable Monitors ---
+
+  // Load the monitors saved with the scene - call after sprites are registered so local monitors can name their object
+  setMonitors(monitors: VariableMonitor[]): void {
+    for (const config of monitors) {
+      const entry: MonitorEntry = { config: { ...config }, view: null };
+      this.monitors.set(config.variableId, entry);
+      if (config.visible) this.showMonitor(entry);
+    }
+  }
+
+  showVariable(varId: string, spriteId?: string): void {
+    const varDef = this._variableLookup?.(varId);
+    if (!varDef) {
+      debugLog('error', `Unknown variable ID: ${varId}`);
+      return;
+    }
+
+    let entry = this.monitors.get(varId);
+    if (!entry) {
+      // Local monitors follow the original object, never a clone
+      const sprite = spriteId ? this.sprites.get(spriteId) : undefined;
+      const objectId = varDef.scope === 'local' ? (sprite?.cloneParentId || spriteId) : undefined;
+      entry = { config: createDefaultVariableMonitor(varId, this.monitors.size, objectId), view: null };
+      this.monitors.set(varId, entry);
+    }
+    this.showMonitor(entry);
+  }
+
+  hideVariable(varId: string): void {
+    const entry = this.monitors.get(varId);
+    if (!entry) return;
+    entry.config.visible = false;
+    entry.view?.setVisible(false);
+    this.requestRedraw();
+  }
+
+  private showMonitor(entry: MonitorEntry): void {
+    entry.config.visible = true;
+    if (!entry.view) {
+      entry.view = this.createMonitorView(entry.config);
+    }
+    if (!entry.view) return;
+    entry.view.setVisible(true);
+    entry.view.setValue(this.getTypedVariable(entry.config.variableId, entry.config.objectId));
+    this.requestRedraw();
+  }
+
+  private createMonitorView(config: VariableMonitor): VariableMonitorView | null {
+    const varDef = this._variableLookup?.(config.variableId);
+    if (!varDef || varDef.type === 'list') return null;
+
+    let label = varDef.name;
+    if (varDef.scope === 'local' && config.objectId) {
+      const ownerName = this.templates.get(config.objectId)?.name ?? this.sprites.get(config.objectId)?.name;
+      if (ownerName) label = `${ownerName}: ${label}`;
+    }
+
+    // Sliders only make sense for numbers
+    const numeric = varDef.type === 'integer' || varDef.type === 'float';
+    const mode = config.mode === 'slider' && !numeric ? 'normal' : config.mode;
+
+    const view = new VariableMonitorView(this.scene, {
+      label,
+      mode,
+      x: config.x,
+      y: config.y,
+      sliderMin: config.sliderMin,
+      sliderMax: config.sliderMax,
+      fixed: true,
+    });
+    if (mode === 'slider') {
+      view.enableSlider(value => {
+        const stepped = varDef.type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+        this.setTypedVariable(config.variableId, stepped, config.objectId);
+      });
+    }
+    return view;
+  }
+
+  private updateMonitors(): void {
+    for (const { config, view } of this.monitors.values()) {
+      if (view && config.visible) {
+        view.setValue(this.getTypedVariable(config.variableId, config.objectId));
+      }
+    }
+  }
+
   // --- Clone System ---
 
   private static MAX_CLONES = 300; // Prevent infinite clone crashes
@@ -931,6 +1615,9 @@ export class RuntimeEngine {
     // Copy state from template or live sprite
     if (liveOriginal) {
       clone.copyStateFrom(liveOriginal);
+      this.sounds.copyEffects(originalId, cloneId);
+      const instrument = this.instruments.get(originalId);
+      if (instrument) this.instruments.set(cloneId, instrument);
     } else {
       // Copy from template - don't use setSize as it overrides scale
       clone.setCostumes([...template.costumes], 0);
@@ -938,6 +1625,7 @@ export class RuntimeEngine {
       clone.setSizeInternal(template.size); // Set internal size without changing scale
       if (template.colliderConfig) clone.setColliderConfig(template.colliderConfig);
       if (template.physicsConfig) clone.setPhysicsConfig(template.physicsConfig);
+      if (template.textConfig) clone.setTextConfig(template.textConfig);
       if (!template.visible) clone.hide();
     }
 
@@ -951,6 +1639,11 @@ export class RuntimeEngine {
         cloneHandlers.onKeyPressed.set(key, [...handlers]);
       }
 
+      // Copy key released handlers
+      for (const [key, handlers] of templateHandlers.onKeyReleased) {
+        cloneHandlers.onKeyReleased.set(key, [...handlers]);
+      }
+
       // Copy onClick handlers and set up click listener for clone
       cloneHandlers.onClick = [...templateHandlers.onClick];
       if (cloneHandlers.onClick.length > 0) {
@@ -958,7 +1651,7 @@ export class RuntimeEngine {
           if (this._isRunning) {
             const currentClone = this.sprites.get(cloneId);
             if (currentClone) {
-              cloneHandlers.onClick.forEach(handler => handler(currentClone));
+              cloneHandlers.onClick.forEach(handler => this.startThread(currentClone, handler, 'click handler'));
             }
           }
         });
@@ -974,25 +1667,31 @@ export class RuntimeEngine {
         cloneHandlers.onMessage.set(message, [...handlers]);
       }
 
+      // Copy backdrop switch handlers
+      for (const [backdropName, handlers] of templateHandlers.onBackdropSwitch) {
+        cloneHandlers.onBackdropSwitch.set(backdropName, [...handlers]);
+      }
+
+      // Copy animation finish handlers
+      for (const [animationName, handlers] of templateHandlers.onAnimationFinish) {
+        cloneHandlers.onAnimationFinish.set(animationName, [...handlers]);
+      }
+
       // Copy onStart handlers
       cloneHandlers.onStart = [...templateHandlers.onStart];
 
-      // Copy forever handlers and activate them
+      // Copy forever handlers
       cloneHandlers.forever = [...templateHandlers.forever];
-      if (cloneHandlers.forever.length > 0) {
-        this.activeForeverLoops.set(cloneId, true);
-      }
     }
 
-    // Execute onStart handlers for the clone
+    // Start the clone's own onStart and forever threads
     if (cloneHandlers) {
       for (const handler of cloneHandlers.onStart) {
-        try {
-          debugLog('event', `Executing onStart handler for clone ${cloneId}`);
-          await handler(clone);
-        } catch (e) {
-          debugLog('error', `Error in onStart for clone ${cloneId}: ${e}`);
-        }
+        debugLog('event', `Starting onStart thread for clone ${cloneId}`);
+        this.startThread(clone, handler, 'onStart');
+      }
+      for (const handler of cloneHandlers.forever) {
+        this.startForeverThread(clone, handler);
       }
     }
 
@@ -1011,19 +1710,27 @@ export class RuntimeEngine {
   deleteSelf(spriteId: string): void {
     const sprite = this.sprites.get(spriteId);
     if (sprite) {
+      this.disconnectAll(spriteId);
       sprite.destroy();
+      this.dropThreads(sprite);
       this.sprites.delete(spriteId);
       this.handlers.delete(spriteId);
       this.localVariables.delete(spriteId);
+      this.sounds.removeChannel(spriteId);
+      this.instruments.delete(spriteId);
     }
   }
 
   deleteObject(obj: RuntimeSprite | null): void {
     if (!obj) return;
+    this.disconnectAll(obj.id);
     obj.destroy();
+    this.dropThreads(obj);
     this.sprites.delete(obj.id);
     this.handlers.delete(obj.id);
     this.localVariables.delete(obj.id);
+    this.sounds.removeChannel(obj.id);
+    this.instruments.delete(obj.id);
   }
 
   private getObjectColor(id: string): number {
@@ -1276,13 +1983,24 @@ export class RuntimeEngine {
 
   // --- Sound ---
 
-  private volume: number = 100;
-  private playingAudios: HTMLAudioElement[] = [];
+  private soundEngine: SoundEngine = new SoundEngine();
+  private ownsSoundEngine: boolean = true; // False once sharing the play session's engine
+  private sounds: SoundMixer = new SoundMixer(this.soundEngine);
   // Store sound definitions: soundId -> { dataUrl, trimStart, trimEnd }
-  private soundDefinitions: Map<string, { dataUrl: string; trimStart?: number; trimEnd?: number }> = new Map();
+  private soundDefinitions: Map<string, SoundDefinition> = new Map();
+
+  // Every scene plays through the session's engine, so its music outlives scene switches
+  shareSoundEngine(engine: SoundEngine): void {
+    this.sounds.destroy();
+    if (this.ownsSoundEngine) this.soundEngine.close();
+    this.soundEngine = engine;
+    this.ownsSoundEngine = false;
+    this.sounds = new SoundMixer(engine);
+  }
 
   /**
-   * Register sounds from an object so they can be played by ID
+   * Register sounds from an object so they can be played by ID.
+   * Decoding starts right away so the first play doesn't wait for it.
    */
   registerSounds(sounds: Array<{ id: string; assetId: string; trimStart?: number; trimEnd?: number }>): void {
     for (const sound of sounds) {
@@ -1292,118 +2010,152 @@ export class RuntimeEngine {
         trimStart: sound.trimStart,
         trimEnd: sound.trimEnd,
       });
+      if (sound.assetId) void this.soundEngine.load(sound.assetId);
     }
     debugLog('info', `Total registered sounds: ${this.soundDefinitions.size}`);
   }
 
-  playSound(soundKey: string): void {
+  private getSoundDefinition(soundKey: string): SoundDefinition | null {
     const soundDef = this.soundDefinitions.get(soundKey);
     if (!soundDef) {
       debugLog('error', `Sound "${soundKey}" not found`);
-      return;
-    }
-
-    const audio = new Audio(soundDef.dataUrl);
-    audio.volume = this.volume / 100;
-
-    // Apply trim start
-    if (soundDef.trimStart) {
-      audio.currentTime = soundDef.trimStart;
-    }
-
-    // Handle trim end
-    if (soundDef.trimEnd) {
-      audio.ontimeupdate = () => {
-        if (audio.currentTime >= soundDef.trimEnd!) {
-          audio.pause();
-          this.removeAudio(audio);
-        }
-      };
+      return null;
     }
+    return soundDef;
+  }
 
-    audio.onended = () => this.removeAudio(audio);
-    audio.play().catch(e => debugLog('error', `Failed to play sound: ${e}`));
-    this.playingAudios.push(audio);
+  // Sounds started by a sprite go through its volume, pitch and pan effects
+  playSound(soundKey: string, sprite?: RuntimeSprite): void {
+    const soundDef = this.getSoundDefinition(soundKey);
+    if (!soundDef) return;
+    void this.sounds.play(soundDef, sprite?.id ?? null);
   }
 
-  playSoundUntilDone(soundKey: string): Promise<void> {
+  playSoundUntilDone(soundKey: string, sprite?: RuntimeSprite): Promise<void> {
     return new Promise(resolve => {
-      const soundDef = this.soundDefinitions.get(soundKey);
+      const soundDef = this.getSoundDefinition(soundKey);
       if (!soundDef) {
-        debugLog('error', `Sound "${soundKey}" not found`);
         resolve();
         return;
       }
+      // A stopped or deleted sprite's script doesn't continue after the sound
+      void this.sounds.play(soundDef, sprite?.id ?? null).then(() => {
+        if (!sprite || this.isThreadAlive(sprite)) resolve();
+      });
+    });
+  }
 
-      const audio = new Audio(soundDef.dataUrl);
-      audio.volume = this.volume / 100;
+  // Music isn't stopped by "stop all sounds" or by leaving the scene
+  playMusic(soundKey: string): void {
+    const soundDef = this.getSoundDefinition(soundKey);
+    if (!soundDef) return;
+    debugLog('action', `playMusic(${soundKey})`);
+    void this.soundEngine.playMusic(soundDef);
+  }
 
-      // Apply trim start
-      if (soundDef.trimStart) {
-        audio.currentTime = soundDef.trimStart;
-      }
+  stopMusic(): void {
+    this.soundEngine.stopMusic();
+  }
 
-      // Handle trim end
-      if (soundDef.trimEnd) {
-        audio.ontimeupdate = () => {
-          if (audio.currentTime >= soundDef.trimEnd!) {
-            audio.pause();
-            this.removeAudio(audio);
-            resolve();
-          }
-        };
-      }
+  stopAllSounds(): void {
+    this.sounds.stopAll();
+  }
 
-      audio.onended = () => {
-        this.removeAudio(audio);
-        resolve();
-      };
+  setVolume(volume: number): void {
+    this.sounds.setVolume(volume);
+  }
 
-      audio.play().catch(e => {
-        debugLog('error', `Failed to play sound: ${e}`);
-        resolve();
+  changeVolume(delta: number): void {
+    this.setVolume(this.sounds.getVolume() + delta);
+  }
+
+  getVolume(): number {
+    return this.sounds.getVolume();
+  }
+
+  setSoundEffect(sprite: RuntimeSprite, effect: SoundEffect, value: number): void {
+    this.sounds.setEffect(sprite.id, effect, value);
+  }
+
+  changeSoundEffect(sprite: RuntimeSprite, effect: SoundEffect, delta: number): void {
+    this.sounds.setEffect(sprite.id, effect, this.sounds.getEffect(sprite.id, effect) + (Number(delta) || 0));
+  }
+
+  getSoundEffect(sprite: RuntimeSprite, effect: SoundEffect): number {
+    return this.sounds.getEffect(sprite.id, effect);
+  }
+
+  clearSoundEffects(sprite: RuntimeSprite): void {
+    this.sounds.clearEffects(sprite.id);
+  }
+
+  // --- Music ---
+
+  private tempo: number = 60; // Beats per minute, shared by the scene like Scratch's stage tempo
+  private instruments: Map<string, Instrument> = new Map(); // spriteId -> instrument
+
+  private beatsToSeconds(beats: number): number {
+    return Math.max(0, Number(beats) || 0) * 60 / this.tempo;
+  }
+
+  // Music is timed on the audio clock so notes, drums and rests stay in step with each other
+  private playSynthUntilDone(sprite: RuntimeSprite, beats: number, schedule: (output: AudioNode, seconds: number) => AudioScheduledSourceNode[]): Promise<void> {
+    const seconds = this.beatsToSeconds(beats);
+    return new Promise(resolve => {
+      // A stopped or deleted sprite's script doesn't continue after the note
+      void this.sounds.playSynth(sprite.id, seconds, output => schedule(output, seconds)).then(() => {
+        if (this.isThreadAlive(sprite)) resolve();
       });
-      this.playingAudios.push(audio);
     });
   }
 
-  private removeAudio(audio: HTMLAudioElement): void {
-    const index = this.playingAudios.indexOf(audio);
-    if (index > -1) {
-      this.playingAudios.splice(index, 1);
-    }
+  // Notes go through the sprite's channel, so its volume and pan effects apply
+  playNote(sprite: RuntimeSprite, note: number, beats: number): Promise<void> {
+    const instrument = this.instruments.get(sprite.id) ?? DEFAULT_INSTRUMENT;
+    return this.playSynthUntilDone(sprite, beats, (output, seconds) => scheduleNote(output, instrument, note, seconds));
   }
 
-  stopAllSounds(): void {
-    for (const audio of this.playingAudios) {
-      audio.pause();
-      audio.src = '';
+  playDrum(sprite: RuntimeSprite, drum: string, beats: number): Promise<void> {
+    if (!isDrum(drum)) {
+      debugLog('error', `Drum "${drum}" not found`);
+      return this.rest(sprite, beats);
     }
-    this.playingAudios = [];
+    return this.playSynthUntilDone(sprite, beats, output => scheduleDrum(output, drum));
   }
 
-  setVolume(volume: number): void {
-    this.volume = Math.max(0, Math.min(100, volume));
-    // Update all playing sounds
-    for (const audio of this.playingAudios) {
-      audio.volume = this.volume / 100;
+  rest(sprite: RuntimeSprite, beats: number): Promise<void> {
+    return this.playSynthUntilDone(sprite, beats, () => []);
+  }
+
+  setInstrument(sprite: RuntimeSprite, instrument: string): void {
+    if (!isInstrument(instrument)) {
+      debugLog('error', `Instrument "${instrument}" not found`);
+      return;
     }
+    this.instruments.set(sprite.id, instrument);
   }
 
-  changeVolume(delta: number): void {
-    this.setVolume(this.volume + delta);
+  setTempo(bpm: number): void {
+    this.tempo = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, Number(bpm) || 0));
   }
 
-  getVolume(): number {
-    return this.volume;
+  changeTempo(delta: number): void {
+    this.setTempo(this.tempo + (Number(delta) || 0));
+  }
+
+  getTempo(): number {
+    return this.tempo;
   }
 
   // --- Utility ---
 
-  wait(seconds: number): Promise<void> {
-    return new Promise(resolve => {
-      this.scene.time.delayedCall(seconds * 1000, resolve);
-    });
+  /**
+   * Park the calling thread for a number of seconds of running time.
+   * The wait stands still while the runtime is paused and never ends if the sprite stops.
+   */
+  wait(seconds: number, sprite?: RuntimeSprite): Promise<void> {
+    const ms = Math.max(0, Number(seconds) || 0) * 1000;
+    return this.scheduler.sleep(sprite, ms);
   }
 
   get isRunning(): boolean {
@@ -1500,7 +2252,7 @@ export class RuntimeEngine {
         phaserGroundY + groundHeight / 2, // Y position
         groundWidth,
         groundHeight,
-        { isStatic: true, label: 'ground' }
+        { isStatic: true, label: 'ground', collisionFilter: { category: WORLD_CATEGORY, mask: 0xFFFFFFFF } }
       );
 
       debugLog('info', `Ground body created at user y=${this._groundY}, phaser y=${phaserGroundY}`);
@@ -1534,12 +2286,18 @@ export class RuntimeEngine {
   // --- Pause/Resume for scene switching ---
   pause(): void {
     this._isRunning = false;
-    // Don't clear forever loops - just stop running them
+    // Threads stay parked until resume - the clock doesn't advance, so waits are frozen too
+    // An open question is put away and asked again on resume
+    if (this.isAsking) {
+      this.scene.input.keyboard?.enableGlobalCapture();
+      this._askHandler?.(null);
+    }
     debugLog('info', 'RuntimeEngine paused');
   }
 
   resume(): void {
     this._isRunning = true;
+    if (this.isAsking) this.showNextQuestion();
     debugLog('info', 'RuntimeEngine resumed');
   }
 
@@ -1677,6 +2435,113 @@ export class RuntimeEngine {
     debugLog('action', `Detached "${sprite.name}" from parent`);
   }
 
+  // --- Joints ---
+  private joints: RuntimeJoint[] = [];
+
+  /**
+   * Link a sprite's physics body to another's. Both need physics turned on.
+   * - pin: the sprite's center is pinned to the target, and it can swing or spin around it
+   * - rope: keeps them no further apart than they are now
+   * - spring: pulls them back to their current distance, bouncing
+   * - weld: holds them together as if they were one object
+   */
+  connect(
+    spriteId: string,
+    targetId: string,
+    type: string,
+    stiffness: number = DEFAULT_SPRING_STIFFNESS,
+    damping: number = DEFAULT_SPRING_DAMPING
+  ): void {
+    const sprite = this.sprites.get(spriteId);
+    const target = this.sprites.get(targetId);
+    if (!sprite || !target || sprite === target) {
+      debugLog('error', `connect: sprite not found (sprite=${spriteId}, target=${targetId})`);
+      return;
+    }
+
+    const body = sprite.getMatterBody();
+    const targetBody = target.getMatterBody();
+    if (!body || !targetBody) {
+      debugLog('error', `connect: "${sprite.name}" and "${target.name}" both need physics turned on`);
+      return;
+    }
+
+    // Points on the target are relative to its center
+    const offset = { x: body.position.x - targetBody.position.x, y: body.position.y - targetBody.position.y };
+    const distance = Math.max(1, Math.hypot(offset.x, offset.y));
+    const add = this.scene.matter.add;
+    let constraints: MatterJS.ConstraintType[];
+
+    switch (type) {
+      case 'pin':
+        constraints = [add.constraint(body, targetBody, 0, 1, { pointB: offset })];
+        break;
+      case 'rope':
+        constraints = [add.constraint(body, targetBody, distance, 1)];
+        break;
+      case 'spring':
+        constraints = [add.constraint(body, targetBody, distance, Math.max(0.001, Math.min(1, Number(stiffness) || 0)), {
+          damping: Math.max(0, Math.min(1, Number(damping) || 0)),
+        })];
+        break;
+      case 'weld':
+        constraints = [
+          add.constraint(body, targetBody, 0, 1, { pointB: offset }),
+          add.constraint(body, targetBody, 0, 1, {
+            pointA: { x: WELD_ARM, y: 0 },
+            pointB: { x: offset.x + WELD_ARM, y: offset.y },
+          }),
+        ];
+        break;
+      default:
+        debugLog('error', `connect: unknown joint "${type}"`);
+        return;
+    }
+
+    this.joints.push({ spriteId, targetId, type, constraints });
+    debugLog('action', `Connected "${sprite.name}" to "${target.name}" with ${type}`);
+  }
+
+  /**
+   * Remove the joints between two sprites, whichever of them made them
+   */
+  disconnect(spriteId: string, targetId: string): void {
+    this.removeJoints(joint =>
+      (joint.spriteId === spriteId && joint.targetId === targetId) ||
+      (joint.spriteId === targetId && joint.targetId === spriteId)
+    );
+  }
+
+  /**
+   * Remove every joint a sprite is part of - also done when its body goes away
+   */
+  disconnectAll(spriteId: string): void {
+    this.removeJoints(joint => joint.spriteId === spriteId || joint.targetId === spriteId);
+  }
+
+  private removeJoints(matches: (joint: RuntimeJoint) => boolean): void {
+    const removed = this.joints.filter(matches);
+    if (removed.length === 0) return;
+    this.joints = this.joints.filter(joint => !matches(joint));
+    if (this.scene?.matter?.world) {
+      for (const joint of removed) {
+        this.scene.matter.world.removeConstraint(joint.constraints);
+      }
+    }
+    debugLog('action', `Removed ${removed.length} joint(s)`);
+  }
+
+  private updateRopes(): void {
+    for (const joint of this.joints) {
+      if (joint.type !== 'rope') continue;
+      const constraint = joint.constraints[0];
+      const { bodyA, bodyB } = constraint;
+      if (!bodyA || !bodyB) continue;
+      const distance = Math.hypot(bodyA.position.x - bodyB.position.x, bodyA.position.y - bodyB.position.y);
+      constraint.stiffness = distance > constraint.length ? 1 : 0;
+    }
+  }
+
   // --- Animation ---
 
   /**
@@ -1707,7 +2572,10 @@ export class RuntimeEngine {
         y: phaserY,
         duration: durationSeconds * 1000,
         ease: easing,
-        onComplete: () => resolve(),
+        // A stopped or deleted sprite's script doesn't continue after the glide
+        onComplete: () => {
+          if (this.isThreadAlive(sprite)) resolve();
+        },
       });
 
       debugLog('action', `Gliding "${sprite.name}" to (${userX}, ${userY}) over ${durationSeconds}s with ${easing}`);
@@ -1740,7 +2608,9 @@ export class RuntimeEngine {
         angle: targetAngle,
         duration: durationSeconds * 1000,
         ease: easing,
-        onComplete: () => resolve(),
+        onComplete: () => {
+          if (this.isThreadAlive(sprite)) resolve();
+        },
       });
 
       debugLog('action', `Rotating "${sprite.name}" by ${degrees}° over ${durationSeconds}s with ${easing}`);
@@ -1,7 +1,11 @@
 import Phaser from 'phaser';
 import { runtimeDebugLog } from './RuntimeEngine';
-import type { Costume, ColliderConfig, PhysicsConfig } from '../types';
+import type { Costume, CostumeAnimation, ColliderConfig, PhysicsConfig, TextConfig } from '../types';
 import type { RuntimeEngine } from './RuntimeEngine';
+import { SpeechBubble, type BubbleKind } from './SpeechBubble';
+import { TEXT_OBJECT_NAME, applyTextConfig, createTextVisual } from './TextObject';
+import { createPolygonBody } from './PolygonCollider';
+import { getColliderOffset } from './ColliderOffset';
 
 function debugLog(type: 'info' | 'event' | 'action' | 'error', message: string) {
   const entry = { time: Date.now(), type, message };
@@ -9,6 +13,17 @@ function debugLog(type: 'info' | 'event' | 'action' | 'error', message: string)
   console.log(`[Sprite ${type}] ${message}`);
 }
 
+// Numbers are rounded to two decimals like Scratch does for say/think and text objects
+function formatBubbleText(message: unknown): string {
+  if (typeof message === 'number') {
+    return String(Math.round(message * 100) / 100);
+  }
+  return String(message ?? '');
+}
+
+// Matter's gravity pulls with 0.001 x mass, so a force of 1 on a body of mass 1 pulls like gravity
+const FORCE_SCALE = 0.001;
+
 /**
  * RuntimeSprite wraps a Phaser container/sprite and provides
  * child-friendly methods for block-based programming.
@@ -32,6 +47,28 @@ export class RuntimeSprite {
   private _currentCostumeIndex: number = 0;
   private _costumeImage: Phaser.GameObjects.Image | null = null;
 
+  // Animation support - frames play on their own sprite, shown in place of the costume image
+  private _animations: CostumeAnimation[] = [];
+  private _animationSprite: Phaser.GameObjects.Sprite | null = null;
+  private _animation: CostumeAnimation | null = null; // Last one played, while its frames are showing
+  private _animationToken: number = 0; // Bumped on every play/stop so slow frame loads can't start a stale animation
+  private _animationKeys: Set<string> = new Set();
+
+  // Pen
+  private _penDown: boolean = false;
+  private _penColor: string = '#4C97FF';
+  private _penSize: number = 1;
+  private _penX: number = 0; // Where the trail last ended, in user space
+  private _penY: number = 0;
+
+  // Speech bubble (created on the first say/think)
+  private _bubble: SpeechBubble | null = null;
+  private _bubbleToken: number = 0; // Bumped on every say/think so timed bubbles only clear their own
+
+  // Text objects draw this instead of a costume
+  private _textConfig: TextConfig | null = null;
+  private _textObject: Phaser.GameObjects.Text | null = null;
+
   // Click handler for pixel-perfect detection
   private _clickHandler: (() => void) | null = null;
 
@@ -83,14 +120,15 @@ export class RuntimeSprite {
    * This allows motion blocks and physics to coexist.
    */
   private syncBodyToContainer(): void {
+    this.runtime?.requestRedraw();
+    this.updatePen();
     const body = this.getMatterBody();
     if (body && this.scene?.matter?.body) {
-      // Get collider offset if stored on container
-      const offsetX = this.container.getData('colliderOffsetX') ?? 0;
-      const offsetY = this.container.getData('colliderOffsetY') ?? 0;
+      // Get collider offset if stored on container, turned with the body
+      const offset = getColliderOffset(this.container, body.angle);
       this.scene.matter.body.setPosition(body, {
-        x: this.container.x + offsetX,
-        y: this.container.y + offsetY
+        x: this.container.x + offset.x,
+        y: this.container.y + offset.y
       });
     }
   }
@@ -169,6 +207,7 @@ export class RuntimeSprite {
     this._direction = direction;
     // Phaser rotation: 0 = right, so we adjust
     this.container.setRotation(Phaser.Math.DegToRad(direction - 90));
+    this.runtime?.requestRedraw();
   }
 
   getDirection(): number {
@@ -188,11 +227,14 @@ export class RuntimeSprite {
   show(): void {
     if (this._stopped) return;
     this.container.setVisible(true);
+    this.runtime?.requestRedraw();
   }
 
   hide(): void {
     if (this._stopped) return;
     this.container.setVisible(false);
+    this.clearBubble();
+    this.runtime?.requestRedraw();
   }
 
   setSize(percent: number): void {
@@ -200,6 +242,7 @@ export class RuntimeSprite {
     this._size = percent;
     const scale = percent / 100;
     this.container.setScale(scale, scale);
+    this.runtime?.requestRedraw();
   }
 
   changeSize(delta: number): void {
@@ -207,6 +250,7 @@ export class RuntimeSprite {
     this._size += delta;
     const scale = this._size / 100;
     this.container.setScale(scale, scale);
+    this.runtime?.requestRedraw();
   }
 
   getSize(): number {
@@ -221,16 +265,132 @@ export class RuntimeSprite {
   setOpacity(alpha: number): void {
     if (this._stopped) return;
     this.container.setAlpha(alpha / 100);
+    this.runtime?.requestRedraw();
   }
 
   goToFront(): void {
     if (this._stopped) return;
     this.scene.children.bringToTop(this.container);
+    this.runtime?.requestRedraw();
   }
 
   goToBack(): void {
     if (this._stopped) return;
     this.scene.children.sendToBack(this.container);
+    this.runtime?.requestRedraw();
+  }
+
+  // --- Text ---
+
+  // Make this a text object, reusing the text PhaserCanvas already drew (clones draw their own)
+  setTextConfig(config: TextConfig | null): void {
+    this._textConfig = config ? { ...config } : null;
+    if (!this._textConfig) return;
+
+    this._textObject = this.container.getByName(TEXT_OBJECT_NAME) as Phaser.GameObjects.Text | null;
+    if (!this._textObject) {
+      // Hide the clone placeholder (colored rectangle)
+      const graphics = this.container.getAt(0);
+      if (graphics instanceof Phaser.GameObjects.Graphics) {
+        graphics.setVisible(false);
+      }
+      this._textObject = createTextVisual(this.scene, this._textConfig);
+      this.container.add(this._textObject);
+    }
+    this._refreshText();
+
+    // HUD text stays put on screen while the camera scrolls
+    const scrollFactor = this._textConfig.fixedToCamera ? 0 : 1;
+    this.container.setScrollFactor(scrollFactor, scrollFactor, true);
+
+    if (this._clickHandler) {
+      this._setupPixelPerfectClick();
+    }
+  }
+
+  getTextConfig(): TextConfig | null {
+    return this._textConfig ? { ...this._textConfig } : null;
+  }
+
+  getText(): string {
+    return this._textConfig?.content ?? '';
+  }
+
+  setText(value: unknown): void {
+    if (this._stopped || !this._textConfig) return;
+    this._textConfig.content = formatBubbleText(value);
+    this._refreshText();
+  }
+
+  // Join a value onto the end of the text, e.g. building "Score: " + score
+  appendText(value: unknown): void {
+    if (this._stopped || !this._textConfig) return;
+    this._textConfig.content += formatBubbleText(value);
+    this._refreshText();
+  }
+
+  setTextColor(color: string): void {
+    if (this._stopped || !this._textConfig) return;
+    this._textConfig.color = color;
+    this._refreshText();
+  }
+
+  private _refreshText(): void {
+    if (!this._textObject || !this._textConfig) return;
+    applyTextConfig(this._textObject, this._textConfig);
+    this.container.setSize(Math.max(this._textObject.width, 1), Math.max(this._textObject.height, 1));
+    this.runtime?.requestRedraw();
+  }
+
+  // --- Speech Bubbles ---
+
+  say(message: unknown): void {
+    this.showBubble('say', message);
+  }
+
+  think(message: unknown): void {
+    this.showBubble('think', message);
+  }
+
+  sayForSeconds(message: unknown, seconds: number): Promise<void> {
+    return this.showBubbleForSeconds('say', message, seconds);
+  }
+
+  thinkForSeconds(message: unknown, seconds: number): Promise<void> {
+    return this.showBubbleForSeconds('think', message, seconds);
+  }
+
+  clearBubble(): void {
+    this._bubbleToken++;
+    this._bubble?.hide();
+  }
+
+  private showBubble(kind: BubbleKind, message: unknown): number {
+    if (this._stopped) return this._bubbleToken;
+    this._bubbleToken++;
+    const text = formatBubbleText(message);
+    // Empty text clears the bubble, and hidden sprites don't talk
+    if (text === '' || !this.container.visible) {
+      this._bubble?.hide();
+      return this._bubbleToken;
+    }
+    if (!this._bubble) {
+      this._bubble = new SpeechBubble(this.scene, this.container);
+    }
+    this._bubble.show(kind, text);
+    this.runtime?.requestRedraw();
+    return this._bubbleToken;
+  }
+
+  private async showBubbleForSeconds(kind: BubbleKind, message: unknown, seconds: number): Promise<void> {
+    const token = this.showBubble(kind, message);
+    if (this.runtime) {
+      await this.runtime.wait(seconds, this);
+    }
+    // Only clear if no other say/think replaced the bubble in the meantime
+    if (this._bubbleToken === token) {
+      this.clearBubble();
+    }
   }
 
   // --- Costumes ---
@@ -255,6 +415,14 @@ export class RuntimeSprite {
     if (other._costumes.length > 0) {
       this.setCostumes([...other._costumes], other._currentCostumeIndex);
     }
+    this._animations = other._animations;
+
+    // Clones keep drawing with the same pen
+    this._penDown = other._penDown;
+    this._penColor = other._penColor;
+    this._penSize = other._penSize;
+    this._penX = other.getX();
+    this._penY = other.getY();
 
     // Copy direction and size
     this._direction = other._direction;
@@ -268,6 +436,11 @@ export class RuntimeSprite {
     this._colliderConfig = other._colliderConfig;
     this._physicsConfig = other._physicsConfig;
 
+    // Copy text, including anything scripts have written into it
+    if (other._textConfig) {
+      this.setTextConfig(other._textConfig);
+    }
+
     // Copy component ID
     this.componentId = other.componentId;
   }
@@ -325,6 +498,8 @@ export class RuntimeSprite {
 
     this._costumeImage = this.scene.add.image(0, 0, textureKey);
     this._costumeImage.setOrigin(0.5, 0.5);
+    // A sprite sheet frame left showing by an animation stays in front until the costume changes
+    this._costumeImage.setVisible(!this._animationSprite?.visible);
 
     // Keep sprite at (0, 0) - centered on the 1024x1024 canvas
     // This ensures the collider aligns with the visual regardless of costume bounds
@@ -358,7 +533,11 @@ export class RuntimeSprite {
       this._costumeImage.removeAllListeners('pointerdown');
     }
 
-    if (this._costumeImage) {
+    if (this._textObject) {
+      // Text is clickable anywhere inside its box
+      this._textObject.setInteractive();
+      this._textObject.on('pointerdown', this._clickHandler);
+    } else if (this._costumeImage) {
       // Use pixel-perfect hit detection on the costume image
       // alphaTolerance: 1 means only pixels with alpha > 1 (out of 255) register as hits
       this._costumeImage.setInteractive({
@@ -379,8 +558,10 @@ export class RuntimeSprite {
     if (this._stopped) return;
     if (this._costumes.length === 0) return;
 
+    this._endAnimation();
     this._currentCostumeIndex = (this._currentCostumeIndex + 1) % this._costumes.length;
     this._updateCostumeDisplay();
+    this.runtime?.requestRedraw();
     debugLog('action', `${this.name}.nextCostume() -> ${this._currentCostumeIndex + 1}`);
   }
 
@@ -399,8 +580,10 @@ export class RuntimeSprite {
       if (index === -1) index = this._currentCostumeIndex;
     }
 
+    this._endAnimation();
     this._currentCostumeIndex = index;
     this._updateCostumeDisplay();
+    this.runtime?.requestRedraw();
     debugLog('action', `${this.name}.switchCostume(${costumeRef}) -> ${this._currentCostumeIndex + 1}`);
   }
 
@@ -413,9 +596,227 @@ export class RuntimeSprite {
     return this._costumes[this._currentCostumeIndex]?.name || '';
   }
 
+  // --- Animations ---
+
+  setAnimations(animations: CostumeAnimation[]): void {
+    this._animations = animations;
+  }
+
+  /**
+   * Play a named animation with Phaser's animation manager. Costume-range animations move the
+   * current costume along with them; sprite sheet frames are shown over the costume instead.
+   */
+  playAnimation(name: string): void {
+    if (this._stopped) return;
+    const animation = this._animations.find(a => a.name === String(name));
+    if (!animation) {
+      debugLog('error', `${this.name}.playAnimation: no animation named "${name}"`);
+      return;
+    }
+
+    const token = ++this._animationToken;
+    this._loadAnimationFrames(animation).then(frames => {
+      if (token !== this._animationToken || this._stopped || !this.container.scene) return;
+      if (frames.length === 0) {
+        debugLog('error', `${this.name}.playAnimation: "${name}" has no frames`);
+        return;
+      }
+      this._startAnimation(animation, frames, token);
+    });
+    debugLog('action', `${this.name}.playAnimation(${name})`);
+  }
+
+  // Freeze on the frame showing now
+  stopAnimation(): void {
+    this._animationToken++;
+    const sprite = this._animationSprite;
+    if (!sprite?.anims.isPlaying) return;
+    sprite.anims.stop();
+    if (this._animation?.source === 'costumes') {
+      this._endAnimation();
+      this._updateCostumeDisplay();
+    }
+    this.runtime?.requestRedraw();
+    debugLog('action', `${this.name}.stopAnimation()`);
+  }
+
+  isAnimationPlaying(): boolean {
+    return !!this._animationSprite?.anims.isPlaying;
+  }
+
+  private _startAnimation(animation: CostumeAnimation, frames: Phaser.Types.Animations.AnimationFrame[], token: number): void {
+    // Animation settings can't change while the game runs, so each one is created once
+    const key = `anim_${this.id}_${animation.id}`;
+    if (!this.scene.anims.exists(key)) {
+      this.scene.anims.create({
+        key,
+        frames,
+        frameRate: Math.max(0.1, Number(animation.fps) || 1),
+        repeat: animation.loop ? -1 : 0,
+        yoyo: animation.pingPong,
+      });
+      this._animationKeys.add(key);
+    }
+
+    let sprite = this._animationSprite;
+    if (!sprite) {
+      sprite = this.scene.add.sprite(0, 0, frames[0].key!, frames[0].frame);
+      sprite.setOrigin(0.5, 0.5);
+      this.container.addAt(sprite, 0);
+      if (this._clickHandler) {
+        sprite.setInteractive({ pixelPerfect: true, alphaTolerance: 1 });
+        sprite.on('pointerdown', () => this._clickHandler?.());
+      }
+      this._animationSprite = sprite;
+    }
+    sprite.anims.stop();
+    this._animation = animation;
+
+    sprite.off(Phaser.Animations.Events.ANIMATION_UPDATE);
+    sprite.off(Phaser.Animations.Events.ANIMATION_COMPLETE);
+    sprite.on(Phaser.Animations.Events.ANIMATION_UPDATE, (_anim: Phaser.Animations.Animation, frame: Phaser.Animations.AnimationFrame) => {
+      // Costume frames keep the costume number in step, so stopping leaves the right costume showing
+      if (animation.source === 'costumes') {
+        const index = this._costumes.findIndex(c => this._costumeTextureKey(c) === frame.textureKey);
+        if (index !== -1) this._currentCostumeIndex = index;
+      }
+      this.runtime?.requestRedraw();
+    });
+    sprite.once(Phaser.Animations.Events.ANIMATION_COMPLETE, () => {
+      if (token !== this._animationToken) return;
+      if (animation.source === 'costumes') {
+        this._endAnimation();
+        this._updateCostumeDisplay();
+      }
+      this.runtime?.animationFinished(this, animation.name);
+    });
+
+    this._costumeImage?.setVisible(false);
+    sprite.setVisible(true);
+    sprite.play(key);
+    this.runtime?.requestRedraw();
+  }
+
+  // Hide the animation sprite and bring back the costume image
+  private _endAnimation(): void {
+    const sprite = this._animationSprite;
+    if (!sprite) return;
+    this._animationToken++;
+    this._animation = null;
+    sprite.anims.stop();
+    sprite.setVisible(false);
+    this._costumeImage?.setVisible(true);
+  }
+
+  private _costumeTextureKey(costume: Costume): string {
+    return `costume_${this.id}_${costume.id}`;
+  }
+
+  private _loadCostumeTexture(costume: Costume): Promise<string> {
+    const textureKey = this._costumeTextureKey(costume);
+    if (this.scene.textures.exists(textureKey)) return Promise.resolve(textureKey);
+
+    return new Promise(resolve => {
+      const img = new Image();
+      img.onload = () => {
+        if (this.scene?.textures && !this.scene.textures.exists(textureKey)) {
+          this.scene.textures.addImage(textureKey, img);
+        }
+        resolve(textureKey);
+      };
+      img.onerror = () => resolve(textureKey);
+      img.src = costume.assetId;
+    });
+  }
+
+  private async _loadAnimationFrames(animation: CostumeAnimation): Promise<Phaser.Types.Animations.AnimationFrame[]> {
+    if (animation.source === 'sheet') {
+      const costume = this._costumes.find(c => c.id === animation.sheetCostumeId);
+      const frameWidth = Math.floor(animation.frameWidth ?? 0);
+      const frameHeight = Math.floor(animation.frameHeight ?? 0);
+      if (!costume || frameWidth < 1 || frameHeight < 1) return [];
+
+      const textureKey = await this._loadCostumeTexture(costume);
+      if (!this.scene?.textures?.exists(textureKey)) return [];
+      const texture = this.scene.textures.get(textureKey);
+
+      // Cut the visible area into cells, reading left to right then top to bottom
+      const area = costume.bounds ?? { x: 0, y: 0, width: texture.source[0].width, height: texture.source[0].height };
+      const columns = Math.floor(area.width / frameWidth);
+      const rows = Math.floor(area.height / frameHeight);
+      const count = Math.min(columns * rows, animation.frameCount || columns * rows);
+      const frames: Phaser.Types.Animations.AnimationFrame[] = [];
+      for (let i = 0; i < count; i++) {
+        const frameName = `sheet_${animation.id}_${frameWidth}x${frameHeight}_${i}`;
+        if (!texture.has(frameName)) {
+          const x = area.x + (i % columns) * frameWidth;
+          const y = area.y + Math.floor(i / columns) * frameHeight;
+          texture.add(frameName, 0, x, y, frameWidth, frameHeight);
+        }
+        frames.push({ key: textureKey, frame: frameName });
+      }
+      return frames;
+    }
+
+    // Costume range, in list order - a range picked backwards plays backwards
+    const first = this._costumes.findIndex(c => c.id === animation.firstCostumeId);
+    const last = this._costumes.findIndex(c => c.id === animation.lastCostumeId);
+    if (first === -1 || last === -1) return [];
+    const range = first <= last
+      ? this._costumes.slice(first, last + 1)
+      : this._costumes.slice(last, first + 1).reverse();
+    const textureKeys = await Promise.all(range.map(costume => this._loadCostumeTexture(costume)));
+    return textureKeys.map(key => ({ key }));
+  }
+
+  // --- Pen ---
+
+  penDown(): void {
+    if (this._stopped) return;
+    this._penDown = true;
+    this._penX = this.getX();
+    this._penY = this.getY();
+    this.runtime?.penLine(this._penX, this._penY, this._penX, this._penY, this._penColor, this._penSize);
+  }
+
+  penUp(): void {
+    if (this._stopped) return;
+    this._penDown = false;
+  }
+
+  setPenColor(color: string): void {
+    if (this._stopped) return;
+    this._penColor = color;
+  }
+
+  setPenSize(size: number): void {
+    if (this._stopped) return;
+    this._penSize = Math.max(1, Math.min(1200, Number(size) || 1));
+  }
+
+  changePenSize(delta: number): void {
+    this.setPenSize(this._penSize + (Number(delta) || 0));
+  }
+
+  stamp(): void {
+    if (this._stopped) return;
+    this.runtime?.penStamp(this);
+  }
+
+  // Draw the trail from where the pen last was to where the sprite is now
+  updatePen(): void {
+    if (!this._penDown || this._stopped || !this.runtime) return;
+    const x = this.getX();
+    const y = this.getY();
+    if (x === this._penX && y === this._penY) return;
+    this.runtime.penLine(this._penX, this._penY, x, y, this._penColor, this._penSize);
+    this._penX = x;
+    this._penY = y;
+  }
+
   // --- Physics (Matter.js) ---
 
-  private getMatterBody(): MatterJS.BodyType | null {
+  getMatterBody(): MatterJS.BodyType | null {
     const matterContainer = this.container as unknown as { body?: MatterJS.BodyType };
     return matterContainer.body || null;
   }
@@ -429,6 +830,8 @@ export class RuntimeSprite {
 
     const body = this.getMatterBody();
     if (body && this.scene?.matter?.world) {
+      // Joints would keep pulling on the removed body
+      this.runtime?.disconnectAll(this.id);
       // Remove body from physics world
       this.scene.matter.world.remove(body);
       // Clear the body reference
@@ -470,11 +873,15 @@ export class RuntimeSprite {
         restitution: physics?.bounce ?? 0,
         frictionAir: 0.01,
         friction: physics?.friction ?? 0.1,
+        isSensor: collider?.isSensor ?? false,
       };
+      if (this.runtime) {
+        bodyOptions.collisionFilter = this.runtime.getCollisionFilter(physics);
+      }
 
       // Calculate collider offset
-      const colliderOffsetX = (collider?.offsetX ?? 0) * scaleX;
-      const colliderOffsetY = (collider?.offsetY ?? 0) * scaleY;
+      let colliderOffsetX = (collider?.offsetX ?? 0) * scaleX;
+      let colliderOffsetY = (collider?.offsetY ?? 0) * scaleY;
       const bodyX = this.container.x + colliderOffsetX;
       const bodyY = this.container.y + colliderOffsetY;
 
@@ -501,6 +908,20 @@ export class RuntimeSprite {
             });
             break;
           }
+          case 'polygon': {
+            const polygon = createPolygonBody(this.scene.matter, bodyX, bodyY, collider?.vertices, scaleX, scaleY, bodyOptions);
+            if (polygon) {
+              debugLog('action', `${this.name}.enablePhysics() creating polygon body with ${collider?.vertices?.length} vertices`);
+              body = polygon.body;
+              // The body sits at the polygon's centre, which the position sync has to allow for
+              colliderOffsetX += polygon.centerX;
+              colliderOffsetY += polygon.centerY;
+              break;
+            }
+            // Too few vertices to make a polygon, so use the costume's box instead
+            body = this.scene.matter.add.rectangle(bodyX, bodyY, defaultWidth * Math.abs(scaleX), defaultHeight * Math.abs(scaleY), bodyOptions);
+            break;
+          }
           case 'box':
           default: {
             const boxWidth = (collider?.width ?? defaultWidth) * Math.abs(scaleX);
@@ -533,9 +954,8 @@ export class RuntimeSprite {
         // already set container position directly before syncing to body
         this.scene.matter.world.on('afterupdate', () => {
           if (body && container.active && !body.isStatic) {
-            const offsetX = container.getData('colliderOffsetX') ?? 0;
-            const offsetY = container.getData('colliderOffsetY') ?? 0;
-            container.setPosition(body.position.x - offsetX, body.position.y - offsetY);
+            const offset = getColliderOffset(container, body.angle);
+            container.setPosition(body.position.x - offset.x, body.position.y - offset.y);
           }
         });
 
@@ -643,11 +1063,10 @@ export class RuntimeSprite {
       // Make the body static - it will no longer respond to forces or collisions
       this.scene.matter.body.setStatic(body, true);
       // Sync body position to current container position to lock it in place
-      const offsetX = this.container.getData('colliderOffsetX') ?? 0;
-      const offsetY = this.container.getData('colliderOffsetY') ?? 0;
+      const offset = getColliderOffset(this.container, body.angle);
       this.scene.matter.body.setPosition(body, {
-        x: this.container.x + offsetX,
-        y: this.container.y + offsetY
+        x: this.container.x + offset.x,
+        y: this.container.y + offset.y
       });
       debugLog('action', `${this.name}.makeImmovable()`);
     } else {
@@ -669,18 +1088,122 @@ export class RuntimeSprite {
 
   /**
    * Set angular velocity (rotation speed)
+   * @param velocity - Degrees per frame, positive spins clockwise like "turn right"
    */
   setAngularVelocity(velocity: number): void {
     if (this._stopped) return;
     const body = this.getMatterBody();
     if (body) {
-      this.scene.matter.body.setAngularVelocity(body, velocity);
+      this.scene.matter.body.setAngularVelocity(body, Phaser.Math.DegToRad(velocity));
       debugLog('action', `${this.name}.setAngularVelocity(${velocity})`);
     } else {
       debugLog('error', `${this.name}.setAngularVelocity: No physics body found.`);
     }
   }
 
+  /**
+   * Push the body for this frame - called every frame it works like wind or a rocket engine.
+   * Heavier bodies speed up more slowly.
+   */
+  applyForce(fx: number, fy: number): void {
+    if (this._stopped) return;
+    const body = this.getMatterBody();
+    if (body) {
+      // Invert Y for user space (positive = up)
+      this.scene.matter.body.applyForce(body, body.position, { x: fx * FORCE_SCALE, y: -fy * FORCE_SCALE });
+    } else {
+      debugLog('error', `${this.name}.applyForce: No physics body found.`);
+    }
+  }
+
+  /**
+   * Change the body's speed at once, like a kick. Kicking away from the centre spins it too,
+   * if it can rotate.
+   * @param px - Where the kick lands, relative to the body's centre (user space, +Y up)
+   */
+  applyImpulse(ix: number, iy: number, px: number = 0, py: number = 0): void {
+    if (this._stopped) return;
+    const body = this.getMatterBody();
+    if (!body) {
+      debugLog('error', `${this.name}.applyImpulse: No physics body found.`);
+      return;
+    }
+    if (body.isStatic) return;
+
+    // Invert Y for user space (positive = up)
+    const impulse = { x: ix, y: -iy };
+    const offset = { x: px, y: -py };
+    const velocity = this.scene.matter.body.getVelocity(body);
+    this.scene.matter.body.setVelocity(body, {
+      x: velocity.x + impulse.x / body.mass,
+      y: velocity.y + impulse.y / body.mass,
+    });
+    // Bodies that can't rotate have infinite inertia, so this adds no spin
+    const spin = (offset.x * impulse.y - offset.y * impulse.x) / body.inertia;
+    if (spin !== 0 && Number.isFinite(spin)) {
+      this.scene.matter.body.setAngularVelocity(body, body.angularVelocity + spin);
+    }
+    debugLog('action', `${this.name}.applyImpulse(${ix}, ${iy}) at (${px}, ${py})`);
+  }
+
+  setMass(mass: number): void {
+    if (this._stopped) return;
+    const body = this.getMatterBody();
+    // Static bodies have infinite mass, which Matter relies on to keep them still
+    if (body && !body.isStatic && mass > 0) {
+      this.scene.matter.body.setMass(body, mass);
+      debugLog('action', `${this.name}.setMass(${mass})`);
+    } else if (!body) {
+      debugLog('error', `${this.name}.setMass: No physics body found.`);
+    }
+  }
+
+  // Mass per pixel of area, so bigger objects get heavier
+  setDensity(density: number): void {
+    if (this._stopped) return;
+    const body = this.getMatterBody();
+    if (body && !body.isStatic && density > 0) {
+      this.scene.matter.body.setDensity(body, density);
+      debugLog('action', `${this.name}.setDensity(${density})`);
+    } else if (!body) {
+      debugLog('error', `${this.name}.setDensity: No physics body found.`);
+    }
+  }
+
+  // How quickly the body slows down on its own, 0 = never
+  setAirDrag(drag: number): void {
+    if (this._stopped) return;
+    const body = this.getMatterBody();
+    if (body) {
+      body.frictionAir = Math.max(0, Math.min(1, drag));
+      debugLog('action', `${this.name}.setAirDrag(${drag})`);
+    } else {
+      debugLog('error', `${this.name}.setAirDrag: No physics body found.`);
+    }
+  }
+
+  // Pixels per frame in any direction
+  getSpeed(): number {
+    const body = this.getMatterBody();
+    return body ? this.scene.matter.body.getSpeed(body) : 0;
+  }
+
+  getVelocityX(): number {
+    const body = this.getMatterBody();
+    return body ? this.scene.matter.body.getVelocity(body).x : 0;
+  }
+
+  // Positive is up, like the other velocity blocks
+  getVelocityY(): number {
+    const body = this.getMatterBody();
+    return body ? -this.scene.matter.body.getVelocity(body).y : 0;
+  }
+
+  // One-way platforms hold up bodies landing on top and let them through from below
+  isOneWayPlatform(): boolean {
+    return this._physicsConfig?.oneWay ?? false;
+  }
+
   // --- Physics Body Size ---
 
   /**
@@ -737,6 +1260,9 @@ export class RuntimeSprite {
 
   stop(): void {
     this._stopped = true;
+    this.clearBubble();
+    this._animationToken++;
+    this._animationSprite?.anims.stop();
   }
 
   isStopped(): boolean {
@@ -763,6 +1289,14 @@ export class RuntimeSprite {
 
   destroy(): void {
     this._stopped = true;
+    this._bubble?.destroy();
+    this._bubble = null;
+
+    // Animations live in the game-wide manager, so remove this sprite's own
+    for (const key of this._animationKeys) {
+      this.scene.anims?.remove(key);
+    }
+    this._animationKeys.clear();
 
     // Remove Matter.js body from world before destroying container
     // This prevents the "body.destroy is not a function" error
@@ -0,0 +1,333 @@
+/**
+ * Web Audio playback for running games. One SoundEngine lives for the whole play session:
+ * it owns the AudioContext, the decoded sound cache and the looping music channel, so music
+ * keeps going when scenes switch. Each scene's runtime mixes its own sounds with a SoundMixer.
+ *
+ * Synthesized notes and drums (see Synth.ts) are mixed the same way as sounds.
+ *
+ * Graph: source -> sprite channel (volume, pan) -> scene mixer (volume) -> session output
+ */
+
+export interface SoundDefinition {
+  dataUrl: string;
+  trimStart?: number; // Seconds
+  trimEnd?: number;
+}
+
+export type SoundEffect = 'volume' | 'pitch' | 'pan';
+
+// Volume is a percentage, pitch is in tenths of a semitone (like Scratch), pan runs left -100 to right 100
+const EFFECT_RANGES: Record<SoundEffect, { min: number; max: number; initial: number }> = {
+  volume: { min: 0, max: 100, initial: 100 },
+  pitch: { min: -360, max: 360, initial: 0 },
+  pan: { min: -100, max: 100, initial: 0 },
+};
+
+function defaultEffects(): Record<SoundEffect, number> {
+  return { volume: EFFECT_RANGES.volume.initial, pitch: EFFECT_RANGES.pitch.initial, pan: EFFECT_RANGES.pan.initial };
+}
+
+function pitchToPlaybackRate(pitch: number): number {
+  return Math.pow(2, pitch / 120);
+}
+
+// Start and length of the part of the buffer to play, clamped to the audio
+function getTrimWindow(sound: SoundDefinition, buffer: AudioBuffer): { offset: number; duration: number } {
+  const offset = Math.max(0, Math.min(sound.trimStart ?? 0, buffer.duration));
+  const end = sound.trimEnd && sound.trimEnd > offset ? Math.min(sound.trimEnd, buffer.duration) : buffer.duration;
+  return { offset, duration: end - offset };
+}
+
+interface MusicTrack {
+  sound: SoundDefinition;
+  source: AudioBufferSourceNode | null; // Null while decoding
+}
+
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private buffers: Map<string, Promise<AudioBuffer | null>> = new Map(); // Data URL -> decoded audio
+  private music: MusicTrack | null = null;
+
+  // Created on first use so nothing touches audio until the game plays a sound
+  getOutput(): GainNode {
+    if (!this.context || !this.output) {
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      this.output.connect(this.context.destination);
+    }
+    // Browsers suspend contexts created before the page was interacted with
+    if (this.context.state === 'suspended') {
+      void this.context.resume();
+    }
+    return this.output;
+  }
+
+  // Decode each sound once; later plays start from the cached buffer
+  load(dataUrl: string): Promise<AudioBuffer | null> {
+    let buffer = this.buffers.get(dataUrl);
+    if (!buffer) {
+      const context = this.getOutput().context;
+      buffer = fetch(dataUrl)
+        .then(response => response.arrayBuffer())
+        .then(data => context.decodeAudioData(data))
+        .catch(error => {
+          console.error('Failed to decode sound:', error);
+          return null;
+        });
+      this.buffers.set(dataUrl, buffer);
+    }
+    return buffer;
+  }
+
+  // Loop a sound in the background; asking for the music that's already playing keeps it going
+  async playMusic(sound: SoundDefinition): Promise<void> {
+    const current = this.music?.sound;
+    if (current && current.dataUrl === sound.dataUrl && current.trimStart === sound.trimStart && current.trimEnd === sound.trimEnd) {
+      return;
+    }
+
+    this.stopMusic();
+    const track: MusicTrack = { sound, source: null };
+    this.music = track;
+
+    const buffer = await this.load(sound.dataUrl);
+    if (!buffer || this.music !== track) return;
+
+    const { offset, duration } = getTrimWindow(sound, buffer);
+    const source = this.getOutput().context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.loopStart = offset;
+    source.loopEnd = offset + duration;
+    source.connect(this.getOutput());
+    source.start(0, offset);
+    track.source = source;
+  }
+
+  stopMusic(): void {
+    this.music?.source?.stop();
+    this.music?.source?.disconnect();
+    this.music = null;
+  }
+
+  // End of the play session: silence the music and forget decoded sounds
+  reset(): void {
+    this.stopMusic();
+    this.buffers.clear();
+  }
+
+  close(): void {
+    this.reset();
+    void this.context?.close();
+    this.context = null;
+    this.output = null;
+  }
+}
+
+interface SoundChannel {
+  effects: Record<SoundEffect, number>;
+  gain: GainNode | null; // Built on the channel's first sound
+  panner: StereoPannerNode | null;
+  sources: Set<AudioBufferSourceNode>;
+}
+
+interface PlayingSound {
+  sources: AudioScheduledSourceNode[];
+  channelId: string | null;
+  finish: () => void;
+}
+
+/**
+ * One scene's sounds: a scene volume plus a channel per sprite holding its volume, pitch
+ * and pan effects. Trim is applied by the buffer source itself, so it is sample accurate.
+ */
+export class SoundMixer {
+  private engine: SoundEngine;
+  private output: GainNode | null = null;
+  private volume: number = 100;
+  private channels: Map<string, SoundChannel> = new Map();
+  private playing: Set<PlayingSound> = new Set();
+  private generation: number = 0; // Bumped by stopAll so sounds still decoding never start
+
+  constructor(engine: SoundEngine) {
+    this.engine = engine;
+  }
+
+  // Resolves when the sound ends or is stopped
+  async play(sound: SoundDefinition, channelId: string | null): Promise<void> {
+    const generation = this.generation;
+    const buffer = await this.engine.load(sound.dataUrl);
+    if (!buffer || generation !== this.generation) return;
+
+    const channel = channelId ? this.getChannel(channelId) : null;
+    const output = channel ? this.getChannelInput(channel) : this.getOutput();
+    const { offset, duration } = getTrimWindow(sound, buffer);
+
+    const source = output.context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = pitchToPlaybackRate(channel?.effects.pitch ?? 0);
+    source.connect(output);
+    source.start(0, offset, duration);
+
+    channel?.sources.add(source);
+    await this.track([source], source, channelId);
+    channel?.sources.delete(source);
+  }
+
+  /**
+   * Play synthesized sources built by `schedule` into the channel.
+   * Resolves after `seconds` on the audio clock, or when stopped.
+   */
+  playSynth(channelId: string | null, seconds: number, schedule: (output: AudioNode) => AudioScheduledSourceNode[]): Promise<void> {
+    const output = channelId ? this.getChannelInput(this.getChannel(channelId)) : this.getOutput();
+    const context = output.context;
+
+    // A silent source marks the end of the beats, however long the hits ring on
+    const timer = context.createConstantSource();
+    timer.offset.value = 0;
+    timer.connect(output);
+    timer.start();
+    timer.stop(context.currentTime + Math.max(0, seconds));
+
+    return this.track([timer, ...schedule(output)], timer, channelId);
+  }
+
+  stopAll(): void {
+    this.generation++;
+    for (const playing of [...this.playing]) {
+      this.stopSound(playing);
+    }
+  }
+
+  setVolume(volume: number): void {
+    this.volume = Math.max(0, Math.min(100, volume));
+    if (this.output) {
+      this.output.gain.value = this.volume / 100;
+    }
+  }
+
+  getVolume(): number {
+    return this.volume;
+  }
+
+  setEffect(channelId: string, effect: SoundEffect, value: number): void {
+    const channel = this.getChannel(channelId);
+    const range = EFFECT_RANGES[effect];
+    channel.effects[effect] = Math.max(range.min, Math.min(range.max, Number(value) || 0));
+    this.applyEffects(channel);
+  }
+
+  getEffect(channelId: string, effect: SoundEffect): number {
+    return this.channels.get(channelId)?.effects[effect] ?? EFFECT_RANGES[effect].initial;
+  }
+
+  clearEffects(channelId: string): void {
+    const channel = this.channels.get(channelId);
+    if (!channel) return;
+    channel.effects = defaultEffects();
+    this.applyEffects(channel);
+  }
+
+  // Clones start with the effects of the sprite they were cloned from
+  copyEffects(fromId: string, toId: string): void {
+    const from = this.channels.get(fromId);
+    if (!from) return;
+    this.getChannel(toId).effects = { ...from.effects };
+  }
+
+  // Deleting a sprite stops its sounds, like Scratch
+  removeChannel(channelId: string): void {
+    const channel = this.channels.get(channelId);
+    if (!channel) return;
+    for (const playing of [...this.playing]) {
+      if (playing.channelId === channelId) this.stopSound(playing);
+    }
+    channel.gain?.disconnect();
+    channel.panner?.disconnect();
+    this.channels.delete(channelId);
+  }
+
+  destroy(): void {
+    this.stopAll();
+    for (const channelId of [...this.channels.keys()]) {
+      this.removeChannel(channelId);
+    }
+    this.output?.disconnect();
+    this.output = null;
+  }
+
+  // Sources stay stoppable until they have all ended; the promise resolves when the timer source ends
+  private track(sources: AudioScheduledSourceNode[], timer: AudioScheduledSourceNode, channelId: string | null): Promise<void> {
+    return new Promise(resolve => {
+      let remaining = sources.length;
+      const playing: PlayingSound = {
+        sources,
+        channelId,
+        finish: () => {
+          this.playing.delete(playing);
+          for (const source of sources) {
+            source.onended = null;
+            source.disconnect();
+          }
+          resolve();
+        },
+      };
+      for (const source of sources) {
+        source.onended = () => {
+          if (source === timer) resolve();
+          if (--remaining === 0) playing.finish();
+        };
+      }
+      this.playing.add(playing);
+    });
+  }
+
+  private stopSound(playing: PlayingSound): void {
+    for (const source of playing.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    playing.finish();
+  }
+
+  private getOutput(): GainNode {
+    if (!this.output) {
+      const sessionOutput = this.engine.getOutput();
+      this.output = sessionOutput.context.createGain();
+      this.output.gain.value = this.volume / 100;
+      this.output.connect(sessionOutput);
+    }
+    return this.output;
+  }
+
+  private getChannel(channelId: string): SoundChannel {
+    let channel = this.channels.get(channelId);
+    if (!channel) {
+      channel = { effects: defaultEffects(), gain: null, panner: null, sources: new Set() };
+      this.channels.set(channelId, channel);
+    }
+    return channel;
+  }
+
+  private getChannelInput(channel: SoundChannel): GainNode {
+    if (!channel.gain || !channel.panner) {
+      const output = this.getOutput();
+      channel.gain = output.context.createGain();
+      channel.panner = output.context.createStereoPanner();
+      channel.gain.connect(channel.panner);
+      channel.panner.connect(output);
+      this.applyEffects(channel);
+    }
+    return channel.gain;
+  }
+
+  // Effects change sounds that are already playing too
+  private applyEffects(channel: SoundChannel): void {
+    if (channel.gain) channel.gain.gain.value = channel.effects.volume / 100;
+    if (channel.panner) channel.panner.pan.value = channel.effects.pan / 100;
+    for (const source of channel.sources) {
+      source.playbackRate.value = pitchToPlaybackRate(channel.effects.pitch);
+    }
+  }
+}
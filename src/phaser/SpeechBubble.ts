@@ -0,0 +1,135 @@
+import Phaser from 'phaser';
+
+export type BubbleKind = 'say' | 'think';
+
+// Bubble layout in screen pixels - the bubble counter-scales with camera zoom to stay this size
+const MAX_TEXT_LENGTH = 330;
+const MAX_TEXT_WIDTH = 170;
+const MIN_WIDTH = 50;
+const PADDING = 10;
+const CORNER_RADIUS = 14;
+const TAIL_HEIGHT = 14;
+const FILL_COLOR = 0xffffff;
+const BORDER_COLOR = 0xa0a0b0;
+const BUBBLE_DEPTH = 100000; // Above every sprite
+
+/**
+ * Speech or thought bubble shown next to a sprite.
+ * It lives in world space, so it moves with the camera, and it is repositioned after every
+ * update so it follows the sprite's container - flipping to the left side and staying below
+ * the top edge when the sprite is near the edge of the camera view.
+ */
+export class SpeechBubble {
+  private scene: Phaser.Scene;
+  private target: Phaser.GameObjects.Container;
+  private container: Phaser.GameObjects.Container;
+  private graphics: Phaser.GameObjects.Graphics;
+  private text: Phaser.GameObjects.Text;
+  private kind: BubbleKind = 'say';
+  private flipped: boolean = false;
+  private bubbleWidth: number = 0;
+  private bubbleHeight: number = 0;
+
+  constructor(scene: Phaser.Scene, target: Phaser.GameObjects.Container) {
+    this.scene = scene;
+    this.target = target;
+
+    this.graphics = scene.add.graphics();
+    this.text = scene.add.text(0, 0, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '14px',
+      color: '#575E75',
+      align: 'center',
+      wordWrap: { width: MAX_TEXT_WIDTH, useAdvancedWrap: true },
+    });
+    this.container = scene.add.container(0, 0, [this.graphics, this.text]);
+    this.container.setDepth(BUBBLE_DEPTH);
+    this.container.setVisible(false);
+
+    scene.events.on(Phaser.Scenes.Events.POST_UPDATE, this.handlePostUpdate, this);
+  }
+
+  show(kind: BubbleKind, message: string): void {
+    this.kind = kind;
+    this.text.setText(message.slice(0, MAX_TEXT_LENGTH));
+    this.bubbleWidth = Math.max(MIN_WIDTH, this.text.width + PADDING * 2);
+    this.bubbleHeight = this.text.height + PADDING * 2;
+    this.container.setVisible(true);
+    this.reposition(true);
+  }
+
+  hide(): void {
+    this.container.setVisible(false);
+  }
+
+  destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.POST_UPDATE, this.handlePostUpdate, this);
+    this.container.destroy();
+  }
+
+  // Runs after physics has moved the sprite for this frame
+  private handlePostUpdate(): void {
+    this.reposition(false);
+  }
+
+  // Anchor the tail to the top corner of the sprite, keeping the bubble inside the camera view
+  private reposition(forceRedraw: boolean): void {
+    if (!this.container.visible || !this.target.active) return;
+
+    const camera = this.scene.cameras.main;
+    const view = camera.worldView;
+    const scale = 1 / camera.zoom;
+    const bounds = this.target.getBounds();
+    const width = this.bubbleWidth * scale;
+    const height = (this.bubbleHeight + TAIL_HEIGHT) * scale;
+
+    // Prefer the right side like Scratch, flip when there's no room
+    let flipped = bounds.right + width > view.right;
+    if (flipped && bounds.left - width < view.left) flipped = false;
+
+    const x = flipped ? bounds.left : bounds.right;
+    const y = Math.max(bounds.top, view.top + height);
+
+    this.container.setPosition(x, y);
+    this.container.setScale(scale);
+
+    if (forceRedraw || flipped !== this.flipped) {
+      this.flipped = flipped;
+      this.redraw();
+    }
+  }
+
+  // Draw the bubble with its tail tip at (0, 0)
+  private redraw(): void {
+    const g = this.graphics;
+    const w = this.bubbleWidth;
+    const h = this.bubbleHeight;
+    const dir = this.flipped ? -1 : 1;
+    const left = this.flipped ? -w : 0;
+    const top = -h - TAIL_HEIGHT;
+
+    g.clear();
+    g.fillStyle(FILL_COLOR, 1);
+    g.lineStyle(2, BORDER_COLOR, 1);
+    g.fillRoundedRect(left, top, w, h, CORNER_RADIUS);
+    g.strokeRoundedRect(left, top, w, h, CORNER_RADIUS);
+
+    if (this.kind === 'say') {
+      // Triangle tail - filled slightly into the body to hide the border underneath
+      const baseY = -TAIL_HEIGHT;
+      const near = dir * 12;
+      const far = dir * 28;
+      g.fillTriangle(near, baseY - 2, far, baseY - 2, 0, 0);
+      g.lineBetween(near, baseY, 0, 0);
+      g.lineBetween(far, baseY, 0, 0);
+    } else {
+      // Thought bubbles trail off in little circles
+      g.fillCircle(dir * 12, -TAIL_HEIGHT + 4, 5);
+      g.strokeCircle(dir * 12, -TAIL_HEIGHT + 4, 5);
+      g.fillCircle(dir * 4, -2, 3);
+      g.strokeCircle(dir * 4, -2, 3);
+    }
+
+    this.text.setPosition(left + (w - this.text.width) / 2, top + PADDING);
+  }
+}
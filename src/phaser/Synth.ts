@@ -0,0 +1,267 @@
+/**
+ * Synthesized instruments and drums for the music blocks. Every voice is built from Web Audio
+ * oscillators or a noise buffer shaped by an envelope, so no sound files are needed.
+ * Notes are MIDI numbers like in Scratch: 60 is middle C.
+ */
+
+export type Instrument = 'piano' | 'organ' | 'guitar' | 'bass' | 'flute' | 'synth' | 'musicBox';
+
+export type Drum = 'kick' | 'snare' | 'closedHiHat' | 'openHiHat' | 'clap' | 'tom' | 'crash' | 'cowbell';
+
+export const DEFAULT_INSTRUMENT: Instrument = 'piano';
+
+const MIN_NOTE = 0;
+const MAX_NOTE = 130;
+const NOTE_LEVEL = 0.3; // Peak gain of one note, leaving room for chords played by several objects
+
+// An oscillator layered into a voice, tuned as a multiple of the note's frequency
+interface Harmonic {
+  type: OscillatorType;
+  ratio: number;
+  level: number;
+}
+
+// Times in seconds; sustain is a fraction of the peak held until the note is released
+interface Envelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+interface InstrumentVoice {
+  label: string;
+  harmonics: Harmonic[];
+  envelope: Envelope;
+  brightness?: number; // Low-pass cutoff as a multiple of the note's frequency
+}
+
+const INSTRUMENTS: Record<Instrument, InstrumentVoice> = {
+  piano: {
+    label: 'Piano',
+    harmonics: [{ type: 'triangle', ratio: 1, level: 1 }, { type: 'sine', ratio: 2, level: 0.3 }],
+    envelope: { attack: 0.005, decay: 0.6, sustain: 0.2, release: 0.15 },
+  },
+  organ: {
+    label: 'Organ',
+    harmonics: [{ type: 'sine', ratio: 1, level: 0.6 }, { type: 'sine', ratio: 2, level: 0.3 }, { type: 'sine', ratio: 4, level: 0.15 }],
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.05 },
+  },
+  guitar: {
+    label: 'Guitar',
+    harmonics: [{ type: 'sawtooth', ratio: 1, level: 0.6 }],
+    envelope: { attack: 0.005, decay: 0.4, sustain: 0.1, release: 0.1 },
+    brightness: 6,
+  },
+  bass: {
+    label: 'Bass',
+    harmonics: [{ type: 'triangle', ratio: 1, level: 1 }, { type: 'square', ratio: 1, level: 0.15 }],
+    envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.1 },
+    brightness: 4,
+  },
+  flute: {
+    label: 'Flute',
+    harmonics: [{ type: 'sine', ratio: 1, level: 1 }, { type: 'sine', ratio: 2, level: 0.1 }],
+    envelope: { attack: 0.08, decay: 0.1, sustain: 0.8, release: 0.1 },
+  },
+  synth: {
+    label: 'Synth lead',
+    harmonics: [{ type: 'sawtooth', ratio: 1, level: 0.4 }, { type: 'square', ratio: 1.005, level: 0.2 }],
+    envelope: { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.1 },
+    brightness: 8,
+  },
+  musicBox: {
+    label: 'Music box',
+    harmonics: [{ type: 'sine', ratio: 1, level: 1 }, { type: 'sine', ratio: 4, level: 0.2 }],
+    envelope: { attack: 0.002, decay: 0.8, sustain: 0, release: 0.1 },
+  },
+};
+
+const DRUM_LABELS: Record<Drum, string> = {
+  kick: 'Bass drum',
+  snare: 'Snare drum',
+  closedHiHat: 'Closed hi-hat',
+  openHiHat: 'Open hi-hat',
+  clap: 'Hand clap',
+  tom: 'Tom',
+  crash: 'Crash cymbal',
+  cowbell: 'Cowbell',
+};
+
+export function getInstrumentDropdownOptions(): Array<[string, string]> {
+  return Object.entries(INSTRUMENTS).map(([value, voice]) => [voice.label, value]);
+}
+
+export function getDrumDropdownOptions(): Array<[string, string]> {
+  return Object.entries(DRUM_LABELS).map(([value, label]) => [label, value]);
+}
+
+export function isInstrument(value: string): value is Instrument {
+  return Object.prototype.hasOwnProperty.call(INSTRUMENTS, value);
+}
+
+export function isDrum(value: string): value is Drum {
+  return Object.prototype.hasOwnProperty.call(DRUM_LABELS, value);
+}
+
+function noteToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Start a note now. It lasts exactly `seconds`, released inside that time so back-to-back
+ * notes don't overlap.
+ * @returns The sources, so the note can be stopped early
+ */
+export function scheduleNote(output: AudioNode, instrument: Instrument, note: number, seconds: number): AudioScheduledSourceNode[] {
+  if (seconds <= 0) return [];
+  const context = output.context;
+  const voice = INSTRUMENTS[instrument];
+  const frequency = noteToFrequency(Math.max(MIN_NOTE, Math.min(MAX_NOTE, Number(note) || 0)));
+  const start = context.currentTime;
+  const end = start + seconds;
+
+  const { attack, decay, sustain, release } = voice.envelope;
+  const attackEnd = start + Math.min(attack, seconds / 2);
+  const releaseStart = Math.max(attackEnd, end - Math.min(release, seconds / 2));
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0, start);
+  envelope.gain.linearRampToValueAtTime(NOTE_LEVEL, attackEnd);
+  envelope.gain.setTargetAtTime(NOTE_LEVEL * sustain, attackEnd, decay / 3);
+  envelope.gain.setTargetAtTime(0, releaseStart, Math.max(0.001, (end - releaseStart) / 4));
+
+  if (voice.brightness) {
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = Math.min(frequency * voice.brightness, context.sampleRate / 2);
+    envelope.connect(filter);
+    filter.connect(output);
+  } else {
+    envelope.connect(output);
+  }
+
+  return voice.harmonics.map(harmonic => {
+    const oscillator = context.createOscillator();
+    oscillator.type = harmonic.type;
+    oscillator.frequency.value = frequency * harmonic.ratio;
+    const level = context.createGain();
+    level.gain.value = harmonic.level;
+    oscillator.connect(level);
+    level.connect(envelope);
+    oscillator.start(start);
+    oscillator.stop(end);
+    return oscillator;
+  });
+}
+
+// White noise is generated once per audio context and shared by every drum hit
+const noiseBuffers: WeakMap<BaseAudioContext, AudioBuffer> = new WeakMap();
+
+function getNoiseBuffer(context: BaseAudioContext): AudioBuffer {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+}
+
+// A gain that starts at level and dies away over `length` seconds
+function createDecay(output: AudioNode, start: number, level: number, length: number): GainNode {
+  const gain = output.context.createGain();
+  gain.gain.setValueAtTime(level, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + length);
+  gain.connect(output);
+  return gain;
+}
+
+function playNoise(
+  output: AudioNode,
+  start: number,
+  length: number,
+  filterType: BiquadFilterType,
+  frequency: number
+): AudioScheduledSourceNode {
+  const context = output.context;
+  const source = context.createBufferSource();
+  source.buffer = getNoiseBuffer(context);
+  source.loop = true;
+  const filter = context.createBiquadFilter();
+  filter.type = filterType;
+  filter.frequency.value = frequency;
+  source.connect(filter);
+  filter.connect(output);
+  source.start(start);
+  source.stop(start + length);
+  return source;
+}
+
+// A tone whose pitch falls from `from` to `to` Hz, like a struck drum skin
+function playTone(
+  output: AudioNode,
+  start: number,
+  length: number,
+  type: OscillatorType,
+  from: number,
+  to: number = from
+): AudioScheduledSourceNode {
+  const oscillator = output.context.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(from, start);
+  if (to !== from) {
+    oscillator.frequency.exponentialRampToValueAtTime(to, start + length / 2);
+  }
+  oscillator.connect(output);
+  oscillator.start(start);
+  oscillator.stop(start + length);
+  return oscillator;
+}
+
+/**
+ * Start a drum hit now. Hits have their own length and ring on past the beats waited for.
+ * @returns The sources, so the hit can be stopped early
+ */
+export function scheduleDrum(output: AudioNode, drum: Drum): AudioScheduledSourceNode[] {
+  const start = output.context.currentTime;
+
+  switch (drum) {
+    case 'kick':
+      return [playTone(createDecay(output, start, 1, 0.4), start, 0.4, 'sine', 150, 45)];
+    case 'snare':
+      return [
+        playNoise(createDecay(output, start, 0.5, 0.2), start, 0.2, 'highpass', 1200),
+        playTone(createDecay(output, start, 0.4, 0.1), start, 0.1, 'triangle', 185),
+      ];
+    case 'closedHiHat':
+      return [playNoise(createDecay(output, start, 0.3, 0.05), start, 0.05, 'highpass', 7000)];
+    case 'openHiHat':
+      return [playNoise(createDecay(output, start, 0.3, 0.35), start, 0.35, 'highpass', 7000)];
+    case 'clap': {
+      // A few quick bursts blur into one clap
+      const gain = output.context.createGain();
+      for (const offset of [0, 0.012, 0.024]) {
+        gain.gain.setValueAtTime(0.6, start + offset);
+        gain.gain.exponentialRampToValueAtTime(0.05, start + offset + 0.01);
+      }
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+      gain.connect(output);
+      return [playNoise(gain, start, 0.2, 'bandpass', 1500)];
+    }
+    case 'tom':
+      return [playTone(createDecay(output, start, 0.8, 0.35), start, 0.35, 'sine', 160, 90)];
+    case 'crash':
+      return [playNoise(createDecay(output, start, 0.4, 1.2), start, 1.2, 'highpass', 4000)];
+    case 'cowbell': {
+      const gain = createDecay(output, start, 0.3, 0.3);
+      const filter = output.context.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.value = 800;
+      filter.connect(gain);
+      return [playTone(filter, start, 0.3, 'square', 540), playTone(filter, start, 0.3, 'square', 800)];
+    }
+  }
+}
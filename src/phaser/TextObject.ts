@@ -0,0 +1,37 @@
+import Phaser from 'phaser';
+import type { TextAlign, TextConfig } from '../types';
+
+// Name of the Phaser text inside a text object's container
+export const TEXT_OBJECT_NAME = 'text';
+
+// Fonts offered in the inspector - all safe to assume on kids' machines
+export const TEXT_FONTS = ['Arial', 'Verdana', 'Georgia', 'Courier New', 'Comic Sans MS', 'Impact', 'Trebuchet MS'];
+
+const ALIGN_ORIGIN: Record<TextAlign, number> = { left: 0, center: 0.5, right: 1 };
+
+export function createTextVisual(scene: Phaser.Scene, config: TextConfig): Phaser.GameObjects.Text {
+  const text = scene.add.text(0, 0, '');
+  text.setName(TEXT_OBJECT_NAME);
+  applyTextConfig(text, config);
+  return text;
+}
+
+// Restyle a text visual. The anchor follows the alignment, so the object's position is
+// the left edge, center or right edge of the text.
+export function applyTextConfig(text: Phaser.GameObjects.Text, config: TextConfig): void {
+  text.setStyle({
+    fontFamily: config.fontFamily,
+    fontSize: `${config.fontSize}px`,
+    color: config.color,
+    align: config.align,
+    stroke: config.outlineColor,
+    strokeThickness: config.outlineWidth,
+  });
+  text.setText(config.content);
+  text.setOrigin(ALIGN_ORIGIN[config.align] ?? 0.5, 0.5);
+}
+
+// Center of the drawn text relative to the container origin
+export function getTextCenterOffset(text: Phaser.GameObjects.Text): number {
+  return (0.5 - text.originX) * text.width;
+}
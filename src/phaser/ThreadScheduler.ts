@@ -0,0 +1,130 @@
+/**
+ * Cooperative scheduler for script threads. Each script runs as its own async function that
+ * gives control back at loop boundaries via yield() and sleep(); tick() resumes parked threads
+ * once per frame. A thread whose owner is no longer alive is never resumed, so stopping a
+ * sprite really halts its scripts. Kept free of Phaser so the rules can be tested on their own.
+ */
+
+// Scripts keep running within a frame until something visible changes or this budget is spent
+export const FRAME_BUDGET_MS = 12;
+
+// A script thread parked until the scheduler wakes it on a later frame
+interface SleepingThread<Owner> {
+  owner: Owner | null;
+  wakeTime: number; // Scheduler clock time (ms) to resume at
+  resume: () => void;
+}
+
+// A running thread someone is waiting on - settled when it ends or its owner is dropped
+interface ThreadEnding<Owner> {
+  owner: Owner;
+  settle: () => void;
+}
+
+export class ThreadScheduler<Owner> {
+  private sleepingThreads: SleepingThread<Owner>[] = [];
+  private endings: ThreadEnding<Owner>[] = [];
+  private _clock: number = 0; // ms of running time - only advances when tick() is called
+  private sliceStart: number | null = null; // When threads started running in the current frame
+  private redrawRequested: boolean = false;
+  private isAlive: (owner: Owner) => boolean;
+  private now: () => number;
+
+  /**
+   * @param isAlive - Whether an owner's threads may still run
+   * @param now - Wall clock used for the frame budget
+   */
+  constructor(isAlive: (owner: Owner) => boolean, now: () => number = () => performance.now()) {
+    this.isAlive = isAlive;
+    this.now = now;
+  }
+
+  get clock(): number {
+    return this._clock;
+  }
+
+  get sleepingCount(): number {
+    return this.sleepingThreads.length;
+  }
+
+  // Park the calling thread until the clock has advanced by ms (0 = next frame)
+  sleep(owner: Owner | null | undefined, ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.sleepingThreads.push({ owner: owner ?? null, wakeTime: this._clock + ms, resume: resolve });
+    });
+  }
+
+  /**
+   * Called at the end of every loop iteration. Keeps running in the current frame while
+   * nothing visible has changed and the frame budget lasts, otherwise parks the thread until
+   * the next frame so the stage can redraw.
+   */
+  yield(owner: Owner | null | undefined): Promise<void> {
+    if (this.redrawRequested) return this.sleep(owner, 0);
+    const now = this.now();
+    if (this.sliceStart === null) this.sliceStart = now;
+    if (now - this.sliceStart >= FRAME_BUDGET_MS) return this.sleep(owner, 0);
+    if (!this.isOwnerAlive(owner)) return new Promise(() => {});
+    return Promise.resolve();
+  }
+
+  /**
+   * Wait for a thread to end. A halted thread never settles by itself, so this also settles
+   * when its owner is dropped - whoever waits on it isn't left waiting forever.
+   */
+  track(owner: Owner, thread: Promise<void>): Promise<void> {
+    return new Promise(resolve => {
+      const ending: ThreadEnding<Owner> = { owner, settle: resolve };
+      this.endings.push(ending);
+      void thread.finally(() => {
+        this.endings = this.endings.filter(e => e !== ending);
+        resolve();
+      });
+    });
+  }
+
+  // Something changed on screen, so looping threads yield for a redraw
+  requestRedraw(): void {
+    this.redrawRequested = true;
+  }
+
+  // Drop the parked threads of an owner that was stopped or removed
+  drop(owner: Owner): void {
+    this.sleepingThreads = this.sleepingThreads.filter(thread => thread.owner !== owner);
+
+    const ended = this.endings.filter(ending => ending.owner === owner);
+    this.endings = this.endings.filter(ending => ending.owner !== owner);
+    for (const ending of ended) {
+      ending.settle();
+    }
+  }
+
+  // Drop every parked thread - none of them will be resumed, and nobody waiting on one is either
+  clear(): void {
+    this.sleepingThreads = [];
+    this.endings = [];
+  }
+
+  // Advance the clock and resume parked threads that are due, in the order they were parked
+  tick(delta: number): void {
+    this._clock += delta;
+    this.redrawRequested = false;
+    this.sliceStart = null;
+
+    const due: SleepingThread<Owner>[] = [];
+    this.sleepingThreads = this.sleepingThreads.filter(thread => {
+      if (!this.isOwnerAlive(thread.owner)) return false;
+      if (thread.wakeTime > this._clock) return true;
+      due.push(thread);
+      return false;
+    });
+    for (const thread of due) {
+      thread.resume();
+    }
+  }
+
+  // Threads without an owner (stage scripts) always run
+  isOwnerAlive(owner: Owner | null | undefined): boolean {
+    return !owner || this.isAlive(owner);
+  }
+}
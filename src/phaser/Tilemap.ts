@@ -0,0 +1,208 @@
+import Phaser from 'phaser';
+import type { TilemapConfig } from '../types';
+import { EMPTY_TILE, getSolidTileRects } from '../utils/tilemap';
+import { WORLD_CATEGORY } from './CollisionFilter';
+
+const TILEMAP_DEPTH = -500; // In front of the backdrop and ground, behind every sprite
+const GRID_COLOR = 0xffffff;
+
+let textureCounter = 0;
+
+interface TilemapViewOptions {
+  physics?: boolean; // Add static Matter bodies for solid tiles (play mode)
+}
+
+/**
+ * Draws a scene's tilemap with a Phaser tilemap layer. Painting in the editor updates
+ * only the changed cells; a new tileset or map size rebuilds the layer.
+ */
+export class TilemapView {
+  private scene: Phaser.Scene;
+  private physics: boolean;
+  private config: TilemapConfig | null = null;
+  private map: Phaser.Tilemaps.Tilemap | null = null;
+  private layer: Phaser.Tilemaps.TilemapLayer | null = null;
+  private grid: Phaser.GameObjects.Graphics | null = null;
+  private gridVisible = false;
+  private bodies: MatterJS.BodyType[] = [];
+  private textureKeys: Map<string, string> = new Map(); // Tileset data URL -> texture key
+
+  constructor(scene: Phaser.Scene, options: TilemapViewOptions = {}) {
+    this.scene = scene;
+    this.physics = options.physics ?? false;
+  }
+
+  show(config: TilemapConfig | null): void {
+    const previous = this.config;
+    this.config = config;
+
+    if (this.physics) {
+      this.updateBodies();
+    }
+
+    if (config && previous && this.layer && isSameLayout(config, previous)) {
+      this.updateChangedTiles(previous, config);
+      return;
+    }
+
+    this.clearDisplay();
+    this.drawGrid();
+    if (!config?.tileset) return;
+    this.loadTexture(config.tileset, (textureKey) => {
+      // Another tilemap may have been shown while this one loaded
+      if (this.config !== config) return;
+      this.createLayer(config, textureKey);
+    });
+  }
+
+  // Cell lines and the map outline, shown while painting tiles
+  setGridVisible(visible: boolean): void {
+    this.gridVisible = visible;
+    this.drawGrid();
+  }
+
+  destroy(): void {
+    this.clearDisplay();
+    this.clearBodies();
+    for (const textureKey of this.textureKeys.values()) {
+      if (this.scene.textures.exists(textureKey)) {
+        this.scene.textures.remove(textureKey);
+      }
+    }
+    this.textureKeys.clear();
+    this.config = null;
+  }
+
+  private loadTexture(dataUrl: string, onLoad: (textureKey: string) => void): void {
+    const existing = this.textureKeys.get(dataUrl);
+    if (existing && this.scene.textures.exists(existing)) {
+      onLoad(existing);
+      return;
+    }
+
+    const textureKey = `tileset_${++textureCounter}`;
+    const img = new Image();
+    img.onload = () => {
+      if (!this.scene.sys.textures) return; // Scene was destroyed while loading
+      if (!this.scene.textures.exists(textureKey)) {
+        this.scene.textures.addImage(textureKey, img);
+      }
+      this.textureKeys.set(dataUrl, textureKey);
+      onLoad(textureKey);
+    };
+    img.src = dataUrl;
+  }
+
+  private createLayer(config: TilemapConfig, textureKey: string): void {
+    this.clearLayer();
+
+    const map = this.scene.make.tilemap({
+      width: config.columns,
+      height: config.rows,
+      tileWidth: config.tileSize,
+      tileHeight: config.tileSize,
+    });
+    const tileset = map.addTilesetImage('tileset', textureKey, config.tileSize, config.tileSize, 0, 0, 0);
+    const layer = tileset ? map.createBlankLayer('tiles', tileset, 0, 0) : null;
+    if (!layer) {
+      map.destroy();
+      return;
+    }
+
+    layer.setDepth(TILEMAP_DEPTH);
+    config.tiles.forEach((tile, index) => {
+      if (tile !== EMPTY_TILE) {
+        layer.putTileAt(tile, index % config.columns, Math.floor(index / config.columns));
+      }
+    });
+    this.map = map;
+    this.layer = layer;
+  }
+
+  private updateChangedTiles(previous: TilemapConfig, config: TilemapConfig): void {
+    const layer = this.layer;
+    if (!layer || previous.tiles === config.tiles) return;
+
+    config.tiles.forEach((tile, index) => {
+      if (tile === previous.tiles[index]) return;
+      const column = index % config.columns;
+      const row = Math.floor(index / config.columns);
+      if (tile === EMPTY_TILE) {
+        layer.removeTileAt(column, row);
+      } else {
+        layer.putTileAt(tile, column, row);
+      }
+    });
+  }
+
+  private drawGrid(): void {
+    const config = this.config;
+    if (!this.gridVisible || !config) {
+      this.grid?.destroy();
+      this.grid = null;
+      return;
+    }
+
+    if (!this.grid) {
+      this.grid = this.scene.add.graphics();
+      this.grid.setDepth(TILEMAP_DEPTH + 1);
+    }
+    const grid = this.grid;
+    const width = config.columns * config.tileSize;
+    const height = config.rows * config.tileSize;
+
+    grid.clear();
+    grid.lineStyle(1, GRID_COLOR, 0.15);
+    for (let column = 1; column < config.columns; column++) {
+      grid.lineBetween(column * config.tileSize, 0, column * config.tileSize, height);
+    }
+    for (let row = 1; row < config.rows; row++) {
+      grid.lineBetween(0, row * config.tileSize, width, row * config.tileSize);
+    }
+    grid.lineStyle(2, GRID_COLOR, 0.5);
+    grid.strokeRect(0, 0, width, height);
+  }
+
+  // Labelled as ground so "touching ground" works when standing on solid tiles
+  private updateBodies(): void {
+    this.clearBodies();
+    if (!this.config) return;
+
+    for (const rect of getSolidTileRects(this.config)) {
+      this.bodies.push(this.scene.matter.add.rectangle(
+        rect.x + rect.width / 2,
+        rect.y + rect.height / 2,
+        rect.width,
+        rect.height,
+        { isStatic: true, label: 'ground', collisionFilter: { category: WORLD_CATEGORY, mask: 0xFFFFFFFF } }
+      ));
+    }
+  }
+
+  private clearBodies(): void {
+    for (const body of this.bodies) {
+      this.scene.matter.world?.remove(body);
+    }
+    this.bodies = [];
+  }
+
+  private clearLayer(): void {
+    this.layer?.destroy();
+    this.layer = null;
+    this.map?.destroy();
+    this.map = null;
+  }
+
+  private clearDisplay(): void {
+    this.clearLayer();
+    this.grid?.destroy();
+    this.grid = null;
+  }
+}
+
+function isSameLayout(a: TilemapConfig, b: TilemapConfig): boolean {
+  return a.tileset === b.tileset &&
+    a.tileSize === b.tileSize &&
+    a.columns === b.columns &&
+    a.rows === b.rows;
+}
@@ -0,0 +1,230 @@
+import Phaser from 'phaser';
+import type { VariableMonitorMode, VariableValue } from '../types';
+
+// Monitor layout in screen pixels - play monitors counter-scale with camera zoom to stay this size
+const PADDING = 5;
+const ROW_HEIGHT = 18;
+const MIN_VALUE_WIDTH = 40;
+const SLIDER_HEIGHT = 16;
+const KNOB_RADIUS = 6;
+const MAX_VALUE_LENGTH = 60;
+const BOX_COLOR = 0xe6f0ff;
+const BORDER_COLOR = 0xc6ccd6;
+const VALUE_COLOR = 0xff8c1a;
+const TRACK_COLOR = 0xc6ccd6;
+const MONITOR_DEPTH = 200000; // Above sprites and speech bubbles
+
+export interface MonitorViewConfig {
+  label: string;
+  mode: VariableMonitorMode;
+  x: number;
+  y: number;
+  sliderMin: number;
+  sliderMax: number;
+  // Play monitors stay put on screen; editor monitors sit on the stage preview and pan with it
+  fixed: boolean;
+}
+
+// Show numbers the way kids typed them, without floating point noise
+export function formatMonitorValue(value: VariableValue): string {
+  if (typeof value === 'number') {
+    return String(Math.round(value * 1e6) / 1e6);
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ').slice(0, MAX_VALUE_LENGTH);
+  }
+  return String(value).slice(0, MAX_VALUE_LENGTH);
+}
+
+/**
+ * Scratch-style readout of one variable: a labelled value ("normal"), just the value ("large"),
+ * or a labelled value with a slider underneath. Positions are in stage pixels from the top-left.
+ */
+export class VariableMonitorView {
+  private scene: Phaser.Scene;
+  private config: MonitorViewConfig;
+  private container: Phaser.GameObjects.Container;
+  private graphics: Phaser.GameObjects.Graphics;
+  private labelText: Phaser.GameObjects.Text;
+  private valueText: Phaser.GameObjects.Text;
+  private knob: Phaser.GameObjects.Arc | null = null;
+  private dragZone: Phaser.GameObjects.Zone | null = null;
+  private value: VariableValue = 0;
+  private displayed: string | null = null;
+  private trackStart: number = 0;
+  private trackWidth: number = 0;
+  private sliderDragging: boolean = false;
+  private onSliderChange: ((value: number) => void) | null = null;
+
+  constructor(scene: Phaser.Scene, config: MonitorViewConfig) {
+    this.scene = scene;
+    this.config = config;
+
+    const large = config.mode === 'large';
+    this.graphics = scene.add.graphics();
+    this.labelText = scene.add.text(0, 0, config.label, {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '12px',
+      fontStyle: 'bold',
+      color: '#575E75',
+    });
+    this.labelText.setVisible(!large);
+    this.valueText = scene.add.text(0, 0, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: large ? '16px' : '12px',
+      color: '#ffffff',
+    });
+
+    const children: Phaser.GameObjects.GameObject[] = [this.graphics, this.labelText, this.valueText];
+    if (config.mode === 'slider') {
+      this.knob = scene.add.circle(0, 0, KNOB_RADIUS, 0xffffff);
+      this.knob.setStrokeStyle(1, BORDER_COLOR);
+      children.push(this.knob);
+    }
+
+    this.container = scene.add.container(config.x, config.y, children);
+    this.container.setDepth(MONITOR_DEPTH);
+
+    if (config.fixed) {
+      this.container.setScrollFactor(0, 0, true);
+      scene.events.on(Phaser.Scenes.Events.POST_UPDATE, this.handlePostUpdate, this);
+      this.handlePostUpdate();
+    }
+
+    this.redraw();
+  }
+
+  setValue(value: VariableValue): void {
+    this.value = value;
+    const text = formatMonitorValue(value);
+    if (text === this.displayed) return;
+    this.displayed = text;
+    this.redraw();
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.setVisible(visible);
+  }
+
+  // Let the player drag the slider knob to set the variable
+  enableSlider(onChange: (value: number) => void): void {
+    if (!this.knob) return;
+    this.onSliderChange = onChange;
+    this.knob.setInteractive({ useHandCursor: true, draggable: true });
+    this.knob.on('dragstart', () => {
+      this.sliderDragging = true;
+    });
+    this.knob.on('drag', (_pointer: Phaser.Input.Pointer, dragX: number) => {
+      const t = Phaser.Math.Clamp((dragX - this.trackStart) / this.trackWidth, 0, 1);
+      this.knob?.setX(this.trackStart + t * this.trackWidth);
+      const { sliderMin, sliderMax } = this.config;
+      this.onSliderChange?.(sliderMin + t * (sliderMax - sliderMin));
+    });
+    this.knob.on('dragend', () => {
+      this.sliderDragging = false;
+      this.redraw();
+    });
+  }
+
+  // Let the editor move the monitor around the stage; reports the new top-left corner on drop
+  enableDrag(onMoved: (x: number, y: number) => void): void {
+    this.dragZone = this.scene.add.zone(0, 0, 1, 1).setOrigin(0, 0);
+    this.container.add(this.dragZone);
+    this.dragZone.setInteractive({ useHandCursor: true, draggable: true });
+    this.redraw();
+
+    let startX = 0;
+    let startY = 0;
+    let pointerStartX = 0;
+    let pointerStartY = 0;
+    this.dragZone.on('dragstart', (pointer: Phaser.Input.Pointer) => {
+      startX = this.container.x;
+      startY = this.container.y;
+      pointerStartX = pointer.worldX;
+      pointerStartY = pointer.worldY;
+    });
+    this.dragZone.on('drag', (pointer: Phaser.Input.Pointer) => {
+      this.container.setPosition(
+        Math.round(startX + pointer.worldX - pointerStartX),
+        Math.round(startY + pointer.worldY - pointerStartY)
+      );
+    });
+    this.dragZone.on('dragend', () => {
+      onMoved(this.container.x, this.container.y);
+    });
+  }
+
+  destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.POST_UPDATE, this.handlePostUpdate, this);
+    this.container.destroy();
+  }
+
+  // Fixed monitors ignore camera scroll, but zoom still applies around the view center - undo it
+  private handlePostUpdate(): void {
+    const camera = this.scene.cameras.main;
+    const zoom = camera.zoom;
+    const centerX = camera.width / 2;
+    const centerY = camera.height / 2;
+    this.container.setScale(1 / zoom);
+    this.container.setPosition(
+      (this.config.x - centerX) / zoom + centerX,
+      (this.config.y - centerY) / zoom + centerY
+    );
+  }
+
+  private redraw(): void {
+    const g = this.graphics;
+    const text = this.displayed ?? formatMonitorValue(this.value);
+    this.valueText.setText(text);
+    g.clear();
+
+    if (this.config.mode === 'large') {
+      const width = Math.max(MIN_VALUE_WIDTH, this.valueText.width + PADDING * 2);
+      const height = this.valueText.height + PADDING;
+      g.fillStyle(VALUE_COLOR, 1);
+      g.lineStyle(1, 0xffffff, 1);
+      g.fillRoundedRect(0, 0, width, height, 4);
+      g.strokeRoundedRect(0, 0, width, height, 4);
+      this.valueText.setPosition((width - this.valueText.width) / 2, (height - this.valueText.height) / 2);
+      this.dragZone?.setSize(width, height);
+      return;
+    }
+
+    const valueWidth = Math.max(MIN_VALUE_WIDTH, this.valueText.width + PADDING * 2);
+    const sliderRow = this.config.mode === 'slider' ? SLIDER_HEIGHT : 0;
+    const width = this.labelText.width + valueWidth + PADDING * 3;
+    const height = ROW_HEIGHT + PADDING * 2 + sliderRow;
+
+    g.fillStyle(BOX_COLOR, 1);
+    g.lineStyle(1, BORDER_COLOR, 1);
+    g.fillRoundedRect(0, 0, width, height, 4);
+    g.strokeRoundedRect(0, 0, width, height, 4);
+
+    this.labelText.setPosition(PADDING, PADDING + (ROW_HEIGHT - this.labelText.height) / 2);
+
+    const valueX = width - PADDING - valueWidth;
+    g.fillStyle(VALUE_COLOR, 1);
+    g.fillRoundedRect(valueX, PADDING, valueWidth, ROW_HEIGHT, 4);
+    this.valueText.setPosition(valueX + (valueWidth - this.valueText.width) / 2, PADDING + (ROW_HEIGHT - this.valueText.height) / 2);
+
+    if (this.knob) {
+      this.trackStart = PADDING + KNOB_RADIUS;
+      this.trackWidth = Math.max(1, width - (PADDING + KNOB_RADIUS) * 2);
+      const trackY = PADDING + ROW_HEIGHT + SLIDER_HEIGHT / 2;
+      g.lineStyle(4, TRACK_COLOR, 1);
+      g.lineBetween(this.trackStart, trackY, this.trackStart + this.trackWidth, trackY);
+
+      // Leave the knob under the pointer while dragging so it doesn't jump as the value rounds
+      if (!this.sliderDragging) {
+        const { sliderMin, sliderMax } = this.config;
+        const range = sliderMax - sliderMin;
+        const t = range === 0 ? 0 : Phaser.Math.Clamp((Number(this.value) - sliderMin) / range, 0, 1);
+        this.knob.setPosition(this.trackStart + t * this.trackWidth, trackY);
+      } else {
+        this.knob.setY(trackY);
+      }
+    }
+
+    this.dragZone?.setSize(width, height);
+  }
+}
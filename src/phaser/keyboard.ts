@@ -0,0 +1,72 @@
+// Keyboard keys available to key blocks.
+// `name` is the value stored in blocks, `codes` are the browser KeyboardEvent.code values that map to it.
+
+export interface KeyboardKey {
+  name: string;
+  label: string;
+  codes: string[];
+}
+
+// Special key name that matches every key
+export const ANY_KEY = 'ANY';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const DIGITS = '0123456789'.split('');
+const FUNCTION_KEYS = Array.from({ length: 12 }, (_, i) => `F${i + 1}`);
+
+export const KEYBOARD_KEYS: KeyboardKey[] = [
+  { name: 'SPACE', label: 'space', codes: ['Space'] },
+  { name: 'UP', label: 'up arrow', codes: ['ArrowUp'] },
+  { name: 'DOWN', label: 'down arrow', codes: ['ArrowDown'] },
+  { name: 'LEFT', label: 'left arrow', codes: ['ArrowLeft'] },
+  { name: 'RIGHT', label: 'right arrow', codes: ['ArrowRight'] },
+  ...LETTERS.map(letter => ({ name: letter, label: letter.toLowerCase(), codes: [`Key${letter}`] })),
+  ...DIGITS.map(digit => ({ name: digit, label: digit, codes: [`Digit${digit}`, `Numpad${digit}`] })),
+  { name: 'ENTER', label: 'enter', codes: ['Enter', 'NumpadEnter'] },
+  { name: 'SHIFT', label: 'shift', codes: ['ShiftLeft', 'ShiftRight'] },
+  { name: 'CTRL', label: 'control', codes: ['ControlLeft', 'ControlRight'] },
+  { name: 'ALT', label: 'alt', codes: ['AltLeft', 'AltRight'] },
+  { name: 'TAB', label: 'tab', codes: ['Tab'] },
+  { name: 'BACKSPACE', label: 'backspace', codes: ['Backspace'] },
+  { name: 'DELETE', label: 'delete', codes: ['Delete'] },
+  { name: 'ESCAPE', label: 'escape', codes: ['Escape'] },
+  { name: 'CAPS_LOCK', label: 'caps lock', codes: ['CapsLock'] },
+  { name: 'INSERT', label: 'insert', codes: ['Insert'] },
+  { name: 'HOME', label: 'home', codes: ['Home'] },
+  { name: 'END', label: 'end', codes: ['End'] },
+  { name: 'PAGE_UP', label: 'page up', codes: ['PageUp'] },
+  { name: 'PAGE_DOWN', label: 'page down', codes: ['PageDown'] },
+  { name: 'MINUS', label: '-', codes: ['Minus', 'NumpadSubtract'] },
+  { name: 'EQUALS', label: '=', codes: ['Equal'] },
+  { name: 'PLUS', label: '+ (keypad)', codes: ['NumpadAdd'] },
+  { name: 'MULTIPLY', label: '* (keypad)', codes: ['NumpadMultiply'] },
+  { name: 'OPEN_BRACKET', label: '[', codes: ['BracketLeft'] },
+  { name: 'CLOSE_BRACKET', label: ']', codes: ['BracketRight'] },
+  { name: 'BACKSLASH', label: '\\', codes: ['Backslash'] },
+  { name: 'SEMICOLON', label: ';', codes: ['Semicolon'] },
+  { name: 'QUOTE', label: "'", codes: ['Quote'] },
+  { name: 'COMMA', label: ',', codes: ['Comma'] },
+  { name: 'PERIOD', label: '.', codes: ['Period', 'NumpadDecimal'] },
+  { name: 'SLASH', label: '/', codes: ['Slash', 'NumpadDivide'] },
+  { name: 'BACKTICK', label: '`', codes: ['Backquote'] },
+  ...FUNCTION_KEYS.map(key => ({ name: key, label: key, codes: [key] })),
+];
+
+const codeToKeyName = new Map<string, string>();
+for (const key of KEYBOARD_KEYS) {
+  for (const code of key.codes) {
+    codeToKeyName.set(code, key.name);
+  }
+}
+
+// Map a browser KeyboardEvent.code to a key name (unknown codes pass through unchanged)
+export function keyNameFromCode(code: string): string {
+  return codeToKeyName.get(code) ?? code;
+}
+
+// Dropdown options for key blocks - "any key" sits after the arrows like in Scratch
+export function getKeyDropdownOptions(): Array<[string, string]> {
+  const options = KEYBOARD_KEYS.map(key => [key.label, key.name] as [string, string]);
+  options.splice(5, 0, ['any key', ANY_KEY]);
+  return options;
+}
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { ScriptErrorReport } from '@/phaser/RuntimeEngine';
 
 export type ObjectEditorTab = 'code' | 'costumes' | 'sounds';
 
@@ -8,15 +9,17 @@ export type ObjectEditorTab = 'code' | 'costumes' | 'sounds';
 // 'editor': Free panning editor mode (infinite canvas)
 export type StageViewMode = 'camera-masked' | 'camera-viewport' | 'editor';
 
+// Tool for painting the scene's tilemap - while one is active, stage clicks paint instead of selecting
+export type TileTool = 'paint' | 'erase' | 'fill' | 'rect';
+
+// Script error from a play session, with the scene it happened in
+export interface EditorScriptError extends ScriptErrorReport {
+  sceneId: string;
+}
+
 // Callback type for object picker
 export type ObjectPickerCallback = (objectId: string) => void;
 
-// Undo/Redo handler type
-export type UndoRedoHandler = {
-  undo: () => void;
-  redo: () => void;
-};
-
 interface EditorStore {
   // Selection state
   selectedSceneId: string | null;
@@ -27,6 +30,8 @@ interface EditorStore {
 
   // Debug state
   showColliderOutlines: boolean;
+  scriptErrors: EditorScriptError[]; // Errors from the current (or last) play session
+  revealedErrorBlockId: string | null; // Block the code editor should scroll to
 
   // Theme state
   isDarkMode: boolean;
@@ -37,6 +42,10 @@ interface EditorStore {
   panY: number;
   viewMode: StageViewMode;
 
+  // Tile painting state
+  tileTool: TileTool | null;
+  selectedTile: number; // Tileset index the paint, fill and rectangle tools use
+
   // UI state
   showProjectDialog: boolean;
   showReusableLibrary: boolean;
@@ -47,10 +56,6 @@ interface EditorStore {
   objectPickerCallback: ObjectPickerCallback | null;
   objectPickerExcludeId: string | null; // Object to exclude (usually current object)
 
-  // Undo/Redo handlers for different editors
-  costumeUndoHandler: UndoRedoHandler | null;
-  codeUndoHandler: UndoRedoHandler | null;
-
   // Actions
   selectScene: (sceneId: string | null) => void;
   selectObject: (objectId: string | null) => void;
@@ -65,6 +70,9 @@ interface EditorStore {
   setViewMode: (mode: StageViewMode) => void;
   cycleViewMode: () => void;
 
+  setTileTool: (tool: TileTool | null) => void;
+  setSelectedTile: (tile: number) => void;
+
   setShowProjectDialog: (show: boolean) => void;
   setShowReusableLibrary: (show: boolean) => void;
 
@@ -74,17 +82,12 @@ interface EditorStore {
 
   // Debug actions
   setShowColliderOutlines: (show: boolean) => void;
+  reportScriptError: (error: EditorScriptError) => void;
+  revealScriptError: (error: EditorScriptError) => void;
+  clearRevealedErrorBlock: () => void;
 
   // Theme actions
   toggleDarkMode: () => void;
-
-  // Undo/Redo registration
-  registerCostumeUndo: (handler: UndoRedoHandler | null) => void;
-  registerCodeUndo: (handler: UndoRedoHandler | null) => void;
-
-  // Global undo/redo (routes to active editor)
-  undo: () => void;
-  redo: () => void;
 }
 
 export const useEditorStore = create<EditorStore>((set) => ({
@@ -97,6 +100,8 @@ export const useEditorStore = create<EditorStore>((set) => ({
 
   // Debug state
   showColliderOutlines: false,
+  scriptErrors: [],
+  revealedErrorBlockId: null,
 
   // Theme state - check localStorage and system preference
   isDarkMode: (() => {
@@ -117,6 +122,10 @@ export const useEditorStore = create<EditorStore>((set) => ({
   panY: 0,
   viewMode: 'editor' as StageViewMode,
 
+  // Tile painting state
+  tileTool: null,
+  selectedTile: 0,
+
   // UI state
   showProjectDialog: false,
   showReusableLibrary: false,
@@ -127,13 +136,9 @@ export const useEditorStore = create<EditorStore>((set) => ({
   objectPickerCallback: null,
   objectPickerExcludeId: null,
 
-  // Undo/Redo handlers
-  costumeUndoHandler: null,
-  codeUndoHandler: null,
-
   // Actions
   selectScene: (sceneId) => {
-    set({ selectedSceneId: sceneId, selectedObjectId: null });
+    set({ selectedSceneId: sceneId, selectedObjectId: null, selectedTile: 0 });
   },
 
   selectObject: (objectId) => {
@@ -141,7 +146,7 @@ export const useEditorStore = create<EditorStore>((set) => ({
   },
 
   startPlaying: () => {
-    set({ isPlaying: true });
+    set({ isPlaying: true, scriptErrors: [], revealedErrorBlockId: null });
   },
 
   stopPlaying: () => {
@@ -170,6 +175,14 @@ export const useEditorStore = create<EditorStore>((set) => ({
     set({ viewMode: currentMode === 'editor' ? 'camera-viewport' : 'editor' });
   },
 
+  setTileTool: (tool) => {
+    set({ tileTool: tool });
+  },
+
+  setSelectedTile: (tile) => {
+    set({ selectedTile: tile });
+  },
+
   setShowProjectDialog: (show) => {
     set({ showProjectDialog: show });
   },
@@ -202,36 +215,32 @@ export const useEditorStore = create<EditorStore>((set) => ({
     set({ showColliderOutlines: show });
   },
 
-  toggleDarkMode: () => {
-    const newValue = !useEditorStore.getState().isDarkMode;
-    document.documentElement.classList.toggle('dark', newValue);
-    localStorage.setItem('pochacoding-dark-mode', String(newValue));
-    set({ isDarkMode: newValue });
-  },
-
-  registerCostumeUndo: (handler) => {
-    set({ costumeUndoHandler: handler });
+  reportScriptError: (error) => {
+    // A block that keeps failing (e.g. in a touching handler) is only reported once
+    const existing = useEditorStore.getState().scriptErrors;
+    if (existing.some(e => e.objectId === error.objectId && e.blockId === error.blockId && e.message === error.message)) {
+      return;
+    }
+    set({ scriptErrors: [...existing, error] });
   },
 
-  registerCodeUndo: (handler) => {
-    set({ codeUndoHandler: handler });
+  revealScriptError: (error) => {
+    set({
+      selectedSceneId: error.sceneId,
+      selectedObjectId: error.objectId,
+      activeObjectTab: 'code',
+      revealedErrorBlockId: error.blockId,
+    });
   },
 
-  undo: () => {
-    const state = useEditorStore.getState();
-    if (state.activeObjectTab === 'costumes' && state.costumeUndoHandler) {
-      state.costumeUndoHandler.undo();
-    } else if (state.activeObjectTab === 'code' && state.codeUndoHandler) {
-      state.codeUndoHandler.undo();
-    }
+  clearRevealedErrorBlock: () => {
+    set({ revealedErrorBlockId: null });
   },
 
-  redo: () => {
-    const state = useEditorStore.getState();
-    if (state.activeObjectTab === 'costumes' && state.costumeUndoHandler) {
-      state.costumeUndoHandler.redo();
-    } else if (state.activeObjectTab === 'code' && state.codeUndoHandler) {
-      state.codeUndoHandler.redo();
-    }
+  toggleDarkMode: () => {
+    const newValue = !useEditorStore.getState().isDarkMode;
+    document.documentElement.classList.toggle('dark', newValue);
+    localStorage.setItem('pochacoding-dark-mode', String(newValue));
+    set({ isDarkMode: newValue });
   },
 }));
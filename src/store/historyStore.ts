@@ -0,0 +1,289 @@
+import { create } from 'zustand';
+import type { ComponentDefinition, GameObject, Project, Scene } from '../types';
+import { useProjectStore } from './projectStore';
+import { useEditorStore } from './editorStore';
+
+/**
+ * Project-wide undo history. Every project store change is recorded as a step holding the
+ * project before and after it - the store never mutates a project in place, so these
+ * snapshots share everything that didn't change.
+ */
+
+// One undoable step
+export interface HistoryEntry {
+  id: number;
+  label: string; // Shown in the history list, e.g. "Move Cat"
+  before: Project;
+  after: Project;
+}
+
+const MAX_HISTORY = 100;
+// Edits with the same label this close together (typing, block drags, color picking) become one step
+const MERGE_WINDOW_MS = 1000;
+
+interface HistoryStore {
+  past: HistoryEntry[]; // Oldest first - the last entry is the one undo reverts
+  future: HistoryEntry[]; // Undone steps, next redo first
+
+  undo: () => void;
+  redo: () => void;
+  // Undo or redo until the entry is the latest step; null goes back to before the first one
+  jumpTo: (entryId: number | null) => void;
+  clear: () => void;
+}
+
+let nextEntryId = 1;
+let lastChangeTime = 0;
+let applying = false; // Set while undo/redo writes the project so it isn't recorded again
+let group: { entryId: number | null } | null = null;
+// Editors that save after a short delay (the costume canvas) register a flush, so undo never skips an unsaved edit
+const pendingEditFlushes = new Set<() => void>();
+
+export const useHistoryStore = create<HistoryStore>((set, get) => ({
+  past: [],
+  future: [],
+
+  undo: () => {
+    flushPendingEdits();
+    const { past, future } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    applyProject(entry.before);
+    set({ past: past.slice(0, -1), future: [entry, ...future] });
+  },
+
+  redo: () => {
+    flushPendingEdits();
+    const { past, future } = get();
+    const entry = future[0];
+    if (!entry) return;
+    applyProject(entry.after);
+    set({ past: [...past, entry], future: future.slice(1) });
+  },
+
+  jumpTo: (entryId) => {
+    flushPendingEdits();
+    const { past, future } = get();
+    if (entryId === null || past.some(e => e.id === entryId)) {
+      while (get().past.length > 0 && get().past[get().past.length - 1].id !== entryId) {
+        get().undo();
+      }
+    } else if (future.some(e => e.id === entryId)) {
+      while (get().future.length > 0 && get().past[get().past.length - 1]?.id !== entryId) {
+        get().redo();
+      }
+    }
+  },
+
+  clear: () => {
+    group = null;
+    set({ past: [], future: [] });
+  },
+}));
+
+/**
+ * Record every change until endHistoryGroup as one step, for edits made by dragging
+ * (e.g. scrubbing a number) that update the project many times.
+ */
+export function beginHistoryGroup(): void {
+  group = { entryId: null };
+}
+
+export function endHistoryGroup(): void {
+  group = null;
+}
+
+/**
+ * Register a function that saves an edit still waiting to be written to the project.
+ * It's called before every undo or redo. Returns a function that unregisters it.
+ */
+export function registerPendingEditFlush(flush: () => void): () => void {
+  pendingEditFlushes.add(flush);
+  return () => {
+    pendingEditFlushes.delete(flush);
+  };
+}
+
+function flushPendingEdits(): void {
+  for (const flush of pendingEditFlushes) {
+    flush();
+  }
+}
+
+function applyProject(project: Project): void {
+  applying = true;
+  try {
+    useProjectStore.setState({ project: { ...project, updatedAt: new Date() }, isDirty: true });
+  } finally {
+    applying = false;
+  }
+  keepSelectionValid(project);
+}
+
+// Undoing can remove the selected scene or object (e.g. undoing "Add scene")
+function keepSelectionValid(project: Project): void {
+  const editor = useEditorStore.getState();
+  const scene = project.scenes.find(s => s.id === editor.selectedSceneId);
+  if (!scene) {
+    editor.selectScene(project.scenes[0]?.id ?? null);
+  } else if (editor.selectedObjectId && !scene.objects.some(o => o.id === editor.selectedObjectId)) {
+    editor.selectObject(null);
+  }
+}
+
+function record(change: ProjectChange, before: Project, after: Project): void {
+  const now = Date.now();
+  const { past } = useHistoryStore.getState();
+  const last = past[past.length - 1];
+  const merge = last && (group
+    ? group.entryId === last.id
+    : change.isEdit && last.label === change.label && now - lastChangeTime < MERGE_WINDOW_MS);
+  lastChangeTime = now;
+
+  if (merge) {
+    useHistoryStore.setState({ past: [...past.slice(0, -1), { ...last, after }], future: [] });
+    return;
+  }
+
+  const entry: HistoryEntry = { id: nextEntryId++, label: change.label, before, after };
+  if (group) group.entryId = entry.id;
+  useHistoryStore.setState({ past: [...past, entry].slice(-MAX_HISTORY), future: [] });
+}
+
+useProjectStore.subscribe((state, prev) => {
+  if (applying || state.project === prev.project) return;
+
+  // Opening, creating or closing a project starts a fresh history
+  if (!state.project || !prev.project || state.project.id !== prev.project.id) {
+    useHistoryStore.getState().clear();
+    return;
+  }
+
+  const change = describeProjectChange(prev.project, state.project);
+  if (change) record(change, prev.project, state.project);
+});
+
+// --- Step labels ---
+
+interface ProjectChange {
+  label: string;
+  isEdit: boolean; // Edits to something that already existed, as opposed to adding, deleting or reordering
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return keys.length === Object.keys(bRecord).length && keys.every(key => isEqual(aRecord[key], bRecord[key]));
+}
+
+function getChangedKeys<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key => !isEqual((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key]));
+}
+
+// The first rule whose keys cover every changed key names the step
+interface ChangeRule {
+  keys: string[];
+  label: (name: string) => string;
+}
+
+const OBJECT_CHANGE_RULES: ChangeRule[] = [
+  { keys: ['x', 'y'], label: name => `Move ${name}` },
+  { keys: ['x', 'y', 'scaleX', 'scaleY', 'rotation'], label: name => `Resize or rotate ${name}` },
+  { keys: ['name'], label: name => `Rename ${name}` },
+  { keys: ['visible'], label: name => `Show or hide ${name}` },
+  { keys: ['blocklyXml'], label: name => `Edit ${name}'s code` },
+  { keys: ['costumes', 'currentCostumeIndex', 'animations'], label: name => `Edit ${name}'s costumes` },
+  { keys: ['sounds'], label: name => `Edit ${name}'s sounds` },
+  { keys: ['physics', 'collider', 'joints'], label: name => `Change ${name}'s physics` },
+  { keys: ['localVariables'], label: name => `Change ${name}'s variables` },
+  { keys: ['text'], label: name => `Edit ${name}'s text` },
+];
+
+const SCENE_CHANGE_RULES: ChangeRule[] = [
+  { keys: ['name'], label: name => `Rename scene ${name}` },
+  { keys: ['background', 'backdrops', 'backdropId'], label: name => `Change ${name}'s backdrop` },
+  { keys: ['tilemap'], label: name => `Edit ${name}'s tiles` },
+  { keys: ['ground'], label: name => `Change ${name}'s ground` },
+  { keys: ['cameraConfig'], label: name => `Change ${name}'s camera` },
+  { keys: ['monitors'], label: name => `Change ${name}'s variable monitors` },
+];
+
+function describeKeys(changedKeys: string[], name: string, rules: ChangeRule[]): ProjectChange {
+  const rule = rules.find(r => changedKeys.every(key => r.keys.includes(key)));
+  return { label: rule ? rule.label(name) : `Change ${name}`, isEdit: true };
+}
+
+function describeObjectChange(before: GameObject | ComponentDefinition, after: GameObject | ComponentDefinition): ProjectChange | null {
+  const changedKeys = getChangedKeys(before, after);
+  return changedKeys.length > 0 ? describeKeys(changedKeys, after.name, OBJECT_CHANGE_RULES) : null;
+}
+
+// Describe an added, removed, reordered or changed item of a list of things with IDs
+function describeListChange<T extends { id: string; name: string }>(
+  before: T[],
+  after: T[],
+  describe: {
+    added: (item: T) => string;
+    removed: (item: T) => string;
+    reordered: string;
+    changed: (before: T, after: T) => ProjectChange | null;
+  }
+): ProjectChange | null {
+  const added = after.find(item => !before.some(b => b.id === item.id));
+  if (added) return { label: describe.added(added), isEdit: false };
+  const removed = before.find(item => !after.some(a => a.id === item.id));
+  if (removed) return { label: describe.removed(removed), isEdit: false };
+  if (before.some((item, i) => item.id !== after[i].id)) return { label: describe.reordered, isEdit: false };
+
+  for (let i = 0; i < after.length; i++) {
+    if (before[i] === after[i]) continue;
+    const change = describe.changed(before[i], after[i]);
+    if (change) return change;
+  }
+  return null;
+}
+
+function describeSceneChange(before: Scene, after: Scene): ProjectChange | null {
+  const objectChange = describeListChange(before.objects, after.objects, {
+    added: obj => `Add ${obj.name}`,
+    removed: obj => `Delete ${obj.name}`,
+    reordered: `Reorder objects in ${after.name}`,
+    changed: describeObjectChange,
+  });
+  if (objectChange) return objectChange;
+
+  // Scene orders are renumbered by reorderScenes, which is described on its own
+  const changedKeys = getChangedKeys(before, after).filter(key => key !== 'objects' && key !== 'order');
+  return changedKeys.length > 0 ? describeKeys(changedKeys, after.name, SCENE_CHANGE_RULES) : null;
+}
+
+// A short description of the change, or null when nothing the user edited changed
+function describeProjectChange(before: Project, after: Project): ProjectChange | null {
+  if (before.name !== after.name) return { label: 'Rename project', isEdit: true };
+  if (!isEqual(before.settings, after.settings)) return { label: 'Change project settings', isEdit: true };
+  if (!isEqual(before.globalVariables, after.globalVariables)) return { label: 'Change variables', isEdit: true };
+
+  // Component edits are copied into every instance, so describe them before the scenes
+  const componentChange = describeListChange(before.components || [], after.components || [], {
+    added: component => `Make component ${component.name}`,
+    removed: component => `Delete component ${component.name}`,
+    reordered: 'Reorder components',
+    changed: describeObjectChange,
+  });
+  if (componentChange) return componentChange;
+
+  return describeListChange(before.scenes, after.scenes, {
+    added: scene => `Add scene ${scene.name}`,
+    removed: scene => `Delete scene ${scene.name}`,
+    reordered: 'Reorder scenes',
+    changed: describeSceneChange,
+  });
+}
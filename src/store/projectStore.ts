@@ -1,6 +1,6 @@
 import { create } from 'zustand';
-import type { Project, Scene, GameObject, Variable, ComponentDefinition, ColliderConfig } from '../types';
-import { createDefaultProject, createDefaultScene, createDefaultGameObject } from '../types';
+import type { Project, Scene, GameObject, Variable, VariableMonitor, ComponentDefinition, ColliderConfig, Backdrop, BackgroundConfig } from '../types';
+import { createDefaultProject, createDefaultScene, createDefaultGameObject, createDefaultVariableMonitor, getSceneBackdrops } from '../types';
 import { saveProject } from '../db/database';
 
 interface ProjectStore {
@@ -21,6 +21,13 @@ interface ProjectStore {
   updateScene: (sceneId: string, updates: Partial<Scene>) => void;
   reorderScenes: (sceneIds: string[]) => void;
 
+  // Backdrop actions (per scene) - scene.background always mirrors the current backdrop
+  updateSceneBackground: (sceneId: string, background: BackgroundConfig) => void;
+  addBackdrop: (sceneId: string) => void;
+  selectBackdrop: (sceneId: string, backdropId: string) => void;
+  renameBackdrop: (sceneId: string, backdropId: string, name: string) => void;
+  removeBackdrop: (sceneId: string, backdropId: string) => void;
+
   // Object actions
   addObject: (sceneId: string, name: string) => GameObject;
   removeObject: (sceneId: string, objectId: string) => void;
@@ -38,6 +45,9 @@ interface ProjectStore {
   removeLocalVariable: (sceneId: string, objectId: string, variableId: string) => void;
   updateLocalVariable: (sceneId: string, objectId: string, variableId: string, updates: Partial<Variable>) => void;
 
+  // Variable monitor actions (per scene)
+  updateVariableMonitor: (sceneId: string, variableId: string, updates: Partial<VariableMonitor>) => void;
+
   // Legacy aliases
   addVariable: (variable: Variable) => void;
   removeVariable: (variableId: string) => void;
@@ -178,6 +188,74 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     });
   },
 
+  // Backdrop actions
+  updateSceneBackground: (sceneId: string, background: BackgroundConfig) => {
+    const scene = get().getScene(sceneId);
+    if (!scene) return;
+    get().updateScene(sceneId, {
+      background,
+      backdrops: scene.backdrops?.map(b => (b.id === scene.backdropId ? { ...b, background } : b)),
+    });
+  },
+
+  addBackdrop: (sceneId: string) => {
+    const scene = get().getScene(sceneId);
+    if (!scene) return;
+
+    // The first extra backdrop turns the scene's plain background into backdrop1
+    const backdrops = scene.backdrops && scene.backdrops.length > 0
+      ? scene.backdrops
+      : [{ ...getSceneBackdrops(scene)[0], id: crypto.randomUUID() }];
+
+    let n = backdrops.length + 1;
+    while (backdrops.some(b => b.name === `backdrop${n}`)) n++;
+
+    // Start from a copy of the current backdrop so it's easy to make variations
+    const current = backdrops.find(b => b.id === scene.backdropId) ?? backdrops[0];
+    const backdrop: Backdrop = {
+      id: crypto.randomUUID(),
+      name: `backdrop${n}`,
+      background: { ...current.background },
+    };
+
+    get().updateScene(sceneId, {
+      backdrops: [...backdrops, backdrop],
+      backdropId: backdrop.id,
+      background: backdrop.background,
+    });
+  },
+
+  selectBackdrop: (sceneId: string, backdropId: string) => {
+    const backdrop = get().getScene(sceneId)?.backdrops?.find(b => b.id === backdropId);
+    if (!backdrop) return;
+    get().updateScene(sceneId, { backdropId, background: backdrop.background });
+  },
+
+  renameBackdrop: (sceneId: string, backdropId: string, name: string) => {
+    const scene = get().getScene(sceneId);
+    const trimmed = name.trim();
+    if (!scene?.backdrops || !trimmed) return;
+    get().updateScene(sceneId, {
+      backdrops: scene.backdrops.map(b => (b.id === backdropId ? { ...b, name: trimmed } : b)),
+    });
+  },
+
+  removeBackdrop: (sceneId: string, backdropId: string) => {
+    const scene = get().getScene(sceneId);
+    if (!scene?.backdrops || scene.backdrops.length <= 1) return;
+
+    const backdrops = scene.backdrops.filter(b => b.id !== backdropId);
+    if (scene.backdropId !== backdropId) {
+      get().updateScene(sceneId, { backdrops });
+      return;
+    }
+    get().updateScene(sceneId, {
+      backdrops,
+      backdropId: backdrops[0].id,
+      background: backdrops[0].background,
+    });
+  },
+
   // Object actions
   addObject: (sceneId: string, name: string) => {
     const newObject = createDefaultGameObject(name);
@@ -211,7 +289,15 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
           ...state.project,
           scenes: state.project.scenes.map(s =>
             s.id === sceneId
-              ? { ...s, objects: s.objects.filter(o => o.id !== objectId) }
+              ? {
+                  ...s,
+                  objects: s.objects
+                    .filter(o => o.id !== objectId)
+                    // Joints can't outlive the object they connect to
+                    .map(o => o.joints?.some(j => j.targetId === objectId)
+                      ? { ...o, joints: o.joints.filter(j => j.targetId !== objectId) }
+                      : o),
+                }
               : s
           ),
           updatedAt: new Date(),
@@ -235,7 +321,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
         const componentId = obj.componentId;
 
         // Properties that sync to component definition (shared)
-        const syncedKeys: (keyof GameObject)[] = ['name', 'costumes', 'currentCostumeIndex', 'sounds', 'blocklyXml', 'collider'];
+        const syncedKeys: (keyof GameObject)[] = ['name', 'costumes', 'currentCostumeIndex', 'sounds', 'animations', 'blocklyXml', 'collider'];
         const syncedUpdates: Partial<ComponentDefinition> = {};
         const instanceUpdates: Partial<GameObject> = {};
 
@@ -512,6 +598,31 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     });
   },
 
+  // Creates the monitor on first use, so toggling a variable never needs a separate "add" step
+  updateVariableMonitor: (sceneId: string, variableId: string, updates: Partial<VariableMonitor>) => {
+    set(state => {
+      if (!state.project) return state;
+      return {
+        project: {
+          ...state.project,
+          scenes: state.project.scenes.map(s => {
+            if (s.id !== sceneId) return s;
+            const monitors = s.monitors || [];
+            const existing = monitors.find(m => m.variableId === variableId);
+            return {
+              ...s,
+              monitors: existing
+                ? monitors.map(m => (m.variableId === variableId ? { ...m, ...updates } : m))
+                : [...monitors, { ...createDefaultVariableMonitor(variableId, monitors.length), ...updates }],
+            };
+          }),
+          updatedAt: new Date(),
+        },
+        isDirty: true,
+      };
+    });
+  },
+
   // Legacy aliases
   addVariable: (variable: Variable) => {
     get().addGlobalVariable(variable);
@@ -548,6 +659,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
       physics: obj.physics,
       collider: obj.collider,
       sounds: obj.sounds,
+      animations: obj.animations,
     };
 
     set(state => ({
@@ -707,6 +819,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
                           physics: component.physics,
                           collider: component.collider,
                           sounds: component.sounds,
+                          animations: component.animations,
                         }
                       : o
                   ),
@@ -21,12 +21,20 @@ export interface ComponentDefinition {
   physics: PhysicsConfig | null;
   collider: ColliderConfig | null;
   sounds: Sound[];
+  animations?: CostumeAnimation[];
 }
 
 export interface ProjectSettings {
   canvasWidth: number;
   canvasHeight: number;
   backgroundColor: string;
+  collisionLayers?: CollisionLayer[]; // Missing in projects made before layers, see getCollisionLayers
+}
+
+// A named group of physics objects; each object is on one layer and picks the layers it collides with
+export interface CollisionLayer {
+  id: string;
+  name: string;
 }
 
 // Scene Types
@@ -36,9 +44,14 @@ export interface Scene {
   name: string;
   order: number;
   background: BackgroundConfig | null;
+  // Named backdrops the scene can switch between - `background` mirrors the current one
+  backdrops?: Backdrop[];
+  backdropId?: string;
   objects: GameObject[];
   cameraConfig: CameraConfig;
   ground?: GroundConfig;
+  monitors?: VariableMonitor[];
+  tilemap?: TilemapConfig | null;
 }
 
 export interface GroundConfig {
@@ -47,6 +60,18 @@ export interface GroundConfig {
   color: string;
 }
 
+// A grid of tiles cut from one tileset image. Cell (0, 0) sits at the stage's top-left corner.
+export interface TilemapConfig {
+  tileset: string; // Image data URL, cut into tileSize x tileSize cells left to right, top to bottom
+  tilesetColumns: number;
+  tileCount: number;
+  tileSize: number;
+  columns: number;
+  rows: number;
+  tiles: number[]; // Tileset index per cell, row by row - -1 is an empty cell
+  solidTiles: number[]; // Tileset indexes that physics objects collide with
+}
+
 export interface CameraConfig {
   followTarget: string | null;
   bounds: { x: number; y: number; width: number; height: number } | null;
@@ -55,10 +80,17 @@ export interface CameraConfig {
 
 export interface BackgroundConfig {
   type: 'color' | 'image' | 'tiled';
-  value: string;
+  value: string; // Hex color, or image data URL for 'image' and 'tiled'
+  // How far the backdrop moves with the camera: 1 = with the world, 0 = fixed on screen
   scrollFactor?: { x: number; y: number };
 }
 
+export interface Backdrop {
+  id: string;
+  name: string;
+  background: BackgroundConfig;
+}
+
 // GameObject Types
 
 export interface GameObject {
@@ -81,8 +113,26 @@ export interface GameObject {
   costumes: Costume[];
   currentCostumeIndex: number;
   sounds: Sound[];
+  animations?: CostumeAnimation[];
   // Local variables for this object
   localVariables: Variable[];
+  // Set for text objects, which draw text instead of a costume
+  text?: TextConfig | null;
+  // Physics links to other objects in the scene, made when the game starts
+  joints?: JointConfig[];
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextConfig {
+  content: string;
+  fontFamily: string;
+  fontSize: number; // Pixels
+  color: string;
+  align: TextAlign; // Also the side the text is anchored on, so left-aligned text grows to the right
+  outlineColor: string;
+  outlineWidth: number; // 0 = no outline
+  fixedToCamera: boolean; // Ignores camera scroll while playing, like a HUD
 }
 
 export interface CostumeBounds {
@@ -99,6 +149,24 @@ export interface Costume {
   bounds?: CostumeBounds; // Bounding box of visible (non-transparent) pixels
 }
 
+// A named animation, played from a range of costumes or from one costume cut into sprite sheet frames
+export interface CostumeAnimation {
+  id: string;
+  name: string;
+  source: 'costumes' | 'sheet';
+  // 'costumes': every costume from the first to the last, in list order
+  firstCostumeId?: string;
+  lastCostumeId?: string;
+  // 'sheet': the costume's visible area cut into frames left to right, top to bottom
+  sheetCostumeId?: string;
+  frameWidth?: number;
+  frameHeight?: number;
+  frameCount?: number; // Defaults to every whole frame on the sheet
+  fps: number;
+  loop: boolean;
+  pingPong: boolean; // Play forwards then backwards
+}
+
 export interface Sound {
   id: string;
   name: string;
@@ -110,8 +178,13 @@ export interface Sound {
   duration?: number;
 }
 
+export interface ColliderVertex {
+  x: number;
+  y: number;
+}
+
 export interface ColliderConfig {
-  type: 'none' | 'box' | 'circle' | 'capsule';
+  type: 'none' | 'box' | 'circle' | 'capsule' | 'polygon';
   // Offset from object origin (center) in canvas space
   offsetX: number;
   offsetY: number;
@@ -119,6 +192,8 @@ export interface ColliderConfig {
   width: number;   // box width, capsule width
   height: number;  // box height, capsule height
   radius: number;  // circle radius
+  vertices?: ColliderVertex[]; // polygon outline, relative to the offset; concave outlines are split into convex parts
+  isSensor?: boolean; // Detects touches without pushing anything, e.g. coins and checkpoints
 }
 
 export interface PhysicsConfig {
@@ -130,6 +205,19 @@ export interface PhysicsConfig {
   bounce: number;
   friction: number;
   allowRotation: boolean;
+  layerId?: string; // Collision layer, the default layer when missing
+  collidesWith?: string[]; // Layer IDs; missing means every layer
+  oneWay?: boolean; // Platform that bodies can jump up through and land on
+}
+
+export type JointType = 'pin' | 'rope' | 'spring' | 'weld';
+
+export interface JointConfig {
+  id: string;
+  type: JointType;
+  targetId: string; // Object in the same scene
+  stiffness: number; // Springs only: 0 = floppy, 1 = stiff
+  damping: number;   // Springs only: how quickly the bouncing dies down, 0-1
 }
 
 // Asset Types
@@ -159,16 +247,63 @@ export interface ReusableObject {
 
 // Variable Types
 
-export type VariableType = 'string' | 'integer' | 'float' | 'boolean';
+export type VariableType = 'string' | 'integer' | 'float' | 'boolean' | 'list';
+
+// Lists hold plain values (no nested lists)
+export type ListItem = number | string | boolean;
+export type VariableValue = number | string | boolean | ListItem[];
 
 export interface Variable {
   id: string;
   name: string;
   type: VariableType;
-  defaultValue: number | string | boolean;
+  defaultValue: VariableValue;
   scope: 'global' | 'local';
   // For local variables, which object they belong to (optional, for filtering)
   objectId?: string;
+  // Global variables keep their value across scene switches unless this is set
+  resetOnSceneEnter?: boolean;
+}
+
+export type VariableMonitorMode = 'normal' | 'large' | 'slider';
+
+// On-stage readout of a variable, saved per scene.
+// Position is the top-left corner in stage pixels (not user space) since monitors don't move with the camera.
+export interface VariableMonitor {
+  variableId: string;
+  // For local variables, the object whose value is shown
+  objectId?: string;
+  mode: VariableMonitorMode;
+  visible: boolean;
+  x: number;
+  y: number;
+  sliderMin: number;
+  sliderMax: number;
+}
+
+// Custom Block (procedure) Types
+
+export type CustomBlockParamType = 'number' | 'text' | 'boolean';
+
+export interface CustomBlockParam {
+  id: string;
+  name: string;
+  type: CustomBlockParamType;
+}
+
+// Stored in the mutation of custom block definition and call blocks
+export interface CustomBlockSpec {
+  procId: string;
+  name: string;
+  params: CustomBlockParam[];
+}
+
+// Stored in the mutation of a parameter reporter block
+export interface CustomBlockArgument {
+  procId: string;
+  paramId: string;
+  name: string;
+  type: CustomBlockParamType;
 }
 
 // Editor State Types
@@ -217,6 +352,39 @@ export function createDefaultScene(id: string, name: string, order: number): Sce
   };
 }
 
+export const DEFAULT_COLLISION_LAYER_ID = 'default';
+export const MAX_COLLISION_LAYERS = 16;
+
+// Projects without a layer list have just the default layer
+export function getCollisionLayers(settings: ProjectSettings): CollisionLayer[] {
+  if (settings.collisionLayers && settings.collisionLayers.length > 0) return settings.collisionLayers;
+  return [{ id: DEFAULT_COLLISION_LAYER_ID, name: 'Default' }];
+}
+
+// Scenes without a backdrop list behave as if their background were the only backdrop
+export function getSceneBackdrops(scene: Scene): Backdrop[] {
+  if (scene.backdrops && scene.backdrops.length > 0) return scene.backdrops;
+  return [{
+    id: 'default',
+    name: 'backdrop1',
+    background: scene.background ?? { type: 'color', value: '#87CEEB' },
+  }];
+}
+
+// New monitors stack down the left edge of the stage like in Scratch
+export function createDefaultVariableMonitor(variableId: string, index: number, objectId?: string): VariableMonitor {
+  return {
+    variableId,
+    objectId,
+    mode: 'normal',
+    visible: true,
+    x: 5,
+    y: 5 + (index % 12) * 30,
+    sliderMin: 0,
+    sliderMax: 100,
+  };
+}
+
 // Generate a simple colored circle SVG as a data URL
 function generateCircleCostume(color: string): string {
   const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">
@@ -260,6 +428,19 @@ export function createDefaultGameObject(name: string): GameObject {
   };
 }
 
+export function createDefaultTextConfig(): TextConfig {
+  return {
+    content: 'Score: 0',
+    fontFamily: 'Arial',
+    fontSize: 32,
+    color: '#ffffff',
+    align: 'center',
+    outlineColor: '#000000',
+    outlineWidth: 4,
+    fixedToCamera: false,
+  };
+}
+
 export function createDefaultColliderConfig(type: ColliderConfig['type'] = 'circle'): ColliderConfig {
   return {
     type,
@@ -271,6 +452,16 @@ export function createDefaultColliderConfig(type: ColliderConfig['type'] = 'circ
   };
 }
 
+export function createDefaultJointConfig(targetId: string, type: JointType = 'pin'): JointConfig {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    targetId,
+    stiffness: 0.05,
+    damping: 0.05,
+  };
+}
+
 export function createDefaultPhysicsConfig(): PhysicsConfig {
   return {
     enabled: true,
@@ -295,6 +486,7 @@ export function getEffectiveObjectProps(
   physics: PhysicsConfig | null;
   collider: ColliderConfig | null;
   sounds: Sound[];
+  animations: CostumeAnimation[];
 } {
   if (obj.componentId) {
     const component = components.find(c => c.id === obj.componentId);
@@ -306,6 +498,7 @@ export function getEffectiveObjectProps(
         physics: component.physics,
         collider: component.collider ?? null,
         sounds: component.sounds,
+        animations: component.animations ?? [],
       };
     }
   }
@@ -316,6 +509,7 @@ export function getEffectiveObjectProps(
     physics: obj.physics,
     collider: obj.collider,
     sounds: obj.sounds,
+    animations: obj.animations ?? [],
   };
 }
 
@@ -131,10 +131,11 @@ async function encodeWithMediaRecorder(
 }
 
 /**
- * Encode audio as WAV (fallback, less compression but universal support)
+ * Encode the first channel of audio as a mono 16-bit WAV data URL
+ * (fallback, less compression but universal support)
  */
-function encodeAsWav(buffer: AudioBuffer, sampleRate: number): string {
-  const numChannels = buffer.numberOfChannels;
+export function encodeAsWav(buffer: AudioBuffer, sampleRate: number): string {
+  const numChannels = 1;
   const length = buffer.length * numChannels * 2; // 16-bit samples
   const arrayBuffer = new ArrayBuffer(44 + length);
   const view = new DataView(arrayBuffer);
@@ -163,8 +164,17 @@ function encodeAsWav(buffer: AudioBuffer, sampleRate: number): string {
     offset += 2;
   }
 
-  const blob = new Blob([arrayBuffer], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
+  // A data URL rather than an object URL so the sound can be saved with the project
+  return `data:audio/wav;base64,${bytesToBase64(new Uint8Array(arrayBuffer))}`;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000; // Stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
 }
 
 function writeString(view: DataView, offset: number, string: string): void {
@@ -188,8 +198,24 @@ function blobToDataUrl(blob: Blob): Promise<string> {
 export function getAudioDuration(dataUrl: string): Promise<number | undefined> {
   return new Promise((resolve) => {
     const audio = document.createElement('audio');
-    audio.onloadedmetadata = () => resolve(audio.duration);
+    audio.onloadedmetadata = () => {
+      // MediaRecorder files (recordings, compressed WebM) don't store their length
+      resolve(Number.isFinite(audio.duration) ? audio.duration : decodeAudioDuration(dataUrl));
+    };
     audio.onerror = () => resolve(undefined);
     audio.src = dataUrl;
   });
 }
+
+async function decodeAudioDuration(dataUrl: string): Promise<number | undefined> {
+  const audioContext = new AudioContext();
+  try {
+    const response = await fetch(dataUrl);
+    const audioBuffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    return audioBuffer.duration;
+  } catch {
+    return undefined;
+  } finally {
+    audioContext.close();
+  }
+}
@@ -1,4 +1,4 @@
-import type { CostumeBounds } from '@/types';
+import type { ColliderVertex, CostumeBounds } from '@/types';
 
 /**
  * Calculate the bounding box of visible (non-transparent) pixels in an image.
@@ -77,3 +77,200 @@ export function calculateBoundsFromCanvas(canvas: HTMLCanvasElement, alphaThresh
   const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
   return calculateBoundsFromImageData(imageData, alphaThreshold);
 }
+
+// Neighbour offsets in clockwise order, starting from the left
+const NEIGHBOURS = [
+  [-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1],
+];
+
+/**
+ * Trace the outline of the largest visible shape in an image, for polygon colliders.
+ * Pixels count as visible with the same alpha threshold as calculateBoundsFromImageData.
+ * The outline is simplified to at most maxVertices points, in image coordinates.
+ * Returns null if the image has no shape big enough to make a polygon.
+ */
+export function traceOutlineFromImageData(
+  imageData: ImageData,
+  alphaThreshold: number = 10,
+  maxVertices: number = 24
+): ColliderVertex[] | null {
+  const { data, width, height } = imageData;
+
+  // Label each connected shape and remember the largest
+  const labels = new Int32Array(width * height);
+  let largestLabel = 0;
+  let largestSize = 0;
+  let largestStart = -1;
+  let nextLabel = 1;
+  const stack: number[] = [];
+
+  for (let start = 0; start < width * height; start++) {
+    if (labels[start] !== 0 || data[start * 4 + 3] <= alphaThreshold) continue;
+
+    const label = nextLabel++;
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      size++;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const nIdx = ny * width + nx;
+        if (labels[nIdx] === 0 && data[nIdx * 4 + 3] > alphaThreshold) {
+          labels[nIdx] = label;
+          stack.push(nIdx);
+        }
+      }
+    }
+
+    if (size > largestSize) {
+      largestSize = size;
+      largestLabel = label;
+      // The first pixel found in scan order is on the shape's outer edge, with nothing to its left
+      largestStart = start;
+    }
+  }
+
+  if (largestStart < 0) return null;
+
+  const isInside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === largestLabel;
+
+  // Walk around the edge (Moore neighbour tracing)
+  const outline: ColliderVertex[] = [];
+  const startX = largestStart % width;
+  const startY = (largestStart - startX) / width;
+  let x = startX;
+  let y = startY;
+  let backtrack = 0; // Direction of the last outside pixel checked
+  let second: ColliderVertex | null = null;
+  const maxSteps = largestSize * 4;
+  outline.push({ x: x + 0.5, y: y + 0.5 });
+
+  for (let step = 0; step < maxSteps; step++) {
+    let next: ColliderVertex | null = null;
+    for (let i = 1; i <= 8; i++) {
+      const dir = (backtrack + i) % 8;
+      const nx = x + NEIGHBOURS[dir][0];
+      const ny = y + NEIGHBOURS[dir][1];
+      if (isInside(nx, ny)) {
+        // The pixel checked before this one is outside; find its direction from the new pixel
+        const [px, py] = NEIGHBOURS[(dir + 7) % 8];
+        backtrack = NEIGHBOURS.findIndex(([dx, dy]) => dx === x + px - nx && dy === y + py - ny);
+        next = { x: nx, y: ny };
+        break;
+      }
+    }
+    if (!next) break; // A single pixel
+
+    // Done when the walk leaves the start the same way it did the first time
+    if (x === startX && y === startY && second && next.x === second.x && next.y === second.y) {
+      outline.pop();
+      break;
+    }
+    if (!second) second = next;
+
+    x = next.x;
+    y = next.y;
+    outline.push({ x: x + 0.5, y: y + 0.5 });
+  }
+
+  if (outline.length < 3) return null;
+  const simplified = simplifyPolygon(outline, maxVertices);
+  return simplified.length >= 3 ? simplified : null;
+}
+
+/**
+ * Smallest convex polygon around the points (monotone chain), in clockwise order
+ * on screen where +Y is down.
+ */
+export function convexHull(points: ColliderVertex[]): ColliderVertex[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: ColliderVertex, a: ColliderVertex, b: ColliderVertex) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: ColliderVertex[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: ColliderVertex[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Reduce a closed outline to at most maxVertices points (Douglas-Peucker), raising the
+ * tolerance until it fits so small details are dropped before big ones.
+ */
+export function simplifyPolygon(points: ColliderVertex[], maxVertices: number): ColliderVertex[] {
+  if (points.length <= maxVertices) return points;
+
+  // Split the loop at the point farthest from the first, so each half is an open line
+  let farthest = 0;
+  let farthestDist = -1;
+  for (let i = 1; i < points.length; i++) {
+    const dist = Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y);
+    if (dist > farthestDist) {
+      farthestDist = dist;
+      farthest = i;
+    }
+  }
+  const first = points.slice(0, farthest + 1);
+  const second = [...points.slice(farthest), points[0]];
+
+  let tolerance = 1;
+  let result = points;
+  while (result.length > maxVertices) {
+    result = [
+      ...simplifyLine(first, tolerance).slice(0, -1),
+      ...simplifyLine(second, tolerance).slice(0, -1),
+    ];
+    tolerance *= 1.5;
+  }
+  return result;
+}
+
+function simplifyLine(points: ColliderVertex[], tolerance: number): ColliderVertex[] {
+  if (points.length <= 2) return points;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+
+  let index = 0;
+  let maxDist = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const dist = length === 0
+      ? Math.hypot(p.x - start.x, p.y - start.y)
+      : Math.abs((end.x - start.x) * (start.y - p.y) - (start.x - p.x) * (end.y - start.y)) / length;
+    if (dist > maxDist) {
+      maxDist = dist;
+      index = i;
+    }
+  }
+
+  if (maxDist <= tolerance) return [start, end];
+  return [
+    ...simplifyLine(points.slice(0, index + 1), tolerance).slice(0, -1),
+    ...simplifyLine(points.slice(index), tolerance),
+  ];
+}
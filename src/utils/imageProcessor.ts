@@ -1,3 +1,5 @@
+import type { CostumeBounds } from '@/types';
+
 /**
  * Image processing utility for costumes
  * - Resizes images to fit within 950x950 (maintaining aspect ratio)
@@ -11,20 +13,21 @@ const WEBP_QUALITY = 0.85; // 85% quality - good balance of size and quality
 /**
  * Process an image file: resize if needed and convert to WebP
  * @param file - The image file to process
+ * @param maxSize - Largest width or height to keep (backdrops allow more than costumes)
  * @returns Promise resolving to a WebP data URL
  */
-export async function processImage(file: File): Promise<string> {
+export async function processImage(file: File, maxSize: number = MAX_SIZE): Promise<string> {
   return new Promise((resolve, reject) => {
     const img = new Image();
 
     img.onload = () => {
       try {
-        // Calculate new dimensions (fit within MAX_SIZE x MAX_SIZE)
+        // Calculate new dimensions (fit within maxSize x maxSize)
         let width = img.width;
         let height = img.height;
 
-        if (width > MAX_SIZE || height > MAX_SIZE) {
-          const ratio = Math.min(MAX_SIZE / width, MAX_SIZE / height);
+        if (width > maxSize || height > maxSize) {
+          const ratio = Math.min(maxSize / width, maxSize / height);
           width = Math.round(width * ratio);
           height = Math.round(height * ratio);
         }
@@ -159,3 +162,28 @@ export async function getImageDimensions(dataUrl: string): Promise<{ width: numb
     img.src = dataUrl;
   });
 }
+
+/**
+ * Cut the visible part out of a costume canvas, e.g. to use a painted costume as a backdrop
+ */
+export async function cropImage(dataUrl: string, bounds: CostumeBounds): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = bounds.width;
+      canvas.height = bounds.height;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUrl;
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Sound editor effects. The clip, or just a selected part of it, is rendered through an
+ * OfflineAudioContext and the result is encoded the same way as an imported sound.
+ */
+
+import { compressAudio, encodeAsWav } from './audioProcessor';
+
+export type SoundEffectType =
+  | 'fadeIn'
+  | 'fadeOut'
+  | 'louder'
+  | 'softer'
+  | 'faster'
+  | 'slower'
+  | 'reverse'
+  | 'echo'
+  | 'robot'
+  | 'silence'
+  | 'delete';
+
+export const SOUND_EFFECTS: { value: SoundEffectType; label: string }[] = [
+  { value: 'fadeIn', label: 'Fade in' },
+  { value: 'fadeOut', label: 'Fade out' },
+  { value: 'louder', label: 'Louder' },
+  { value: 'softer', label: 'Softer' },
+  { value: 'faster', label: 'Faster' },
+  { value: 'slower', label: 'Slower' },
+  { value: 'reverse', label: 'Reverse' },
+  { value: 'echo', label: 'Echo' },
+  { value: 'robot', label: 'Robot' },
+  { value: 'silence', label: 'Silence' },
+  { value: 'delete', label: 'Delete' },
+];
+
+// Effects that make the sound longer or shorter, so old trim points no longer line up
+export const LENGTH_CHANGING_EFFECTS: SoundEffectType[] = ['faster', 'slower', 'delete'];
+
+// Part of a sound in seconds
+export interface SoundRange {
+  start: number;
+  end: number;
+}
+
+// Same amounts as Scratch's sound editor
+const LOUDER_GAIN = 1.25;
+const SOFTER_GAIN = 0.75;
+const FASTER_RATE = 1.25; // Faster sounds are higher pitched too
+const SLOWER_RATE = 0.75;
+const ECHO_DELAY = 0.25; // Seconds
+const ECHO_FEEDBACK = 0.3;
+const ROBOT_DELAY = 1 / 120; // Short comb filter gives the metallic voice
+const ROBOT_FEEDBACK = 0.9;
+
+/**
+ * Apply an effect to a sound, or to the range when one is given
+ * @param dataUrl - The sound's audio
+ * @returns The new audio as a data URL and its length in seconds
+ */
+export async function applySoundEffect(
+  dataUrl: string,
+  effect: SoundEffectType,
+  range: SoundRange | null
+): Promise<{ dataUrl: string; duration: number }> {
+  const source = await decodeAudio(dataUrl);
+  const sampleRate = source.sampleRate;
+  const samples = getMonoSamples(source);
+
+  const start = range ? clampIndex(Math.floor(range.start * sampleRate), samples.length) : 0;
+  const end = range ? clampIndex(Math.ceil(range.end * sampleRate), samples.length) : samples.length;
+  const processed = effect === 'delete'
+    ? new Float32Array(0)
+    : await renderEffect(samples.slice(start, end), sampleRate, effect);
+
+  const result = new Float32Array(start + processed.length + (samples.length - end));
+  result.set(samples.subarray(0, start), 0);
+  result.set(processed, start);
+  result.set(samples.subarray(end), start + processed.length);
+  if (result.length === 0) {
+    throw new Error('Cannot delete the whole sound');
+  }
+
+  const buffer = new AudioBuffer({ length: result.length, numberOfChannels: 1, sampleRate });
+  buffer.copyToChannel(result, 0);
+  return {
+    dataUrl: await compressAudio(encodeAsWav(buffer, sampleRate)),
+    duration: result.length / sampleRate,
+  };
+}
+
+async function decodeAudio(dataUrl: string): Promise<AudioBuffer> {
+  const audioContext = new AudioContext();
+  try {
+    const response = await fetch(dataUrl);
+    return await audioContext.decodeAudioData(await response.arrayBuffer());
+  } finally {
+    audioContext.close();
+  }
+}
+
+// Sounds are stored mono, but decoded files can still come back with two channels
+function getMonoSamples(buffer: AudioBuffer): Float32Array<ArrayBuffer> {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(length, index));
+}
+
+async function renderEffect(
+  samples: Float32Array<ArrayBuffer>,
+  sampleRate: number,
+  effect: SoundEffectType
+): Promise<Float32Array<ArrayBuffer>> {
+  if (samples.length === 0) return samples;
+
+  const rate = effect === 'faster' ? FASTER_RATE : effect === 'slower' ? SLOWER_RATE : 1;
+  const length = Math.max(1, Math.round(samples.length / rate));
+  const duration = length / sampleRate;
+  const context = new OfflineAudioContext(1, length, sampleRate);
+
+  const input = context.createBuffer(1, samples.length, sampleRate);
+  input.copyToChannel(effect === 'reverse' ? samples.slice().reverse() : samples, 0);
+  const source = context.createBufferSource();
+  source.buffer = input;
+  source.playbackRate.value = rate;
+
+  const gain = context.createGain();
+  source.connect(gain);
+  gain.connect(context.destination);
+
+  switch (effect) {
+    case 'fadeIn':
+      gain.gain.setValueAtTime(0, 0);
+      gain.gain.linearRampToValueAtTime(1, duration);
+      break;
+    case 'fadeOut':
+      gain.gain.setValueAtTime(1, 0);
+      gain.gain.linearRampToValueAtTime(0, duration);
+      break;
+    case 'louder':
+      gain.gain.value = LOUDER_GAIN;
+      break;
+    case 'softer':
+      gain.gain.value = SOFTER_GAIN;
+      break;
+    case 'silence':
+      gain.gain.value = 0;
+      break;
+    case 'echo':
+      addFeedbackDelay(context, source, ECHO_DELAY, ECHO_FEEDBACK);
+      break;
+    case 'robot':
+      // Only the comb filter's output is heard
+      source.disconnect(gain);
+      addFeedbackDelay(context, source, ROBOT_DELAY, ROBOT_FEEDBACK);
+      break;
+  }
+
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0).slice();
+}
+
+// Repeat the input after a delay, each repeat quieter than the last
+function addFeedbackDelay(context: OfflineAudioContext, input: AudioNode, delayTime: number, feedback: number): void {
+  const delay = context.createDelay(Math.max(1, delayTime));
+  delay.delayTime.value = delayTime;
+  const feedbackGain = context.createGain();
+  feedbackGain.gain.value = feedback;
+
+  input.connect(delay);
+  delay.connect(feedbackGain);
+  feedbackGain.connect(delay);
+  delay.connect(context.destination);
+}
@@ -0,0 +1,117 @@
+/**
+ * Microphone recording for the sound editor: records a capture stream with MediaRecorder
+ * and reports the input level while recording.
+ */
+
+/**
+ * Where recordings come from. The default asks for the microphone; tests swap in a fake
+ * stream instead (see scripts/test-editor.ts).
+ */
+export type AudioCaptureSource = () => Promise<MediaStream>;
+
+const microphoneSource: AudioCaptureSource = () => navigator.mediaDevices.getUserMedia({ audio: true });
+
+let captureSource: AudioCaptureSource = microphoneSource;
+
+// Pass null to go back to the microphone
+export function setAudioCaptureSource(source: AudioCaptureSource | null): void {
+  captureSource = source ?? microphoneSource;
+}
+
+export class SoundRecorder {
+  private stream: MediaStream;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private context: AudioContext;
+  private analyser: AnalyserNode;
+  private samples: Float32Array<ArrayBuffer>;
+  private frame: number | null = null;
+
+  private constructor(stream: MediaStream, onLevel: (level: number) => void) {
+    this.stream = stream;
+    this.recorder = new MediaRecorder(stream);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        this.chunks.push(e.data);
+      }
+    };
+
+    this.context = new AudioContext();
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.context.createMediaStreamSource(stream).connect(this.analyser);
+
+    const measure = () => {
+      onLevel(this.getLevel());
+      this.frame = requestAnimationFrame(measure);
+    };
+    measure();
+    this.recorder.start();
+  }
+
+  /**
+   * Start recording from the capture source. Rejects if it can't be opened
+   * (for example when microphone permission is denied).
+   * @param onLevel - Called every frame with the input level from 0 to 1
+   */
+  static async start(onLevel: (level: number) => void): Promise<SoundRecorder> {
+    const stream = await captureSource();
+    try {
+      return new SoundRecorder(stream, onLevel);
+    } catch (error) {
+      // Let go of the microphone, or the browser keeps showing it as in use
+      for (const track of stream.getTracks()) {
+        track.stop();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Finish recording
+   * @returns The recording as a data URL, in the browser's MediaRecorder format
+   */
+  stop(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.recorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: this.recorder.mimeType || 'audio/webm' });
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+      };
+      this.release();
+    });
+  }
+
+  // Throw the recording away
+  cancel(): void {
+    this.recorder.onstop = null;
+    this.release();
+  }
+
+  // Peak of the latest samples, so short loud sounds still move the meter
+  private getLevel(): number {
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let peak = 0;
+    for (const sample of this.samples) {
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    return Math.min(1, peak);
+  }
+
+  private release(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    for (const track of this.stream.getTracks()) {
+      track.stop();
+    }
+    void this.context.close();
+  }
+}
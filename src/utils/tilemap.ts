@@ -0,0 +1,160 @@
+/**
+ * Tilemap editing helpers shared by the stage editor and the runtime.
+ * Tile grids are flat, row-major arrays of tileset indexes where -1 is an empty cell.
+ */
+
+import type { TilemapConfig } from '@/types';
+
+export const EMPTY_TILE = -1;
+
+export interface TileCell {
+  column: number;
+  row: number;
+}
+
+/**
+ * Create an empty tilemap that covers the stage
+ */
+export function createTilemap(
+  tileset: string,
+  tilesetWidth: number,
+  tilesetHeight: number,
+  tileSize: number,
+  canvasWidth: number,
+  canvasHeight: number
+): TilemapConfig {
+  const tilesetColumns = Math.max(1, Math.floor(tilesetWidth / tileSize));
+  const tilesetRows = Math.max(1, Math.floor(tilesetHeight / tileSize));
+  const columns = Math.ceil(canvasWidth / tileSize);
+  const rows = Math.ceil(canvasHeight / tileSize);
+  return {
+    tileset,
+    tilesetColumns,
+    tileCount: tilesetColumns * tilesetRows,
+    tileSize,
+    columns,
+    rows,
+    tiles: new Array(columns * rows).fill(EMPTY_TILE),
+    solidTiles: [],
+  };
+}
+
+/**
+ * Grow or shrink the map, keeping tiles anchored to the top-left corner
+ */
+export function resizeTilemap(tilemap: TilemapConfig, columns: number, rows: number): TilemapConfig {
+  const tiles: number[] = new Array(columns * rows).fill(EMPTY_TILE);
+  for (let row = 0; row < Math.min(rows, tilemap.rows); row++) {
+    for (let column = 0; column < Math.min(columns, tilemap.columns); column++) {
+      tiles[row * columns + column] = tilemap.tiles[row * tilemap.columns + column];
+    }
+  }
+  return { ...tilemap, columns, rows, tiles };
+}
+
+/**
+ * Swap in a new tileset, keeping the painted map. Cells and solid flags for tiles the new
+ * tileset doesn't have are cleared.
+ */
+export function replaceTileset(tilemap: TilemapConfig, tileset: string, tilesetColumns: number, tileCount: number): TilemapConfig {
+  return {
+    ...tilemap,
+    tileset,
+    tilesetColumns,
+    tileCount,
+    tiles: tilemap.tiles.map(tile => (tile < tileCount ? tile : EMPTY_TILE)),
+    solidTiles: tilemap.solidTiles.filter(tile => tile < tileCount),
+  };
+}
+
+/**
+ * Find the cell under a point in Phaser world space, or null outside the map
+ */
+export function getTileCell(tilemap: TilemapConfig, worldX: number, worldY: number): TileCell | null {
+  const column = Math.floor(worldX / tilemap.tileSize);
+  const row = Math.floor(worldY / tilemap.tileSize);
+  if (column < 0 || row < 0 || column >= tilemap.columns || row >= tilemap.rows) {
+    return null;
+  }
+  return { column, row };
+}
+
+export function getTile(tilemap: TilemapConfig, cell: TileCell): number {
+  return tilemap.tiles[cell.row * tilemap.columns + cell.column] ?? EMPTY_TILE;
+}
+
+/**
+ * Set one cell. Returns the same array when nothing changes so callers can skip the store update.
+ */
+export function setTile(tiles: number[], columns: number, cell: TileCell, tile: number): number[] {
+  const index = cell.row * columns + cell.column;
+  if (tiles[index] === tile) return tiles;
+  const next = tiles.slice();
+  next[index] = tile;
+  return next;
+}
+
+/**
+ * Set every cell in the rectangle spanned by two corner cells
+ */
+export function fillTileRect(tiles: number[], columns: number, from: TileCell, to: TileCell, tile: number): number[] {
+  const next = tiles.slice();
+  const left = Math.min(from.column, to.column);
+  const right = Math.max(from.column, to.column);
+  const top = Math.min(from.row, to.row);
+  const bottom = Math.max(from.row, to.row);
+  for (let row = top; row <= bottom; row++) {
+    for (let column = left; column <= right; column++) {
+      next[row * columns + column] = tile;
+    }
+  }
+  return next;
+}
+
+/**
+ * Replace the connected area of matching tiles around a cell (4-way, like the paint bucket)
+ */
+export function floodFillTiles(tiles: number[], columns: number, rows: number, start: TileCell, tile: number): number[] {
+  const target = tiles[start.row * columns + start.column];
+  if (target === tile) return tiles;
+
+  const next = tiles.slice();
+  const stack: number[] = [start.row * columns + start.column];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (next[index] !== target) continue;
+    next[index] = tile;
+
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    if (column > 0) stack.push(index - 1);
+    if (column < columns - 1) stack.push(index + 1);
+    if (row > 0) stack.push(index - columns);
+    if (row < rows - 1) stack.push(index + columns);
+  }
+  return next;
+}
+
+/**
+ * Merge each row's solid tiles into horizontal runs so physics objects slide along
+ * them without catching on the seams between tiles. Rectangles are in world space.
+ */
+export function getSolidTileRects(tilemap: TilemapConfig): { x: number; y: number; width: number; height: number }[] {
+  const solid = new Set(tilemap.solidTiles);
+  const rects: { x: number; y: number; width: number; height: number }[] = [];
+  const size = tilemap.tileSize;
+
+  for (let row = 0; row < tilemap.rows; row++) {
+    let runStart = -1;
+    for (let column = 0; column <= tilemap.columns; column++) {
+      const isSolid = column < tilemap.columns && solid.has(tilemap.tiles[row * tilemap.columns + column]);
+      if (isSolid && runStart < 0) {
+        runStart = column;
+      } else if (!isSolid && runStart >= 0) {
+        rects.push({ x: runStart * size, y: row * size, width: (column - runStart) * size, height: size });
+        runStart = -1;
+      }
+    }
+  }
+  return rects;
+}